@@ -0,0 +1,24 @@
+const RecordRevision = require('./models/RecordRevision');
+const { loadShared } = require('./shared');
+
+// Appends one entry to a week's audit trail. `before` and `after` are plain
+// record objects (toObject()); pass null for the side that does not exist.
+// `session` writes it inside that transaction.
+const logRevision = async ({ action, before, after, user, restoredFrom, session }) => {
+  const { diffRecords } = await loadShared('audit');
+  const { _id, __v, ...snapshot } = after || before;
+
+  await RecordRevision.create([{
+    recordId: _id,
+    revision: snapshot.revision || 0,
+    action,
+    restoredFrom,
+    userId: user._id,
+    userName: user.name,
+    at: new Date().toISOString(),
+    changes: after ? diffRecords(before, after) : [],
+    snapshot
+  }], { session });
+};
+
+module.exports = { logRevision };
@@ -0,0 +1,22 @@
+const mongoose = require('mongoose');
+
+// Connection string with its credentials, e.g. a MongoDB Atlas mongodb+srv:// URI
+const mongoUrl = process.env.MONGODB_URI;
+
+if (!mongoUrl) {
+  console.error('❌ MONGODB_URI is not set. Refusing to start without a database connection string.');
+  process.exit(1);
+}
+
+const connectDatabase = () => {
+  console.log("Attempting to connect to database...");
+
+  return mongoose.connect(mongoUrl)
+    .then(() => console.log('✅ Connected to MongoDB successfully'))
+    .catch(err => {
+      console.error('❌ MongoDB Connection Error:', err);
+      process.exit(1); // Stop the server if DB fails
+    });
+};
+
+module.exports = { connectDatabase };
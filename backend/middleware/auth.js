@@ -0,0 +1,70 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const User = require('../models/User');
+const RevokedToken = require('../models/RevokedToken');
+
+const JWT_SECRET = process.env.JWT_SECRET;
+const TOKEN_TTL = process.env.TOKEN_TTL || '12h';
+
+if (!JWT_SECRET) {
+  console.error('❌ JWT_SECRET is not set. Refusing to start without a token signing secret.');
+  process.exit(1);
+}
+
+const issueToken = (user) => {
+  return jwt.sign({ sub: String(user._id) }, JWT_SECRET, {
+    expiresIn: TOKEN_TTL,
+    jwtid: crypto.randomUUID()
+  });
+};
+
+const revokeToken = async (payload) => {
+  await RevokedToken.updateOne(
+    { jti: payload.jti },
+    { jti: payload.jti, expiresAt: new Date(payload.exp * 1000) },
+    { upsert: true }
+  );
+};
+
+// Verifies the "Authorization: Bearer <token>" header and attaches
+// the signed-in user (req.user) and the decoded token (req.token).
+const requireAuth = async (req, res, next) => {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authentication token' });
+  }
+
+  let payload;
+  try {
+    payload = jwt.verify(token, JWT_SECRET);
+  } catch (e) {
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+
+  try {
+    if (await RevokedToken.exists({ jti: payload.jti })) {
+      return res.status(401).json({ error: 'Session has been logged out' });
+    }
+
+    const user = await User.findById(payload.sub);
+    if (!user) {
+      return res.status(401).json({ error: 'User no longer exists' });
+    }
+
+    req.user = user;
+    req.token = payload;
+    next();
+  } catch (e) { res.status(500).json({ error: e.message }) }
+};
+
+// Must run after requireAuth. Rejects users whose role is not listed.
+const requireRole = (...roles) => (req, res, next) => {
+  if (!roles.includes(req.user.role)) {
+    return res.status(403).json({ error: 'You do not have permission to do this' });
+  }
+  next();
+};
+
+module.exports = { issueToken, revokeToken, requireAuth, requireRole };
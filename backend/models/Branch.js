@@ -0,0 +1,18 @@
+const mongoose = require('mongoose');
+
+// A shop location. Every weekly record belongs to exactly one branch.
+const BranchSchema = new mongoose.Schema({
+  name: { type: String, required: true, unique: true, trim: true },
+  createdAt: { type: String, default: () => new Date().toISOString() }
+});
+
+BranchSchema.set('toJSON', {
+  virtuals: true,
+  versionKey: false,
+  transform: function (doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+  }
+});
+
+module.exports = mongoose.model('Branch', BranchSchema);
@@ -0,0 +1,33 @@
+const mongoose = require('mongoose');
+
+// Money a customer paid back against their credit
+const CollectionSchema = new mongoose.Schema({
+  amount: Number,
+  date: String, // YYYY-MM-DD
+  note: String
+}, { _id: false });
+
+// A regular who buys on credit (udhaar), e.g. a hotel or mess. Belongs to the
+// branch that serves it, so its balance comes from that branch's weeks.
+// Credit sales point at it by id and keep a copy of the name.
+const CustomerSchema = new mongoose.Schema({
+  branchId: { type: mongoose.Schema.Types.ObjectId, ref: 'Branch', required: true, index: true },
+  name: { type: String, required: true, trim: true },
+  phone: { type: String, trim: true },
+  notes: String,
+  collections: { type: [CollectionSchema], default: [] },
+  createdAt: { type: String, default: () => new Date().toISOString() }
+});
+
+CustomerSchema.index({ branchId: 1, name: 1 }, { unique: true });
+
+CustomerSchema.set('toJSON', {
+  virtuals: true,
+  versionKey: false,
+  transform: function (doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+  }
+});
+
+module.exports = mongoose.model('Customer', CustomerSchema);
@@ -0,0 +1,19 @@
+const mongoose = require('mongoose');
+
+// A kind of Sunday cost (ice, helper wages, ...) offered in the expense list.
+// Shared by every branch.
+const ExpenseCategorySchema = new mongoose.Schema({
+  name: { type: String, required: true, unique: true, trim: true },
+  createdAt: { type: String, default: () => new Date().toISOString() }
+});
+
+ExpenseCategorySchema.set('toJSON', {
+  virtuals: true,
+  versionKey: false,
+  transform: function (doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+  }
+});
+
+module.exports = mongoose.model('ExpenseCategory', ExpenseCategorySchema);
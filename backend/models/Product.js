@@ -0,0 +1,22 @@
+const mongoose = require('mongoose');
+
+// Something sold over the counter (curry cut, boneless, ...) with the usual
+// price per kg, offered on the sales entry. Sales lines keep their own name
+// and price, so editing the catalogue does not change past weeks.
+// Shared by every branch.
+const ProductSchema = new mongoose.Schema({
+  name: { type: String, required: true, unique: true, trim: true },
+  price: Number, // Default price per kg; missing until the owner sets one
+  createdAt: { type: String, default: () => new Date().toISOString() }
+});
+
+ProductSchema.set('toJSON', {
+  virtuals: true,
+  versionKey: false,
+  transform: function (doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+  }
+});
+
+module.exports = mongoose.model('Product', ProductSchema);
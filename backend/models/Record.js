@@ -0,0 +1,141 @@
+const mongoose = require('mongoose');
+
+// One Sunday cost, e.g. { category: 'Ice', amount: 200 }
+const ExpenseLineSchema = new mongoose.Schema({
+  category: { type: String, required: true, trim: true },
+  amount: Number,
+  note: String,
+  mode: { type: String, enum: ['cash', 'upi'] } // Missing means paid from the drawer
+}, { _id: false });
+
+// One row of the end-of-day cash count, e.g. { value: 500, count: 12 }
+const DenominationSchema = new mongoose.Schema({
+  value: Number,
+  count: Number
+}, { _id: false });
+
+// One product sold on Sunday; amount is recomputed on every save
+const SalesLineSchema = new mongoose.Schema({
+  product: { type: String, required: true, trim: true }, // Product name at the time of sale
+  quantity: Number, // kg
+  price: Number, // per kg
+  amount: Number
+}, { _id: false });
+
+// One sale logged at the counter (POS); rolled up into the sales fields when the day is closed
+const PosTransactionSchema = new mongoose.Schema({
+  at: String, // ISO String
+  weight: Number, // kg
+  price: Number, // per kg
+  mode: { type: String, enum: ['cash', 'upi'] },
+  product: String
+}, { _id: false });
+
+// Meat a customer took on credit this week
+const CreditSaleSchema = new mongoose.Schema({
+  customerId: { type: mongoose.Schema.Types.ObjectId, ref: 'Customer' },
+  customer: { type: String, trim: true }, // Name at the time of sale
+  amount: Number,
+  note: String
+}, { _id: false });
+
+// Money handed to the farm for one lot
+const SupplierPaymentSchema = new mongoose.Schema({
+  amount: Number,
+  date: String,
+  note: String
+}, { _id: false });
+
+// One farm's share of a Saturday purchase; cost is recomputed on every save
+const PurchaseLotSchema = new mongoose.Schema({
+  supplierId: { type: mongoose.Schema.Types.ObjectId, ref: 'Supplier' }, // Missing for names typed before the directory
+  supplier: { type: String, trim: true }, // Name at the time of purchase
+  hens: Number,
+  liveWeight: Number,
+  rate: Number,
+  cost: Number,
+  date: String, // YYYY-MM-DD bought; weekDate is only the week's first day
+  // Missing means paid in full at purchase; otherwise the unpaid rest is owed
+  payments: { type: [SupplierPaymentSchema], default: undefined }
+}, { _id: false });
+
+// Data Structure
+const RecordSchema = new mongoose.Schema({
+  branchId: { type: mongoose.Schema.Types.ObjectId, ref: 'Branch', index: true },
+  weekDate: String,
+  createdAt: String,
+  updatedAt: String, // Set by the server on every save
+  revision: { type: Number, default: 0 }, // Bumped on every update; a PUT must send the revision it was based on
+  deletedAt: String, // Set while the week is in the trash; missing for live weeks
+  deletedBy: String, // Name of the user who trashed it
+  salesCompletedAt: String,
+  // Set only when the week was bought in lots; the three figures below are then their totals
+  purchaseLots: { type: [PurchaseLotSchema], default: undefined },
+  totalHens: Number,
+  totalLiveWeight: Number,
+  purchaseRate: Number, // Weighted average when bought in lots
+  totalPurchaseCost: Number,
+  // Birds kept unsold from an earlier week of the branch; copied from its carry-over on every save
+  openingFromId: { type: mongoose.Schema.Types.ObjectId, ref: 'WeeklyRecord' },
+  openingHens: Number,
+  openingWeight: Number, // Live kg
+  openingCost: Number,
+  isSalesEntryComplete: Boolean,
+  // Set only when sales were itemized; sellingPrice is then their average
+  salesLines: { type: [SalesLineSchema], default: undefined },
+  sellingPrice: Number,
+  cashCollected: Number,
+  upiCollected: Number,
+  // Counted in revenue; what is still owed is tracked on the customer
+  creditSales: { type: [CreditSaleSchema], default: undefined },
+  // Counter sales the day was closed from, kept for reconciling the cash and UPI
+  posTransactions: { type: [PosTransactionSchema], default: undefined },
+  // No default: records saved before line items must stay distinguishable
+  expenses: { type: [ExpenseLineSchema], default: undefined },
+  expenseTea: Number, // Legacy, moved into `expenses` (npm run migrate-expenses)
+  expenseFuel: Number, // Legacy, moved into `expenses` (npm run migrate-expenses)
+  totalExpenses: Number,
+  totalCredit: Number,
+  totalRevenue: Number, // Cash + UPI + credit
+  meatSold: Number,
+  wastage: Number,
+  wastagePercentage: Number,
+  netProfit: Number,
+  profitPerHen: Number,
+  profitPerKg: Number,
+  // Birds kept for next week; carryOverCost is recomputed on every save
+  carryOverHens: Number,
+  carryOverWeight: Number, // Live kg
+  carryOverCost: Number, // At the week's average cost per live kg
+  // Optional yield weights (kg) and what they break wastage into; see shared/yield.js
+  mortalityCount: Number,
+  mortalityWeight: Number, // Live weight of birds that died before slaughter
+  dressedWeight: Number,
+  leftoverWeight: Number, // Dressed meat not sold
+  mortalityPercentage: Number,
+  dressingYield: Number, // % of the slaughtered live weight
+  unexplainedShrinkage: Number, // kg dressed but neither sold nor left over
+  // End-of-day drawer count; the three figures after it are recomputed on every save
+  cashDenominations: { type: [DenominationSchema], default: undefined },
+  cashFloat: Number, // Opening float put in the drawer before selling
+  cashCountedAt: String,
+  cashCounted: Number,
+  cashExpected: Number, // Float + cash sales - cash-paid expenses
+  cashVariance: Number // Counted - expected: positive is over, negative short
+});
+
+// Handle the "_id" conversion for frontend
+RecordSchema.set('toJSON', {
+  virtuals: true,
+  versionKey: false,
+  transform: function (doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+  }
+});
+
+// One live record per branch and week. Trashed copies differ by deletedAt.
+// Run `npm run merge-duplicate-weeks` first if older data has duplicates.
+RecordSchema.index({ branchId: 1, weekDate: 1, deletedAt: 1 }, { unique: true });
+
+module.exports = mongoose.model('WeeklyRecord', RecordSchema);
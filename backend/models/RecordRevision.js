@@ -0,0 +1,41 @@
+const mongoose = require('mongoose');
+
+// delete/undelete move a week in and out of the trash; purge removes it for good
+const ACTIONS = ['create', 'update', 'delete', 'undelete', 'purge', 'restore'];
+
+// One entry in a week's audit trail. Written once, never changed.
+const RecordRevisionSchema = new mongoose.Schema({
+  recordId: { type: mongoose.Schema.Types.ObjectId, ref: 'WeeklyRecord', required: true, index: true },
+  revision: Number, // The record's revision after this action (before it, for deletes)
+  action: { type: String, enum: ACTIONS, required: true },
+  restoredFrom: Number, // For restores: the revision that was brought back
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  userName: String,
+  at: String, // ISO String
+  changes: [{ _id: false, field: String, from: mongoose.Schema.Types.Mixed, to: mongoose.Schema.Types.Mixed }],
+  snapshot: mongoose.Schema.Types.Mixed // Full record after the action (before it, for deletes)
+});
+
+// Append-only: refuse anything that would edit or remove an entry
+const refuseChange = function (next) {
+  next(new Error('Record revisions cannot be changed'));
+};
+RecordRevisionSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  refuseChange
+);
+RecordRevisionSchema.pre('save', function (next) {
+  if (!this.isNew) return refuseChange(next);
+  next();
+});
+
+RecordRevisionSchema.set('toJSON', {
+  versionKey: false,
+  transform: function (doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+  }
+});
+
+module.exports = mongoose.model('RecordRevision', RecordRevisionSchema);
+module.exports.ACTIONS = ACTIONS;
@@ -0,0 +1,12 @@
+const mongoose = require('mongoose');
+
+// Tokens ended by /auth/logout before their natural expiry.
+// MongoDB drops each entry once the token would have expired anyway.
+const RevokedTokenSchema = new mongoose.Schema({
+  jti: { type: String, required: true, unique: true },
+  expiresAt: { type: Date, required: true }
+});
+
+RevokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.model('RevokedToken', RevokedTokenSchema);
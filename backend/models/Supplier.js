@@ -0,0 +1,23 @@
+const mongoose = require('mongoose');
+
+// A farm the shop buys live birds from. Purchase lots point at one by id and
+// keep a copy of the name, so past weeks still read correctly after a rename
+// or removal. Shared by every branch.
+const SupplierSchema = new mongoose.Schema({
+  name: { type: String, required: true, unique: true, trim: true },
+  phone: { type: String, trim: true },
+  location: { type: String, trim: true },
+  notes: String,
+  createdAt: { type: String, default: () => new Date().toISOString() }
+});
+
+SupplierSchema.set('toJSON', {
+  virtuals: true,
+  versionKey: false,
+  transform: function (doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+  }
+});
+
+module.exports = mongoose.model('Supplier', SupplierSchema);
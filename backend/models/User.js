@@ -0,0 +1,37 @@
+const mongoose = require('mongoose');
+const bcrypt = require('bcryptjs');
+
+// owner:   full access (purchases, edits, deletes, exports)
+// cashier: Sunday sales entry for the open week only
+// viewer:  read-only dashboard
+const ROLES = ['owner', 'cashier', 'viewer'];
+
+const UserSchema = new mongoose.Schema({
+  name: { type: String, required: true },
+  email: { type: String, required: true, unique: true, lowercase: true, trim: true },
+  passwordHash: { type: String, required: true },
+  role: { type: String, enum: ROLES, default: 'viewer' },
+  createdAt: { type: String, default: () => new Date().toISOString() }
+});
+
+UserSchema.methods.setPassword = async function (password) {
+  this.passwordHash = await bcrypt.hash(password, 12);
+};
+
+UserSchema.methods.checkPassword = function (password) {
+  return bcrypt.compare(password, this.passwordHash);
+};
+
+// Never send the password hash to the frontend
+UserSchema.set('toJSON', {
+  virtuals: true,
+  versionKey: false,
+  transform: function (doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.passwordHash;
+  }
+});
+
+module.exports = mongoose.model('User', UserSchema);
+module.exports.ROLES = ROLES;
@@ -0,0 +1,35 @@
+const express = require('express');
+const User = require('../models/User');
+const { issueToken, revokeToken, requireAuth } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.post('/login', async (req, res) => {
+  try {
+    const { email, password } = req.body || {};
+    if (!email || !password) {
+      return res.status(400).json({ error: 'Email and password are required' });
+    }
+
+    const user = await User.findOne({ email: String(email).toLowerCase().trim() });
+    // Same message for unknown email and wrong password
+    if (!user || !(await user.checkPassword(String(password)))) {
+      return res.status(401).json({ error: 'Incorrect email or password' });
+    }
+
+    res.json({ token: issueToken(user), user });
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+router.post('/logout', requireAuth, async (req, res) => {
+  try {
+    await revokeToken(req.token);
+    res.json({ message: 'Logged out' });
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+router.get('/me', requireAuth, (req, res) => {
+  res.json(req.user);
+});
+
+module.exports = router;
@@ -0,0 +1,37 @@
+const express = require('express');
+const Branch = require('../models/Branch');
+const { requireAuth, requireRole } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+router.get('/', async (req, res) => {
+  try {
+    const branches = await Branch.find().sort({ name: 1 });
+    res.json(branches);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+router.post('/', requireRole('owner'), async (req, res) => {
+  try {
+    const name = String((req.body || {}).name || '').trim();
+    if (!name) return res.status(400).json({ error: 'Branch name is required' });
+
+    const saved = await new Branch({ name }).save();
+    res.json(saved);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+router.put('/:id', requireRole('owner'), async (req, res) => {
+  try {
+    const name = String((req.body || {}).name || '').trim();
+    if (!name) return res.status(400).json({ error: 'Branch name is required' });
+
+    const updated = await Branch.findByIdAndUpdate(req.params.id, { name }, {new: true});
+    if (!updated) return res.status(404).json({error: "Not found"});
+    res.json(updated);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+module.exports = router;
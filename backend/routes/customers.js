@@ -0,0 +1,115 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const Customer = require('../models/Customer');
+const Branch = require('../models/Branch');
+const RecordModel = require('../models/Record');
+const { requireAuth, requireRole } = require('../middleware/auth');
+const { loadShared } = require('../shared');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+// Only the editable details; collections have their own route
+const customerFields = (body) => {
+  const { name, phone, notes } = body || {};
+  return {
+    name: String(name || '').trim(),
+    phone: phone ? String(phone).trim() : undefined,
+    notes: notes ? String(notes) : undefined
+  };
+};
+
+// Unique index on branch + name
+const isDuplicate = (e) => e && e.code === 11000;
+
+// ?branchId=<id> limits the list to one shop
+router.get('/', async (req, res) => {
+  try {
+    const { branchId } = req.query;
+    if (branchId && !mongoose.isValidObjectId(branchId)) {
+      return res.status(400).json({ error: 'Invalid branchId' });
+    }
+    const customers = await Customer.find(branchId ? { branchId } : {}).sort({ name: 1 });
+    res.json(customers);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+// Cashiers add customers while entering Sunday sales
+router.post('/', requireRole('owner', 'cashier'), async (req, res) => {
+  try {
+    const { branchId } = req.body || {};
+    if (!mongoose.isValidObjectId(branchId) || !(await Branch.exists({ _id: branchId }))) {
+      return res.status(400).json({ error: 'A valid branchId is required' });
+    }
+    const fields = customerFields(req.body);
+    if (!fields.name) return res.status(400).json({ error: 'Customer name is required' });
+
+    const saved = await new Customer({ ...fields, branchId }).save();
+    res.json(saved);
+  } catch(e) {
+    if (isDuplicate(e)) return res.status(409).json({ error: 'A customer with this name already exists' });
+    res.status(500).json({error: e.message});
+  }
+});
+
+router.put('/:id', requireRole('owner'), async (req, res) => {
+  try {
+    const fields = customerFields(req.body);
+    if (!fields.name) return res.status(400).json({ error: 'Customer name is required' });
+
+    // Cleared details are removed rather than kept
+    const unset = Object.keys(fields).filter(key => fields[key] === undefined);
+    const set = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+    const updated = await Customer.findByIdAndUpdate(
+      req.params.id,
+      { $set: set, $unset: Object.fromEntries(unset.map(key => [key, 1])) },
+      {new: true}
+    );
+    if (!updated) return res.status(404).json({error: "Not found"});
+    res.json(updated);
+  } catch(e) {
+    if (isDuplicate(e)) return res.status(409).json({ error: 'A customer with this name already exists' });
+    res.status(500).json({error: e.message});
+  }
+});
+
+// Records money received against the customer's credit
+router.post('/:id/collections', requireRole('owner', 'cashier'), async (req, res) => {
+  try {
+    const amount = Number(req.body?.amount);
+    const date = String(req.body?.date || '');
+    if (!Number.isFinite(amount) || amount <= 0 || Number.isNaN(new Date(date).getTime())) {
+      return res.status(400).json({ error: 'A collection needs an amount above 0 and a date' });
+    }
+    const collection = { amount, date, ...(req.body.note ? { note: String(req.body.note) } : {}) };
+    const updated = await Customer.findByIdAndUpdate(req.params.id, { $push: { collections: collection } }, {new: true});
+    if (!updated) return res.status(404).json({error: "Not found"});
+    res.json(updated);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+// Past credit sales keep the customer's name. A customer who still owes money
+// stays, so the debt keeps counting towards what is owed.
+router.delete('/:id', requireRole('owner'), async (req, res) => {
+  try {
+    const customer = mongoose.isValidObjectId(req.params.id) ? await Customer.findById(req.params.id) : null;
+    if (!customer) return res.status(404).json({error: "Not found"});
+
+    const { customerBalance } = await loadShared('credit');
+    const records = await RecordModel.find({ branchId: customer.branchId, deletedAt: null, 'creditSales.0': { $exists: true } });
+    const { outstanding } = customerBalance(
+      { ...customer.toObject(), id: customer.id },
+      records.map(record => record.toObject())
+    );
+    if (outstanding > 0) {
+      return res.status(400).json({ error: `${customer.name} still owes ₹${outstanding}. Collect it first.` });
+    }
+
+    const deleted = await Customer.findByIdAndDelete(customer._id);
+    if (!deleted) return res.status(404).json({error: "Not found"});
+    res.json({message: "Deleted"});
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+module.exports = router;
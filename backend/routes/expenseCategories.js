@@ -0,0 +1,38 @@
+const express = require('express');
+const ExpenseCategory = require('../models/ExpenseCategory');
+const { requireAuth, requireRole } = require('../middleware/auth');
+const { loadShared } = require('../shared');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+// The first request fills in the default categories
+router.get('/', async (req, res) => {
+  try {
+    if (await ExpenseCategory.countDocuments() === 0) {
+      const { DEFAULT_EXPENSE_CATEGORIES } = await loadShared('expenses');
+      await ExpenseCategory.insertMany(DEFAULT_EXPENSE_CATEGORIES.map(name => ({ name })), { ordered: false })
+        .catch(() => {}); // A parallel request may have seeded them already
+    }
+    const categories = await ExpenseCategory.find().sort({ name: 1 });
+    res.json(categories);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+// Cashiers record the Sunday costs, so they may add categories too
+router.post('/', requireRole('owner', 'cashier'), async (req, res) => {
+  try {
+    const name = String((req.body || {}).name || '').trim();
+    if (!name) return res.status(400).json({ error: 'Category name is required' });
+
+    // Adding an existing name just returns it
+    const existing = await ExpenseCategory.findOne({ name }).collation({ locale: 'en', strength: 2 });
+    if (existing) return res.json(existing);
+
+    const saved = await new ExpenseCategory({ name }).save();
+    res.json(saved);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+module.exports = router;
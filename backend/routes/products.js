@@ -0,0 +1,81 @@
+const express = require('express');
+const Product = require('../models/Product');
+const { requireAuth, requireRole } = require('../middleware/auth');
+const { loadShared } = require('../shared');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+// Name plus an optional default price; anything else in the body is ignored
+const productFields = (body) => {
+  const { name, price } = body || {};
+  const value = Number(price);
+  return {
+    name: String(name || '').trim(),
+    price: price === undefined || price === null || price === '' ? undefined : value
+  };
+};
+
+const invalidPrice = (price) => price !== undefined && (!Number.isFinite(price) || price <= 0);
+
+// Unique index on name
+const isDuplicate = (e) => e && e.code === 11000;
+
+// The first request fills in the default products
+router.get('/', async (req, res) => {
+  try {
+    if (await Product.countDocuments() === 0) {
+      const { DEFAULT_PRODUCTS } = await loadShared('sales');
+      await Product.insertMany(DEFAULT_PRODUCTS.map(name => ({ name })), { ordered: false })
+        .catch(() => {}); // A parallel request may have seeded them already
+    }
+    const products = await Product.find().sort({ name: 1 });
+    res.json(products);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+// Cashiers enter the Sunday sales, so they may add products too.
+// Adding an existing name just returns it.
+router.post('/', requireRole('owner', 'cashier'), async (req, res) => {
+  try {
+    const fields = productFields(req.body);
+    if (!fields.name) return res.status(400).json({ error: 'Product name is required' });
+    if (invalidPrice(fields.price)) return res.status(400).json({ error: 'Price must be greater than 0' });
+
+    const existing = await Product.findOne({ name: fields.name }).collation({ locale: 'en', strength: 2 });
+    if (existing) return res.json(existing);
+
+    const saved = await new Product(fields).save();
+    res.json(saved);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+router.put('/:id', requireRole('owner'), async (req, res) => {
+  try {
+    const fields = productFields(req.body);
+    if (!fields.name) return res.status(400).json({ error: 'Product name is required' });
+    if (invalidPrice(fields.price)) return res.status(400).json({ error: 'Price must be greater than 0' });
+
+    const update = fields.price === undefined
+      ? { $set: { name: fields.name }, $unset: { price: 1 } }
+      : { $set: fields };
+    const updated = await Product.findByIdAndUpdate(req.params.id, update, {new: true});
+    if (!updated) return res.status(404).json({error: "Not found"});
+    res.json(updated);
+  } catch(e) {
+    if (isDuplicate(e)) return res.status(409).json({ error: 'A product with this name already exists' });
+    res.status(500).json({error: e.message});
+  }
+});
+
+// Past sales lines keep the product's name, so removing one loses no history
+router.delete('/:id', requireRole('owner'), async (req, res) => {
+  try {
+    const deleted = await Product.findByIdAndDelete(req.params.id);
+    if (!deleted) return res.status(404).json({error: "Not found"});
+    res.json({message: "Deleted"});
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+module.exports = router;
@@ -0,0 +1,321 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const RecordModel = require('../models/Record');
+const Branch = require('../models/Branch');
+const RecordRevision = require('../models/RecordRevision');
+const { requireAuth, requireRole } = require('../middleware/auth');
+const { loadShared, weekStartDay } = require('../shared');
+const { logRevision } = require('../audit');
+
+const router = express.Router();
+
+// Saturday purchase fields: only an owner may change these
+const PURCHASE_FIELDS = ['branchId', 'weekDate', 'createdAt', 'purchaseLots', 'totalHens', 'totalLiveWeight', 'purchaseRate', 'openingFromId'];
+
+// Lots are compared by their inputs; each lot's cost is recomputed anyway
+const purchaseValue = (field, value) => {
+  // A cleared field arrives as null and is stored as missing
+  if (field !== 'purchaseLots') return value == null ? '' : String(value);
+  return JSON.stringify((value || []).map(({ supplierId, supplier, hens, liveWeight, rate, payments }) =>
+    [String(supplierId || ''), supplier || '', hens, liveWeight, rate, payments || null]));
+};
+
+// Merges the client's raw inputs over the stored record (null clears a field)
+// and recomputes every derived field here, so saved profits always match the
+// inputs.
+const buildRecord = async (existing, body) => {
+  const { calculateRecordMetrics, mergeInputs } = await loadShared('metrics');
+  const { migrateLegacyExpenses } = await loadShared('expenses');
+  const { weekStartOf } = await loadShared('weeks');
+  const { withLotDates } = await loadShared('purchases');
+  const { _id, id, revision, deletedAt, deletedBy, ...merged } = mergeInputs(existing ? existing.toObject() : {}, body);
+  // Any date in a week files under its first day; the lots keep the day itself
+  const inputs = withLotDates(merged);
+  inputs.weekDate = weekStartOf(inputs.weekDate, weekStartDay());
+  // Any save also converts old tea/fuel figures into expense lines
+  return { ...calculateRecordMetrics(migrateLegacyExpenses(inputs)), updatedAt: new Date().toISOString() };
+};
+
+// Sends a 400 listing per-field problems; returns true if the record was rejected
+const rejectInvalid = async (record, res) => {
+  const { validateRecord } = await loadShared('validation');
+  const fieldErrors = validateRecord(record);
+  if (Object.keys(fieldErrors).length === 0) return false;
+
+  res.status(400).json({ error: 'Please correct the highlighted fields', fieldErrors });
+  return true;
+};
+
+// Copies the leftover of the week named by `openingFromId` onto the record
+// being saved (or clears the opening stock if none is named) and recomputes
+// it. Sends a 400 and resolves to null if that week cannot be opened from.
+const withOpeningStock = async (record, id, res) => {
+  const { openingStockFrom, openingStockProblem, withoutOpeningStock } = await loadShared('stock');
+  const { calculateRecordMetrics, stripDerivedFields } = await loadShared('metrics');
+  if (!record.openingFromId) return calculateRecordMetrics(stripDerivedFields(withoutOpeningStock(record)));
+
+  const source = mongoose.isValidObjectId(record.openingFromId)
+    ? await RecordModel.findOne({ _id: record.openingFromId, deletedAt: null })
+    : null;
+  const claims = source ? await RecordModel.find({ openingFromId: source._id, deletedAt: null }).select('openingFromId') : [];
+  const problem = openingStockProblem(
+    { ...record, _id: id },
+    source && source.toObject(),
+    claims.map(claim => claim.toObject())
+  );
+  if (problem) {
+    res.status(400).json({ error: problem, fieldErrors: { openingFromId: problem } });
+    return null;
+  }
+  return calculateRecordMetrics(stripDerivedFields({ ...record, ...openingStockFrom(source.toObject()) }));
+};
+
+// A week whose leftover another week opened with keeps its carry-over as is.
+// Sends a 400 and returns true if this save would change it.
+const rejectClaimedCarryOver = async (existing, record, res) => {
+  const stored = existing.toObject();
+  const changed = ['carryOverHens', 'carryOverWeight'].some(field => (Number(stored[field]) || 0) !== (Number(record[field]) || 0));
+  if (!changed) return false;
+
+  const claim = await RecordModel.findOne({ openingFromId: existing._id, deletedAt: null });
+  if (!claim) return false;
+  const message = `These birds were carried into the week of ${claim.weekDate}. Remove them there first.`;
+  res.status(400).json({ error: message, fieldErrors: { carryOverWeight: message } });
+  return true;
+};
+
+// Sends a 400 and returns true if another live record of the branch already
+// has this week; the client adds to that one instead
+const rejectDuplicateWeek = async (record, id, res) => {
+  const other = await RecordModel.findOne({
+    branchId: record.branchId || null,
+    weekDate: record.weekDate,
+    deletedAt: null,
+    ...(id ? { _id: { $ne: id } } : {})
+  });
+  if (!other) return false;
+  const message = `The week of ${record.weekDate} already has a record. Add to it instead.`;
+  res.status(400).json({ error: message, fieldErrors: { weekDate: message } });
+  return true;
+};
+
+// 409 with the stored copy, so the client can show both versions side by side
+const sendConflict = (res, current) =>
+  res.status(409).json({ error: 'This week was changed by someone else while you were editing', current });
+
+// Replaces the stored record with `record` and bumps its revision, unless
+// another save landed after `existing` was read. Replacing (not updating) also
+// clears derived fields that no longer apply. Sends the 409/404 itself and
+// resolves to null when the write did not happen.
+const replaceRecord = async (existing, record, res) => {
+  // Records saved before revisions existed have no revision field at all
+  const revision = existing.revision || 0;
+  const updated = await RecordModel.findOneAndReplace(
+    { _id: existing._id, revision: revision || { $in: [0, null] } },
+    { ...record, revision: revision + 1 },
+    { new: true }
+  );
+  if (updated) return updated;
+
+  const current = await RecordModel.findById(existing._id);
+  if (current && !current.deletedAt) sendConflict(res, current);
+  else res.status(404).json({error: "Not found"});
+  return null;
+};
+
+// Live weeks only; trashed ones are not found by edits
+const findLiveRecord = (id) => RecordModel.findOne({ _id: id, deletedAt: null });
+
+// ?branchId=<id> limits a list to one shop
+const branchFilter = (req, res) => {
+  const { branchId } = req.query;
+  if (branchId && !mongoose.isValidObjectId(branchId)) {
+    res.status(400).json({ error: 'Invalid branchId' });
+    return null;
+  }
+  return branchId ? { branchId } : {};
+};
+
+// Every records route needs a signed-in user
+router.use(requireAuth);
+
+// ?branchId=<id> scopes the list to one shop; without it every branch is returned.
+// Trashed weeks are left out, so every total built from this list excludes them.
+router.get('/', async (req, res) => {
+  try {
+    const filter = branchFilter(req, res);
+    if (!filter) return;
+    const records = await RecordModel.find({ ...filter, deletedAt: null }).sort({ weekDate: -1 });
+    res.json(records);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+// The trash, most recently deleted first
+router.get('/trash', requireRole('owner'), async (req, res) => {
+  try {
+    const filter = branchFilter(req, res);
+    if (!filter) return;
+    const records = await RecordModel.find({ ...filter, deletedAt: { $ne: null } }).sort({ deletedAt: -1 });
+    res.json(records);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+// Trashed weeks are returned too, with deletedAt set
+router.get('/:id', async (req, res) => {
+  try {
+    const record = await RecordModel.findById(req.params.id);
+    if (!record) return res.status(404).json({error: "Not found"});
+    res.json(record);
+  } catch(e) { res.status(404).json({error: "Not found"}) }
+});
+
+router.post('/', requireRole('owner'), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.body.branchId) || !(await Branch.exists({ _id: req.body.branchId }))) {
+      return res.status(400).json({ error: 'A valid branchId is required' });
+    }
+    const record = await withOpeningStock(await buildRecord(null, req.body), undefined, res);
+    if (!record) return;
+    if (await rejectInvalid(record, res)) return;
+    if (await rejectDuplicateWeek(record, undefined, res)) return;
+
+    const newRecord = new RecordModel({ ...record, revision: 0 });
+    const saved = await newRecord.save();
+    await logRevision({ action: 'create', before: null, after: saved.toObject(), user: req.user });
+    res.json(saved);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+router.put('/:id', requireRole('owner', 'cashier'), async (req, res) => {
+  try {
+    const existing = await findLiveRecord(req.params.id);
+    if (!existing) return res.status(404).json({error: "Not found"});
+
+    // Optimistic concurrency: the edit must start from the stored revision
+    if (Number(req.body.revision) !== (existing.revision || 0)) return sendConflict(res, existing);
+
+    if (req.user.role === 'cashier') {
+      // Cashiers only complete the open week's sales
+      if (existing.isSalesEntryComplete) {
+        return res.status(403).json({ error: 'Only the open week can be edited by a cashier' });
+      }
+      const stored = existing.toObject();
+      const changed = PURCHASE_FIELDS.filter(f => f in req.body && purchaseValue(f, req.body[f]) !== purchaseValue(f, stored[f]));
+      if (changed.length > 0) {
+        return res.status(403).json({ error: `Cashiers cannot change purchase fields: ${changed.join(', ')}` });
+      }
+    }
+
+    const record = await withOpeningStock(await buildRecord(existing, req.body), existing._id, res);
+    if (!record) return;
+    if (await rejectInvalid(record, res)) return;
+    if (await rejectDuplicateWeek(record, existing._id, res)) return;
+    if (await rejectClaimedCarryOver(existing, record, res)) return;
+
+    const updated = await replaceRecord(existing, record, res);
+    if (!updated) return;
+    await logRevision({ action: 'update', before: existing.toObject(), after: updated.toObject(), user: req.user });
+    res.json(updated);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+// Audit trail of one week, newest first. Entries outlive the record itself.
+router.get('/:id/history', requireRole('owner', 'cashier'), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({error: "Not found"});
+    const revisions = await RecordRevision.find({ recordId: req.params.id }).sort({ at: -1 });
+    res.json(revisions);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+// Brings back the inputs of an earlier revision as a new revision.
+// Like PUT, the body must carry the revision the owner was looking at.
+router.post('/:id/restore/:revisionId', requireRole('owner'), async (req, res) => {
+  try {
+    const existing = await findLiveRecord(req.params.id);
+    if (!existing) return res.status(404).json({error: "Not found"});
+    if (Number(req.body.revision) !== (existing.revision || 0)) return sendConflict(res, existing);
+
+    const entry = mongoose.isValidObjectId(req.params.revisionId)
+      ? await RecordRevision.findOne({ _id: req.params.revisionId, recordId: existing._id })
+      : null;
+    if (!entry || !entry.snapshot) return res.status(404).json({ error: 'Revision not found' });
+
+    // Built from the snapshot alone so fields added after it are cleared again
+    const record = await withOpeningStock(await buildRecord(null, entry.snapshot), existing._id, res);
+    if (!record) return;
+    if (await rejectInvalid(record, res)) return;
+    if (await rejectDuplicateWeek(record, existing._id, res)) return;
+    if (await rejectClaimedCarryOver(existing, record, res)) return;
+
+    const updated = await replaceRecord(existing, record, res);
+    if (!updated) return;
+    await logRevision({
+      action: 'restore',
+      before: existing.toObject(),
+      after: updated.toObject(),
+      user: req.user,
+      restoredFrom: entry.revision
+    });
+    res.json(updated);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+// Moves the week to the trash. It keeps its data and can be brought back.
+router.delete('/:id', requireRole('owner'), async (req, res) => {
+  try {
+    const existing = await findLiveRecord(req.params.id);
+    if (existing) {
+      // The week that opened with this week's leftover would lose its source
+      const claim = await RecordModel.findOne({ openingFromId: existing._id, deletedAt: null });
+      if (claim) {
+        return res.status(400).json({
+          error: `The birds kept this week were carried into the week of ${claim.weekDate}. Remove them there first.`
+        });
+      }
+      const deleted = await RecordModel.findOneAndUpdate(
+        { _id: existing._id, deletedAt: null },
+        { $set: { deletedAt: new Date().toISOString(), deletedBy: req.user.name }, $inc: { revision: 1 } },
+        { new: true }
+      );
+      if (deleted) {
+        await logRevision({ action: 'delete', before: existing.toObject(), after: deleted.toObject(), user: req.user });
+      }
+    }
+    res.json({message: "Deleted"});
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+// Takes a week back out of the trash
+router.post('/:id/undelete', requireRole('owner'), async (req, res) => {
+  try {
+    const existing = mongoose.isValidObjectId(req.params.id)
+      ? await RecordModel.findOne({ _id: req.params.id, deletedAt: { $ne: null } })
+      : null;
+    if (!existing) return res.status(404).json({ error: 'Not in the trash' });
+    if (await rejectDuplicateWeek(existing, existing._id, res)) return;
+
+    const restored = await RecordModel.findOneAndUpdate(
+      { _id: existing._id, deletedAt: { $ne: null } },
+      { $unset: { deletedAt: 1, deletedBy: 1 }, $inc: { revision: 1 } },
+      { new: true }
+    );
+    if (!restored) return res.status(404).json({ error: 'Not in the trash' });
+    await logRevision({ action: 'undelete', before: existing.toObject(), after: restored.toObject(), user: req.user });
+    res.json(restored);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+// Permanently removes a trashed week. Its audit trail is kept.
+router.delete('/:id/purge', requireRole('owner'), async (req, res) => {
+  try {
+    const purged = mongoose.isValidObjectId(req.params.id)
+      ? await RecordModel.findOneAndDelete({ _id: req.params.id, deletedAt: { $ne: null } })
+      : null;
+    if (!purged) return res.status(404).json({ error: 'Not in the trash' });
+    await logRevision({ action: 'purge', before: purged.toObject(), after: null, user: req.user });
+    res.json({message: "Purged"});
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+module.exports = router;
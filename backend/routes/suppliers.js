@@ -0,0 +1,81 @@
+const express = require('express');
+const Supplier = require('../models/Supplier');
+const { requireAuth, requireRole } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+// Only the editable details; anything else in the body is ignored
+const supplierFields = (body) => {
+  const { name, phone, location, notes } = body || {};
+  return {
+    name: String(name || '').trim(),
+    phone: phone ? String(phone).trim() : undefined,
+    location: location ? String(location).trim() : undefined,
+    notes: notes ? String(notes) : undefined
+  };
+};
+
+// Unique index on name
+const isDuplicate = (e) => e && e.code === 11000;
+
+router.get('/', async (req, res) => {
+  try {
+    const suppliers = await Supplier.find().sort({ name: 1 });
+    res.json(suppliers);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const supplier = await Supplier.findById(req.params.id);
+    if (!supplier) return res.status(404).json({error: "Not found"});
+    res.json(supplier);
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+router.post('/', requireRole('owner'), async (req, res) => {
+  try {
+    const fields = supplierFields(req.body);
+    if (!fields.name) return res.status(400).json({ error: 'Supplier name is required' });
+
+    const saved = await new Supplier(fields).save();
+    res.json(saved);
+  } catch(e) {
+    if (isDuplicate(e)) return res.status(409).json({ error: 'A supplier with this name already exists' });
+    res.status(500).json({error: e.message});
+  }
+});
+
+router.put('/:id', requireRole('owner'), async (req, res) => {
+  try {
+    const fields = supplierFields(req.body);
+    if (!fields.name) return res.status(400).json({ error: 'Supplier name is required' });
+
+    // Cleared details are removed rather than kept
+    const unset = Object.keys(fields).filter(key => fields[key] === undefined);
+    const set = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+    const updated = await Supplier.findByIdAndUpdate(
+      req.params.id,
+      { $set: set, $unset: Object.fromEntries(unset.map(key => [key, 1])) },
+      {new: true}
+    );
+    if (!updated) return res.status(404).json({error: "Not found"});
+    res.json(updated);
+  } catch(e) {
+    if (isDuplicate(e)) return res.status(409).json({ error: 'A supplier with this name already exists' });
+    res.status(500).json({error: e.message});
+  }
+});
+
+// Past purchase lots keep the supplier's name, so removing one loses no history
+router.delete('/:id', requireRole('owner'), async (req, res) => {
+  try {
+    const deleted = await Supplier.findByIdAndDelete(req.params.id);
+    if (!deleted) return res.status(404).json({error: "Not found"});
+    res.json({message: "Deleted"});
+  } catch(e) { res.status(500).json({error: e.message}) }
+});
+
+module.exports = router;
@@ -0,0 +1,30 @@
+// Usage: npm run create-user -- <email> <password> "<name>" [owner|cashier|viewer]
+const mongoose = require('mongoose');
+const { connectDatabase } = require('../db');
+const User = require('../models/User');
+
+const [email, password, name, role = 'owner'] = process.argv.slice(2);
+
+if (!email || !password || !name || !User.ROLES.includes(role)) {
+  console.error(`Usage: npm run create-user -- <email> <password> "<name>" [${User.ROLES.join('|')}]`);
+  process.exit(1);
+}
+
+const run = async () => {
+  await connectDatabase();
+
+  const existing = await User.findOne({ email: email.toLowerCase().trim() });
+  const user = existing || new User({ email, name });
+  user.name = name;
+  user.role = role;
+  await user.setPassword(password);
+  await user.save();
+
+  console.log(`✅ ${existing ? 'Updated' : 'Created'} ${user.role} ${user.email}`);
+  await mongoose.disconnect();
+};
+
+run().catch(err => {
+  console.error('❌ Failed to create user:', err);
+  process.exit(1);
+});
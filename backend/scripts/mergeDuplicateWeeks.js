@@ -0,0 +1,158 @@
+// One-off: files every week under its week-start day (WEEK_START_DAY) and
+// folds records that then share a branch and week into the oldest of them.
+// The others are moved to the trash, so the merge shows in both audit trails
+// and can be undone by hand. Run before the unique week index is built.
+// Every merge is worked out and checked before anything is written; weeks
+// that cannot be merged without losing data (conflicting carry-over claims,
+// sales itemized on one record only) are listed and left alone to fix by
+// hand. Each week is then written in one transaction, so a failure leaves it
+// untouched and a re-run picks it up. The unique index is built once no
+// duplicates are left.
+// Usage: npm run merge-duplicate-weeks [-- --dry-run]
+const mongoose = require('mongoose');
+const { connectDatabase } = require('../db');
+const RecordModel = require('../models/Record');
+const { loadShared, weekStartDay } = require('../shared');
+const { logRevision } = require('../audit');
+
+const dryRun = process.argv.includes('--dry-run');
+const user = { name: 'Duplicate week merge' };
+
+// Matches only the stored revision the plan was made from
+const unchanged = (record) => ({ _id: record._id, deletedAt: null, revision: record.revision || { $in: [0, null] } });
+
+const run = async () => {
+  await connectDatabase();
+  const { weekStartOf, mergeWeeks, mergeProblem } = await loadShared('weeks');
+  const { calculateRecordMetrics, stripDerivedFields } = await loadShared('metrics');
+  const { validateRecord } = await loadShared('validation');
+  const { openingStockFrom } = await loadShared('stock');
+  const { withLotDates } = await loadShared('purchases');
+
+  const records = await RecordModel.find({ deletedAt: null }).sort({ createdAt: 1 });
+  const weeks = new Map();
+  records.forEach(record => {
+    const key = `${record.branchId || ''}|${weekStartOf(record.weekDate, weekStartDay())}`;
+    weeks.set(key, [...(weeks.get(key) || []), record]);
+  });
+
+  // Work out every merge first
+  const plans = [];
+  const skipped = [];
+  for (const [key, group] of weeks) {
+    const [keep, ...others] = group;
+    const weekDate = key.split('|')[1];
+    if (others.length === 0 && keep.weekDate === weekDate) continue;
+    const skip = (reason) => skipped.push(`Week of ${weekDate} (${group.map(r => r._id).join(', ')}): ${reason}`);
+
+    // Later weeks that opened with these records' leftover birds
+    const ids = group.map(r => String(r._id));
+    const claims = records.filter(r => r.openingFromId && ids.includes(String(r.openingFromId)));
+    if (claims.some(claim => ids.includes(String(claim._id)))) {
+      skip('one of these records opened with another one\'s leftover birds');
+      continue;
+    }
+    if (claims.length > 1) {
+      skip(`leftover birds were carried into more than one week (${claims.map(c => c.weekDate).join(', ')})`);
+      continue;
+    }
+
+    // Each lot keeps the day its own record was dated, before the week moves
+    let problem;
+    const mergedWeek = others.reduce((week, other) => {
+      problem = problem || mergeProblem(week, other.toObject());
+      return problem ? week : calculateRecordMetrics(mergeWeeks(week, withLotDates(other.toObject())));
+    }, withLotDates(keep.toObject()));
+    if (problem) {
+      skip(problem);
+      continue;
+    }
+
+    const { _id, revision, ...inputs } = mergedWeek;
+    const record = calculateRecordMetrics(stripDerivedFields({ ...inputs, weekDate }));
+    const fieldErrors = validateRecord(record);
+    if (Object.keys(fieldErrors).length > 0) {
+      skip(`the merged week is invalid (${Object.values(fieldErrors).join('; ')})`);
+      continue;
+    }
+
+    // The week that opened with their leftover now opens with the merged one
+    const claim = claims[0];
+    const claimRecord = claim && calculateRecordMetrics(stripDerivedFields({
+      ...claim.toObject(),
+      ...openingStockFrom({ ...record, _id: keep._id })
+    }));
+    plans.push({ weekDate, keep, others, record, claim, claimRecord });
+  }
+
+  plans.forEach(({ weekDate, keep, others, claim }) => {
+    console.log(others.length > 0
+      ? `Week of ${weekDate}: merging ${others.map(r => `${r._id} (${r.weekDate})`).join(', ')} into ${keep._id} (${keep.weekDate})`
+      : `Moving ${keep._id} from ${keep.weekDate} to ${weekDate}`);
+    if (claim) console.log(`  The week of ${claim.weekDate} (${claim._id}) now opens with the merged leftover`);
+  });
+  skipped.forEach(line => console.log(`Skipped ${line}`));
+
+  if (dryRun) {
+    console.log('Dry run: nothing was changed');
+    await mongoose.disconnect();
+    return;
+  }
+
+  let moved = 0;
+  let merged = 0;
+  let failed = 0;
+  for (const { weekDate, keep, others, record, claim, claimRecord } of plans) {
+    try {
+      await mongoose.connection.transaction(async (session) => {
+        // Trash the duplicates first so the kept record can take the week
+        for (const other of others) {
+          const deleted = await RecordModel.findOneAndUpdate(
+            unchanged(other),
+            { $set: { deletedAt: new Date().toISOString(), deletedBy: user.name }, $inc: { revision: 1 } },
+            { new: true, session }
+          );
+          if (!deleted) throw new Error(`${other._id} changed while merging`);
+          await logRevision({ action: 'delete', before: other.toObject(), after: deleted.toObject(), user, session });
+        }
+
+        const updated = await RecordModel.findOneAndReplace(
+          unchanged(keep),
+          { ...record, updatedAt: new Date().toISOString(), revision: (keep.revision || 0) + 1 },
+          { new: true, session }
+        );
+        if (!updated) throw new Error(`${keep._id} changed while merging`);
+        await logRevision({ action: 'update', before: keep.toObject(), after: updated.toObject(), user, session });
+
+        if (claim) {
+          const { _id, ...claimInputs } = claimRecord;
+          const reopened = await RecordModel.findOneAndReplace(
+            unchanged(claim),
+            { ...claimInputs, updatedAt: new Date().toISOString(), revision: (claim.revision || 0) + 1 },
+            { new: true, session }
+          );
+          if (!reopened) throw new Error(`${claim._id} changed while merging`);
+          await logRevision({ action: 'update', before: claim.toObject(), after: reopened.toObject(), user, session });
+        }
+      });
+      moved++;
+      merged += others.length;
+    } catch (err) {
+      console.error(`❌ Week of ${weekDate} was left as it was: ${err.message}`);
+      failed++;
+    }
+  }
+
+  console.log(`✅ Updated ${moved} week(s); ${merged} duplicate(s) merged and moved to the trash`);
+  if (skipped.length + failed > 0) {
+    console.log(`⚠️ ${skipped.length + failed} week(s) not merged; fix them and run again to build the unique week index`);
+  } else {
+    await RecordModel.createIndexes();
+  }
+  await mongoose.disconnect();
+};
+
+run().catch(err => {
+  console.error('❌ Merge failed:', err);
+  process.exit(1);
+});
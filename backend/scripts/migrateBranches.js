@@ -0,0 +1,31 @@
+// One-off: moves records saved before branches existed into a branch.
+// Usage: npm run migrate-branches -- "<branch name>"
+const mongoose = require('mongoose');
+const { connectDatabase } = require('../db');
+const Branch = require('../models/Branch');
+const RecordModel = require('../models/Record');
+
+const [name] = process.argv.slice(2);
+
+if (!name) {
+  console.error('Usage: npm run migrate-branches -- "<branch name>"');
+  process.exit(1);
+}
+
+const run = async () => {
+  await connectDatabase();
+
+  const branch = await Branch.findOne({ name }) || await new Branch({ name }).save();
+  const result = await RecordModel.updateMany(
+    { $or: [{ branchId: { $exists: false } }, { branchId: null }] },
+    { branchId: branch._id }
+  );
+
+  console.log(`✅ Assigned ${result.modifiedCount} record(s) to "${branch.name}"`);
+  await mongoose.disconnect();
+};
+
+run().catch(err => {
+  console.error('❌ Migration failed:', err);
+  process.exit(1);
+});
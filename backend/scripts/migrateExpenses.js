@@ -0,0 +1,30 @@
+// One-off: turns the old fixed tea/fuel figures into expense line items.
+// Usage: npm run migrate-expenses
+const mongoose = require('mongoose');
+const { connectDatabase } = require('../db');
+const RecordModel = require('../models/Record');
+const { loadShared } = require('../shared');
+
+const run = async () => {
+  await connectDatabase();
+  const { migrateLegacyExpenses, LEGACY_EXPENSE_FIELDS } = await loadShared('expenses');
+  const legacyFields = Object.keys(LEGACY_EXPENSE_FIELDS);
+
+  const records = await RecordModel.find({ $or: legacyFields.map(field => ({ [field]: { $exists: true } })) });
+  for (const record of records) {
+    const { expenses } = migrateLegacyExpenses(record.toObject());
+    // totalExpenses is unchanged, so the revision is left alone
+    await RecordModel.updateOne(
+      { _id: record._id },
+      { $set: { expenses }, $unset: Object.fromEntries(legacyFields.map(field => [field, 1])) }
+    );
+  }
+
+  console.log(`✅ Converted expenses on ${records.length} record(s)`);
+  await mongoose.disconnect();
+};
+
+run().catch(err => {
+  console.error('❌ Migration failed:', err);
+  process.exit(1);
+});
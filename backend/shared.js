@@ -0,0 +1,20 @@
+// The business rules in ../shared are ES modules shared with the frontend.
+// This CommonJS app loads them once with a dynamic import.
+const cache = {};
+
+const loadShared = async (name) => {
+  if (!cache[name]) {
+    cache[name] = import(`../shared/${name}.js`);
+  }
+  return cache[name];
+};
+
+// First day of the week that weekDate is normalised to, 0 (Sunday) to 6
+// (Saturday). Set WEEK_START_DAY to match the app's `weekStartDay`; unset or
+// invalid falls back to the shared default, Saturday.
+const weekStartDay = () => {
+  const day = Number(process.env.WEEK_START_DAY);
+  return process.env.WEEK_START_DAY && Number.isInteger(day) && day >= 0 && day <= 6 ? day : undefined;
+};
+
+module.exports = { loadShared, weekStartDay };
@@ -1,40 +1,120 @@
 import React, { useState, useEffect } from 'react';
-import { WeeklyRecord, AppView, User } from './types';
+import { WeeklyRecord, AppView, User, Branch, ExpenseCategory, Supplier, SupplierPayment, Customer, CustomerCollection, Product, CONSOLIDATED_BRANCH } from './types';
 import * as Storage from './services/storageService';
 import * as AuthService from './services/authService';
+import * as BranchService from './services/branchService';
+import * as ExpenseCategoryService from './services/expenseCategoryService';
+import * as SupplierService from './services/supplierService';
+import * as SettingsService from './services/settingsService';
+import * as CustomerService from './services/customerService';
+import * as ProductService from './services/productService';
+import * as PosService from './services/posService';
+import { ApiError, isUnauthorized } from './services/apiClient';
+import { can } from './utils/permissions';
+import { DEFAULT_EXPENSE_CATEGORIES } from './utils/expenses';
+import { DEFAULT_PRODUCTS } from './utils/sales';
+import { getPurchaseLots } from './utils/purchases';
+import { Payable } from './utils/payables';
 import Dashboard from './components/Dashboard';
 import PurchaseForm from './components/PurchaseForm';
 import SalesForm from './components/SalesForm';
 import HistoryList from './components/HistoryList';
+import TrashList from './components/TrashList';
+import SupplierList from './components/SupplierList';
+import PayablesList from './components/PayablesList';
+import CustomerList from './components/CustomerList';
+import ProductCatalogue from './components/ProductCatalogue';
+import PosScreen from './components/PosScreen';
+import ScenarioSimulator from './components/ScenarioSimulator';
+import UndoSnackbar from './components/UndoSnackbar';
 import AuthForm from './components/AuthForm';
-import { LayoutDashboard, History, PlusCircle, AlertTriangle, LogOut } from 'lucide-react';
+import BranchSwitcher from './components/BranchSwitcher';
+import SyncStatusBar from './components/SyncStatusBar';
+import { LayoutDashboard, History, PlusCircle, AlertTriangle, LogOut, Truck, Users, SlidersHorizontal } from 'lucide-react';
 
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [view, setView] = useState<AppView>(AppView.DASHBOARD);
   const [records, setRecords] = useState<WeeklyRecord[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [branchId, setBranchId] = useState<string>(CONSOLIDATED_BRANCH);
+  const [expenseCategories, setExpenseCategories] = useState<ExpenseCategory[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [settings, setSettings] = useState(SettingsService.getSettings);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [recentlyDeleted, setRecentlyDeleted] = useState<WeeklyRecord | null>(null); // Offered for undo
   const [activeRecord, setActiveRecord] = useState<WeeklyRecord | undefined>(undefined);
+  const [online, setOnline] = useState(navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
 
-  // Initial Load (Auth Check)
+  // Initial Load (Auth Check against the server)
   useEffect(() => {
-    const currentUser = AuthService.getCurrentUser();
-    if (currentUser) {
-      setUser(currentUser);
-      loadData();
-    } else {
-      setLoading(false);
-    }
+    AuthService.getCurrentUser().then(currentUser => {
+      if (currentUser) {
+        setUser(currentUser);
+        loadData();
+      } else {
+        setLoading(false);
+      }
+    });
   }, []);
 
+  // Replay offline entries as soon as the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      if (user) loadData();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [user]);
+
   const loadData = async () => {
     setLoading(true);
     setError(null);
     try {
-      const data = await Storage.getRecords();
+      // Push anything saved offline first so the list below includes it
+      await Storage.syncPendingWrites();
+      setPendingCount(await Storage.countPendingWrites());
+
+      const branchList = await BranchService.getBranches();
+      // Fall back to the first branch if the remembered one no longer exists
+      const saved = BranchService.getSelectedBranchId();
+      const selected = saved === CONSOLIDATED_BRANCH || branchList.some(b => b.id === saved)
+        ? saved as string
+        : branchList[0]?.id || CONSOLIDATED_BRANCH;
+
+      const data = await Storage.getRecords(selected === CONSOLIDATED_BRANCH ? undefined : selected);
+      // Not worth failing the whole screen over; the defaults still work
+      const categories = await ExpenseCategoryService.getExpenseCategories()
+        .catch(() => DEFAULT_EXPENSE_CATEGORIES.map(name => ({ id: name, name })));
+      const productList = await ProductService.getProducts()
+        .catch(() => DEFAULT_PRODUCTS.map(name => ({ id: name, name })));
+      const supplierList = await SupplierService.getSuppliers().catch(() => []);
+      const customerList = await CustomerService.getCustomers(selected === CONSOLIDATED_BRANCH ? undefined : selected)
+        .catch(() => []);
+      setBranches(branchList);
+      setExpenseCategories(categories);
+      setSuppliers(supplierList);
+      setCustomers(customerList);
+      setProducts(productList);
+      setBranchId(selected);
       setRecords(data);
     } catch (err) {
+      if (isUnauthorized(err)) {
+        // Token expired or was revoked: send the user back to the login screen
+        handleLogout();
+        return;
+      }
       setError("Failed to load records. Is the backend running?");
       console.error(err);
     } finally {
@@ -47,50 +127,234 @@ const App: React.FC = () => {
     loadData();
   };
 
-  const handleLogout = () => {
-    AuthService.logout();
+  const handleLogout = async () => {
+    await AuthService.logout();
     setUser(null);
     setRecords([]);
+    setBranches([]);
     setView(AppView.DASHBOARD);
   };
 
-  const handleSavePurchase = async (record: WeeklyRecord) => {
-    setLoading(true);
+  const handleAddExpenseCategory = async (name: string): Promise<ExpenseCategory> => {
+    const category = await ExpenseCategoryService.createExpenseCategory(name);
+    setExpenseCategories(current =>
+      current.some(c => c.id === category.id)
+        ? current
+        : [...current, category].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    return category;
+  };
+
+  const reloadSuppliers = async () => setSuppliers(await SupplierService.getSuppliers());
+
+  const handleCreateSupplier = async (input: SupplierService.SupplierInput): Promise<Supplier> => {
+    const supplier = await SupplierService.createSupplier(input);
+    await reloadSuppliers();
+    return supplier;
+  };
+
+  const handleUpdateSupplier = async (id: string, input: SupplierService.SupplierInput): Promise<Supplier> => {
+    const supplier = await SupplierService.updateSupplier(id, input);
+    await reloadSuppliers();
+    return supplier;
+  };
+
+  const handleDeleteSupplier = async (id: string) => {
+    await SupplierService.deleteSupplier(id);
+    await reloadSuppliers();
+  };
+
+  const reloadProducts = async () => setProducts(await ProductService.getProducts());
+
+  const handleCreateProduct = async (input: ProductService.ProductInput): Promise<Product> => {
+    const product = await ProductService.createProduct(input);
+    await reloadProducts();
+    return product;
+  };
+
+  const handleUpdateProduct = async (id: string, input: ProductService.ProductInput): Promise<Product> => {
+    const product = await ProductService.updateProduct(id, input);
+    await reloadProducts();
+    return product;
+  };
+
+  const handleDeleteProduct = async (id: string) => {
+    await ProductService.deleteProduct(id);
+    await reloadProducts();
+  };
+
+  const reloadCustomers = async () =>
+    setCustomers(await CustomerService.getCustomers(branchId === CONSOLIDATED_BRANCH ? undefined : branchId));
+
+  // Customers belong to a branch: the selected one, or the week's in sales entry
+  const handleCreateCustomer = async (customerBranchId: string, input: CustomerService.CustomerInput): Promise<Customer> => {
+    const customer = await CustomerService.createCustomer(customerBranchId, input);
+    await reloadCustomers();
+    return customer;
+  };
+
+  const handleUpdateCustomer = async (id: string, input: CustomerService.CustomerInput): Promise<Customer> => {
+    const customer = await CustomerService.updateCustomer(id, input);
+    await reloadCustomers();
+    return customer;
+  };
+
+  const handleDeleteCustomer = async (id: string) => {
+    await CustomerService.deleteCustomer(id);
+    await reloadCustomers();
+  };
+
+  const handleRecordCollection = async (id: string, collection: CustomerCollection) => {
+    await CustomerService.recordCollection(id, collection);
+    await reloadCustomers();
+  };
+
+  // Adds the payment to the lot it settles and saves the week
+  const handleRecordPayment = async (payable: Payable, payment: SupplierPayment) => {
+    const record = records.find(r => r.id === payable.recordId);
+    if (!record) throw new Error('Week not found');
+    const purchaseLots = getPurchaseLots(record).map((lot, index) =>
+      index === payable.lotIndex ? { ...lot, payments: [...(lot.payments || []), payment] } : lot
+    );
     try {
-      const savedRecord = await Storage.saveRecord(record);
-      await loadData();
-      // Redirect directly to Sales Entry for the just-created record
-      setActiveRecord(savedRecord);
-      setView(AppView.ENTRY_SALES);
+      await handleSaveRecord({ ...record, purchaseLots });
+    } finally {
+      // Also picks up the newer copy when the save lost a race
+      await refreshRecords();
+    }
+  };
+
+  // Persists a form's record. Errors are rethrown so the form can show them
+  // next to the right inputs.
+  const handleSaveRecord = async (record: WeeklyRecord): Promise<WeeklyRecord> => {
+    try {
+      return await Storage.saveRecord(record);
     } catch (err) {
-      alert("Failed to save purchase. Please try again.");
-      setLoading(false);
+      if (isUnauthorized(err)) handleLogout();
+      throw err;
     }
   };
 
-  const handleSaveSales = async (record: WeeklyRecord) => {
-    setLoading(true);
+  const handlePurchaseSaved = async (savedRecord: WeeklyRecord) => {
+    await loadData();
+    // Redirect directly to Sales Entry for the just-created record
+    setActiveRecord(savedRecord);
+    setView(AppView.ENTRY_SALES);
+  };
+
+  const handleSalesSaved = async () => {
+    await loadData();
+    setView(AppView.DASHBOARD);
+    setActiveRecord(undefined);
+  };
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
     try {
-      await Storage.saveRecord(record);
-      await loadData();
-      setView(AppView.DASHBOARD);
-      setActiveRecord(undefined);
+      const result = await Storage.syncPendingWrites();
+      if (result.conflicts > 0 || result.failed > 0) {
+        alert("Some offline changes need your attention. Check the History tab.");
+      }
+      loadData();
     } catch (err) {
-      alert("Failed to save sales data. Please try again.");
-      setLoading(false);
+      if (isUnauthorized(err)) handleLogout();
+    } finally {
+      setSyncing(false);
     }
   };
 
+  const handleResolveConflict = async (id: string, keep: 'mine' | 'theirs') => {
+    try {
+      await Storage.resolveConflict(id, keep);
+    } catch (err) {
+      alert("Failed to resolve the conflict. Please try again.");
+    }
+    loadData();
+  };
+
+  // Re-reads the current branch's weeks without the full-page spinner,
+  // so open panels such as the history timeline stay on screen
+  const refreshRecords = async () => {
+    try {
+      setRecords(await Storage.getRecords(branchId === CONSOLIDATED_BRANCH ? undefined : branchId));
+    } catch (err) {
+      console.error("Failed to refresh records:", err);
+    }
+  };
+
+  // Refreshes either way: a 409 means the list is out of date
+  const handleRestoreRevision = async (record: WeeklyRecord, revisionId: string) => {
+    try {
+      await Storage.restoreRevision(record, revisionId);
+    } catch (err) {
+      if (isUnauthorized(err)) handleLogout();
+      throw err;
+    } finally {
+      await refreshRecords();
+    }
+  };
+
+  // Deleting only moves the week to the trash, so it can be undone
   const handleDelete = async (id: string) => {
     try {
       await Storage.deleteRecord(id);
+      setRecentlyDeleted(records.find(r => r.id === id) || null);
       await loadData();
     } catch (err) {
-      alert("Failed to delete record.");
+      // Refused deletes say why, e.g. the leftover was carried into a later week
+      alert(err instanceof ApiError && err.status === 400 ? err.message : "Failed to delete record.");
     }
   };
 
+  const handleUndoDelete = async () => {
+    if (!recentlyDeleted) return;
+    const { id } = recentlyDeleted;
+    setRecentlyDeleted(null);
+    try {
+      await Storage.undeleteRecord(id);
+      await loadData();
+    } catch (err) {
+      alert("Failed to restore the week. It is still in the trash.");
+    }
+  };
+
+  const loadTrash = () =>
+    Storage.getDeletedRecords(branchId === CONSOLIDATED_BRANCH ? undefined : branchId);
+
+  const handleRestoreFromTrash = async (id: string) => {
+    await Storage.undeleteRecord(id);
+    await refreshRecords();
+  };
+
+  const handleBranchChange = (selected: string) => {
+    BranchService.setSelectedBranchId(selected);
+    setActiveRecord(undefined);
+    if (view === AppView.ENTRY_PURCHASE || view === AppView.ENTRY_SALES) {
+      setView(AppView.DASHBOARD);
+    }
+    loadData();
+  };
+
+  const handleAddBranch = async () => {
+    const name = window.prompt('Name of the new branch');
+    if (!name || !name.trim()) return;
+    try {
+      const branch = await BranchService.createBranch(name.trim());
+      handleBranchChange(branch.id);
+    } catch (err) {
+      alert("Failed to create branch.");
+    }
+  };
+
+  const isConsolidated = branchId === CONSOLIDATED_BRANCH;
+
   const startPurchaseEntry = () => {
+    if (isConsolidated) {
+      alert(branches.length === 0
+        ? "Add a branch first using the switcher at the top."
+        : "Choose a branch at the top before entering a purchase.");
+      return;
+    }
     setActiveRecord(undefined);
     setView(AppView.ENTRY_PURCHASE);
   };
@@ -100,12 +364,34 @@ const App: React.FC = () => {
     if (incomplete) {
       setActiveRecord(incomplete);
       setView(AppView.ENTRY_SALES);
-    } else {
+    } else if (can(user, 'enterPurchase')) {
       alert("No pending Purchase records found. Please enter Purchase data first.");
       setView(AppView.ENTRY_PURCHASE);
+    } else {
+      alert("No open week to enter sales for. Ask the owner to enter this week's purchase.");
+    }
+  };
+
+  // The counter logs sales against the same open week the sales entry would
+  const startPos = () => {
+    const incomplete = records.find(r => !r.isSalesEntryComplete);
+    if (incomplete) {
+      setActiveRecord(incomplete);
+      setView(AppView.POS);
+    } else {
+      alert("No open week to sell against. Enter this week's purchase first.");
     }
   };
 
+  // The closed day's totals go on to the sales entry for expenses and credit
+  const handlePosClosed = async (record: WeeklyRecord) => {
+    const saved = await handleSaveRecord(record);
+    PosService.clearDraftTransactions(record.id);
+    await loadData();
+    setActiveRecord(saved);
+    setView(AppView.ENTRY_SALES);
+  };
+
   const handleEdit = (record: WeeklyRecord) => {
     setActiveRecord(record);
     if (record.isSalesEntryComplete) {
@@ -121,6 +407,13 @@ const App: React.FC = () => {
   };
 
   if (!user) {
+    if (loading) {
+      return (
+        <div className="min-h-screen flex justify-center items-center bg-gray-50">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-yellow-500"></div>
+        </div>
+      );
+    }
     return <AuthForm onLoginSuccess={handleLoginSuccess} />;
   }
 
@@ -135,18 +428,28 @@ const App: React.FC = () => {
              </div>
             <div>
               <h1 className="text-xl font-bold tracking-tight text-gray-900 leading-none">Sunday's Chicken</h1>
-              <p className="text-xs text-gray-400 mt-1 hidden sm:block">Business Management Portal • {user.name}</p>
+              <p className="text-xs text-gray-400 mt-1 hidden sm:block">Business Management Portal • {user.name} <span className="capitalize">({user.role})</span></p>
               <p className="text-xs text-gray-400 mt-1 sm:hidden">{user.name}</p>
             </div>
           </div>
-          <button onClick={handleLogout} className="text-gray-400 hover:text-red-500 transition-colors p-2 rounded-full hover:bg-gray-100">
-            <LogOut size={20} />
-          </button>
+          <div className="flex items-center gap-2">
+            <BranchSwitcher
+              branches={branches}
+              value={branchId}
+              onChange={handleBranchChange}
+              onAddBranch={can(user, 'manageBranches') ? handleAddBranch : undefined}
+            />
+            <button onClick={handleLogout} className="text-gray-400 hover:text-red-500 transition-colors p-2 rounded-full hover:bg-gray-100">
+              <LogOut size={20} />
+            </button>
+          </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8" style={{ minHeight: 'calc(100vh - 140px)' }}>
+        <SyncStatusBar online={online} pendingCount={pendingCount} syncing={syncing} onSyncNow={handleSyncNow} />
+
         {loading ? (
           <div className="flex justify-center items-center h-64">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-yellow-500"></div>
@@ -162,32 +465,139 @@ const App: React.FC = () => {
             {view === AppView.DASHBOARD && (
               <Dashboard 
                 records={records} 
-                onAddPurchase={startPurchaseEntry}
-                onAddSales={startSalesEntry}
+                branches={branches}
+                consolidated={isConsolidated}
+                onAddPurchase={can(user, 'enterPurchase') ? startPurchaseEntry : undefined}
+                onAddSales={can(user, 'enterSales') ? startSalesEntry : undefined}
+                onOpenPos={can(user, 'enterSales') ? startPos : undefined}
+                customers={customers}
+                onOpenProducts={can(user, 'manageProducts') ? () => setView(AppView.PRODUCTS) : undefined}
+                payableAlertDays={settings.payableAlertDays}
+                onOpenPayables={can(user, 'manageSuppliers') ? () => setView(AppView.PAYABLES) : undefined}
               />
             )}
             
-            {view === AppView.HISTORY && (
+            {view === AppView.HISTORY && can(user, 'viewHistory') && (
               <HistoryList 
                 records={records} 
+                branches={branches}
+                consolidated={isConsolidated}
+                user={user}
                 onEdit={handleEdit} 
                 onDelete={handleDelete}
                 onContinue={handleHistoryContinue}
+                onResolveConflict={handleResolveConflict}
+                onLoadHistory={Storage.getRecordHistory}
+                onRestoreRevision={handleRestoreRevision}
+                onOpenTrash={can(user, 'deleteRecord') ? () => setView(AppView.TRASH) : undefined}
               />
             )}
 
-            {view === AppView.ENTRY_PURCHASE && (
+            {view === AppView.SCENARIOS && can(user, 'planScenarios') && (
+              <ScenarioSimulator
+                key={branchId} // Start again when the branch changes
+                records={records}
+                consolidated={isConsolidated}
+              />
+            )}
+
+            {view === AppView.TRASH && can(user, 'deleteRecord') && (
+              <TrashList
+                key={branchId} // Reload when the branch changes
+                branches={branches}
+                consolidated={isConsolidated}
+                onLoad={loadTrash}
+                onRestore={handleRestoreFromTrash}
+                onPurge={Storage.purgeRecord}
+                onBack={() => setView(AppView.HISTORY)}
+              />
+            )}
+
+            {view === AppView.SUPPLIERS && can(user, 'manageSuppliers') && (
+              <SupplierList
+                suppliers={suppliers}
+                records={records}
+                onCreate={handleCreateSupplier}
+                onUpdate={handleUpdateSupplier}
+                onDelete={handleDeleteSupplier}
+                onOpenPayables={() => setView(AppView.PAYABLES)}
+              />
+            )}
+
+            {view === AppView.PAYABLES && can(user, 'manageSuppliers') && (
+              <PayablesList
+                records={records}
+                branches={branches}
+                consolidated={isConsolidated}
+                alertDays={settings.payableAlertDays}
+                onChangeAlertDays={days => setSettings(SettingsService.saveSettings({ payableAlertDays: days }))}
+                onRecordPayment={handleRecordPayment}
+                onBack={() => setView(AppView.SUPPLIERS)}
+              />
+            )}
+
+            {view === AppView.CUSTOMERS && can(user, 'recordCredit') && (
+              <CustomerList
+                customers={customers}
+                records={records}
+                branches={branches}
+                consolidated={isConsolidated}
+                onCreate={input => handleCreateCustomer(branchId, input)}
+                onUpdate={can(user, 'manageCustomers') ? handleUpdateCustomer : undefined}
+                onDelete={can(user, 'manageCustomers') ? handleDeleteCustomer : undefined}
+                onRecordCollection={handleRecordCollection}
+              />
+            )}
+
+            {view === AppView.PRODUCTS && can(user, 'manageProducts') && (
+              <ProductCatalogue
+                products={products}
+                onCreate={handleCreateProduct}
+                onUpdate={handleUpdateProduct}
+                onDelete={handleDeleteProduct}
+                onBack={() => setView(AppView.DASHBOARD)}
+              />
+            )}
+
+            {view === AppView.POS && activeRecord && can(user, 'enterSales') && (
+              <PosScreen
+                key={activeRecord.id}
+                record={activeRecord}
+                records={records.filter(r => r.branchId === activeRecord.branchId)}
+                products={products}
+                onCloseDay={handlePosClosed}
+                onBack={() => setView(AppView.DASHBOARD)}
+              />
+            )}
+
+            {view === AppView.ENTRY_PURCHASE && can(user, 'enterPurchase') && (
               <PurchaseForm 
                 existingRecord={activeRecord}
-                onSave={handleSavePurchase}
+                records={records}
+                branchId={branchId}
+                suppliers={suppliers}
+                onAddSupplier={can(user, 'manageSuppliers') ? name => handleCreateSupplier({ name }) : undefined}
+                onSave={handleSaveRecord}
+                onSaved={handlePurchaseSaved}
                 onCancel={() => setView(AppView.DASHBOARD)}
               />
             )}
 
-            {view === AppView.ENTRY_SALES && activeRecord && (
+            {view === AppView.ENTRY_SALES && activeRecord && can(user, 'enterSales') && (
               <SalesForm 
                 record={activeRecord}
-                onSave={handleSaveSales}
+                canEditPurchase={can(user, 'editPurchase')}
+                records={records.filter(r => r.branchId === activeRecord.branchId)}
+                categories={expenseCategories}
+                onAddCategory={handleAddExpenseCategory}
+                products={products}
+                onAddProduct={name => handleCreateProduct({ name })}
+                customers={customers.filter(c => c.branchId === activeRecord.branchId)}
+                onAddCustomer={activeRecord.branchId
+                  ? name => handleCreateCustomer(activeRecord.branchId as string, { name })
+                  : undefined}
+                onSave={handleSaveRecord}
+                onSaved={handleSalesSaved}
                 onCancel={() => setView(AppView.DASHBOARD)}
               />
             )}
@@ -195,9 +605,17 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {recentlyDeleted && (
+        <UndoSnackbar
+          message={`Week of ${new Date(recentlyDeleted.weekDate).toLocaleDateString('en-GB')} moved to trash`}
+          onUndo={handleUndoDelete}
+          onDismiss={() => setRecentlyDeleted(null)}
+        />
+      )}
+
       {/* Bottom Navigation */}
       <nav className="fixed bottom-0 w-full bg-white border-t border-gray-200 pb-4 z-20 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.05)]">
-        <div className="max-w-7xl mx-auto flex justify-around md:justify-center md:gap-32 items-center h-16 px-4">
+        <div className="max-w-7xl mx-auto flex justify-around md:justify-center md:gap-20 items-center h-16 px-4">
           <button 
             onClick={() => setView(AppView.DASHBOARD)}
             className={`flex flex-col items-center gap-1 w-16 transition-colors ${view === AppView.DASHBOARD ? 'text-yellow-600' : 'text-gray-400 hover:text-gray-600'}`}
@@ -206,22 +624,56 @@ const App: React.FC = () => {
             <span className="text-xs font-medium">Home</span>
           </button>
 
-          <div className="relative -top-5">
+          {can(user, 'enterPurchase') && (
+            <div className="relative -top-5">
+              <button 
+                onClick={startPurchaseEntry}
+                className="bg-gray-900 text-white rounded-full p-4 shadow-xl hover:bg-gray-800 hover:scale-105 transition-all transform active:scale-95 border-4 border-gray-50"
+              >
+                <PlusCircle size={24} />
+              </button>
+            </div>
+          )}
+
+          {can(user, 'viewHistory') && (
             <button 
-              onClick={startPurchaseEntry}
-              className="bg-gray-900 text-white rounded-full p-4 shadow-xl hover:bg-gray-800 hover:scale-105 transition-all transform active:scale-95 border-4 border-gray-50"
+              onClick={() => setView(AppView.HISTORY)}
+              className={`flex flex-col items-center gap-1 w-16 transition-colors ${view === AppView.HISTORY ? 'text-yellow-600' : 'text-gray-400 hover:text-gray-600'}`}
             >
-              <PlusCircle size={24} />
+              <History size={20} />
+              <span className="text-xs font-medium">History</span>
             </button>
-          </div>
+          )}
 
-          <button 
-            onClick={() => setView(AppView.HISTORY)}
-            className={`flex flex-col items-center gap-1 w-16 transition-colors ${view === AppView.HISTORY ? 'text-yellow-600' : 'text-gray-400 hover:text-gray-600'}`}
-          >
-            <History size={20} />
-            <span className="text-xs font-medium">History</span>
-          </button>
+          {can(user, 'planScenarios') && (
+            <button
+              onClick={() => setView(AppView.SCENARIOS)}
+              className={`flex flex-col items-center gap-1 w-16 transition-colors ${view === AppView.SCENARIOS ? 'text-yellow-600' : 'text-gray-400 hover:text-gray-600'}`}
+            >
+              <SlidersHorizontal size={20} />
+              <span className="text-xs font-medium">What If</span>
+            </button>
+          )}
+
+          {can(user, 'manageSuppliers') && (
+            <button
+              onClick={() => setView(AppView.SUPPLIERS)}
+              className={`flex flex-col items-center gap-1 w-16 transition-colors ${view === AppView.SUPPLIERS ? 'text-yellow-600' : 'text-gray-400 hover:text-gray-600'}`}
+            >
+              <Truck size={20} />
+              <span className="text-xs font-medium">Suppliers</span>
+            </button>
+          )}
+
+          {can(user, 'recordCredit') && (
+            <button
+              onClick={() => setView(AppView.CUSTOMERS)}
+              className={`flex flex-col items-center gap-1 w-16 transition-colors ${view === AppView.CUSTOMERS ? 'text-yellow-600' : 'text-gray-400 hover:text-gray-600'}`}
+            >
+              <Users size={20} />
+              <span className="text-xs font-medium">Credit</span>
+            </button>
+          )}
         </div>
       </nav>
     </div>
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Branch, CONSOLIDATED_BRANCH } from '../types';
+import { ChevronDown, Store } from 'lucide-react';
+
+interface BranchSwitcherProps {
+  branches: Branch[];
+  value: string; // Branch id or CONSOLIDATED_BRANCH
+  onChange: (branchId: string) => void;
+  onAddBranch?: () => void; // Omitted for roles that cannot create branches
+}
+
+const NEW_BRANCH_OPTION = '__new__';
+
+const BranchSwitcher: React.FC<BranchSwitcherProps> = ({ branches, value, onChange, onAddBranch }) => {
+  const handleChange = (selected: string) => {
+    if (selected === NEW_BRANCH_OPTION) {
+      onAddBranch?.();
+      return;
+    }
+    onChange(selected);
+  };
+
+  return (
+    <div className="relative flex items-center">
+      <Store size={16} className="absolute left-3 text-gray-400 pointer-events-none" />
+      <select
+        value={value}
+        onChange={e => handleChange(e.target.value)}
+        className="appearance-none bg-gray-50 border border-gray-200 text-gray-700 text-sm py-2 pl-9 pr-8 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500 font-medium cursor-pointer max-w-[10rem] sm:max-w-none"
+      >
+        {branches.map(branch => (
+          <option key={branch.id} value={branch.id}>{branch.name}</option>
+        ))}
+        {branches.length > 1 && (
+          <option value={CONSOLIDATED_BRANCH}>All Branches (Consolidated)</option>
+        )}
+        {onAddBranch && (
+          <option value={NEW_BRANCH_OPTION}>+ Add Branch…</option>
+        )}
+      </select>
+      <ChevronDown size={14} className="absolute right-2.5 text-gray-500 pointer-events-none" />
+    </div>
+  );
+};
+
+export default BranchSwitcher;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { WeeklyRecord, Denomination } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { DENOMINATIONS, countedCash } from '../utils/cash';
+
+// The drawer as typed: opening float and one count per denomination
+// (aligned with DENOMINATIONS); numbers stay strings while typing
+export interface CashCountRows {
+  float: string;
+  counts: string[];
+}
+
+export const toCashCountRows = (record: WeeklyRecord): CashCountRows => ({
+  float: record.cashFloat?.toString() || '',
+  counts: DENOMINATIONS.map(value => {
+    const count = record.cashDenominations?.find(row => row.value === value)?.count;
+    return count ? count.toString() : '';
+  }),
+});
+
+export const toDenominations = (rows: CashCountRows): Denomination[] =>
+  DENOMINATIONS.map((value, i) => ({
+    value,
+    count: rows.counts[i].trim() === '' ? 0 : Number(rows.counts[i]),
+  }));
+
+export const toCashFloat = (rows: CashCountRows): number =>
+  rows.float.trim() === '' ? 0 : Number(rows.float);
+
+interface CashCountEditorProps {
+  rows: CashCountRows;
+  expected: number; // Float + cash sales - cash-paid expenses, as currently entered
+  errors: { cashFloat?: string; cashDenominations?: string };
+  onChange: (rows: CashCountRows) => void;
+  inputClass: (error?: string) => string;
+}
+
+// End-of-day drawer count against what the drawer should hold
+const CashCountEditor: React.FC<CashCountEditorProps> = ({ rows, expected, errors, onChange, inputClass }) => {
+  const counted = countedCash(toDenominations(rows).filter(row => !isNaN(row.count)));
+  const variance = Math.round((counted - expected) * 100) / 100;
+
+  const updateCount = (index: number, value: string) =>
+    onChange({ ...rows, counts: rows.counts.map((count, i) => (i === index ? value : count)) });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Opening float (₹)</label>
+        <input
+          type="number"
+          className={`${inputClass(errors.cashFloat)} p-2 text-sm`}
+          value={rows.float}
+          onChange={e => onChange({ ...rows, float: e.target.value })}
+        />
+        {errors.cashFloat && <p className="text-xs text-red-500 mt-1">{errors.cashFloat}</p>}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {DENOMINATIONS.map((value, index) => (
+          <div key={value} className="bg-gray-50 p-2 rounded-lg border border-gray-100">
+            <label className="block text-[10px] font-semibold text-gray-500 uppercase mb-1">
+              ₹{value} {value < 10 ? 'coin' : 'note'}
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              placeholder="0"
+              className={`${inputClass(errors.cashDenominations)} p-1.5 text-sm`}
+              value={rows.counts[index]}
+              onChange={e => updateCount(index, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+      {errors.cashDenominations && <p className="text-xs text-red-500">{errors.cashDenominations}</p>}
+
+      <div className="bg-gray-50 p-3 rounded-lg space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-600">Counted:</span>
+          <span className="font-semibold">{formatCurrency(counted)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">Expected:</span>
+          <span className="font-semibold">{formatCurrency(expected)}</span>
+        </div>
+        <div className={`flex justify-between font-bold ${variance === 0 ? 'text-green-700' : 'text-red-600'}`}>
+          <span>{variance === 0 ? 'Drawer matches' : variance > 0 ? 'Over by' : 'Short by'}</span>
+          {variance !== 0 && <span>{formatCurrency(Math.abs(variance))}</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CashCountEditor;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { WeeklyRecord, CreditSale, Customer } from '../types';
+import { getCreditSales } from '../utils/credit';
+import { Plus, Trash2 } from 'lucide-react';
+
+// One editable credit sale; the amount stays a string while typing
+export interface CreditRow {
+  customerId?: string;
+  customer: string;
+  amount: string;
+  note: string;
+}
+
+const NEW_CUSTOMER = '__new__';
+
+export const toCreditRows = (record: WeeklyRecord): CreditRow[] =>
+  getCreditSales(record).map(sale => ({
+    customerId: sale.customerId,
+    customer: sale.customer,
+    amount: sale.amount.toString(),
+    note: sale.note || '',
+  }));
+
+// Untouched blank rows are dropped rather than reported as errors
+export const toCreditSales = (rows: CreditRow[]): CreditSale[] =>
+  rows
+    .filter(row => row.customer || row.amount.trim() || row.note.trim())
+    .map(row => ({
+      ...(row.customerId ? { customerId: row.customerId } : {}),
+      customer: row.customer,
+      amount: row.amount.trim() === '' ? NaN : Number(row.amount),
+      ...(row.note.trim() ? { note: row.note.trim() } : {}),
+    }));
+
+interface CreditSalesEditorProps {
+  rows: CreditRow[];
+  customers: Customer[]; // The week's branch
+  errors: Record<string, string | undefined>; // Keyed `creditSales.<index>.<field>`
+  onChange: (rows: CreditRow[]) => void;
+  onAddCustomer?: (name: string) => Promise<Customer>; // Omitted when customers cannot be added here
+  inputClass: (error?: string) => string;
+}
+
+const CreditSalesEditor: React.FC<CreditSalesEditorProps> = ({ rows, customers, errors, onChange, onAddCustomer, inputClass }) => {
+  const updateRow = (index: number, change: Partial<CreditRow>) =>
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...change } : row)));
+
+  const handleCustomer = async (index: number, value: string) => {
+    if (value !== NEW_CUSTOMER) {
+      const customer = customers.find(c => c.id === value);
+      updateRow(index, customer ? { customerId: customer.id, customer: customer.name } : { customerId: undefined, customer: '' });
+      return;
+    }
+    const name = window.prompt('Name of the new customer');
+    if (!name || !name.trim() || !onAddCustomer) return;
+    try {
+      const customer = await onAddCustomer(name.trim());
+      updateRow(index, { customerId: customer.id, customer: customer.name });
+    } catch (err) {
+      alert("Failed to add the customer.");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {rows.map((row, index) => {
+        const customerError = errors[`creditSales.${index}.customer`];
+        const amountError = errors[`creditSales.${index}.amount`];
+        // Keeps a sale selectable after its customer was removed
+        const missing = row.customer && !customers.some(c => c.id === row.customerId);
+        return (
+          <div key={index} className="bg-gray-50 p-3 rounded-lg border border-gray-100 space-y-2">
+            <div className="flex gap-2">
+              <select
+                className={`${inputClass(customerError)} p-2 text-sm flex-1`}
+                value={missing ? '' : row.customerId || ''}
+                onChange={e => handleCustomer(index, e.target.value)}
+              >
+                <option value="">{missing ? row.customer : 'Customer…'}</option>
+                {customers.map(customer => (
+                  <option key={customer.id} value={customer.id}>{customer.name}</option>
+                ))}
+                {onAddCustomer && <option value={NEW_CUSTOMER}>+ New customer…</option>}
+              </select>
+              <input
+                type="number"
+                placeholder="₹"
+                className={`${inputClass(amountError)} p-2 text-sm w-28`}
+                value={row.amount}
+                onChange={e => updateRow(index, { amount: e.target.value })}
+              />
+              <button
+                type="button"
+                onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <input
+              type="text"
+              placeholder="Note (optional)"
+              className={`${inputClass()} p-2 text-xs`}
+              value={row.note}
+              onChange={e => updateRow(index, { note: e.target.value })}
+            />
+            {(customerError || amountError) && (
+              <p className="text-xs text-red-500">{[customerError, amountError].filter(Boolean).join(' • ')}</p>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => onChange([...rows, { customer: '', amount: '', note: '' }])}
+        className="flex items-center gap-1 text-sm font-medium text-yellow-600 hover:text-yellow-700"
+      >
+        <Plus size={16} /> Add Credit Sale
+      </button>
+    </div>
+  );
+};
+
+export default CreditSalesEditor;
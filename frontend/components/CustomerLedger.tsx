@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { WeeklyRecord, Customer, CustomerCollection } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { customerBalance, customerLedger } from '../utils/credit';
+import { getSaveErrors } from '../utils/validation';
+import { ArrowLeft, Phone } from 'lucide-react';
+
+interface CustomerLedgerProps {
+  customer: Customer;
+  records: WeeklyRecord[]; // Must include the customer's branch
+  onRecordCollection: (id: string, collection: CustomerCollection) => Promise<void>; // Rejects with the server's error
+  onBack: () => void;
+}
+
+const getTodayDate = () => {
+  const today = new Date();
+  return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// One customer's account: credit taken week by week, money paid back, and
+// what is still owed after each entry
+const CustomerLedger: React.FC<CustomerLedgerProps> = ({ customer, records, onRecordCollection, onBack }) => {
+  const balance = useMemo(() => customerBalance(customer, records), [customer, records]);
+  const entries = useMemo(() => customerLedger(customer, records), [customer, records]);
+
+  const [collection, setCollection] = useState({ amount: '', date: getTodayDate(), note: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(collection.amount);
+    if (!(amount > 0)) {
+      setError('Enter an amount above 0');
+      return;
+    }
+    setSaving(true);
+    setError('');
+    try {
+      await onRecordCollection(customer.id, {
+        amount,
+        date: collection.date,
+        ...(collection.note.trim() ? { note: collection.note.trim() } : {}),
+      });
+      setCollection({ amount: '', date: getTodayDate(), note: '' });
+    } catch (err) {
+      setError(getSaveErrors(err, 'Failed to record the collection. Please try again.').general || '');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const stat = (label: string, value: string, valueClass = 'text-gray-800') => (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+      <p className="text-xs text-gray-500 uppercase font-semibold tracking-wider">{label}</p>
+      <p className={`text-xl font-bold mt-1 ${valueClass}`}>{value}</p>
+    </div>
+  );
+
+  const inputClass = "p-2 border border-gray-300 bg-white rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-yellow-500 outline-none";
+
+  return (
+    <div className="pb-24 space-y-6">
+      <div className="flex items-center gap-3">
+        <button onClick={onBack} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg">
+          <ArrowLeft size={20} />
+        </button>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">{customer.name}</h2>
+          {customer.phone && (
+            <p className="text-gray-500 text-sm flex items-center gap-1"><Phone size={12} /> {customer.phone}</p>
+          )}
+        </div>
+      </div>
+
+      {customer.notes && <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded-lg border border-gray-100">{customer.notes}</p>}
+
+      <div className="grid grid-cols-3 gap-4">
+        {stat('Credit Taken', formatCurrency(balance.credited))}
+        {stat('Paid Back', formatCurrency(balance.collected), 'text-green-600')}
+        {stat(
+          balance.outstanding < 0 ? 'Paid in Advance' : 'Owes',
+          formatCurrency(Math.abs(balance.outstanding)),
+          balance.outstanding > 0 ? 'text-red-600' : 'text-gray-800'
+        )}
+      </div>
+
+      <form onSubmit={handleSave} className="bg-white p-4 rounded-xl shadow-sm border border-gray-200 space-y-3" noValidate>
+        <h3 className="text-sm font-semibold text-gray-700 uppercase tracking-wider">Record Collection</h3>
+        <div className="flex flex-wrap gap-2">
+          <input type="number" className={`${inputClass} w-28`} placeholder="₹" value={collection.amount} onChange={e => setCollection({ ...collection, amount: e.target.value })} />
+          <input type="date" className={inputClass} style={{ colorScheme: 'light' }} value={collection.date} onChange={e => setCollection({ ...collection, date: e.target.value })} />
+          <input type="text" className={`${inputClass} flex-1 min-w-[8rem]`} placeholder="Note (optional)" value={collection.note} onChange={e => setCollection({ ...collection, note: e.target.value })} />
+          <button type="submit" disabled={saving} className="px-4 py-2 text-sm bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 disabled:opacity-60">
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </form>
+
+      {entries.length === 0 ? (
+        <div className="text-center py-12 text-gray-400 bg-white rounded-xl border border-dashed border-gray-300">
+          No credit sales or collections yet.
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="w-full text-left text-sm whitespace-nowrap">
+            <thead className="bg-gray-100 text-gray-600 font-semibold uppercase text-xs tracking-wider">
+              <tr>
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3">Entry</th>
+                <th className="px-4 py-3 text-right">Credit</th>
+                <th className="px-4 py-3 text-right">Paid</th>
+                <th className="px-4 py-3 text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {[...entries].reverse().map((entry, index) => (
+                <tr key={index}>
+                  <td className="px-4 py-3 text-gray-800">{formatDate(entry.date)}</td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {entry.type === 'sale' ? 'Credit sale' : 'Collection'}
+                    {entry.note && <span className="text-xs text-gray-400"> · {entry.note}</span>}
+                  </td>
+                  <td className="px-4 py-3 text-right text-gray-800">{entry.type === 'sale' ? formatCurrency(entry.amount) : ''}</td>
+                  <td className="px-4 py-3 text-right text-green-600">{entry.type === 'collection' ? formatCurrency(entry.amount) : ''}</td>
+                  <td className={`px-4 py-3 text-right font-medium ${entry.balance > 0 ? 'text-red-600' : 'text-gray-800'}`}>{formatCurrency(entry.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomerLedger;
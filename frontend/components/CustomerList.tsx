@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { WeeklyRecord, Customer, CustomerCollection, Branch } from '../types';
+import { CustomerInput } from '../services/customerService';
+import { formatCurrency } from '../utils/calculations';
+import { customerBalance } from '../utils/credit';
+import { getSaveErrors } from '../utils/validation';
+import CustomerLedger from './CustomerLedger';
+import { Plus, Edit2, Trash2, ChevronRight, Phone } from 'lucide-react';
+
+interface CustomerListProps {
+  customers: Customer[];
+  records: WeeklyRecord[]; // Weeks of the same branch (or every branch), for the balances
+  branches: Branch[];
+  consolidated: boolean;
+  // Omitted when the signed-in role may not perform the action
+  onCreate?: (input: CustomerInput) => Promise<Customer>; // Rejects with the server's error
+  onUpdate?: (id: string, input: CustomerInput) => Promise<Customer>;
+  onDelete?: (id: string) => Promise<void>;
+  onRecordCollection: (id: string, collection: CustomerCollection) => Promise<void>;
+}
+
+const EMPTY_FORM: CustomerInput = { name: '', phone: '', notes: '' };
+
+// Credit customers with what each still owes, largest balance first
+const CustomerList: React.FC<CustomerListProps> = ({ customers, records, branches, consolidated, onCreate, onUpdate, onDelete, onRecordCollection }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' while adding
+  const [form, setForm] = useState<CustomerInput>(EMPTY_FORM);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const rows = useMemo(() =>
+    customers
+      .map(customer => ({ customer, balance: customerBalance(customer, records) }))
+      .sort((a, b) => b.balance.outstanding - a.balance.outstanding),
+  [customers, records]);
+
+  const totalOwed = rows.reduce((sum, row) => sum + Math.max(0, row.balance.outstanding), 0);
+
+  const startEdit = (customer?: Customer) => {
+    setEditingId(customer ? customer.id : 'new');
+    setForm(customer ? { name: customer.name, phone: customer.phone || '', notes: customer.notes || '' } : EMPTY_FORM);
+    setError('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: CustomerInput = {
+      name: form.name.trim(),
+      phone: form.phone?.trim() || undefined,
+      notes: form.notes?.trim() || undefined,
+    };
+    if (!input.name) {
+      setError('Customer name is required');
+      return;
+    }
+    setSaving(true);
+    try {
+      if (editingId === 'new' && onCreate) await onCreate(input);
+      else if (editingId && onUpdate) await onUpdate(editingId, input);
+      setEditingId(null);
+    } catch (err) {
+      setError(getSaveErrors(err, 'Failed to save the customer. Please try again.').general || '');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (customer: Customer, outstanding: number) => {
+    if (!onDelete) return;
+    // What they owe would drop out of the totals
+    if (outstanding > 0) {
+      alert(`${customer.name} still owes ${formatCurrency(outstanding)}. Collect it before removing them.`);
+      return;
+    }
+    if (!window.confirm(`Remove ${customer.name}? Past weeks keep the name.`)) return;
+    try {
+      await onDelete(customer.id);
+    } catch (err) {
+      alert(getSaveErrors(err, 'Failed to remove the customer.').general || 'Failed to remove the customer.');
+    }
+  };
+
+  const opened = customers.find(c => c.id === openId);
+  if (opened) {
+    return <CustomerLedger customer={opened} records={records} onRecordCollection={onRecordCollection} onBack={() => setOpenId(null)} />;
+  }
+
+  const branchName = (branchId: string) => branches.find(b => b.id === branchId)?.name || 'Unassigned';
+
+  const inputClass = "w-full p-2 border border-gray-300 bg-white rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-yellow-500 focus:border-yellow-500 outline-none";
+
+  return (
+    <div className="pb-24">
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">Credit Customers</h2>
+          <p className="text-gray-500 text-sm">
+            {totalOwed > 0 ? `${formatCurrency(totalOwed)} to collect` : 'Nothing to collect'}
+          </p>
+        </div>
+        {onCreate && editingId === null && (
+          <button
+            onClick={() => startEdit()}
+            disabled={consolidated}
+            title={consolidated ? 'Choose a branch at the top first' : undefined}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-gray-800 text-white hover:bg-gray-900 disabled:opacity-50"
+          >
+            <Plus size={16} /> Add Customer
+          </button>
+        )}
+      </div>
+
+      {editingId !== null && (
+        <form onSubmit={handleSave} className="bg-white p-4 rounded-xl shadow-sm border border-gray-200 mb-6 space-y-3" noValidate>
+          <h3 className="text-sm font-semibold text-gray-700 uppercase tracking-wider">
+            {editingId === 'new' ? 'New Customer' : 'Edit Customer'}
+          </h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <input className={inputClass} placeholder="Name, e.g. Hotel Sagar" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+            <input className={inputClass} placeholder="Phone (optional)" value={form.phone} onChange={e => setForm({ ...form, phone: e.target.value })} />
+          </div>
+          <textarea className={inputClass} rows={2} placeholder="Notes (optional)" value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+          {error && <p className="text-sm text-red-500 bg-red-50 p-2 rounded text-center border border-red-100">{error}</p>}
+          <div className="flex gap-2 justify-end">
+            <button type="button" onClick={() => setEditingId(null)} className="px-4 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">
+              Cancel
+            </button>
+            <button type="submit" disabled={saving} className="px-4 py-2 text-sm bg-yellow-500 text-white rounded-lg font-medium hover:bg-yellow-600 disabled:opacity-60">
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {customers.length === 0 ? (
+        <div className="text-center py-12 text-gray-400 bg-white rounded-xl border border-dashed border-gray-300">
+          No credit customers yet. Add them here or while entering Sunday sales.
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+          {rows.map(({ customer, balance }) => (
+            <div key={customer.id} className="p-4 flex items-center gap-3">
+              <button onClick={() => setOpenId(customer.id)} className="flex-1 text-left group">
+                <p className="font-bold text-gray-800 text-sm flex items-center gap-1 group-hover:text-yellow-700">
+                  {customer.name} <ChevronRight size={14} className="text-gray-400" />
+                </p>
+                <p className="text-xs text-gray-400 mt-0.5 flex flex-wrap gap-x-3">
+                  {consolidated && <span>{branchName(customer.branchId)}</span>}
+                  {customer.phone && <span className="flex items-center gap-1"><Phone size={10} /> {customer.phone}</span>}
+                  <span>Credit {formatCurrency(balance.credited)} • Paid {formatCurrency(balance.collected)}</span>
+                </p>
+              </button>
+              <div className="text-right">
+                <span className="block text-[10px] text-gray-400 uppercase font-semibold">{balance.outstanding < 0 ? 'Advance' : 'Owes'}</span>
+                <span className={`font-bold ${balance.outstanding > 0 ? 'text-red-600' : 'text-gray-700'}`}>
+                  {formatCurrency(Math.abs(balance.outstanding))}
+                </span>
+              </div>
+              {(onUpdate || onDelete) && (
+                <div className="flex gap-1 sm:ml-2">
+                  {onUpdate && (
+                    <button onClick={() => startEdit(customer)} className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded">
+                      <Edit2 size={16} />
+                    </button>
+                  )}
+                  {onDelete && (
+                    <button onClick={() => handleDelete(customer, balance.outstanding)} className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded">
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomerList;
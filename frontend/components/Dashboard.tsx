@@ -1,16 +1,31 @@
 import React, { useMemo, useState, useEffect } from 'react';
-import { WeeklyRecord } from '../types';
-import { formatCurrency, formatNumber } from '../utils/calculations';
+import { WeeklyRecord, Branch, Customer } from '../types';
+import { formatCurrency, formatNumber, combineWeeks } from '../utils/calculations';
+import { expensesByCategory } from '../utils/expenses';
+import { getPayables, totalOutstanding } from '../utils/payables';
+import { customerBalance, collectionsBetween } from '../utils/credit';
+import { salesByProduct, NOT_ITEMIZED } from '../utils/sales';
+import { hasYieldInputs, yieldBreakdown } from '../utils/yield';
+import { nextPurchaseWeek } from '../utils/forecast';
+import ForecastCard from './ForecastCard';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
   LineChart, Line, Legend 
 } from 'recharts';
-import { TrendingUp, DollarSign, Scale, AlertCircle, Award, Wallet, ArrowUpRight, Calendar, ChevronDown } from 'lucide-react';
+import { TrendingUp, DollarSign, Scale, AlertCircle, Award, Wallet, ArrowUpRight, Calendar, ChevronDown, Truck, AlertTriangle, Users, ShoppingCart } from 'lucide-react';
 
 interface DashboardProps {
   records: WeeklyRecord[];
-  onAddPurchase: () => void;
-  onAddSales: () => void;
+  branches: Branch[];
+  consolidated: boolean; // records span every branch
+  // Omitted when the signed-in role may not perform the action
+  onAddPurchase?: () => void;
+  onAddSales?: () => void;
+  onOpenPos?: () => void;
+  customers: Customer[]; // Same branch scope as records
+  onOpenProducts?: () => void;
+  payableAlertDays: number; // Unpaid purchases older than this are flagged
+  onOpenPayables?: () => void;
 }
 
 const StatCard: React.FC<{ 
@@ -53,13 +68,23 @@ const LifetimeStat: React.FC<{
   </div>
 );
 
-const Dashboard: React.FC<DashboardProps> = ({ records, onAddPurchase, onAddSales }) => {
+const Dashboard: React.FC<DashboardProps> = ({ records, branches, consolidated, onAddPurchase, onAddSales, onOpenPos, customers, onOpenProducts, payableAlertDays, onOpenPayables }) => {
+  // In the consolidated view each weekend is one combined week across branches
+  const weeks = useMemo(() => consolidated ? combineWeeks(records) : records, [records, consolidated]);
+
+  // The week the next purchase is for, in local time
+  const forecastWeek = useMemo(() => {
+    const now = new Date();
+    const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+    return nextPurchaseWeek(records, today);
+  }, [records]);
+
   // 1. Get all completed records sorted by date (newest first)
   const completedRecords = useMemo(() => {
-    return records
+    return weeks
       .filter(r => r.isSalesEntryComplete)
       .sort((a, b) => new Date(b.weekDate).getTime() - new Date(a.weekDate).getTime());
-  }, [records]);
+  }, [weeks]);
 
   // 2. State for selected record ID
   const [selectedRecordId, setSelectedRecordId] = useState<string>("");
@@ -88,9 +113,75 @@ const Dashboard: React.FC<DashboardProps> = ({ records, onAddPurchase, onAddSale
     }, { revenue: 0, profit: 0, meat: 0 });
   }, [records]);
 
+  // What is still owed to farms, and how much of it is overdue
+  const payables = useMemo(() => {
+    const all = getPayables(records);
+    const overdue = all.filter(p => p.ageDays > payableAlertDays);
+    return {
+      outstanding: totalOutstanding(all),
+      overdue: totalOutstanding(overdue),
+      overdueSuppliers: new Set(overdue.map(p => p.supplierId || p.supplier)).size,
+    };
+  }, [records, payableAlertDays]);
+
+  // Credit still to be collected from customers
+  const receivable = useMemo(() =>
+    customers.reduce((sum, customer) => sum + Math.max(0, customerBalance(customer, records).outstanding), 0),
+  [customers, records]);
+
+  // Money that actually came in during the selected week. Credit sales count
+  // in revenue but not here; collections on older credit do.
+  const cashFlow = useMemo(() => {
+    if (!displayRecord) return null;
+    const weekEnd = new Date(displayRecord.weekDate);
+    weekEnd.setDate(weekEnd.getDate() + 6);
+    const collected = collectionsBetween(customers, displayRecord.weekDate, weekEnd.toISOString().slice(0, 10));
+    const cash = displayRecord.cashCollected || 0;
+    const upi = displayRecord.upiCollected || 0;
+    return { cash, upi, credit: displayRecord.totalCredit || 0, collected, received: cash + upi + collected };
+  }, [displayRecord, customers]);
+
+  // What sells: kg and revenue per product, selected week against all time
+  const productMix = useMemo(() => {
+    const allTime = salesByProduct(weeks);
+    const week = displayRecord ? salesByProduct([displayRecord]) : [];
+    const totalRevenue = allTime.reduce((sum, row) => sum + row.revenue, 0);
+    return allTime.map(row => ({
+      ...row,
+      share: totalRevenue > 0 ? (row.revenue / totalRevenue) * 100 : 0,
+      week: week.find(w => w.product === row.product),
+    }));
+  }, [weeks, displayRecord]);
+
+  // Where the Sunday costs go, for the selected week and across all weeks
+  const expenseBreakdown = useMemo(() => {
+    const allTime = expensesByCategory(records.filter(r => r.isSalesEntryComplete));
+    const week = displayRecord ? expensesByCategory([displayRecord]) : [];
+    return allTime.map(({ category, amount }) => ({
+      category,
+      allTime: amount,
+      week: week.find(w => w.category === category)?.amount || 0,
+    }));
+  }, [records, displayRecord]);
+
+  // Per-branch lifetime totals for the consolidated comparison
+  const branchStats = useMemo(() => {
+    if (!consolidated) return [];
+    return branches.map(branch => {
+      const branchRecords = records.filter(r => r.branchId === branch.id && r.isSalesEntryComplete);
+      return {
+        id: branch.id,
+        name: branch.name,
+        weeks: branchRecords.length,
+        revenue: branchRecords.reduce((sum, r) => sum + (r.totalRevenue || 0), 0),
+        profit: branchRecords.reduce((sum, r) => sum + (r.netProfit || 0), 0),
+      };
+    });
+  }, [records, branches, consolidated]);
+
   // Prepare chart data (last 8 weeks, reversed for chronological order)
   const chartData = useMemo(() => {
-    return [...records]
+    return [...weeks]
     .filter(r => r.isSalesEntryComplete)
     .sort((a, b) => new Date(b.weekDate).getTime() - new Date(a.weekDate).getTime()) // Sort desc first
     .slice(0, 8) // Take last 8
@@ -102,7 +193,28 @@ const Dashboard: React.FC<DashboardProps> = ({ records, onAddPurchase, onAddSale
       Cost: (r.totalPurchaseCost || 0) + (r.totalExpenses || 0),
       Wastage: r.wastagePercentage || 0,
     }));
-  }, [records]);
+  }, [weeks]);
+
+  // Wastage split into its causes, for the weeks charted that were weighed
+  const yieldData = useMemo(() => {
+    return [...weeks]
+    .filter(r => r.isSalesEntryComplete)
+    .sort((a, b) => new Date(b.weekDate).getTime() - new Date(a.weekDate).getTime())
+    .slice(0, 8)
+    .reverse()
+    .filter(hasYieldInputs)
+    .map(r => {
+      const parts = yieldBreakdown(r);
+      return {
+        date: new Date(r.weekDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' }),
+        Mortality: parts.mortalityPercentage,
+        Dressing: parts.dressingLossPercentage,
+        Leftover: parts.leftoverPercentage,
+        Unexplained: parts.unexplainedPercentage,
+        Yield: parts.dressingYield,
+      };
+    });
+  }, [weeks]);
 
   // Common Tooltip Style
   const tooltipStyle = {
@@ -120,13 +232,36 @@ const Dashboard: React.FC<DashboardProps> = ({ records, onAddPurchase, onAddSale
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <div>
            <h2 className="text-2xl font-bold text-gray-800">Dashboard</h2>
-           <p className="text-gray-500 text-sm">Overview of your business performance</p>
+           <p className="text-gray-500 text-sm">
+             {consolidated ? 'Combined performance across all branches' : 'Overview of your business performance'}
+           </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {onOpenProducts && (
+            <button onClick={onOpenProducts} className="text-xs font-medium px-3 py-1 border border-gray-200 bg-white text-gray-600 rounded-full hover:bg-gray-50">
+              Products
+            </button>
+          )}
+          <span className="text-xs font-medium px-3 py-1 bg-yellow-100 text-yellow-800 rounded-full">
+            {records.length} Records
+          </span>
         </div>
-        <span className="text-xs font-medium px-3 py-1 bg-yellow-100 text-yellow-800 rounded-full">
-          {records.length} Records
-        </span>
       </div>
 
+      {payables.overdue > 0 && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-red-50 border border-red-200 rounded-xl text-red-800">
+          <p className="text-sm flex items-center gap-2">
+            <AlertTriangle size={18} className="shrink-0" />
+            {formatCurrency(payables.overdue)} owed to {payables.overdueSuppliers} supplier{payables.overdueSuppliers === 1 ? '' : 's'} for more than {payableAlertDays} days
+          </p>
+          {onOpenPayables && (
+            <button onClick={onOpenPayables} className="px-3 py-1.5 text-sm font-medium bg-white border border-red-200 rounded-lg hover:bg-red-100">
+              View Payables
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Lifetime Totals Row */}
       <div className="flex flex-wrap gap-4">
         <LifetimeStat 
@@ -150,33 +285,89 @@ const Dashboard: React.FC<DashboardProps> = ({ records, onAddPurchase, onAddSale
           bgClass="bg-gradient-to-br from-purple-50 to-purple-100 border-purple-200"
           textClass="text-purple-900"
         />
+        {receivable > 0 && (
+          <LifetimeStat
+            label="Owed by Customers"
+            value={formatCurrency(receivable)}
+            icon={<Users size={24} />}
+            bgClass="bg-gradient-to-br from-yellow-50 to-yellow-100 border-yellow-200"
+            textClass="text-yellow-900"
+          />
+        )}
+        {payables.outstanding > 0 && (
+          <LifetimeStat
+            label="Owed to Suppliers"
+            value={formatCurrency(payables.outstanding)}
+            icon={<Truck size={24} />}
+            bgClass="bg-gradient-to-br from-red-50 to-red-100 border-red-200"
+            textClass="text-red-900"
+          />
+        )}
       </div>
 
-      {/* Action Buttons with Quotes */}
-      <div className="grid grid-cols-2 md:grid-cols-2 gap-4 sm:gap-6 lg:max-w-2xl mx-auto">
-        <button 
-          onClick={onAddPurchase}
-          className="bg-gray-800 hover:bg-gray-900 text-white p-6 rounded-xl shadow-lg flex flex-col items-center justify-center transition-all transform active:scale-95 group relative overflow-hidden"
-        >
-          <div className="absolute top-0 right-0 p-2 opacity-10">
-             <ArrowUpRight size={48} />
-          </div>
-          <span className="text-3xl mb-2 group-hover:scale-110 transition-transform">🐓</span>
-          <span className="font-semibold text-lg">Purchase Entry</span>
-          <span className="text-xs text-gray-400 opacity-90 mt-2 italic font-serif">"Well begun is half done"</span>
-        </button>
-        <button 
-          onClick={onAddSales}
-          className="bg-yellow-500 hover:bg-yellow-600 text-white p-6 rounded-xl shadow-lg flex flex-col items-center justify-center transition-all transform active:scale-95 group relative overflow-hidden"
-        >
-          <div className="absolute top-0 right-0 p-2 opacity-10">
-             <DollarSign size={48} />
+      {/* Branch Comparison (consolidated only) */}
+      {consolidated && branchStats.length > 0 && (
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+          <h3 className="text-sm font-semibold text-gray-500 mb-3 uppercase tracking-wider">By Branch</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {branchStats.map(stat => (
+              <div key={stat.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg border border-gray-100">
+                <div>
+                  <p className="font-semibold text-gray-800">{stat.name}</p>
+                  <p className="text-xs text-gray-400">{stat.weeks} weeks • {formatCurrency(stat.revenue)} revenue</p>
+                </div>
+                <span className={`font-bold ${stat.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(stat.profit)}
+                </span>
+              </div>
+            ))}
           </div>
-          <span className="text-3xl mb-2 group-hover:scale-110 transition-transform">💰</span>
-          <span className="font-semibold text-lg">Sold Entry</span>
-          <span className="text-xs text-white opacity-90 mt-2 italic font-serif">"Profit is the applause"</span>
-        </button>
-      </div>
+        </div>
+      )}
+
+      {/* Action Buttons with Quotes */}
+      {(onAddPurchase || onAddSales) && (
+        <div className="grid grid-cols-2 md:grid-cols-2 gap-4 sm:gap-6 lg:max-w-2xl mx-auto">
+          {onAddPurchase && (
+            <button 
+              onClick={onAddPurchase}
+              className="bg-gray-800 hover:bg-gray-900 text-white p-6 rounded-xl shadow-lg flex flex-col items-center justify-center transition-all transform active:scale-95 group relative overflow-hidden"
+            >
+              <div className="absolute top-0 right-0 p-2 opacity-10">
+                 <ArrowUpRight size={48} />
+              </div>
+              <span className="text-3xl mb-2 group-hover:scale-110 transition-transform">🐓</span>
+              <span className="font-semibold text-lg">Purchase Entry</span>
+              <span className="text-xs text-gray-400 opacity-90 mt-2 italic font-serif">"Well begun is half done"</span>
+            </button>
+          )}
+          {onAddSales && (
+            <button 
+              onClick={onAddSales}
+              className="bg-yellow-500 hover:bg-yellow-600 text-white p-6 rounded-xl shadow-lg flex flex-col items-center justify-center transition-all transform active:scale-95 group relative overflow-hidden"
+            >
+              <div className="absolute top-0 right-0 p-2 opacity-10">
+                 <DollarSign size={48} />
+              </div>
+              <span className="text-3xl mb-2 group-hover:scale-110 transition-transform">💰</span>
+              <span className="font-semibold text-lg">Sold Entry</span>
+              <span className="text-xs text-white opacity-90 mt-2 italic font-serif">"Profit is the applause"</span>
+            </button>
+          )}
+          {onOpenPos && records.some(r => !r.isSalesEntryComplete) && (
+            <button
+              onClick={onOpenPos}
+              className="col-span-2 bg-white hover:bg-gray-50 text-gray-800 border border-gray-200 p-4 rounded-xl shadow-sm flex items-center justify-center gap-2 font-semibold transition-all transform active:scale-95"
+            >
+              <ShoppingCart size={18} className="text-yellow-600" /> Open Counter
+              <span className="text-xs font-normal text-gray-400">log each sale as it happens</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Next purchase forecast (once there are a few completed weeks) */}
+      <ForecastCard weeks={weeks} weekDate={forecastWeek} />
 
       {/* Dynamic Performance Section */}
       {completedRecords.length > 0 ? (
@@ -243,6 +434,35 @@ const Dashboard: React.FC<DashboardProps> = ({ records, onAddPurchase, onAddSale
              <div className="text-center py-8 text-gray-500">Select a date to view details.</div>
           )}
 
+          {/* Cash Flow (only when credit was given or collected) */}
+          {cashFlow && (cashFlow.credit > 0 || cashFlow.collected > 0) && (
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+              <h3 className="text-sm font-semibold text-gray-500 mb-3 uppercase tracking-wider">Cash Flow This Week</h3>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-sm">
+                <div>
+                  <span className="block text-[10px] text-gray-400 uppercase font-semibold">Cash Sales</span>
+                  <span className="font-medium text-gray-800">{formatCurrency(cashFlow.cash)}</span>
+                </div>
+                <div>
+                  <span className="block text-[10px] text-gray-400 uppercase font-semibold">UPI Sales</span>
+                  <span className="font-medium text-gray-800">{formatCurrency(cashFlow.upi)}</span>
+                </div>
+                <div>
+                  <span className="block text-[10px] text-gray-400 uppercase font-semibold">Credit Given</span>
+                  <span className="font-medium text-yellow-700">{formatCurrency(cashFlow.credit)}</span>
+                </div>
+                <div>
+                  <span className="block text-[10px] text-gray-400 uppercase font-semibold">Credit Collected</span>
+                  <span className="font-medium text-green-600">{formatCurrency(cashFlow.collected)}</span>
+                </div>
+                <div>
+                  <span className="block text-[10px] text-gray-400 uppercase font-semibold">Money Received</span>
+                  <span className="font-bold text-gray-900">{formatCurrency(cashFlow.received)}</span>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Charts */}
           <div>
             <h3 className="text-sm font-semibold text-gray-500 mb-4 uppercase tracking-wider">Analytics Trends</h3>
@@ -310,8 +530,131 @@ const Dashboard: React.FC<DashboardProps> = ({ records, onAddPurchase, onAddSale
                 </ResponsiveContainer>
               </div>
 
+              {/* Chart 4: Wastage by cause (weeks with yield weights) */}
+              {yieldData.length > 0 && (
+                <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 h-80">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-4">Where the Weight Went (% of live)</h3>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={yieldData}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+                      <XAxis dataKey="date" tick={{fontSize: 10, fill: '#6b7280'}} axisLine={false} tickLine={false} dy={10} />
+                      <YAxis tick={{fontSize: 10, fill: '#6b7280'}} unit="%" axisLine={false} tickLine={false} />
+                      <Tooltip
+                        cursor={{ fill: 'rgba(243, 244, 246, 0.5)' }}
+                        wrapperStyle={{ zIndex: 1000 }}
+                        contentStyle={tooltipStyle}
+                        itemStyle={{ color: '#374151' }}
+                        formatter={(value: number, name: string) => [`${formatNumber(value, 1)}%`, name]}
+                      />
+                      <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }} />
+                      <Bar dataKey="Mortality" stackId="loss" fill="#6b7280" />
+                      <Bar dataKey="Dressing" stackId="loss" fill="#f59e0b" />
+                      <Bar dataKey="Leftover" stackId="loss" fill="#3b82f6" />
+                      <Bar dataKey="Unexplained" stackId="loss" fill="#ef4444" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+
+              {/* Chart 5: Dressing yield (weeks with a dressed weight) */}
+              {yieldData.some(d => d.Yield !== undefined) && (
+                <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 h-80">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-4">Dressing Yield (%)</h3>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={yieldData.filter(d => d.Yield !== undefined)}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+                      <XAxis dataKey="date" tick={{fontSize: 10, fill: '#6b7280'}} axisLine={false} tickLine={false} dy={10} />
+                      <YAxis tick={{fontSize: 10, fill: '#6b7280'}} unit="%" axisLine={false} tickLine={false} domain={['auto', 'auto']} />
+                      <Tooltip
+                        cursor={{ stroke: '#8b5cf6', strokeWidth: 1 }}
+                        wrapperStyle={{ zIndex: 1000 }}
+                        contentStyle={tooltipStyle}
+                        itemStyle={{ color: '#8b5cf6' }}
+                        formatter={(value: number) => [`${formatNumber(value, 1)}%`, 'Dressing yield']}
+                      />
+                      <Line type="monotone" dataKey="Yield" stroke="#8b5cf6" strokeWidth={3} dot={{r: 4, fill: '#8b5cf6', strokeWidth: 2, stroke: '#fff'}} activeDot={{r: 6}} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+
             </div>
           </div>
+
+          {/* Product Mix (once any week was itemized) */}
+          {productMix.some(row => row.product !== NOT_ITEMIZED) && (
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+              <h3 className="text-sm font-semibold text-gray-700 mb-4">Product Mix</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-400 uppercase">
+                    <th className="text-left font-semibold pb-2">Product</th>
+                    <th className="text-right font-semibold pb-2">Selected Week</th>
+                    <th className="text-right font-semibold pb-2">All Time</th>
+                    <th className="text-right font-semibold pb-2">Share</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {productMix.map(row => (
+                    <tr key={row.product}>
+                      <td className={`py-2 ${row.product === NOT_ITEMIZED ? 'text-gray-400 italic' : 'text-gray-700'}`}>
+                        {row.product}
+                        <div className="h-1.5 mt-1 bg-gray-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-yellow-400 rounded-full" style={{ width: `${row.share}%` }}></div>
+                        </div>
+                      </td>
+                      <td className="py-2 text-right text-gray-600">
+                        {row.week ? (
+                          <>
+                            {formatCurrency(row.week.revenue)}
+                            <span className="block text-xs text-gray-400">{formatNumber(row.week.quantity)} kg</span>
+                          </>
+                        ) : '-'}
+                      </td>
+                      <td className="py-2 text-right font-semibold text-gray-800">
+                        {formatCurrency(row.revenue)}
+                        <span className="block text-xs font-normal text-gray-400">{formatNumber(row.quantity)} kg</span>
+                      </td>
+                      <td className="py-2 text-right text-gray-600">{formatNumber(row.share, 0)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Expenses by Category */}
+          {expenseBreakdown.length > 0 && (
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+              <h3 className="text-sm font-semibold text-gray-700 mb-4">Expenses by Category</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-400 uppercase">
+                    <th className="text-left font-semibold pb-2">Category</th>
+                    <th className="text-right font-semibold pb-2">Selected Week</th>
+                    <th className="text-right font-semibold pb-2">All Time</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {expenseBreakdown.map(row => (
+                    <tr key={row.category}>
+                      <td className="py-2 text-gray-700">
+                        {row.category}
+                        <div className="h-1.5 mt-1 bg-gray-100 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-red-400 rounded-full"
+                            style={{ width: `${(row.allTime / expenseBreakdown[0].allTime) * 100}%` }}
+                          ></div>
+                        </div>
+                      </td>
+                      <td className="py-2 text-right text-gray-600">{row.week > 0 ? formatCurrency(row.week) : '-'}</td>
+                      <td className="py-2 text-right font-semibold text-gray-800">{formatCurrency(row.allTime)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
         </>
       ) : (
         <div className="text-center py-12 bg-white rounded-xl border border-dashed border-gray-300">
@@ -0,0 +1,141 @@
+import React from 'react';
+import { WeeklyRecord, ExpenseLine, ExpenseCategory, PaymentMode } from '../types';
+import { getExpenseLines } from '../utils/expenses';
+import { Plus, Trash2 } from 'lucide-react';
+
+// One editable line; amounts stay strings while typing
+export interface ExpenseRow {
+  category: string;
+  amount: string;
+  note: string;
+  mode: PaymentMode;
+}
+
+const NEW_CATEGORY = '__new__';
+
+export const toExpenseRows = (record: WeeklyRecord): ExpenseRow[] =>
+  getExpenseLines(record).map(line => ({
+    category: line.category,
+    amount: line.amount.toString(),
+    note: line.note || '',
+    mode: line.mode || 'cash',
+  }));
+
+// Untouched blank rows are dropped rather than reported as errors. Cash is
+// the default and is left unset.
+export const toExpenseLines = (rows: ExpenseRow[]): ExpenseLine[] =>
+  rows
+    .filter(row => row.category || row.amount.trim() || row.note.trim())
+    .map(row => ({
+      category: row.category,
+      amount: row.amount.trim() === '' ? NaN : Number(row.amount),
+      ...(row.note.trim() ? { note: row.note.trim() } : {}),
+      ...(row.mode === 'upi' ? { mode: row.mode } : {}),
+    }));
+
+interface ExpenseLinesEditorProps {
+  rows: ExpenseRow[];
+  categories: ExpenseCategory[];
+  errors: Record<string, string | undefined>; // Keyed `expenses.<index>.<field>`
+  onChange: (rows: ExpenseRow[]) => void;
+  onAddCategory?: (name: string) => Promise<ExpenseCategory>; // Omitted when new categories cannot be saved
+  inputClass: (error?: string) => string;
+}
+
+const ExpenseLinesEditor: React.FC<ExpenseLinesEditorProps> = ({ rows, categories, errors, onChange, onAddCategory, inputClass }) => {
+  const updateRow = (index: number, change: Partial<ExpenseRow>) =>
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...change } : row)));
+
+  const handleCategory = async (index: number, value: string) => {
+    if (value !== NEW_CATEGORY) {
+      updateRow(index, { category: value });
+      return;
+    }
+    const name = window.prompt('Name of the new expense category');
+    if (!name || !name.trim() || !onAddCategory) return;
+    try {
+      const category = await onAddCategory(name.trim());
+      updateRow(index, { category: category.name });
+    } catch (err) {
+      alert("Failed to add the category.");
+    }
+  };
+
+  // Keep a line's category selectable even if it was since renamed or removed
+  const optionsFor = (row: ExpenseRow) => {
+    const names = categories.map(c => c.name);
+    return row.category && !names.includes(row.category) ? [row.category, ...names] : names;
+  };
+
+  return (
+    <div className="space-y-3">
+      {rows.length === 0 && (
+        <p className="text-xs text-gray-400">No expenses added for this week.</p>
+      )}
+
+      {rows.map((row, index) => {
+        const categoryError = errors[`expenses.${index}.category`];
+        const amountError = errors[`expenses.${index}.amount`];
+        return (
+          <div key={index} className="bg-gray-50 p-3 rounded-lg border border-gray-100 space-y-2">
+            <div className="flex gap-2">
+              <select
+                className={`${inputClass(categoryError)} p-2 text-sm flex-1`}
+                value={row.category}
+                onChange={e => handleCategory(index, e.target.value)}
+              >
+                <option value="">Category…</option>
+                {optionsFor(row).map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+                {onAddCategory && <option value={NEW_CATEGORY}>+ New category…</option>}
+              </select>
+              <input
+                type="number"
+                placeholder="₹"
+                className={`${inputClass(amountError)} p-2 text-sm w-28`}
+                value={row.amount}
+                onChange={e => updateRow(index, { amount: e.target.value })}
+              />
+              <button
+                type="button"
+                onClick={() => updateRow(index, { mode: row.mode === 'upi' ? 'cash' : 'upi' })}
+                title="Paid from the cash drawer or by UPI"
+                className={`px-2 text-[10px] font-bold uppercase rounded border ${row.mode === 'upi' ? 'bg-blue-50 text-blue-700 border-blue-200' : 'bg-green-50 text-green-700 border-green-200'}`}
+              >
+                {row.mode}
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <input
+              type="text"
+              placeholder="Note (optional)"
+              className={`${inputClass()} p-2 text-xs`}
+              value={row.note}
+              onChange={e => updateRow(index, { note: e.target.value })}
+            />
+            {(categoryError || amountError) && (
+              <p className="text-xs text-red-500">{[categoryError, amountError].filter(Boolean).join(' • ')}</p>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => onChange([...rows, { category: '', amount: '', note: '', mode: 'cash' }])}
+        className="flex items-center gap-1 text-sm font-medium text-red-500 hover:text-red-600"
+      >
+        <Plus size={16} /> Add Expense
+      </button>
+    </div>
+  );
+};
+
+export default ExpenseLinesEditor;
@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { WeeklyRecord } from '../types';
+import { formatNumber } from '../utils/calculations';
+import { forecastDemand, backtestForecast } from '../utils/forecast';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Target, ChevronDown } from 'lucide-react';
+
+interface ForecastCardProps {
+  weeks: WeeklyRecord[]; // One branch's weeks, or the combined weeks
+  weekDate: string; // The week being bought for
+}
+
+const formatWeek = (date: string, year = false) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', ...(year ? { year: 'numeric' } : {}) });
+
+// Next purchase suggestion with its range and basis, and how the same
+// forecast would have done on past weeks
+const ForecastCard: React.FC<ForecastCardProps> = ({ weeks, weekDate }) => {
+  const [showBacktest, setShowBacktest] = useState(false);
+  const forecast = useMemo(() => forecastDemand(weeks, weekDate), [weeks, weekDate]);
+  const backtest = useMemo(() => (showBacktest ? backtestForecast(weeks) : undefined), [weeks, showBacktest]);
+
+  if (!forecast) return null;
+  const { basis } = forecast;
+
+  const backtestData = (backtest?.rows || []).map(row => ({
+    date: formatWeek(row.weekDate),
+    Actual: Number(row.actual.toFixed(1)),
+    Forecast: Number(row.forecast.toFixed(1)),
+    Low: Number(row.low.toFixed(1)),
+    High: Number(row.high.toFixed(1)),
+  }));
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider flex items-center gap-2">
+          <Target size={16} className="text-indigo-500" /> Buy for {formatWeek(forecast.weekDate, true)}
+        </h3>
+        <span className="text-xs text-gray-400">~80% range</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-sm">
+        <div>
+          <span className="block text-[10px] text-gray-400 uppercase font-semibold">Hens</span>
+          <span className="text-xl font-bold text-gray-800">{forecast.hens}</span>
+          <span className="block text-xs text-gray-400">{forecast.hensLow} – {forecast.hensHigh}</span>
+        </div>
+        <div>
+          <span className="block text-[10px] text-gray-400 uppercase font-semibold">Live Weight</span>
+          <span className="text-xl font-bold text-gray-800">{formatNumber(forecast.liveWeight, 0)} kg</span>
+          <span className="block text-xs text-gray-400">{formatNumber(forecast.liveLow, 0)} – {formatNumber(forecast.liveHigh, 0)} kg</span>
+        </div>
+        <div>
+          <span className="block text-[10px] text-gray-400 uppercase font-semibold">Meat Demand</span>
+          <span className="text-xl font-bold text-gray-800">{formatNumber(forecast.meatSold, 0)} kg</span>
+          <span className="block text-xs text-gray-400">{formatNumber(forecast.meatLow, 0)} – {formatNumber(forecast.meatHigh, 0)} kg</span>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 leading-snug">
+        Recent weeks sold {formatNumber(basis.recentAverage, 0)} kg on average, trending{' '}
+        {basis.trendPerWeek >= 0 ? 'up' : 'down'} {formatNumber(Math.abs(basis.trendPerWeek), 1)} kg a week
+        {basis.seasonalFactor !== undefined && basis.seasonalWeek
+          ? `; the same week last year (${formatWeek(basis.seasonalWeek, true)}) sold ${formatNumber(Math.abs(basis.seasonalFactor - 1) * 100, 0)}% ${basis.seasonalFactor >= 1 ? 'more' : 'less'} than the weeks before it`
+          : ''}
+        . {formatNumber(basis.meatPerLiveKg * 100, 0)}% of live weight sells as meat and hens average{' '}
+        {formatNumber(basis.kgPerHen)} kg. From {basis.weeks} completed weeks; weeks that sold out early understate demand.
+      </p>
+
+      <button
+        type="button"
+        onClick={() => setShowBacktest(!showBacktest)}
+        className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800"
+      >
+        <ChevronDown size={14} className={showBacktest ? 'transform rotate-180' : ''} />
+        {showBacktest ? 'Hide' : 'Check against past weeks'}
+      </button>
+
+      {showBacktest && (backtest ? (
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-3 text-sm">
+            <div>
+              <span className="block text-[10px] text-gray-400 uppercase font-semibold">Average Miss</span>
+              <span className="font-bold text-gray-800">{formatNumber(backtest.meanAbsPercentError, 1)}%</span>
+            </div>
+            <div>
+              <span className="block text-[10px] text-gray-400 uppercase font-semibold">Bias</span>
+              <span className="font-bold text-gray-800">
+                {backtest.bias >= 0 ? '+' : '−'}{formatNumber(Math.abs(backtest.bias), 1)}%
+              </span>
+              <span className="block text-[10px] text-gray-400">{backtest.bias >= 0 ? 'over' : 'under'}-forecast</span>
+            </div>
+            <div>
+              <span className="block text-[10px] text-gray-400 uppercase font-semibold">Inside Range</span>
+              <span className="font-bold text-gray-800">{formatNumber(backtest.coverage, 0)}%</span>
+              <span className="block text-[10px] text-gray-400">of {backtest.rows.length} weeks</span>
+            </div>
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={backtestData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+                <XAxis dataKey="date" tick={{fontSize: 10, fill: '#6b7280'}} axisLine={false} tickLine={false} dy={10} />
+                <YAxis tick={{fontSize: 10, fill: '#6b7280'}} unit=" kg" axisLine={false} tickLine={false} />
+                <Tooltip wrapperStyle={{ zIndex: 1000 }} formatter={(value: number, name: string) => [`${formatNumber(value, 1)} kg`, name]} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Line type="monotone" dataKey="Actual" stroke="#111827" strokeWidth={2} dot={{r: 3}} />
+                <Line type="monotone" dataKey="Forecast" stroke="#6366f1" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="Low" stroke="#a5b4fc" strokeDasharray="4 4" dot={false} />
+                <Line type="monotone" dataKey="High" stroke="#a5b4fc" strokeDasharray="4 4" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400">Not enough completed weeks to test against yet.</p>
+      ))}
+    </div>
+  );
+};
+
+export default ForecastCard;
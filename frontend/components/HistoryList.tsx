@@ -1,18 +1,101 @@
 import React, { useState, useMemo } from 'react';
-import { WeeklyRecord } from '../types';
+import { WeeklyRecord, User, Branch, RecordRevision } from '../types';
 import { formatCurrency, formatNumber } from '../utils/calculations';
-import { Trash2, Edit2, CheckCircle, Clock, Download, Filter, X, Calendar, ArrowRight, ChevronRight, TrendingUp } from 'lucide-react';
+import { expensesByCategory } from '../utils/expenses';
+import { getPurchaseLots, lotCost } from '../utils/purchases';
+import { hasSalesLines, salesByProduct, NOT_ITEMIZED } from '../utils/sales';
+import { hasCashVariance } from '../utils/cash';
+import { can, canEditSales } from '../utils/permissions';
+import RecordHistoryPanel from './RecordHistoryPanel';
+import { Trash2, Edit2, CheckCircle, Clock, Download, Filter, X, Calendar, ArrowRight, ChevronRight, TrendingUp, CloudOff, AlertTriangle, History } from 'lucide-react';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
 interface HistoryListProps {
   records: WeeklyRecord[];
+  branches: Branch[];
+  consolidated: boolean; // Show which branch each week belongs to
+  user: User;
   onEdit: (record: WeeklyRecord) => void;
   onDelete: (id: string) => void;
   onContinue: (record: WeeklyRecord) => void;
+  onResolveConflict: (id: string, keep: 'mine' | 'theirs') => void;
+  onLoadHistory: (id: string) => Promise<RecordRevision[]>;
+  onRestoreRevision: (record: WeeklyRecord, revisionId: string) => Promise<void>;
+  onOpenTrash?: () => void; // Omitted for users who cannot delete
 }
 
-const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, onContinue }) => {
+// e.g. "Cash short ₹120" for a counted drawer that did not match
+const cashVarianceLabel = (record: WeeklyRecord, format: (amount: number) => string) =>
+  `Cash ${(record.cashVariance || 0) > 0 ? 'over' : 'short'} ${format(Math.abs(record.cashVariance || 0))}`;
+
+// e.g. "+ 12 kg opening • 8 kg kept" for weeks that carried live birds over; empty otherwise
+const stockNote = (record: WeeklyRecord) =>
+  [
+    record.openingWeight ? `+ ${formatNumber(record.openingWeight)} kg opening` : '',
+    record.carryOverWeight ? `${formatNumber(record.carryOverWeight)} kg kept` : '',
+  ].filter(Boolean).join(' • ');
+
+// Where the last autoTable drawn on `doc` ended, so the next one starts below it
+const lastTableEnd = (doc: jsPDF) =>
+  (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+// Offline sync state of a row: waiting, rejected, or clashing with another device
+const SyncBadge: React.FC<{
+  record: WeeklyRecord;
+  onResolveConflict: (id: string, keep: 'mine' | 'theirs') => void;
+}> = ({ record, onResolveConflict }) => {
+  if (!record.syncStatus) return null;
+
+  if (record.syncStatus === 'pending') {
+    return (
+      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold bg-blue-100 text-blue-700 border border-blue-200">
+        <CloudOff size={10} /> PENDING SYNC
+      </span>
+    );
+  }
+
+  if (record.syncStatus === 'error') {
+    return (
+      <div className="text-[10px] text-red-600 whitespace-normal max-w-[14rem]">
+        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full font-bold bg-red-100 border border-red-200">
+          <AlertTriangle size={10} /> SYNC FAILED
+        </span>
+        {record.syncMessage && <p className="mt-1">{record.syncMessage}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-[10px] text-orange-700 whitespace-normal max-w-[14rem] bg-orange-50 border border-orange-200 rounded-lg p-2">
+      <p className="font-bold flex items-center gap-1"><AlertTriangle size={10} /> SYNC CONFLICT</p>
+      <p className="mt-0.5">{record.syncMessage}. Keep this device's version or the other one?</p>
+      <div className="flex gap-2 mt-1.5">
+        <button onClick={() => onResolveConflict(record.id, 'mine')} className="px-2 py-1 bg-orange-500 text-white rounded font-bold hover:bg-orange-600">
+          Keep Mine
+        </button>
+        <button onClick={() => onResolveConflict(record.id, 'theirs')} className="px-2 py-1 bg-white border border-orange-300 rounded font-bold hover:bg-orange-100">
+          Use Theirs
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const HistoryList: React.FC<HistoryListProps> = ({
+  records, branches, consolidated, user, onEdit, onDelete, onContinue, onResolveConflict, onLoadHistory, onRestoreRevision, onOpenTrash
+}) => {
+  const canEdit = can(user, 'editPurchase');
+  const canDelete = can(user, 'deleteRecord');
+  const canExport = can(user, 'exportReport');
+
+  // Looked up by id so the panel follows the record after a restore reloads the list
+  const [historyRecordId, setHistoryRecordId] = useState<string | null>(null);
+  const historyRecord = records.find(r => r.id === historyRecordId);
+
+  // Weeks created offline have no server history until they sync
+  const hasHistory = (record: WeeklyRecord) => record.revision !== undefined;
+
   const [filters, setFilters] = useState({
     status: 'all',
     startDate: '',
@@ -38,6 +121,9 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
     });
   }, [records, filters]);
 
+  const branchName = (branchId?: string) =>
+    branches.find(b => b.id === branchId)?.name || 'Unassigned';
+
   const formatTime = (isoString?: string) => {
     if (!isoString) return '';
     return new Date(isoString).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', hour12: true });
@@ -50,6 +136,36 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
     return `Rs. ${amount.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
   };
 
+  // Lots worth listing: several farms, or one named supplier
+  const lotsOf = (r: WeeklyRecord) => {
+    const lots = getPurchaseLots(r);
+    return lots.length > 1 || lots[0]?.supplier ? lots : [];
+  };
+
+  // Cost on the first line, then one line per lot
+  const pdfPurchaseCell = (r: WeeklyRecord) =>
+    [
+      formatPdfCurrency(r.totalPurchaseCost),
+      stockNote(r),
+      ...lotsOf(r).map(lot => `${lot.supplier || 'Lot'}: ${formatNumber(lot.liveWeight)} kg @ ${formatPdfCurrency(lot.rate)}`)
+    ].filter(Boolean).join('\n');
+
+  // Total on the first line, then one line per category
+  const pdfExpenseCell = (r: WeeklyRecord) =>
+    [
+      formatPdfCurrency(r.totalExpenses),
+      ...expensesByCategory([r]).map(e => `${e.category}: ${formatPdfCurrency(e.amount)}`)
+    ].join('\n');
+
+  // Itemized weeks show the average, then one line per product
+  const pdfPriceCell = (r: WeeklyRecord) =>
+    hasSalesLines(r)
+      ? [
+          `${formatPdfCurrency(r.sellingPrice)} avg`,
+          ...(r.salesLines || []).map(line => `${line.product}: ${formatNumber(line.quantity)} kg @ ${formatPdfCurrency(line.price)}`)
+        ].join('\n')
+      : formatPdfCurrency(r.sellingPrice);
+
   const handleExportPDF = () => {
     const doc = new jsPDF('l'); // Landscape for more columns
     
@@ -69,19 +185,25 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
       const entryTime = r.createdAt ? `Entry: ${formatTime(r.createdAt)}` : '';
       const soldTime = r.salesCompletedAt ? `Sold: ${formatTime(r.salesCompletedAt)}` : '';
       
-      // Combine date and times for the first column
-      const dateColumnContent = [dateStr, entryTime, soldTime].filter(Boolean).join('\n');
+      // Combine date, branch and times for the first column
+      const dateColumnContent = [dateStr, consolidated ? branchName(r.branchId) : '', entryTime, soldTime].filter(Boolean).join('\n');
 
       return [
         dateColumnContent,
         `${formatNumber(r.totalLiveWeight)} kg`,
         `${formatNumber(r.totalHens)}`,
-        formatPdfCurrency(r.totalPurchaseCost),
-        r.isSalesEntryComplete ? formatPdfCurrency(r.sellingPrice) : '-',
+        pdfPurchaseCell(r),
+        r.isSalesEntryComplete ? pdfPriceCell(r) : '-',
         r.isSalesEntryComplete ? `${formatNumber(r.meatSold)} kg` : '-',
         r.isSalesEntryComplete ? `${formatNumber(r.wastage)} kg` : '-',
-        r.isSalesEntryComplete ? formatPdfCurrency(r.totalExpenses) : '-',
-        r.isSalesEntryComplete ? formatPdfCurrency(r.totalRevenue) : '-',
+        r.isSalesEntryComplete ? pdfExpenseCell(r) : '-',
+        r.isSalesEntryComplete
+          ? [
+              formatPdfCurrency(r.totalRevenue),
+              (r.totalCredit || 0) > 0 ? `(${formatPdfCurrency(r.totalCredit)} credit)` : '',
+              hasCashVariance(r) ? cashVarianceLabel(r, formatPdfCurrency) : ''
+            ].filter(Boolean).join('\n')
+          : '-',
         r.isSalesEntryComplete ? formatPdfCurrency(r.netProfit) : '-'
       ];
     });
@@ -99,6 +221,39 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
       }
     });
 
+    // Category totals for the weeks in the report
+    const categoryTotals = expensesByCategory(filteredRecords.filter(r => r.isSalesEntryComplete));
+    if (categoryTotals.length > 0) {
+      autoTable(doc, {
+        head: [['Expense Category', 'Total']],
+        body: [
+          ...categoryTotals.map(e => [e.category, formatPdfCurrency(e.amount)]),
+          ['All categories', formatPdfCurrency(categoryTotals.reduce((sum, e) => sum + e.amount, 0))]
+        ],
+        startY: lastTableEnd(doc) + 10,
+        theme: 'grid',
+        tableWidth: 100,
+        headStyles: { fillColor: [239, 68, 68], textColor: 255 },
+        styles: { fontSize: 8, cellPadding: 2 },
+        columnStyles: { 1: { halign: 'right' } }
+      });
+    }
+
+    // Product totals, when any week in the report was itemized
+    const productTotals = salesByProduct(filteredRecords);
+    if (productTotals.some(p => p.product !== NOT_ITEMIZED)) {
+      autoTable(doc, {
+        head: [['Product', 'Sold', 'Revenue']],
+        body: productTotals.map(p => [p.product, `${formatNumber(p.quantity)} kg`, formatPdfCurrency(p.revenue)]),
+        startY: lastTableEnd(doc) + 10,
+        theme: 'grid',
+        tableWidth: 120,
+        headStyles: { fillColor: [245, 158, 11], textColor: 255 },
+        styles: { fontSize: 8, cellPadding: 2 },
+        columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } }
+      });
+    }
+
     doc.save('SundaysChicken_Report.pdf');
   };
 
@@ -128,7 +283,17 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
             {hasActiveFilters && <span className="w-2 h-2 rounded-full bg-yellow-500"></span>}
           </button>
           
-          {records.length > 0 && (
+          {onOpenTrash && (
+            <button
+              onClick={onOpenTrash}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors border bg-white border-gray-200 text-gray-700 hover:bg-gray-50"
+            >
+              <Trash2 size={16} />
+              <span className="hidden sm:inline">Trash</span>
+            </button>
+          )}
+
+          {canExport && records.length > 0 && (
             <button 
               onClick={handleExportPDF}
               className="flex items-center gap-2 bg-gray-800 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-900 transition-colors shadow-sm"
@@ -229,6 +394,9 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
                       <div>
                         {new Date(record.weekDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
                       </div>
+                      {consolidated && (
+                        <div className="text-xs text-gray-500 font-normal">{branchName(record.branchId)}</div>
+                      )}
                       {record.createdAt && (
                         <div className="text-[10px] text-gray-400 mt-1 flex items-center gap-1">
                           <Clock size={10} /> {formatTime(record.createdAt)}
@@ -237,13 +405,33 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
                     </td>
                     <td className="px-4 py-4 text-gray-600 align-top">
                       <div className="font-medium">{formatNumber(record.totalLiveWeight)} kg <span className="text-gray-400 font-normal">({record.totalHens} hens)</span></div>
-                      <div className="text-xs text-gray-400 mt-0.5">@ {formatCurrency(record.purchaseRate)} = {formatCurrency(record.totalPurchaseCost)}</div>
+                      <div className="text-xs text-gray-400 mt-0.5">
+                        @ {formatCurrency(record.purchaseRate)}{lotsOf(record).length > 1 && ' avg'} = {formatCurrency(record.totalPurchaseCost)}
+                      </div>
+                      {stockNote(record) && <div className="text-xs text-green-700 mt-0.5">{stockNote(record)}</div>}
+                      {lotsOf(record).length > 0 && (
+                        <ul className="mt-1 space-y-0.5 text-[11px] text-gray-500">
+                          {lotsOf(record).map((lot, index) => (
+                            <li key={index}>
+                              {lot.supplier || `Lot ${index + 1}`}: {formatNumber(lot.liveWeight)} kg @ {formatCurrency(lot.rate)} = {formatCurrency(lotCost(lot))}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </td>
                     <td className="px-4 py-4 text-center text-gray-600 align-top">
                       {record.isSalesEntryComplete ? formatCurrency(record.sellingPrice) : '-'}
+                      {record.isSalesEntryComplete && hasSalesLines(record) && <div className="text-xs text-gray-400">avg</div>}
                     </td>
                     <td className="px-4 py-4 text-center text-gray-600 align-top">
                       {record.isSalesEntryComplete ? `${formatNumber(record.meatSold)} kg` : '-'}
+                      {record.isSalesEntryComplete && hasSalesLines(record) && (
+                        <ul className="mt-1 space-y-0.5 text-xs text-gray-400">
+                          {(record.salesLines || []).map((line, index) => (
+                            <li key={index}>{line.product} {formatNumber(line.quantity)} kg @ {formatCurrency(line.price)}</li>
+                          ))}
+                        </ul>
+                      )}
                     </td>
                     <td className="px-4 py-4 text-center align-top">
                        {record.isSalesEntryComplete ? (
@@ -258,6 +446,14 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
                     </td>
                     <td className="px-4 py-4 text-right text-gray-600 align-top">
                       {record.isSalesEntryComplete ? formatCurrency(record.totalRevenue) : '-'}
+                      {record.isSalesEntryComplete && (record.totalCredit || 0) > 0 && (
+                        <div className="text-xs text-yellow-700">{formatCurrency(record.totalCredit)} on credit</div>
+                      )}
+                      {record.isSalesEntryComplete && hasCashVariance(record) && (
+                        <div className="text-xs font-bold text-red-600 flex items-center justify-end gap-1">
+                          <AlertTriangle size={12} /> {cashVarianceLabel(record, formatCurrency)}
+                        </div>
+                      )}
                     </td>
                     <td className="px-4 py-4 text-right font-bold align-top">
                        {record.isSalesEntryComplete ? (
@@ -267,6 +463,11 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
                        ) : '-'}
                     </td>
                     <td className="px-4 py-4 text-center align-top">
+                      {record.syncStatus && (
+                        <div className="flex justify-center mb-2">
+                          <SyncBadge record={record} onResolveConflict={onResolveConflict} />
+                        </div>
+                      )}
                       {record.isSalesEntryComplete ? (
                         <div className="flex flex-col items-center">
                           <span className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 border border-green-200">
@@ -286,15 +487,24 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
                     </td>
                     <td className="px-4 py-4 text-center sticky right-0 bg-white hover:bg-gray-50 align-top">
                        <div className="flex items-center justify-center gap-2">
-                        {!record.isSalesEntryComplete && (
+                        {!record.isSalesEntryComplete && canEditSales(user, record) && (
                           <button onClick={() => onContinue(record)} className="p-1.5 text-yellow-600 hover:bg-yellow-50 rounded"><ArrowRight size={16} /></button>
                         )}
-                        <button onClick={() => onEdit(record)} className="p-1.5 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded">
-                          <Edit2 size={16} />
-                        </button>
-                        <button onClick={() => { if(window.confirm('Delete this record?')) onDelete(record.id); }} className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded">
-                          <Trash2 size={16} />
-                        </button>
+                        {hasHistory(record) && (
+                          <button onClick={() => setHistoryRecordId(record.id)} title="History" className="p-1.5 text-gray-400 hover:text-purple-500 hover:bg-purple-50 rounded">
+                            <History size={16} />
+                          </button>
+                        )}
+                        {canEdit && (
+                          <button onClick={() => onEdit(record)} className="p-1.5 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded">
+                            <Edit2 size={16} />
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button onClick={() => onDelete(record.id)} className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded">
+                            <Trash2 size={16} />
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -317,6 +527,9 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
                        <span className="font-bold text-gray-800 text-sm block">
                          {new Date(record.weekDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
                        </span>
+                       {consolidated && (
+                         <span className="text-[10px] text-gray-500 block">{branchName(record.branchId)}</span>
+                       )}
                      </div>
                    </div>
                    <div className="flex flex-col items-end gap-1">
@@ -341,6 +554,12 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
                    )}
                 </div>
 
+                {record.syncStatus && (
+                  <div className="mb-3">
+                    <SyncBadge record={record} onResolveConflict={onResolveConflict} />
+                  </div>
+                )}
+
                 <div className="space-y-3">
                   {/* Row 1: Purchase Details (Full) */}
                   <div className="grid grid-cols-3 gap-2">
@@ -357,6 +576,19 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
                       <span className="font-bold text-gray-900 text-sm">{formatCurrency(record.totalPurchaseCost)}</span>
                     </div>
                   </div>
+                  {stockNote(record) && (
+                    <div className="text-xs text-green-700 px-1">{stockNote(record)}</div>
+                  )}
+                  {lotsOf(record).length > 0 && (
+                    <div className="bg-gray-50 p-2.5 rounded-lg border border-gray-100 text-xs text-gray-600 space-y-0.5">
+                      {lotsOf(record).map((lot, index) => (
+                        <div key={index} className="flex justify-between gap-2">
+                          <span className="truncate">{lot.supplier || `Lot ${index + 1}`}</span>
+                          <span className="whitespace-nowrap">{formatNumber(lot.liveWeight)} kg @ {formatCurrency(lot.rate)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
 
                   {record.isSalesEntryComplete ? (
                     <>
@@ -365,9 +597,14 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
                           <div className="bg-blue-50 p-2.5 rounded-lg border border-blue-100 relative">
                              <div className="flex justify-between items-start">
                                <span className="block text-[10px] text-blue-500 uppercase font-semibold">Meat Sold</span>
-                               <span className="text-[10px] text-blue-400">@ {formatCurrency(record.sellingPrice)}</span>
+                               <span className="text-[10px] text-blue-400">@ {formatCurrency(record.sellingPrice)}{hasSalesLines(record) ? ' avg' : ''}</span>
                              </div>
                              <span className="font-bold text-blue-900 text-sm">{formatNumber(record.meatSold)} kg</span>
+                             {hasSalesLines(record) && (
+                               <span className="block text-[10px] text-blue-400">
+                                 {(record.salesLines || []).map(line => `${line.product} ${formatNumber(line.quantity)} kg`).join(' • ')}
+                               </span>
+                             )}
                           </div>
                           
                           <div className="bg-red-50 p-2.5 rounded-lg border border-red-100">
@@ -388,6 +625,12 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
                           <div className="p-2 text-right">
                              <span className="block text-[10px] text-gray-400 uppercase">Revenue</span>
                              <span className="font-bold text-gray-900">{formatCurrency(record.totalRevenue)}</span>
+                             {(record.totalCredit || 0) > 0 && (
+                               <span className="block text-[10px] text-yellow-700">{formatCurrency(record.totalCredit)} on credit</span>
+                             )}
+                             {hasCashVariance(record) && (
+                               <span className="block text-[10px] font-bold text-red-600">{cashVarianceLabel(record, formatCurrency)}</span>
+                             )}
                           </div>
                        </div>
 
@@ -409,24 +652,37 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
                   ) : (
                     <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-center mt-2">
                       <p className="text-xs text-yellow-800 font-medium mb-3">Sales entry pending for this week.</p>
-                      <button 
-                        onClick={() => onContinue(record)}
-                        className="w-full flex items-center justify-center gap-2 bg-yellow-500 text-white px-4 py-2.5 rounded-lg text-sm font-bold shadow-sm active:scale-95 transition-all hover:bg-yellow-600"
-                      >
-                        Enter Sales Details <ChevronRight size={16} />
-                      </button>
+                      {canEditSales(user, record) && (
+                        <button 
+                          onClick={() => onContinue(record)}
+                          className="w-full flex items-center justify-center gap-2 bg-yellow-500 text-white px-4 py-2.5 rounded-lg text-sm font-bold shadow-sm active:scale-95 transition-all hover:bg-yellow-600"
+                        >
+                          Enter Sales Details <ChevronRight size={16} />
+                        </button>
+                      )}
                     </div>
                   )}
 
                   {/* Mobile Actions Footer */}
-                  <div className="flex justify-end pt-2 border-t border-gray-50 gap-3 mt-3">
-                     <button onClick={() => onEdit(record)} className="text-gray-400 hover:text-blue-600 flex items-center gap-1 text-xs px-2 py-1">
-                       <Edit2 size={14} /> Edit
-                     </button>
-                     <button onClick={() => onDelete(record.id)} className="text-gray-400 hover:text-red-600 flex items-center gap-1 text-xs px-2 py-1">
-                       <Trash2 size={14} /> Delete
-                     </button>
-                  </div>
+                  {(canEdit || canDelete || hasHistory(record)) && (
+                    <div className="flex justify-end pt-2 border-t border-gray-50 gap-3 mt-3">
+                       {hasHistory(record) && (
+                         <button onClick={() => setHistoryRecordId(record.id)} className="text-gray-400 hover:text-purple-600 flex items-center gap-1 text-xs px-2 py-1">
+                           <History size={14} /> History
+                         </button>
+                       )}
+                       {canEdit && (
+                         <button onClick={() => onEdit(record)} className="text-gray-400 hover:text-blue-600 flex items-center gap-1 text-xs px-2 py-1">
+                           <Edit2 size={14} /> Edit
+                         </button>
+                       )}
+                       {canDelete && (
+                         <button onClick={() => onDelete(record.id)} className="text-gray-400 hover:text-red-600 flex items-center gap-1 text-xs px-2 py-1">
+                           <Trash2 size={14} /> Delete
+                         </button>
+                       )}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -434,6 +690,17 @@ const HistoryList: React.FC<HistoryListProps> = ({ records, onEdit, onDelete, on
 
         </div>
       )}
+
+      {historyRecord && (
+        <RecordHistoryPanel
+          record={historyRecord}
+          branches={branches}
+          canRestore={can(user, 'restoreRevision')}
+          onLoadHistory={onLoadHistory}
+          onRestore={onRestoreRevision}
+          onClose={() => setHistoryRecordId(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { WeeklyRecord, Branch, SupplierPayment } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { getPayables, payablesBySupplier, totalOutstanding, Payable } from '../utils/payables';
+import { getSaveErrors } from '../utils/validation';
+import { ArrowLeft, AlertTriangle, IndianRupee } from 'lucide-react';
+
+interface PayablesListProps {
+  records: WeeklyRecord[];
+  branches: Branch[];
+  consolidated: boolean; // Show which branch each purchase belongs to
+  alertDays: number;
+  onChangeAlertDays: (days: number) => void;
+  onRecordPayment: (payable: Payable, payment: SupplierPayment) => Promise<void>; // Rejects with the server's error
+  onBack: () => void;
+}
+
+const getTodayDate = () => {
+  const today = new Date();
+  return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+};
+
+// Money still owed to farms, grouped by supplier, with a form to record
+// each payment against the purchase it settles
+const PayablesList: React.FC<PayablesListProps> = ({ records, branches, consolidated, alertDays, onChangeAlertDays, onRecordPayment, onBack }) => {
+  const payables = useMemo(() => getPayables(records), [records]);
+  const groups = useMemo(() => payablesBySupplier(payables), [payables]);
+
+  const [payingKey, setPayingKey] = useState<string | null>(null);
+  const [payment, setPayment] = useState({ amount: '', date: getTodayDate(), note: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const keyOf = (payable: Payable) => `${payable.recordId}-${payable.lotIndex}`;
+
+  const startPayment = (payable: Payable) => {
+    setPayingKey(keyOf(payable));
+    setPayment({ amount: payable.outstanding.toString(), date: getTodayDate(), note: '' });
+    setError('');
+  };
+
+  const handleSave = async (payable: Payable) => {
+    const amount = Number(payment.amount);
+    if (!(amount > 0)) {
+      setError('Enter an amount above 0');
+      return;
+    }
+    if (amount > payable.outstanding) {
+      setError(`Only ${formatCurrency(payable.outstanding)} is due on this purchase`);
+      return;
+    }
+    setSaving(true);
+    setError('');
+    try {
+      await onRecordPayment(payable, { amount, date: payment.date, ...(payment.note.trim() ? { note: payment.note.trim() } : {}) });
+      setPayingKey(null);
+    } catch (err) {
+      setError(getSaveErrors(err, 'Failed to record the payment. Please try again.').general || '');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const branchName = (branchId?: string) =>
+    branches.find(b => b.id === branchId)?.name || 'Unassigned';
+
+  const inputClass = "p-2 border border-gray-300 bg-white rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-yellow-500 outline-none";
+
+  return (
+    <div className="pb-24">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <button onClick={onBack} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg">
+            <ArrowLeft size={20} />
+          </button>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800">Supplier Payables</h2>
+            <p className="text-gray-500 text-sm">
+              {formatCurrency(totalOutstanding(payables))} outstanding to {groups.length} supplier{groups.length === 1 ? '' : 's'}
+            </p>
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Warn after
+          <input
+            type="number"
+            min={1}
+            className={`${inputClass} w-16`}
+            value={alertDays}
+            onChange={e => {
+              const days = Math.floor(Number(e.target.value));
+              if (days >= 1) onChangeAlertDays(days);
+            }}
+          />
+          days
+        </label>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="text-center py-12 text-gray-400 bg-white rounded-xl border border-dashed border-gray-300">
+          Nothing owed. Every purchase is paid in full.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {groups.map(group => (
+            <div key={group.supplierId || group.supplier} className="bg-white rounded-xl shadow-sm border border-gray-200">
+              <div className="flex justify-between items-center p-4 border-b border-gray-100">
+                <div>
+                  <p className="font-bold text-gray-800">{group.supplier || 'No supplier'}</p>
+                  <p className="text-xs text-gray-400">{group.payables.length} unpaid purchase{group.payables.length === 1 ? '' : 's'}</p>
+                </div>
+                <span className="text-lg font-bold text-red-600">{formatCurrency(group.outstanding)}</span>
+              </div>
+              <div className="divide-y divide-gray-50">
+                {group.payables.map(payable => (
+                  <div key={keyOf(payable)} className="p-4 space-y-3">
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                      <div className="flex-1">
+                        <p className="text-sm text-gray-800 flex items-center gap-2">
+                          Bought {new Date(payable.purchaseDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+                          {payable.ageDays > alertDays && (
+                            <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-red-100 text-red-700 flex items-center gap-1">
+                              <AlertTriangle size={10} /> {payable.ageDays} DAYS
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-0.5">
+                          {consolidated && `${branchName(payable.branchId)} · `}
+                          Cost {formatCurrency(payable.cost)} · Paid {formatCurrency(payable.paid)}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="font-semibold text-red-600">{formatCurrency(payable.outstanding)}</span>
+                        {payingKey !== keyOf(payable) && (
+                          <button
+                            onClick={() => startPayment(payable)}
+                            className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50"
+                          >
+                            <IndianRupee size={12} /> Record Payment
+                          </button>
+                        )}
+                      </div>
+                    </div>
+
+                    {payingKey === keyOf(payable) && (
+                      <div className="bg-gray-50 p-3 rounded-lg border border-gray-100 space-y-2">
+                        <div className="flex flex-wrap gap-2">
+                          <input type="number" className={`${inputClass} w-28`} placeholder="₹" value={payment.amount} onChange={e => setPayment({ ...payment, amount: e.target.value })} />
+                          <input type="date" className={inputClass} style={{ colorScheme: 'light' }} value={payment.date} onChange={e => setPayment({ ...payment, date: e.target.value })} />
+                          <input type="text" className={`${inputClass} flex-1 min-w-[8rem]`} placeholder="Note (optional)" value={payment.note} onChange={e => setPayment({ ...payment, note: e.target.value })} />
+                        </div>
+                        {error && <p className="text-xs text-red-500">{error}</p>}
+                        <div className="flex gap-2 justify-end">
+                          <button onClick={() => setPayingKey(null)} className="px-3 py-1.5 text-xs border border-gray-300 rounded-lg text-gray-700 hover:bg-white">
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => handleSave(payable)}
+                            disabled={saving}
+                            className="px-3 py-1.5 text-xs bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 disabled:opacity-60"
+                          >
+                            {saving ? 'Saving...' : 'Save Payment'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PayablesList;
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { WeeklyRecord, PosTransaction, PaymentMode, Product } from '../types';
+import * as PosService from '../services/posService';
+import { formatCurrency, formatNumber } from '../utils/calculations';
+import { summarizeTransactions, transactionAmount, rollUpTransactions } from '../utils/pos';
+import { getSaveErrors } from '../utils/validation';
+import { stockWeight } from '../utils/stock';
+import { ArrowLeft, Trash2, Banknote, Smartphone, AlertCircle } from 'lucide-react';
+
+interface PosScreenProps {
+  record: WeeklyRecord; // The open week
+  records: WeeklyRecord[]; // Same branch, for the usual wastage
+  products: Product[];
+  onCloseDay: (record: WeeklyRecord) => Promise<void>; // Clears the draft; rejects with the server's error
+  onBack: () => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+
+// Counter screen for Sunday: log each sale as it happens and close the day
+// into the week's cash, UPI and selling price
+const PosScreen: React.FC<PosScreenProps> = ({ record, records, products, onCloseDay, onBack }) => {
+  // A day closed earlier and reopened picks up where it left off
+  const [transactions, setTransactions] = useState<PosTransaction[]>(() => {
+    const draft = PosService.getDraftTransactions(record.id);
+    return draft.length > 0 ? draft : record.posTransactions || [];
+  });
+  const [product, setProduct] = useState('');
+  const [weight, setWeight] = useState('');
+  const [price, setPrice] = useState(() => transactions[transactions.length - 1]?.price.toString() || '');
+  const [error, setError] = useState('');
+  const [closing, setClosing] = useState(false);
+
+  const summary = useMemo(() => summarizeTransactions(transactions), [transactions]);
+
+  // Share of live weight usually lost in this shop, from completed weeks
+  const usualWastage = useMemo(() => {
+    const completed = records.filter(r => r.isSalesEntryComplete && r.id !== record.id);
+    const liveWeight = completed.reduce((sum, r) => sum + stockWeight(r), 0);
+    const wastage = completed.reduce((sum, r) => sum + (r.wastage || 0), 0);
+    return liveWeight > 0 ? (wastage / liveWeight) * 100 : undefined;
+  }, [records, record.id]);
+
+  // Bought plus any birds kept from last week
+  const onHand = record.totalLiveWeight + (record.openingWeight || 0);
+  const remainingLive = onHand - summary.weight;
+  const remainingSellable = usualWastage !== undefined
+    ? onHand * (1 - usualWastage / 100) - summary.weight
+    : undefined;
+
+  const update = (next: PosTransaction[]) => {
+    setTransactions(next);
+    PosService.saveDraftTransactions(record.id, next);
+  };
+
+  const selectProduct = (name: string) => {
+    setProduct(name);
+    const listed = products.find(p => p.name === name)?.price;
+    if (listed !== undefined) setPrice(listed.toString());
+  };
+
+  const logSale = (mode: PaymentMode) => {
+    const kg = Number(weight);
+    const perKg = Number(price);
+    if (!(kg > 0) || !(perKg > 0)) {
+      setError('Enter the weight and the price per kg');
+      return;
+    }
+    setError('');
+    update([...transactions, {
+      at: new Date().toISOString(),
+      weight: kg,
+      price: perKg,
+      mode,
+      ...(product ? { product } : {}),
+    }]);
+    setWeight('');
+  };
+
+  const removeSale = (index: number) => {
+    if (!window.confirm('Remove this sale?')) return;
+    update(transactions.filter((_, i) => i !== index));
+  };
+
+  const handleCloseDay = async () => {
+    if (transactions.length === 0) return;
+    const overwrite = !record.posTransactions && ((record.cashCollected || 0) > 0 || (record.upiCollected || 0) > 0);
+    const message = overwrite
+      ? 'This week already has cash and UPI figures. Replace them with the counter totals?'
+      : `Close the day with ${summary.count} sales totalling ${formatCurrency(summary.total)}?`;
+    if (!window.confirm(message)) return;
+
+    setClosing(true);
+    setError('');
+    try {
+      await onCloseDay(rollUpTransactions(record, transactions));
+    } catch (err) {
+      setError(getSaveErrors(err, 'Failed to close the day. The sales are kept on this device.').general || '');
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const amount = Number(weight) * Number(price);
+  const inputClass = "w-full p-3 border border-gray-300 bg-white rounded-lg text-lg text-gray-900 focus:ring-2 focus:ring-yellow-500 focus:border-yellow-500 outline-none";
+
+  const stat = (label: string, value: string, sub?: string) => (
+    <div className="bg-white p-3 rounded-xl shadow-sm border border-gray-100">
+      <p className="text-[10px] text-gray-500 uppercase font-semibold tracking-wider">{label}</p>
+      <p className="text-lg font-bold text-gray-800">{value}</p>
+      {sub && <p className="text-[10px] text-gray-400">{sub}</p>}
+    </div>
+  );
+
+  return (
+    <div className="pb-24 max-w-3xl mx-auto space-y-4">
+      <div className="flex items-center gap-3">
+        <button onClick={onBack} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg">
+          <ArrowLeft size={20} />
+        </button>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">Counter</h2>
+          <p className="text-gray-500 text-sm">Week of {new Date(record.weekDate).toLocaleDateString('en-GB')} • {formatNumber(record.totalLiveWeight)} kg bought</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {stat('Sales', formatCurrency(summary.total), `${summary.count} sale${summary.count === 1 ? '' : 's'}`)}
+        {stat('Cash / UPI', `${formatCurrency(summary.cash)} / ${formatCurrency(summary.upi)}`)}
+        {stat('Sold', `${formatNumber(summary.weight)} kg`, summary.weight > 0 ? `${formatCurrency(summary.sellingPrice)} / kg avg` : undefined)}
+        {stat(
+          'Stock Left',
+          remainingSellable !== undefined ? `≈ ${formatNumber(Math.max(0, remainingSellable), 1)} kg` : `${formatNumber(remainingLive, 1)} kg`,
+          remainingSellable !== undefined
+            ? `at the usual ${formatNumber(usualWastage, 1)}% wastage • ${formatNumber(remainingLive, 1)} kg live`
+            : 'of live weight'
+        )}
+      </div>
+
+      {remainingSellable !== undefined && remainingSellable < 0 && (
+        <p className="text-xs font-bold text-red-600 flex items-center gap-1">
+          <AlertCircle size={14} /> Sold more than this week's birds usually give
+        </p>
+      )}
+
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200 space-y-3">
+        {products.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {products.map(p => (
+              <button
+                key={p.id}
+                type="button"
+                onClick={() => selectProduct(product === p.name ? '' : p.name)}
+                className={`px-3 py-1.5 rounded-full text-sm border ${product === p.name ? 'bg-yellow-500 border-yellow-500 text-white' : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'}`}
+              >
+                {p.name}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Weight (kg)</label>
+            <input type="number" step="0.01" inputMode="decimal" className={inputClass} value={weight} onChange={e => setWeight(e.target.value)} autoFocus />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Price (₹/kg)</label>
+            <input type="number" step="0.01" inputMode="decimal" className={inputClass} value={price} onChange={e => setPrice(e.target.value)} />
+          </div>
+        </div>
+        <p className="text-center text-2xl font-bold text-gray-900">{amount > 0 ? formatCurrency(amount) : '₹0'}</p>
+        {error && <p className="text-sm text-red-500 bg-red-50 p-2 rounded text-center border border-red-100">{error}</p>}
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={() => logSale('cash')} className="flex items-center justify-center gap-2 py-4 rounded-xl bg-green-600 text-white text-lg font-bold hover:bg-green-700 active:scale-95 transition-transform">
+            <Banknote size={22} /> Cash
+          </button>
+          <button onClick={() => logSale('upi')} className="flex items-center justify-center gap-2 py-4 rounded-xl bg-blue-600 text-white text-lg font-bold hover:bg-blue-700 active:scale-95 transition-transform">
+            <Smartphone size={22} /> UPI
+          </button>
+        </div>
+      </div>
+
+      {transactions.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+          {[...transactions].reverse().map((t, reversedIndex) => {
+            const index = transactions.length - 1 - reversedIndex;
+            return (
+              <div key={`${t.at}-${index}`} className="px-4 py-2 flex items-center gap-3 text-sm">
+                <span className="text-xs text-gray-400 w-14">{formatTime(t.at)}</span>
+                <span className="flex-1 text-gray-700">
+                  {t.product && <span className="font-medium">{t.product} · </span>}
+                  {formatNumber(t.weight)} kg @ {formatCurrency(t.price)}
+                </span>
+                <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase ${t.mode === 'cash' ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-700'}`}>{t.mode}</span>
+                <span className="font-semibold text-gray-900 w-20 text-right">{formatCurrency(transactionAmount(t))}</span>
+                <button onClick={() => removeSale(index)} className="p-1 text-gray-300 hover:text-red-500">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <button
+        onClick={handleCloseDay}
+        disabled={closing || transactions.length === 0}
+        className="w-full py-3 px-4 bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 disabled:opacity-50"
+      >
+        {closing ? 'Closing...' : 'Close Day'}
+      </button>
+      <p className="text-xs text-center text-gray-400">
+        Closing fills in the week's cash, UPI and selling price. Expenses and credit are added on the sales entry next.
+      </p>
+    </div>
+  );
+};
+
+export default PosScreen;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { WeeklyRecord } from '../types';
+import { formatCurrency, formatNumber } from '../utils/calculations';
+import { pricingBasis, adviseSellingPrice } from '../utils/pricing';
+import { Tag } from 'lucide-react';
+
+interface PriceAdvisorProps {
+  record: WeeklyRecord; // As bought; purchase figures as currently typed
+  records: WeeklyRecord[]; // The branch's weeks, for the usual wastage and expenses
+  expenses?: number; // Entered so far; the usual ones are assumed when missing
+  onUsePrice?: (price: number) => void; // Omitted where no price is being typed
+}
+
+const formatWeek = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+
+// Break-even selling price and prices for the target margins, with the
+// history they come from
+const PriceAdvisor: React.FC<PriceAdvisorProps> = ({ record, records, expenses, onUsePrice }) => {
+  const basis = pricingBasis(record, records);
+  if (!basis) {
+    return (
+      <p className="text-xs text-gray-400">Price advice appears once this branch has a completed week.</p>
+    );
+  }
+  const advice = adviseSellingPrice(record, basis, expenses);
+  if (!advice) return null;
+
+  return (
+    <div className="bg-indigo-50 p-3 rounded-lg border border-indigo-100 space-y-2 text-sm text-left">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1 font-semibold text-indigo-800"><Tag size={14} /> Price Advice</span>
+        <span className="text-indigo-800">
+          Break-even <span className="font-bold">{formatCurrency(advice.breakEven)}</span> / kg
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {advice.targets.map(({ margin, price }) => {
+          const rounded = Math.ceil(price);
+          return onUsePrice ? (
+            <button
+              key={margin}
+              type="button"
+              onClick={() => onUsePrice(rounded)}
+              className="bg-white p-2 rounded border border-indigo-100 hover:border-indigo-300 text-center"
+            >
+              <span className="block text-[10px] font-semibold text-gray-500 uppercase">{margin}% margin</span>
+              <span className="font-bold text-gray-800">{formatCurrency(rounded)}</span>
+            </button>
+          ) : (
+            <div key={margin} className="bg-white p-2 rounded border border-indigo-100 text-center">
+              <span className="block text-[10px] font-semibold text-gray-500 uppercase">{margin}% margin</span>
+              <span className="font-bold text-gray-800">{formatCurrency(rounded)}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-[11px] text-indigo-700 leading-snug">
+        From the last {basis.weeks === 1 ? 'week' : `${basis.weeks} weeks`} ({formatWeek(basis.from)}
+        {basis.weeks > 1 ? ` – ${formatWeek(basis.to)}` : ''}): {formatNumber(basis.wastagePercentage, 1)}% of the live
+        weight was lost, so about {formatNumber(advice.sellableWeight)} kg to sell. Stock costs {formatCurrency(advice.stockCost)};
+        expenses {formatCurrency(advice.expenses)} {advice.expensesEntered ? 'as entered' : '(the usual week)'}.
+        {onUsePrice ? ' Tap a price to use it.' : ''}
+      </p>
+    </div>
+  );
+};
+
+export default PriceAdvisor;
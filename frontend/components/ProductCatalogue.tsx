@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Product } from '../types';
+import { ProductInput } from '../services/productService';
+import { formatCurrency } from '../utils/calculations';
+import { getSaveErrors } from '../utils/validation';
+import { ArrowLeft, Plus, Edit2, Trash2 } from 'lucide-react';
+
+interface ProductCatalogueProps {
+  products: Product[];
+  onCreate: (input: ProductInput) => Promise<Product>; // Rejects with the server's error
+  onUpdate: (id: string, input: ProductInput) => Promise<Product>;
+  onDelete: (id: string) => Promise<void>;
+  onBack: () => void;
+}
+
+// What the shop sells and the usual price per kg of each. Prices here are
+// only suggestions for the sales entry; each week keeps what it was sold at.
+const ProductCatalogue: React.FC<ProductCatalogueProps> = ({ products, onCreate, onUpdate, onDelete, onBack }) => {
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' while adding
+  const [form, setForm] = useState({ name: '', price: '' });
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const startEdit = (product?: Product) => {
+    setEditingId(product ? product.id : 'new');
+    setForm({ name: product?.name || '', price: product?.price?.toString() || '' });
+    setError('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: ProductInput = {
+      name: form.name.trim(),
+      price: form.price.trim() === '' ? undefined : Number(form.price),
+    };
+    if (!input.name) {
+      setError('Product name is required');
+      return;
+    }
+    if (input.price !== undefined && !(input.price > 0)) {
+      setError('Price must be greater than 0');
+      return;
+    }
+    setSaving(true);
+    try {
+      if (editingId === 'new') await onCreate(input);
+      else if (editingId) await onUpdate(editingId, input);
+      setEditingId(null);
+    } catch (err) {
+      setError(getSaveErrors(err, 'Failed to save the product. Please try again.').general || '');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (product: Product) => {
+    if (!window.confirm(`Remove ${product.name}? Past weeks keep their sales.`)) return;
+    try {
+      await onDelete(product.id);
+    } catch (err) {
+      alert("Failed to remove the product.");
+    }
+  };
+
+  const inputClass = "w-full p-2 border border-gray-300 bg-white rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-yellow-500 focus:border-yellow-500 outline-none";
+
+  return (
+    <div className="pb-24 max-w-2xl mx-auto">
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <button onClick={onBack} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg">
+            <ArrowLeft size={20} />
+          </button>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800">Products</h2>
+            <p className="text-gray-500 text-sm">Cuts sold over the counter and their usual price</p>
+          </div>
+        </div>
+        {editingId === null && (
+          <button
+            onClick={() => startEdit()}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-gray-800 text-white hover:bg-gray-900"
+          >
+            <Plus size={16} /> Add Product
+          </button>
+        )}
+      </div>
+
+      {editingId !== null && (
+        <form onSubmit={handleSave} className="bg-white p-4 rounded-xl shadow-sm border border-gray-200 mb-6 space-y-3" noValidate>
+          <div className="grid grid-cols-3 gap-3">
+            <input className={`${inputClass} col-span-2`} placeholder="Name, e.g. Boneless" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+            <input type="number" step="0.01" className={inputClass} placeholder="₹/kg (optional)" value={form.price} onChange={e => setForm({ ...form, price: e.target.value })} />
+          </div>
+          {error && <p className="text-sm text-red-500 bg-red-50 p-2 rounded text-center border border-red-100">{error}</p>}
+          <div className="flex gap-2 justify-end">
+            <button type="button" onClick={() => setEditingId(null)} className="px-4 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">
+              Cancel
+            </button>
+            <button type="submit" disabled={saving} className="px-4 py-2 text-sm bg-yellow-500 text-white rounded-lg font-medium hover:bg-yellow-600 disabled:opacity-60">
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+        {products.map(product => (
+          <div key={product.id} className="p-4 flex items-center gap-3">
+            <span className="flex-1 font-medium text-gray-800 text-sm">{product.name}</span>
+            <span className="text-sm text-gray-600">{product.price !== undefined ? `${formatCurrency(product.price)} / kg` : 'No price set'}</span>
+            <div className="flex gap-1">
+              <button onClick={() => startEdit(product)} className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded">
+                <Edit2 size={16} />
+              </button>
+              <button onClick={() => handleDelete(product)} className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded">
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProductCatalogue;
@@ -1,6 +1,16 @@
-import React, { useState, useEffect } from 'react';
-import { WeeklyRecord } from '../types';
-import { AlertCircle, CheckCircle } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { WeeklyRecord, Supplier, CONSOLIDATED_BRANCH } from '../types';
+import { validatePurchase, getSaveErrors, FieldErrors } from '../utils/validation';
+import { getPurchaseLots, summarizeLots, purchaseDateOf } from '../utils/purchases';
+import { lotOutstanding } from '../utils/payables';
+import { formatCurrency, formatNumber } from '../utils/calculations';
+import { findCarryOverSource } from '../utils/stock';
+import { pricingBasis } from '../utils/pricing';
+import { forecastDemand } from '../utils/forecast';
+import { weekStartOf, findSameWeek } from '../utils/weeks';
+import PriceAdvisor from './PriceAdvisor';
+import PurchaseLotsEditor, { LotRow, EMPTY_LOT, toLotRows, toPurchaseLots } from './PurchaseLotsEditor';
+import { AlertCircle, CheckCircle, Target } from 'lucide-react';
 
 // Helper to get local date string YYYY-MM-DD (Fixes timezone issues with ISOString)
 const getTodayDate = () => {
@@ -11,113 +21,192 @@ const getTodayDate = () => {
   return `${year}-${month}-${day}`;
 };
 
+const formatWeek = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
 interface PurchaseFormProps {
   existingRecord?: WeeklyRecord;
-  onSave: (record: WeeklyRecord) => void;
+  records: WeeklyRecord[]; // To offer birds kept from an earlier week, and to find the week a date falls in
+  branchId: string; // Branch new purchases are recorded against
+  suppliers: Supplier[];
+  onAddSupplier?: (name: string) => Promise<Supplier>;
+  onSave: (record: WeeklyRecord) => Promise<WeeklyRecord>; // Rejects with the server's errors
+  onSaved: (record: WeeklyRecord) => void;
   onCancel: () => void;
 }
 
-const PurchaseForm: React.FC<PurchaseFormProps> = ({ existingRecord, onSave, onCancel }) => {
+const PurchaseForm: React.FC<PurchaseFormProps> = ({ existingRecord, records, branchId, suppliers, onAddSupplier, onSave, onSaved, onCancel }) => {
   const [formData, setFormData] = useState({
     date: getTodayDate(),
-    totalHens: '',
-    totalLiveWeight: '',
-    purchaseRate: ''
   });
+  // One lot per farm bought from
+  const [lotRows, setLotRows] = useState<LotRow[]>([EMPTY_LOT]);
+  // Whether the week opens with the birds kept from an earlier one
+  const [includeOpening, setIncludeOpening] = useState(!existingRecord || !!existingRecord.openingFromId);
 
   const [errors, setErrors] = useState<{
     date?: string;
-    totalHens?: string;
-    totalLiveWeight?: string;
-    purchaseRate?: string;
+    opening?: string;
+    general?: string;
   }>({});
+  // Per-lot messages, keyed `purchaseLots.<index>.<field>` as the validator reports them
+  const [lotErrors, setLotErrors] = useState<Record<string, string | undefined>>({});
 
+  const [saving, setSaving] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  // Kept on the confirmation while its price advice is read
+  const [savedRecord, setSavedRecord] = useState<WeeklyRecord | null>(null);
 
   useEffect(() => {
     if (existingRecord) {
       setFormData({
-        date: existingRecord.weekDate,
-        totalHens: existingRecord.totalHens.toString(),
-        totalLiveWeight: existingRecord.totalLiveWeight.toString(),
-        purchaseRate: existingRecord.purchaseRate.toString()
+        date: purchaseDateOf(existingRecord),
       });
+      setLotRows(toLotRows(existingRecord));
+      setIncludeOpening(!!existingRecord.openingFromId);
     }
   }, [existingRecord]);
 
-  const validate = () => {
-    const newErrors: typeof errors = {};
-    let isValid = true;
-
-    if (!formData.date) {
-      newErrors.date = 'Date is required';
-      isValid = false;
-    }
-
-    const hens = Number(formData.totalHens);
-    if (!formData.totalHens || hens <= 0 || !Number.isInteger(hens)) {
-      newErrors.totalHens = 'Must be a positive whole number';
-      isValid = false;
-    }
+  // Any date typed files under the first day of its week
+  const recordBranch = existingRecord?.branchId || (branchId !== CONSOLIDATED_BRANCH ? branchId : undefined);
+  const weekDate = weekStartOf(formData.date);
+  const weekRecord = { ...(existingRecord || {} as WeeklyRecord), branchId: recordBranch, weekDate };
+  // A week of the branch that already has a record; a new purchase is added to it
+  const sameWeek = findSameWeek(weekRecord, records);
+  const addingToWeek = !existingRecord && sameWeek ? sameWeek : undefined;
 
-    const weight = Number(formData.totalLiveWeight);
-    if (!formData.totalLiveWeight || weight <= 0) {
-      newErrors.totalLiveWeight = 'Weight must be greater than 0';
-      isValid = false;
-    }
+  // The week the opening stock comes from: the one already linked, or the
+  // latest earlier week of the branch with birds nobody has carried on yet
+  const linkedSource = existingRecord?.openingFromId ? records.find(r => r.id === existingRecord.openingFromId) : undefined;
+  const openingSource = addingToWeek ? undefined : linkedSource || findCarryOverSource(weekRecord, records);
 
-    const rate = Number(formData.purchaseRate);
-    if (!formData.purchaseRate || rate <= 0) {
-      newErrors.purchaseRate = 'Rate must be greater than 0';
-      isValid = false;
-    }
-
-    setErrors(newErrors);
-    return isValid;
-  };
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!validate()) return;
+  // Suggested purchase for a new week, from the branch's past demand
+  const forecast = useMemo(
+    () => (existingRecord || addingToWeek ? undefined : forecastDemand(records.filter(r => r.branchId === recordBranch), weekDate)),
+    [existingRecord, addingToWeek, records, recordBranch, weekDate]
+  );
 
-    // IMPORTANT: For new records, we do NOT generate an ID here.
-    // We pass an empty string (or undefined logic handled in service)
-    // The Backend Database (MongoDB) will generate the unique _id.
-    const record: WeeklyRecord = {
+  // Builds the record from the form. For new records, we do NOT generate an ID here.
+  // We pass an empty string (or undefined logic handled in service)
+  // The Backend Database (MongoDB) will generate the unique _id.
+  // The week's totals are recalculated from the lots by the backend/service as well.
+  const buildRecord = (): WeeklyRecord => {
+    // Saved lots keep the day they were bought unless the date was changed
+    const redated = existingRecord && formData.date !== purchaseDateOf(existingRecord);
+    const rows = redated ? lotRows.map(row => ({ ...row, date: undefined })) : lotRows;
+    const purchaseLots = toPurchaseLots(rows, formData.date, getTodayDate());
+    const { totalHens, totalLiveWeight, purchaseRate } = summarizeLots(purchaseLots);
+    return {
+      // Keeps the sales side (and anything else entered since) as saved
+      ...existingRecord,
       id: existingRecord?.id || '', 
-      weekDate: formData.date,
-      totalHens: Number(formData.totalHens),
-      totalLiveWeight: Number(formData.totalLiveWeight),
-      purchaseRate: Number(formData.purchaseRate),
+      branchId: recordBranch,
+      weekDate,
+      purchaseLots,
+      totalHens,
+      totalLiveWeight,
+      purchaseRate,
       totalPurchaseCost: 0, // Calculated by backend/service
-      
+
       // Capture timestamp
       createdAt: existingRecord?.createdAt || new Date().toISOString(),
-      
+
       // Preserve existing data if editing, or set defaults
       isSalesEntryComplete: existingRecord?.isSalesEntryComplete || false,
       salesCompletedAt: existingRecord?.salesCompletedAt,
       sellingPrice: existingRecord?.sellingPrice,
       cashCollected: existingRecord?.cashCollected,
       upiCollected: existingRecord?.upiCollected,
+      expenses: existingRecord?.expenses,
       expenseTea: existingRecord?.expenseTea,
       expenseFuel: existingRecord?.expenseFuel,
+      openingFromId: includeOpening ? openingSource?.id : undefined,
+    };
+  };
+
+  // The week being added to, with the form's lots after its own
+  const addToWeek = (week: WeeklyRecord): WeeklyRecord => {
+    const purchaseLots = [...getPurchaseLots(week), ...toPurchaseLots(lotRows, formData.date, getTodayDate())];
+    const { totalHens, totalLiveWeight, purchaseRate } = summarizeLots(purchaseLots);
+    return { ...week, purchaseLots, totalHens, totalLiveWeight, purchaseRate };
+  };
+
+  // Maps record field errors (client or server) onto this form's inputs. Lot
+  // errors of a week being added to are shifted back onto the form's lots.
+  const showErrors = (fieldErrors: FieldErrors, lotOffset = 0) => {
+    const { weekDate, openingFromId, ...rest } = fieldErrors;
+    const lineErrors: Record<string, string> = {};
+    const other: string[] = [];
+    Object.entries(rest).forEach(([field, message]) => {
+      if (!message) return;
+      const lot = field.match(/^purchaseLots\.(\d+)\.(.+)$/);
+      if (lot && Number(lot[1]) >= lotOffset) lineErrors[`purchaseLots.${Number(lot[1]) - lotOffset}.${lot[2]}`] = message;
+      else other.push(message);
+    });
+    setErrors({
+      date: weekDate,
+      opening: openingFromId,
+      general: other.join(' ') || undefined
+    });
+    setLotErrors(lineErrors);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const record = buildRecord();
+    const fieldErrors = {
+      ...validatePurchase(record),
+      // Moving a week onto one that already has a record would make two
+      ...(existingRecord && sameWeek ? { weekDate: `The week of ${formatWeek(weekDate)} already has a record` } : {}),
     };
+    if (Object.keys(fieldErrors).length > 0) {
+      showErrors(fieldErrors);
+      return;
+    }
+    setErrors({});
+    setLotErrors({});
+
+    // A new purchase for a week that already has a record goes onto that record
+    const lotOffset = addingToWeek ? getPurchaseLots(addingToWeek).length : 0;
+    setSaving(true);
+    try {
+      const saved = await onSave(addingToWeek ? addToWeek(addingToWeek) : record);
 
-    // Show success message before proceeding
-    setShowSuccess(true);
-    
-    // Delay actual save to let user see the success message
-    setTimeout(() => {
-      onSave(record);
-    }, 1500);
+      // Show success message before proceeding
+      setShowSuccess(true);
+
+      // With price advice to read, wait for the user; otherwise delay
+      // navigation just long enough to see the success message
+      if (pricingBasis(saved, records)) {
+        setSavedRecord(saved);
+      } else {
+        setTimeout(() => {
+          onSaved(saved);
+        }, 1500);
+      }
+    } catch (err) {
+      showErrors(getSaveErrors(err, 'Failed to save purchase. Please try again.'), lotOffset);
+    } finally {
+      setSaving(false);
+    }
   };
 
-  const calculatedCost = (Number(formData.totalLiveWeight) || 0) * (Number(formData.purchaseRate) || 0);
+  const previewLots = toPurchaseLots(lotRows, formData.date, getTodayDate());
+  const totals = summarizeLots(previewLots);
+  const owed = previewLots.reduce((sum, lot) => sum + lotOutstanding(lot), 0);
+  const opening = includeOpening ? openingSource : undefined;
+  // The forecast covers everything sold; birds kept from last week are already on hand
+  const lessHens = (hens: number) => Math.max(0, hens - (opening?.carryOverHens || 0));
+  const lessWeight = (kg: number) => Math.max(0, Math.round(kg - (opening?.carryOverWeight || 0)));
+  const suggestion = forecast && {
+    hens: lessHens(forecast.hens),
+    liveWeight: lessWeight(forecast.liveWeight),
+    range: `${lessHens(forecast.hensLow)}–${lessHens(forecast.hensHigh)} hens, ${formatNumber(lessWeight(forecast.liveLow), 0)}–${formatNumber(lessWeight(forecast.liveHigh), 0)} kg`,
+  };
 
   const getInputClass = (error?: string) => 
-    `w-full p-3 bg-white text-gray-900 border rounded-lg focus:ring-2 focus:outline-none transition-colors ${
+    `w-full bg-white text-gray-900 border rounded-lg focus:ring-2 focus:outline-none transition-colors ${
       error 
         ? 'border-red-300 focus:ring-red-200 focus:border-red-400' 
         : 'border-gray-300 focus:ring-yellow-500 focus:border-yellow-500'
@@ -133,7 +222,20 @@ const PurchaseForm: React.FC<PurchaseFormProps> = ({ existingRecord, onSave, onC
             <CheckCircle className="w-12 h-12 text-green-600" />
           </div>
           <h3 className="text-2xl font-bold text-gray-800 mb-2">Purchase Saved!</h3>
-          <p className="text-gray-500">Redirecting to dashboard...</p>
+          {savedRecord ? (
+            <div className="w-full px-6 space-y-4">
+              <PriceAdvisor record={savedRecord} records={records} />
+              <button
+                type="button"
+                onClick={() => onSaved(savedRecord)}
+                className="w-full py-3 px-4 bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 transition-colors shadow-md"
+              >
+                Continue to Sales
+              </button>
+            </div>
+          ) : (
+            <p className="text-gray-500">Redirecting to dashboard...</p>
+          )}
         </div>
       )}
 
@@ -149,61 +251,118 @@ const PurchaseForm: React.FC<PurchaseFormProps> = ({ existingRecord, onSave, onC
           <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
           <input 
             type="date" 
-            className={getInputClass(errors.date)}
+            className={`${getInputClass(errors.date)} p-3`}
             style={{ colorScheme: 'light' }}
             value={formData.date}
             onChange={e => setFormData({...formData, date: e.target.value})}
           />
           {errors.date && <p className="text-xs text-red-500 mt-1 flex items-center gap-1"><AlertCircle size={12}/> {errors.date}</p>}
+          {!errors.date && weekDate !== formData.date && (
+            <p className="text-xs text-gray-500 mt-1">Filed under the week of {formatWeek(weekDate)}</p>
+          )}
         </div>
 
-        <div className="grid grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Total Hens</label>
-            <input 
-              type="number" 
-              className={getInputClass(errors.totalHens)}
-              placeholder="Qty"
-              value={formData.totalHens}
-              onChange={e => setFormData({...formData, totalHens: e.target.value})}
-            />
-            {errors.totalHens && <p className="text-xs text-red-500 mt-1">{errors.totalHens}</p>}
+        {addingToWeek && (
+          <div className="bg-yellow-50 p-3 rounded-lg border border-yellow-200 text-sm">
+            <p className="font-medium text-yellow-800">This week already has a record</p>
+            <p className="text-xs text-yellow-700 mt-0.5">
+              {addingToWeek.totalHens} hens • {formatNumber(addingToWeek.totalLiveWeight)} kg bought so far
+              {addingToWeek.isSalesEntryComplete ? ', sales entered' : ''}. The lots below will be added to it.
+            </p>
           </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Live Weight (kg)</label>
-            <input 
-              type="number" 
-              className={getInputClass(errors.totalLiveWeight)}
-              placeholder="0.00 kg"
-              value={formData.totalLiveWeight}
-              onChange={e => setFormData({...formData, totalLiveWeight: e.target.value})}
-            />
-            {errors.totalLiveWeight && <p className="text-xs text-red-500 mt-1">{errors.totalLiveWeight}</p>}
+        )}
+
+        {suggestion && (
+          <div className="bg-indigo-50 p-3 rounded-lg border border-indigo-100 text-sm flex items-start justify-between gap-3">
+            <div>
+              <p className="font-medium text-indigo-800 flex items-center gap-1">
+                <Target size={14} /> Suggested: {suggestion.hens} hens • {suggestion.liveWeight} kg
+              </p>
+              <p className="text-xs text-indigo-700 mt-0.5">
+                Likely to need {suggestion.range}{opening ? ' after the opening stock' : ''}. See the dashboard for the basis.
+              </p>
+            </div>
+            {lotRows.length === 1 && (
+              <button
+                type="button"
+                onClick={() => setLotRows([{ ...lotRows[0], hens: suggestion.hens.toString(), liveWeight: suggestion.liveWeight.toString() }])}
+                className="text-xs font-medium text-indigo-700 hover:text-indigo-900 whitespace-nowrap"
+              >
+                Fill in
+              </button>
+            )}
           </div>
-        </div>
+        )}
 
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">Purchase Rate (₹/kg)</label>
-          <div className="relative">
-            <span className="absolute left-3 top-3 text-gray-400">₹</span>
-            <input 
-              type="number" 
-              className={`${getInputClass(errors.purchaseRate)} pl-8`}
-              placeholder="0.00"
-              value={formData.purchaseRate}
-              onChange={e => setFormData({...formData, purchaseRate: e.target.value})}
-            />
-          </div>
-          {errors.purchaseRate && <p className="text-xs text-red-500 mt-1 flex items-center gap-1"><AlertCircle size={12}/> {errors.purchaseRate}</p>}
+          <label className="block text-sm font-medium text-gray-700 mb-2">Purchase Lots</label>
+          <PurchaseLotsEditor
+            rows={lotRows}
+            suppliers={suppliers}
+            onAddSupplier={onAddSupplier}
+            errors={lotErrors}
+            onChange={setLotRows}
+            inputClass={getInputClass}
+          />
         </div>
 
-        <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 flex justify-between items-center">
-          <span className="text-sm text-gray-600">Estimated Cost:</span>
-          <span className="text-lg font-bold text-gray-800">
-            {calculatedCost.toLocaleString('en-IN', { style: 'currency', currency: 'INR' })}
-          </span>
+        {openingSource && (
+          <div>
+            <label className="flex items-start gap-3 bg-green-50 p-3 rounded-lg border border-green-100 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-0.5"
+                checked={includeOpening}
+                onChange={e => setIncludeOpening(e.target.checked)}
+              />
+              <span>
+                <span className="block font-medium text-green-800">
+                  Opening stock: {openingSource.carryOverHens || 0} hens • {formatNumber(openingSource.carryOverWeight)} kg
+                </span>
+                <span className="block text-xs text-green-700">
+                  Kept from the week of {openingSource.weekDate}, at a cost of {formatCurrency(openingSource.carryOverCost)}
+                </span>
+              </span>
+            </label>
+            {errors.opening && <p className="text-xs text-red-500 mt-1 flex items-center gap-1"><AlertCircle size={12}/> {errors.opening}</p>}
+          </div>
+        )}
+
+        <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Total Hens / Weight:</span>
+            <span className="font-semibold text-gray-800">{totals.totalHens} hens • {formatNumber(totals.totalLiveWeight)} kg</span>
+          </div>
+          {lotRows.length > 1 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Average Rate (by weight):</span>
+              <span className="font-semibold text-gray-800">{formatCurrency(totals.purchaseRate)} / kg</span>
+            </div>
+          )}
+          <div className="flex justify-between items-center">
+            <span className="text-gray-600">Estimated Cost:</span>
+            <span className="text-lg font-bold text-gray-800">
+              {totals.totalPurchaseCost.toLocaleString('en-IN', { style: 'currency', currency: 'INR' })}
+            </span>
+          </div>
+          {opening && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Stock to Sell:</span>
+              <span className="font-semibold text-gray-800">
+                {totals.totalHens + (opening.carryOverHens || 0)} hens • {formatNumber(totals.totalLiveWeight + (opening.carryOverWeight || 0))} kg
+              </span>
+            </div>
+          )}
+          {owed > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Left to pay suppliers:</span>
+              <span className="font-semibold text-red-600">{formatCurrency(owed)}</span>
+            </div>
+          )}
         </div>
 
+        {errors.general && <p className="text-sm text-red-500 bg-red-50 p-2 rounded text-center border border-red-100">{errors.general}</p>}
+
         <div className="flex gap-3 pt-2">
           <button 
             type="button" 
@@ -214,9 +373,10 @@ const PurchaseForm: React.FC<PurchaseFormProps> = ({ existingRecord, onSave, onC
           </button>
           <button 
             type="submit" 
-            className="flex-1 py-3 px-4 bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 transition-colors shadow-md"
+            disabled={saving}
+            className="flex-1 py-3 px-4 bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 transition-colors shadow-md disabled:opacity-60"
           >
-            Save Purchase
+            {saving ? 'Saving...' : addingToWeek ? 'Add to Week' : 'Save Purchase'}
           </button>
         </div>
       </form>
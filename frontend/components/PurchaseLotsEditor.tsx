@@ -0,0 +1,215 @@
+import React from 'react';
+import { WeeklyRecord, PurchaseLot, Supplier, SupplierPayment } from '../types';
+import { getPurchaseLots, lotCost } from '../utils/purchases';
+import { lotPaid } from '../utils/payables';
+import { formatCurrency } from '../utils/calculations';
+import { Plus, Trash2 } from 'lucide-react';
+
+// One editable lot; figures stay strings while typing
+export interface LotRow {
+  supplierId: string; // Empty for no supplier or a name typed before the directory
+  supplier: string;
+  hens: string;
+  liveWeight: string;
+  rate: string;
+  paidInFull: boolean;
+  payments?: SupplierPayment[]; // Already saved against the lot
+  paidNow: string; // Handed over at purchase, for a lot not paid in full
+  date?: string; // Day a saved lot was bought; new lots take the form's date
+}
+
+export const EMPTY_LOT: LotRow = { supplierId: '', supplier: '', hens: '', liveWeight: '', rate: '', paidInFull: true, paidNow: '' };
+
+export const toLotRows = (record: WeeklyRecord): LotRow[] =>
+  getPurchaseLots(record).map(lot => ({
+    supplierId: lot.supplierId || '',
+    supplier: lot.supplier || '',
+    hens: lot.hens?.toString() || '',
+    liveWeight: lot.liveWeight?.toString() || '',
+    rate: lot.rate?.toString() || '',
+    paidInFull: !lot.payments || lotCost(lot) - lotPaid(lot) < 1,
+    payments: lot.payments,
+    paidNow: '',
+    date: lot.date,
+  }));
+
+const toLot = (row: LotRow, purchaseDate: string): PurchaseLot => ({
+  ...(row.supplierId ? { supplierId: row.supplierId } : {}),
+  supplier: row.supplier.trim(),
+  hens: Number(row.hens),
+  liveWeight: Number(row.liveWeight),
+  rate: Number(row.rate),
+  date: row.date || purchaseDate,
+});
+
+// Payments for one lot. A lot marked paid in full with earlier part payments
+// gets the rest added as a payment on `today`, so its history is kept.
+const toPayments = (row: LotRow, lot: PurchaseLot, purchaseDate: string, today: string): SupplierPayment[] | undefined => {
+  if (row.paidInFull) {
+    if (!row.payments) return undefined;
+    const rest = Math.round(lotCost(lot) - lotPaid({ ...lot, payments: row.payments }));
+    return rest > 0 ? [...row.payments, { amount: rest, date: today, note: 'Settled in full' }] : row.payments;
+  }
+  if (row.payments) return row.payments;
+  const paidNow = Number(row.paidNow) || 0;
+  return paidNow > 0 ? [{ amount: paidNow, date: purchaseDate, note: 'Paid at purchase' }] : [];
+};
+
+export const toPurchaseLots = (rows: LotRow[], purchaseDate: string, today: string): PurchaseLot[] =>
+  rows.map(row => {
+    const lot = toLot(row, purchaseDate);
+    const payments = toPayments(row, lot, purchaseDate, today);
+    return payments ? { ...lot, payments } : lot;
+  });
+
+const NEW_SUPPLIER = '__new__';
+const TYPED_NAME = '__typed__';
+
+interface PurchaseLotsEditorProps {
+  rows: LotRow[];
+  suppliers: Supplier[];
+  onAddSupplier?: (name: string) => Promise<Supplier>; // Omitted for roles that cannot add suppliers
+  errors: Record<string, string | undefined>; // Keyed `purchaseLots.<index>.<field>`
+  onChange: (rows: LotRow[]) => void;
+  inputClass: (error?: string) => string;
+}
+
+const PurchaseLotsEditor: React.FC<PurchaseLotsEditorProps> = ({ rows, suppliers, onAddSupplier, errors, onChange, inputClass }) => {
+  const updateRow = (index: number, change: Partial<LotRow>) =>
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...change } : row)));
+
+  const handleSupplier = async (index: number, value: string) => {
+    if (value === TYPED_NAME) return;
+    if (value !== NEW_SUPPLIER) {
+      updateRow(index, { supplierId: value, supplier: suppliers.find(s => s.id === value)?.name || '' });
+      return;
+    }
+    const name = window.prompt('Name of the new supplier');
+    if (!name || !name.trim() || !onAddSupplier) return;
+    try {
+      const supplier = await onAddSupplier(name.trim());
+      updateRow(index, { supplierId: supplier.id, supplier: supplier.name });
+    } catch (err) {
+      alert("Failed to add the supplier.");
+    }
+  };
+
+  // A lot's supplier may have been removed from the directory, or typed in
+  // before it existed; it stays selectable under its saved name
+  const selectValue = (row: LotRow) => {
+    if (row.supplierId && suppliers.some(s => s.id === row.supplierId)) return row.supplierId;
+    return row.supplier ? TYPED_NAME : '';
+  };
+
+  return (
+    <div className="space-y-3">
+      {rows.map((row, index) => {
+        const error = (field: keyof PurchaseLot) => errors[`purchaseLots.${index}.${field}`];
+        const messages = [error('hens'), error('liveWeight'), error('rate'), error('payments')].filter(Boolean);
+        const cost = lotCost(toLot(row, ''));
+        const paidSoFar = row.payments ? lotPaid({ ...toLot(row, ''), payments: row.payments }) : 0;
+        return (
+          <div key={index} className="bg-gray-50 p-3 rounded-lg border border-gray-200 space-y-2">
+            <div className="flex gap-2 items-center">
+              <span className="text-xs font-bold text-gray-400 w-10">Lot {index + 1}</span>
+              <select
+                className={`${inputClass()} flex-1 p-2 text-sm`}
+                value={selectValue(row)}
+                onChange={e => handleSupplier(index, e.target.value)}
+              >
+                <option value="">Supplier…</option>
+                {selectValue(row) === TYPED_NAME && <option value={TYPED_NAME}>{row.supplier}</option>}
+                {suppliers.map(supplier => (
+                  <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                ))}
+                {onAddSupplier && <option value={NEW_SUPPLIER}>+ New supplier…</option>}
+              </select>
+              {rows.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                  className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Hens</label>
+                <input
+                  type="number"
+                  placeholder="Qty"
+                  className={`${inputClass(error('hens'))} p-2 text-sm`}
+                  value={row.hens}
+                  onChange={e => updateRow(index, { hens: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Weight (kg)</label>
+                <input
+                  type="number"
+                  placeholder="0.00"
+                  className={`${inputClass(error('liveWeight'))} p-2 text-sm`}
+                  value={row.liveWeight}
+                  onChange={e => updateRow(index, { liveWeight: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Rate (₹/kg)</label>
+                <input
+                  type="number"
+                  placeholder="0.00"
+                  className={`${inputClass(error('rate'))} p-2 text-sm`}
+                  value={row.rate}
+                  onChange={e => updateRow(index, { rate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-600">
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={row.paidInFull}
+                  onChange={e => updateRow(index, { paidInFull: e.target.checked })}
+                />
+                Paid in full
+              </label>
+              {!row.paidInFull && (row.payments ? (
+                <span>
+                  Paid so far {formatCurrency(paidSoFar)} • Due <span className="font-semibold text-red-600">{formatCurrency(Math.max(0, cost - paidSoFar))}</span>
+                </span>
+              ) : (
+                <label className="flex items-center gap-1.5">
+                  Paid now ₹
+                  <input
+                    type="number"
+                    placeholder="0"
+                    className={`${inputClass(error('payments'))} p-1 text-xs w-24`}
+                    value={row.paidNow}
+                    onChange={e => updateRow(index, { paidNow: e.target.value })}
+                  />
+                </label>
+              ))}
+            </div>
+            {messages.length > 0 ? (
+              <p className="text-xs text-red-500">{messages.join(' • ')}</p>
+            ) : rows.length > 1 && (
+              <p className="text-xs text-gray-500 text-right">Lot cost: <span className="font-semibold">{formatCurrency(cost)}</span></p>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => onChange([...rows, EMPTY_LOT])}
+        className="flex items-center gap-1 text-sm font-medium text-gray-700 hover:text-gray-900"
+      >
+        <Plus size={16} /> Add Another Lot
+      </button>
+    </div>
+  );
+};
+
+export default PurchaseLotsEditor;
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { WeeklyRecord, RecordRevision, RevisionAction, Branch } from '../types';
+import { fieldLabel, formatChangeValue } from '../utils/audit';
+import { getSaveErrors } from '../utils/validation';
+import { X, RotateCcw, User as UserIcon, Loader2 } from 'lucide-react';
+
+interface RecordHistoryPanelProps {
+  record: WeeklyRecord;
+  branches: Branch[];
+  canRestore: boolean;
+  onLoadHistory: (id: string) => Promise<RecordRevision[]>;
+  onRestore: (record: WeeklyRecord, revisionId: string) => Promise<void>; // Rejects with the server's error
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<RevisionAction, { label: string; className: string }> = {
+  create: { label: 'Created', className: 'bg-green-100 text-green-700 border-green-200' },
+  update: { label: 'Edited', className: 'bg-blue-100 text-blue-700 border-blue-200' },
+  delete: { label: 'Moved to trash', className: 'bg-red-100 text-red-700 border-red-200' },
+  undelete: { label: 'Recovered', className: 'bg-green-100 text-green-700 border-green-200' },
+  purge: { label: 'Deleted forever', className: 'bg-red-100 text-red-700 border-red-200' },
+  restore: { label: 'Restored', className: 'bg-purple-100 text-purple-700 border-purple-200' },
+};
+
+// Timeline of every saved change to one week, newest first.
+// Owners can bring back the figures of any earlier revision.
+const RecordHistoryPanel: React.FC<RecordHistoryPanelProps> = ({ record, branches, canRestore, onLoadHistory, onRestore, onClose }) => {
+  const [revisions, setRevisions] = useState<RecordRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Reload whenever the week itself changes (e.g. after a restore)
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    onLoadHistory(record.id)
+      .then(list => { if (!cancelled) { setRevisions(list); setError(''); } })
+      .catch(err => { if (!cancelled) setError(getSaveErrors(err, 'Could not load history. Check your connection.').general || ''); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [record.id, record.revision]);
+
+  const handleRestore = async (entry: RecordRevision) => {
+    if (!window.confirm(`Restore the figures from revision ${entry.revision}? The current figures stay in the history.`)) return;
+    setRestoringId(entry.id);
+    setError('');
+    try {
+      await onRestore(record, entry.id);
+    } catch (err) {
+      setError(getSaveErrors(err, 'Failed to restore this revision. Please try again.').general || '');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const showValue = (field: string, value: RecordRevision['changes'][number]['from']) =>
+    field === 'branchId' && value !== null
+      ? branches.find(b => b.id === value)?.name || String(value)
+      : formatChangeValue(field, value);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4" onClick={onClose}>
+      <div
+        className="bg-white w-full sm:max-w-lg max-h-[90vh] rounded-t-xl sm:rounded-xl shadow-xl flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start p-5 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800">Change History</h3>
+            <p className="text-xs text-gray-500">
+              Week of {new Date(record.weekDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5">
+          {error && (
+            <p className="text-sm text-red-500 bg-red-50 p-2 rounded text-center border border-red-100 mb-4">{error}</p>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-8 text-gray-400">
+              <Loader2 className="animate-spin" size={24} />
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-8">No changes recorded for this week yet.</p>
+          ) : (
+            <ol className="relative border-l-2 border-gray-100 ml-2 space-y-5">
+              {revisions.map(entry => {
+                const style = ACTION_STYLES[entry.action];
+                // Trash entries hold no figures worth bringing back
+                const hasFigures = entry.action !== 'delete' && entry.action !== 'purge';
+                const isCurrent = hasFigures && entry.revision === (record.revision || 0);
+                return (
+                  <li key={entry.id} className="pl-4 relative">
+                    <span className="absolute -left-[7px] top-1.5 w-3 h-3 rounded-full bg-white border-2 border-yellow-500"></span>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full border ${style.className}`}>
+                        {style.label.toUpperCase()}
+                      </span>
+                      <span className="text-xs font-semibold text-gray-700">Revision {entry.revision}</span>
+                      {isCurrent && <span className="text-[10px] font-bold text-yellow-700">CURRENT</span>}
+                    </div>
+                    <p className="text-[11px] text-gray-400 mt-1 flex items-center gap-1">
+                      <UserIcon size={10} /> {entry.userName || 'Unknown'} · {new Date(entry.at).toLocaleString('en-IN')}
+                    </p>
+
+                    {entry.action === 'restore' && entry.restoredFrom !== undefined && (
+                      <p className="text-xs text-purple-700 mt-1">Brought back revision {entry.restoredFrom}</p>
+                    )}
+
+                    {entry.action !== 'create' && entry.changes.length > 0 && (
+                      <ul className="mt-2 space-y-1 text-xs">
+                        {entry.changes.map(change => (
+                          <li key={change.field} className="flex flex-wrap gap-x-1">
+                            <span className="text-gray-500">{fieldLabel(change.field)}:</span>
+                            <span className="text-red-500 line-through">{showValue(change.field, change.from)}</span>
+                            <span className="text-gray-400">→</span>
+                            <span className="text-green-700 font-medium">{showValue(change.field, change.to)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {canRestore && hasFigures && !isCurrent && (
+                      <button
+                        onClick={() => handleRestore(entry)}
+                        disabled={restoringId !== null}
+                        className="mt-2 inline-flex items-center gap-1 text-xs font-medium text-gray-600 border border-gray-200 rounded px-2 py-1 hover:bg-gray-50 disabled:opacity-60"
+                      >
+                        <RotateCcw size={12} /> {restoringId === entry.id ? 'Restoring...' : 'Restore this version'}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecordHistoryPanel;
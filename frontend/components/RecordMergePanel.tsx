@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { WeeklyRecord } from '../types';
+import { formatNumber } from '../utils/calculations';
+import { GitMerge } from 'lucide-react';
+
+export interface MergeField {
+  key: keyof WeeklyRecord;
+  label: string;
+  format?: (value: unknown) => string; // For values that are not plain numbers
+}
+
+interface RecordMergePanelProps {
+  base: WeeklyRecord; // The copy this device started editing from
+  mine: WeeklyRecord; // This device's unsaved edit
+  theirs: WeeklyRecord; // What someone else saved in the meantime
+  fields: MergeField[]; // Fields the user may pick between
+  saving: boolean;
+  onSave: (merged: WeeklyRecord) => void;
+  onCancel: () => void;
+}
+
+type Choice = 'mine' | 'theirs';
+
+// Lists (e.g. expense lines) are compared by content
+const sameValue = (a: unknown, b: unknown) =>
+  typeof a === 'object' || typeof b === 'object'
+    ? JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+    : String(a ?? '') === String(b ?? '');
+
+const showValue = (field: MergeField, value: unknown) => {
+  if (field.format) return field.format(value);
+  if (value === undefined || value === null || value === '') return '-';
+  const num = Number(value);
+  return formatNumber(num, Number.isInteger(num) ? 0 : 2);
+};
+
+// Shown after a save is rejected because the week changed on another device.
+// Lists every field where the two versions differ and lets the user pick one
+// value per field; everything else is taken from the newer server copy.
+const RecordMergePanel: React.FC<RecordMergePanelProps> = ({ base, mine, theirs, fields, saving, onSave, onCancel }) => {
+  const differing = fields.filter(f => !sameValue(mine[f.key], theirs[f.key]));
+
+  // Fields this device actually changed default to its value; untouched ones to theirs
+  const [choices, setChoices] = useState<Record<string, Choice>>(() =>
+    Object.fromEntries(differing.map(f => [f.key, sameValue(mine[f.key], base[f.key]) ? 'theirs' : 'mine']))
+  );
+
+  const handleSave = () => {
+    const merged: WeeklyRecord = { ...mine, ...theirs };
+    differing.forEach(f => {
+      if (choices[f.key] === 'mine') Object.assign(merged, { [f.key]: mine[f.key] });
+    });
+    // Keep this device's sales status so the week is still completed
+    merged.isSalesEntryComplete = mine.isSalesEntryComplete;
+    merged.salesCompletedAt = mine.salesCompletedAt;
+    onSave(merged);
+  };
+
+  const optionClass = (selected: boolean) =>
+    `flex-1 text-left p-2 rounded-lg border text-sm transition-colors ${
+      selected
+        ? 'border-yellow-500 bg-yellow-50 text-gray-900 font-semibold'
+        : 'border-gray-200 text-gray-500 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className="p-6 space-y-5">
+      <div className="bg-orange-50 border border-orange-200 text-orange-800 p-4 rounded-lg text-sm flex gap-3">
+        <GitMerge className="w-5 h-5 shrink-0 mt-0.5" />
+        <div>
+          <p className="font-semibold">This week was saved on another device while you were editing.</p>
+          <p className="mt-1">Pick which value to keep for each field, then save again.</p>
+        </div>
+      </div>
+
+      {differing.length === 0 ? (
+        <p className="text-sm text-gray-600 text-center">
+          Both versions have the same figures. Saving will keep them.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {differing.map(f => (
+            <div key={f.key}>
+              <p className="text-xs font-medium text-gray-600 mb-1">{f.label}</p>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  className={optionClass(choices[f.key] === 'mine')}
+                  onClick={() => setChoices({ ...choices, [f.key]: 'mine' })}
+                >
+                  <span className="block text-xs uppercase tracking-wider text-gray-400">Yours</span>
+                  {showValue(f, mine[f.key])}
+                </button>
+                <button
+                  type="button"
+                  className={optionClass(choices[f.key] === 'theirs')}
+                  onClick={() => setChoices({ ...choices, [f.key]: 'theirs' })}
+                >
+                  <span className="block text-xs uppercase tracking-wider text-gray-400">Other device</span>
+                  {showValue(f, theirs[f.key])}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-3 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+        >
+          Back to Form
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="flex-1 py-3 px-4 bg-yellow-500 text-white rounded-lg font-medium hover:bg-yellow-600 transition-colors shadow-md disabled:opacity-60"
+        >
+          {saving ? 'Saving...' : 'Save Merged Week'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecordMergePanel;
@@ -1,27 +1,138 @@
 import React, { useState } from 'react';
-import { WeeklyRecord } from '../types';
-import { AlertCircle, CheckCircle } from 'lucide-react';
+import { WeeklyRecord, ExpenseCategory, ExpenseLine, PurchaseLot, CreditSale, Customer, Product, SalesLine, Denomination } from '../types';
+import { validateRecord, getSaveErrors, getConflictingRecord, FieldErrors } from '../utils/validation';
+import { migrateLegacyExpenses, sumExpenses } from '../utils/expenses';
+import { formatCurrency, formatNumber } from '../utils/calculations';
+import { getPurchaseLots, hasPurchaseLots, lotCost, summarizeLots } from '../utils/purchases';
+import { sumCreditSales } from '../utils/credit';
+import { summarizeSalesLines } from '../utils/sales';
+import { expectedCash } from '../utils/cash';
+import { hasYieldInputs, yieldBreakdown } from '../utils/yield';
+import { averageStockCost, stockWeight } from '../utils/stock';
+import RecordMergePanel, { MergeField } from './RecordMergePanel';
+import ExpenseLinesEditor, { ExpenseRow, toExpenseRows, toExpenseLines } from './ExpenseLinesEditor';
+import CreditSalesEditor, { CreditRow, toCreditRows, toCreditSales } from './CreditSalesEditor';
+import SalesLinesEditor, { SalesLineRow, toSalesLineRows, toSalesLines } from './SalesLinesEditor';
+import UpiStatementImport from './UpiStatementImport';
+import PriceAdvisor from './PriceAdvisor';
+import CashCountEditor, { CashCountRows, toCashCountRows, toDenominations, toCashFloat } from './CashCountEditor';
+import { AlertCircle, CheckCircle, Banknote, Upload, Scale } from 'lucide-react';
 
 interface SalesFormProps {
   record: WeeklyRecord; // Sales MUST be attached to a Saturday record
-  onSave: (record: WeeklyRecord) => void;
+  canEditPurchase: boolean; // Cashiers see purchase info read-only
+  records: WeeklyRecord[]; // The branch's weeks, for the price advice
+  categories: ExpenseCategory[];
+  onAddCategory?: (name: string) => Promise<ExpenseCategory>;
+  products: Product[];
+  onAddProduct?: (name: string) => Promise<Product>;
+  customers: Customer[]; // The week's branch, for credit sales
+  onAddCustomer?: (name: string) => Promise<Customer>;
+  onSave: (record: WeeklyRecord) => Promise<WeeklyRecord>; // Rejects with the server's errors
+  onSaved: (record: WeeklyRecord) => void;
   onCancel: () => void;
 }
 
-const SalesForm: React.FC<SalesFormProps> = ({ record, onSave, onCancel }) => {
-  const [formData, setFormData] = useState({
-    // Editable Purchase Info
-    totalHens: record.totalHens.toString(),
-    totalLiveWeight: record.totalLiveWeight.toString(),
-    purchaseRate: record.purchaseRate.toString(),
-
-    // Sales Info
-    sellingPrice: record.sellingPrice?.toString() || '',
-    cashCollected: record.cashCollected?.toString() || '',
-    upiCollected: record.upiCollected?.toString() || '',
-    expenseTea: record.expenseTea?.toString() || '',
-    expenseFuel: record.expenseFuel?.toString() || '',
-  });
+const PURCHASE_MERGE_FIELDS: MergeField[] = [
+  { key: 'totalHens', label: 'Hens' },
+  { key: 'totalLiveWeight', label: 'Live Weight (kg)' },
+  { key: 'purchaseRate', label: 'Purchase Rate (₹/kg)' },
+  {
+    key: 'purchaseLots',
+    label: 'Purchase Lots',
+    format: value => ((value as PurchaseLot[] | undefined) || [])
+      .map(lot => `${lot.supplier || 'Unnamed'} ${formatNumber(lot.liveWeight)} kg @ ${formatCurrency(lot.rate)}`)
+      .join(', ') || 'None',
+  },
+];
+
+const SALES_MERGE_FIELDS: MergeField[] = [
+  {
+    key: 'salesLines',
+    label: 'Products Sold',
+    format: value => ((value as SalesLine[] | undefined) || [])
+      .map(line => `${line.product} ${formatNumber(line.quantity)} kg @ ${formatCurrency(line.price)}`)
+      .join(', ') || 'Not itemized',
+  },
+  { key: 'sellingPrice', label: 'Selling Price (₹/kg)' },
+  { key: 'cashCollected', label: 'Cash' },
+  { key: 'upiCollected', label: 'UPI' },
+  {
+    key: 'creditSales',
+    label: 'Credit Sales',
+    format: value => ((value as CreditSale[] | undefined) || [])
+      .map(sale => `${sale.customer} ${formatCurrency(sale.amount)}`)
+      .join(', ') || 'None',
+  },
+  {
+    key: 'expenses',
+    label: 'Expenses',
+    format: value => ((value as ExpenseLine[] | undefined) || [])
+      .map(line => `${line.category} ${formatCurrency(line.amount)}${line.mode === 'upi' ? ' (UPI)' : ''}`)
+      .join(', ') || 'None',
+  },
+  { key: 'mortalityCount', label: 'Birds Died' },
+  { key: 'mortalityWeight', label: 'Dead Birds Weight (kg)' },
+  { key: 'dressedWeight', label: 'Dressed Weight (kg)' },
+  { key: 'leftoverWeight', label: 'Leftover Meat (kg)' },
+  { key: 'carryOverHens', label: 'Hens Kept for Next Week' },
+  { key: 'carryOverWeight', label: 'Kept Weight (kg)' },
+  { key: 'cashFloat', label: 'Opening Float' },
+  {
+    key: 'cashDenominations',
+    label: 'Cash Count',
+    format: value => ((value as Denomination[] | undefined) || [])
+      .filter(row => row.count > 0)
+      .map(row => `₹${row.value} × ${row.count}`)
+      .join(', ') || 'Not counted',
+  },
+];
+
+// Lot field -> week input it is edited through
+const LOT_INPUTS: Record<string, string> = {
+  hens: 'totalHens',
+  liveWeight: 'totalLiveWeight',
+  rate: 'purchaseRate',
+};
+
+const toFormData = (record: WeeklyRecord) => ({
+  // Editable Purchase Info
+  totalHens: record.totalHens.toString(),
+  totalLiveWeight: record.totalLiveWeight.toString(),
+  purchaseRate: record.purchaseRate.toString(),
+
+  // Sales Info
+  sellingPrice: record.sellingPrice?.toString() || '',
+  cashCollected: record.cashCollected?.toString() || '',
+  upiCollected: record.upiCollected?.toString() || '',
+
+  // Yield weights (optional)
+  mortalityCount: record.mortalityCount?.toString() || '',
+  mortalityWeight: record.mortalityWeight?.toString() || '',
+  dressedWeight: record.dressedWeight?.toString() || '',
+  leftoverWeight: record.leftoverWeight?.toString() || '',
+
+  // Live birds kept unsold (optional)
+  carryOverHens: record.carryOverHens?.toString() || '',
+  carryOverWeight: record.carryOverWeight?.toString() || '',
+});
+
+// Blank optional inputs are saved as unset, not 0
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const SalesForm: React.FC<SalesFormProps> = ({ record, canEditPurchase, records, categories, onAddCategory, products, onAddProduct, customers, onAddCustomer, onSave, onSaved, onCancel }) => {
+  // The stored copy edits are based on; replaced by the newer copy after a merge
+  const [base, setBase] = useState(record);
+  const [formData, setFormData] = useState(() => toFormData(record));
+  const [expenseRows, setExpenseRows] = useState<ExpenseRow[]>(() => toExpenseRows(record));
+  const [creditRows, setCreditRows] = useState<CreditRow[]>(() => toCreditRows(record));
+  const [lineRows, setLineRows] = useState<SalesLineRow[]>(() => toSalesLineRows(record));
+  const [cashRows, setCashRows] = useState<CashCountRows>(() => toCashCountRows(record));
+  const [countingCash, setCountingCash] = useState(() => Array.isArray(record.cashDenominations));
+  const [weighingYield, setWeighingYield] = useState(() => hasYieldInputs(record));
+  const [importingUpi, setImportingUpi] = useState(false);
+  // Set when the save lost a race with another device
+  const [conflict, setConflict] = useState<{ mine: WeeklyRecord; theirs: WeeklyRecord } | null>(null);
 
   const [errors, setErrors] = useState<{
     totalHens?: string;
@@ -30,107 +141,222 @@ const SalesForm: React.FC<SalesFormProps> = ({ record, onSave, onCancel }) => {
     sellingPrice?: string;
     cashCollected?: string;
     upiCollected?: string;
-    expenseTea?: string;
-    expenseFuel?: string;
+    mortalityCount?: string;
+    mortalityWeight?: string;
+    dressedWeight?: string;
+    leftoverWeight?: string;
+    carryOverHens?: string;
+    carryOverWeight?: string;
+    cashFloat?: string;
+    cashDenominations?: string;
     general?: string;
   }>({});
+  // Per-line messages, keyed `expenses.<index>.<field>` as the validator reports them
+  const [expenseErrors, setExpenseErrors] = useState<Record<string, string | undefined>>({});
+  const [creditErrors, setCreditErrors] = useState<Record<string, string | undefined>>({});
+  const [lineErrors, setLineErrors] = useState<Record<string, string | undefined>>({});
 
+  const [saving, setSaving] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
 
-  const validate = () => {
-    const newErrors: typeof errors = {};
-    let isValid = true;
+  // Weeks bought from several farms are edited from the purchase entry, lot by lot.
+  // A single lot is edited through the three inputs below.
+  const boughtInLots = getPurchaseLots(base).length > 1;
 
-    // Validate Purchase Fields (Hens, Weight, Rate)
-    const hens = Number(formData.totalHens);
-    if (!formData.totalHens || hens <= 0 || !Number.isInteger(hens)) {
-      newErrors.totalHens = 'Must be a positive whole number';
-      isValid = false;
-    }
+  const editedPurchase = () => {
+    const figures = {
+      totalHens: Number(formData.totalHens),
+      totalLiveWeight: Number(formData.totalLiveWeight),
+      purchaseRate: Number(formData.purchaseRate),
+    };
+    if (!hasPurchaseLots(base)) return figures;
+    const [lot] = base.purchaseLots as PurchaseLot[];
+    return {
+      ...figures,
+      purchaseLots: [{ ...lot, hens: figures.totalHens, liveWeight: figures.totalLiveWeight, rate: figures.purchaseRate }],
+    };
+  };
 
-    const weight = Number(formData.totalLiveWeight);
-    if (!formData.totalLiveWeight || weight <= 0) {
-      newErrors.totalLiveWeight = 'Weight must be > 0';
-      isValid = false;
-    }
+  // Weeks without credit sales keep the field unset
+  const creditSales = (): CreditSale[] | undefined => {
+    const sales = toCreditSales(creditRows);
+    return sales.length > 0 || base.creditSales ? sales : undefined;
+  };
 
-    const rate = Number(formData.purchaseRate);
-    if (!formData.purchaseRate || rate <= 0) {
-      newErrors.purchaseRate = 'Rate must be > 0';
-      isValid = false;
-    }
+  // With product lines the server works out the average price; otherwise
+  // the one price typed in applies to everything
+  const salesLines = (): SalesLine[] | undefined => {
+    const lines = toSalesLines(lineRows);
+    return lines.length > 0 || base.salesLines ? lines : undefined;
+  };
 
-    // Validate Selling Price
-    const price = Number(formData.sellingPrice);
-    if (!formData.sellingPrice || price <= 0) {
-      newErrors.sellingPrice = 'Price must be greater than 0';
-      isValid = false;
-    }
+  // Left as stored until the drawer is counted; a recount is stamped with the time
+  const cashCount = (): Partial<WeeklyRecord> => {
+    if (!countingCash) return {};
+    const cashDenominations = toDenominations(cashRows);
+    const cashFloat = toCashFloat(cashRows);
+    const unchanged = JSON.stringify(cashDenominations) === JSON.stringify(base.cashDenominations)
+      && cashFloat === base.cashFloat;
+    return {
+      cashDenominations,
+      cashFloat,
+      cashCountedAt: unchanged ? base.cashCountedAt : new Date().toISOString(),
+    };
+  };
 
-    // Validate Collections
-    if (Number(formData.cashCollected) < 0) {
-      newErrors.cashCollected = 'Cannot be negative';
-      isValid = false;
-    }
-    if (Number(formData.upiCollected) < 0) {
-      newErrors.upiCollected = 'Cannot be negative';
-      isValid = false;
-    }
+  const buildRecord = (): WeeklyRecord => ({
+    ...base,
+    // Update Purchase Details if changed
+    ...(boughtInLots ? {} : editedPurchase()),
 
-    // Ensure at least some revenue is entered if price is set
-    if (price > 0 && (Number(formData.cashCollected) + Number(formData.upiCollected) <= 0)) {
-        newErrors.general = 'Total revenue (Cash + UPI) must be greater than 0';
-        isValid = false;
-    }
+    // Sales Details
+    isSalesEntryComplete: true,
+    salesCompletedAt: new Date().toISOString(), // Capture completion time
+    salesLines: salesLines(),
+    sellingPrice: Number(formData.sellingPrice),
+    cashCollected: Number(formData.cashCollected),
+    upiCollected: Number(formData.upiCollected),
+    creditSales: creditSales(),
+    mortalityCount: optionalNumber(formData.mortalityCount),
+    mortalityWeight: optionalNumber(formData.mortalityWeight),
+    dressedWeight: optionalNumber(formData.dressedWeight),
+    leftoverWeight: optionalNumber(formData.leftoverWeight),
+    carryOverHens: optionalNumber(formData.carryOverHens),
+    carryOverWeight: optionalNumber(formData.carryOverWeight),
+    expenses: toExpenseLines(expenseRows),
+    // Superseded by the lines above
+    expenseTea: undefined,
+    expenseFuel: undefined,
+    ...cashCount(),
+  });
 
-    // Validate Expenses
-    if (Number(formData.expenseTea) < 0) {
-      newErrors.expenseTea = 'Invalid';
-      isValid = false;
-    }
-    if (Number(formData.expenseFuel) < 0) {
-      newErrors.expenseFuel = 'Invalid';
-      isValid = false;
+  // Keeps only the errors this form has an input for; the rest go to `general`
+  const showErrors = (fieldErrors: FieldErrors) => {
+    const known: (keyof typeof errors)[] = [
+      'totalHens', 'totalLiveWeight', 'purchaseRate', 'sellingPrice',
+      'cashCollected', 'upiCollected', 'mortalityCount', 'mortalityWeight', 'dressedWeight', 'leftoverWeight',
+      'carryOverHens', 'carryOverWeight', 'cashFloat', 'cashDenominations', 'general'
+    ];
+    const newErrors: typeof errors = {};
+    const lineErrors: Record<string, string> = {};
+    const saleErrors: Record<string, string> = {};
+    const productErrors: Record<string, string> = {};
+    const other: string[] = [];
+    Object.entries(fieldErrors).forEach(([reported, message]) => {
+      // A single lot's figures are typed into the week's inputs
+      const field = reported.replace(/^purchaseLots\.0\.(\w+)$/, (match, lotField) => LOT_INPUTS[lotField] || match);
+      if (field.startsWith('expenses.') && message) {
+        lineErrors[field] = message;
+      } else if (field.startsWith('creditSales.') && message) {
+        saleErrors[field] = message;
+      } else if (field.startsWith('salesLines.') && message) {
+        productErrors[field] = message;
+      } else if (known.includes(field as keyof typeof errors)) {
+        newErrors[field as keyof typeof errors] = message;
+      } else if (message) {
+        other.push(message);
+      }
+    });
+    if (other.length > 0) {
+      newErrors.general = [newErrors.general, ...other].filter(Boolean).join(' ');
     }
-
     setErrors(newErrors);
-    return isValid;
+    setExpenseErrors(lineErrors);
+    setCreditErrors(saleErrors);
+    setLineErrors(productErrors);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!validate()) return;
+  const save = async (updatedRecord: WeeklyRecord) => {
+    setSaving(true);
+    try {
+      const saved = await onSave(updatedRecord);
 
-    const updatedRecord: WeeklyRecord = {
-      ...record,
-      // Update Purchase Details if changed
-      totalHens: Number(formData.totalHens),
-      totalLiveWeight: Number(formData.totalLiveWeight),
-      purchaseRate: Number(formData.purchaseRate),
+      // Show success message before proceeding
+      setShowSuccess(true);
       
-      // Sales Details
-      isSalesEntryComplete: true,
-      salesCompletedAt: new Date().toISOString(), // Capture completion time
-      sellingPrice: Number(formData.sellingPrice),
-      cashCollected: Number(formData.cashCollected),
-      upiCollected: Number(formData.upiCollected),
-      expenseTea: Number(formData.expenseTea),
-      expenseFuel: Number(formData.expenseFuel),
-    };
+      // Delay navigation to let user see the success message
+      setTimeout(() => {
+        onSaved(saved);
+      }, 1500);
+    } catch (err) {
+      const theirs = getConflictingRecord(err);
+      if (theirs) {
+        // Compare lines with lines even if their copy predates them
+        setConflict({ mine: updatedRecord, theirs: migrateLegacyExpenses(theirs) });
+      } else {
+        setConflict(null);
+        showErrors(getSaveErrors(err, 'Failed to save sales data. Please try again.'));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
 
-    // Show success message before proceeding
-    setShowSuccess(true);
-    
-    // Delay actual save to let user see the success message
-    setTimeout(() => {
-      onSave(updatedRecord);
-    }, 1500);
+    const updatedRecord = buildRecord();
+    const fieldErrors = validateRecord(updatedRecord);
+    if (Object.keys(fieldErrors).length > 0) {
+      showErrors(fieldErrors);
+      return;
+    }
+    setErrors({});
+    setExpenseErrors({});
+    setCreditErrors({});
+    setLineErrors({});
+    await save(updatedRecord);
+  };
+
+  // Saves the merged values on top of the newer copy; the form keeps them
+  // in case that save is rejected too
+  const handleMergedSave = async (merged: WeeklyRecord) => {
+    if (!conflict) return;
+    setBase(conflict.theirs);
+    setFormData(toFormData(merged));
+    setExpenseRows(toExpenseRows(merged));
+    setCreditRows(toCreditRows(merged));
+    setLineRows(toSalesLineRows(merged));
+    setCashRows(toCashCountRows(merged));
+    setCountingCash(Array.isArray(merged.cashDenominations));
+    await save(merged);
   };
 
-  const revenue = Number(formData.cashCollected) + Number(formData.upiCollected);
-  const estMeatSold = Number(formData.sellingPrice) > 0 ? revenue / Number(formData.sellingPrice) : 0;
-  const currentLiveWeight = Number(formData.totalLiveWeight) || 0;
+  const credit = sumCreditSales(toCreditSales(creditRows).filter(sale => !isNaN(sale.amount)));
+  const collected = (Number(formData.cashCollected) || 0) + (Number(formData.upiCollected) || 0) + credit;
+  const itemized = toSalesLines(lineRows).filter(line => !isNaN(line.quantity) && !isNaN(line.price));
+  const itemizedSales = itemized.length > 0 ? summarizeSalesLines(itemized) : null;
+  const revenue = itemizedSales ? itemizedSales.revenue : collected;
+  const estMeatSold = itemizedSales
+    ? itemizedSales.meatSold
+    : Number(formData.sellingPrice) > 0 ? revenue / Number(formData.sellingPrice) : 0;
+  const currentLiveWeight = boughtInLots ? base.totalLiveWeight : Number(formData.totalLiveWeight) || 0;
+  const purchaseCost = boughtInLots
+    ? summarizeLots(getPurchaseLots(base)).totalPurchaseCost
+    : currentLiveWeight * (Number(formData.purchaseRate) || 0);
+  // The week as typed, for what was sold from and what is kept
+  const stockPreview = {
+    ...base,
+    totalHens: boughtInLots ? base.totalHens : Number(formData.totalHens) || 0,
+    totalLiveWeight: currentLiveWeight,
+    purchaseRate: boughtInLots ? base.purchaseRate : Number(formData.purchaseRate) || 0,
+    carryOverHens: optionalNumber(formData.carryOverHens),
+    carryOverWeight: optionalNumber(formData.carryOverWeight),
+  };
+  const keptCost = (Number(formData.carryOverWeight) || 0) * averageStockCost(stockPreview, purchaseCost);
+  const yieldParts = yieldBreakdown({
+    ...stockPreview,
+    meatSold: estMeatSold,
+    mortalityWeight: optionalNumber(formData.mortalityWeight),
+    dressedWeight: optionalNumber(formData.dressedWeight),
+    leftoverWeight: optionalNumber(formData.leftoverWeight),
+  });
+  const expenseLines = toExpenseLines(expenseRows).filter(line => !isNaN(line.amount));
+  const totalExpenses = sumExpenses(expenseLines);
+  const drawerExpected = expectedCash(
+    { ...base, cashCollected: Number(formData.cashCollected) || 0, expenses: expenseLines },
+    toCashFloat(cashRows) || 0
+  );
 
   const getInputClass = (error?: string) => 
     `w-full bg-white text-gray-900 border rounded-lg focus:ring-2 focus:outline-none transition-colors ${
@@ -162,150 +388,420 @@ const SalesForm: React.FC<SalesFormProps> = ({ record, onSave, onCancel }) => {
         </p>
       </div>
 
-      <form onSubmit={handleSubmit} className="p-6 space-y-5" noValidate>
-        
-        {/* Editable Purchase Info */}
-        <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
-          <div className="flex justify-between items-center mb-3">
-             <h3 className="text-sm font-semibold text-gray-700 uppercase tracking-wider">Purchase Info (Editable)</h3>
-          </div>
-          <div className="grid grid-cols-3 gap-3">
-            <div>
-              <label className="block text-xs font-medium text-gray-600 mb-1">Hens</label>
-              <input 
-                type="number"
-                className={`${getInputClass(errors.totalHens)} p-2 text-sm`}
-                value={formData.totalHens}
-                onChange={e => setFormData({...formData, totalHens: e.target.value})}
-              />
+      {conflict ? (
+        <RecordMergePanel
+          key={conflict.theirs.revision}
+          base={migrateLegacyExpenses(base)}
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          // Cashiers cannot change purchase figures, so those always follow the server
+          fields={canEditPurchase ? [...PURCHASE_MERGE_FIELDS, ...SALES_MERGE_FIELDS] : SALES_MERGE_FIELDS}
+          saving={saving}
+          onSave={handleMergedSave}
+          onCancel={() => {
+            // Keep editing on top of the newer copy
+            setBase(conflict.theirs);
+            setConflict(null);
+          }}
+        />
+      ) : (
+        <form onSubmit={handleSubmit} className="p-6 space-y-5" noValidate>
+          
+          {/* Editable Purchase Info */}
+          <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+            <div className="flex justify-between items-center mb-3">
+               <h3 className="text-sm font-semibold text-gray-700 uppercase tracking-wider">
+                 Purchase Info {canEditPurchase && !boughtInLots ? '(Editable)' : '(Read Only)'}
+               </h3>
             </div>
-            <div>
-              <label className="block text-xs font-medium text-gray-600 mb-1">Weight (kg)</label>
-              <input 
-                type="number"
-                className={`${getInputClass(errors.totalLiveWeight)} p-2 text-sm`}
-                value={formData.totalLiveWeight}
-                onChange={e => setFormData({...formData, totalLiveWeight: e.target.value})}
-              />
+            {boughtInLots ? (
+              <div className="space-y-1 text-sm">
+                {getPurchaseLots(base).map((lot, index) => (
+                  <div key={index} className="flex justify-between gap-2">
+                    <span className="text-gray-700 truncate">{lot.supplier || `Lot ${index + 1}`}</span>
+                    <span className="text-gray-500 whitespace-nowrap">
+                      {lot.hens} hens • {formatNumber(lot.liveWeight)} kg @ {formatCurrency(lot.rate)} = <span className="font-medium text-gray-700">{formatCurrency(lotCost(lot))}</span>
+                    </span>
+                  </div>
+                ))}
+                <div className="flex justify-between gap-2 border-t border-gray-200 pt-1 font-semibold text-gray-800">
+                  <span>Total</span>
+                  <span>{base.totalHens} hens • {formatNumber(base.totalLiveWeight)} kg @ {formatCurrency(base.purchaseRate)} avg</span>
+                </div>
+                {canEditPurchase && <p className="text-xs text-gray-400">Change lots from the purchase entry.</p>}
+              </div>
+            ) : (
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Hens</label>
+                <input 
+                  type="number"
+                  className={`${getInputClass(errors.totalHens)} p-2 text-sm disabled:bg-gray-100 disabled:text-gray-500`}
+                  disabled={!canEditPurchase}
+                  value={formData.totalHens}
+                  onChange={e => setFormData({...formData, totalHens: e.target.value})}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Weight (kg)</label>
+                <input 
+                  type="number"
+                  className={`${getInputClass(errors.totalLiveWeight)} p-2 text-sm disabled:bg-gray-100 disabled:text-gray-500`}
+                  disabled={!canEditPurchase}
+                  value={formData.totalLiveWeight}
+                  onChange={e => setFormData({...formData, totalLiveWeight: e.target.value})}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Rate (₹)</label>
+                <input 
+                  type="number"
+                  className={`${getInputClass(errors.purchaseRate)} p-2 text-sm disabled:bg-gray-100 disabled:text-gray-500`}
+                  disabled={!canEditPurchase}
+                  value={formData.purchaseRate}
+                  onChange={e => setFormData({...formData, purchaseRate: e.target.value})}
+                />
+              </div>
             </div>
+            )}
+            {(errors.totalHens || errors.totalLiveWeight || errors.purchaseRate) && (
+              <p className="text-xs text-red-500 mt-2">
+                {[errors.totalHens, errors.totalLiveWeight, errors.purchaseRate].filter(Boolean).join(' • ')}
+              </p>
+            )}
+          </div>
+
+          {/* Revenue Section */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-yellow-600 uppercase tracking-wider">Revenue</h3>
+            
             <div>
-              <label className="block text-xs font-medium text-gray-600 mb-1">Rate (₹)</label>
-              <input 
-                type="number"
-                className={`${getInputClass(errors.purchaseRate)} p-2 text-sm`}
-                value={formData.purchaseRate}
-                onChange={e => setFormData({...formData, purchaseRate: e.target.value})}
+              <label className="block text-sm font-medium text-gray-700 mb-1">Products Sold</label>
+              <SalesLinesEditor
+                rows={lineRows}
+                products={products}
+                errors={lineErrors}
+                onChange={setLineRows}
+                onAddProduct={onAddProduct}
+                inputClass={getInputClass}
               />
             </div>
-          </div>
-          {(errors.totalHens || errors.totalLiveWeight || errors.purchaseRate) && (
-            <p className="text-xs text-red-500 mt-2">Please check purchase values above.</p>
-          )}
-        </div>
 
-        {/* Revenue Section */}
-        <div className="space-y-4">
-          <h3 className="text-sm font-semibold text-yellow-600 uppercase tracking-wider">Revenue</h3>
-          
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Selling Price (₹/kg)</label>
-            <input 
-              type="number" step="0.01"
-              className={`${getInputClass(errors.sellingPrice)} p-3`}
-              value={formData.sellingPrice}
-              onChange={e => setFormData({...formData, sellingPrice: e.target.value})}
+            <PriceAdvisor
+              record={stockPreview}
+              records={records}
+              expenses={totalExpenses}
+              onUsePrice={lineRows.length === 0 ? price => setFormData({...formData, sellingPrice: price.toString()}) : undefined}
             />
-             {errors.sellingPrice && <p className="text-xs text-red-500 mt-1 flex items-center gap-1"><AlertCircle size={12}/> {errors.sellingPrice}</p>}
-          </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Cash</label>
-              <input 
-                type="number"
-                className={`${getInputClass(errors.cashCollected)} p-3`}
-                value={formData.cashCollected}
-                onChange={e => setFormData({...formData, cashCollected: e.target.value})}
-              />
-              {errors.cashCollected && <p className="text-xs text-red-500 mt-1">{errors.cashCollected}</p>}
+            {lineRows.length === 0 ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Selling Price (₹/kg)</label>
+                <input 
+                  type="number" step="0.01"
+                  className={`${getInputClass(errors.sellingPrice)} p-3`}
+                  value={formData.sellingPrice}
+                  onChange={e => setFormData({...formData, sellingPrice: e.target.value})}
+                />
+                <p className="text-xs text-gray-400 mt-1">One price for everything, or add products above.</p>
+                 {errors.sellingPrice && <p className="text-xs text-red-500 mt-1 flex items-center gap-1"><AlertCircle size={12}/> {errors.sellingPrice}</p>}
+              </div>
+            ) : itemizedSales && (
+              <p className="text-sm text-gray-600">
+                Average price: <span className="font-semibold">{formatCurrency(itemizedSales.sellingPrice)} / kg</span>
+              </p>
+            )}
+
+            {base.posTransactions && base.posTransactions.length > 0 && (
+              <p className="text-xs text-gray-500 bg-gray-50 p-2 rounded border border-gray-100">
+                Filled from {base.posTransactions.length} counter sale{base.posTransactions.length === 1 ? '' : 's'}. Changes here do not alter the counter log.
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cash</label>
+                <input 
+                  type="number"
+                  className={`${getInputClass(errors.cashCollected)} p-3`}
+                  value={formData.cashCollected}
+                  onChange={e => setFormData({...formData, cashCollected: e.target.value})}
+                />
+                {errors.cashCollected && <p className="text-xs text-red-500 mt-1">{errors.cashCollected}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">UPI</label>
+                <input 
+                  type="number"
+                  className={`${getInputClass(errors.upiCollected)} p-3`}
+                  value={formData.upiCollected}
+                  onChange={e => setFormData({...formData, upiCollected: e.target.value})}
+                />
+                 {errors.upiCollected && <p className="text-xs text-red-500 mt-1">{errors.upiCollected}</p>}
+                {!importingUpi && (
+                  <button
+                    type="button"
+                    onClick={() => setImportingUpi(true)}
+                    className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700 mt-1"
+                  >
+                    <Upload size={12} /> Check against statement
+                  </button>
+                )}
+              </div>
             </div>
+
+            {importingUpi && (
+              <UpiStatementImport
+                record={base}
+                upiCollected={formData.upiCollected.trim() === '' ? undefined : Number(formData.upiCollected)}
+                onUseTotal={total => setFormData({ ...formData, upiCollected: total.toString() })}
+                onClose={() => setImportingUpi(false)}
+              />
+            )}
+
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">UPI</label>
-              <input 
-                type="number"
-                className={`${getInputClass(errors.upiCollected)} p-3`}
-                value={formData.upiCollected}
-                onChange={e => setFormData({...formData, upiCollected: e.target.value})}
+              <label className="block text-sm font-medium text-gray-700 mb-1">Credit (Udhaar)</label>
+              <CreditSalesEditor
+                rows={creditRows}
+                customers={customers}
+                errors={creditErrors}
+                onChange={setCreditRows}
+                onAddCustomer={onAddCustomer}
+                inputClass={getInputClass}
               />
-               {errors.upiCollected && <p className="text-xs text-red-500 mt-1">{errors.upiCollected}</p>}
             </div>
+            {errors.general && <p className="text-sm text-red-500 bg-red-50 p-2 rounded text-center border border-red-100">{errors.general}</p>}
           </div>
-          {errors.general && <p className="text-sm text-red-500 bg-red-50 p-2 rounded text-center border border-red-100">{errors.general}</p>}
-        </div>
 
-        <div className="border-t border-gray-100 my-4"></div>
+          <div className="border-t border-gray-100 my-4"></div>
 
-        {/* Expenses Section */}
-        <div className="space-y-4">
-          <h3 className="text-sm font-semibold text-red-500 uppercase tracking-wider">Shop Expenses</h3>
-          
-          <div className="grid grid-cols-2 gap-3">
-            <div>
-              <label className="block text-xs font-medium text-gray-600 mb-1">Tea/Snacks</label>
-              <input 
-                type="number"
-                className={`${getInputClass(errors.expenseTea)} p-2 text-sm`}
-                value={formData.expenseTea}
-                onChange={e => setFormData({...formData, expenseTea: e.target.value})}
-              />
-              {errors.expenseTea && <p className="text-xs text-red-500 mt-1">{errors.expenseTea}</p>}
+          {/* Yield Section (optional) */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Yield</h3>
+              {!weighingYield && (
+                <button
+                  type="button"
+                  onClick={() => setWeighingYield(true)}
+                  className="flex items-center gap-1 text-sm font-medium text-gray-600 hover:text-gray-800"
+                >
+                  <Scale size={16} /> Add Weights
+                </button>
+              )}
             </div>
-            <div>
-              <label className="block text-xs font-medium text-gray-600 mb-1">Fuel</label>
-              <input 
-                type="number"
-                className={`${getInputClass(errors.expenseFuel)} p-2 text-sm`}
-                value={formData.expenseFuel}
-                onChange={e => setFormData({...formData, expenseFuel: e.target.value})}
-              />
-              {errors.expenseFuel && <p className="text-xs text-red-500 mt-1">{errors.expenseFuel}</p>}
+            {weighingYield ? (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Birds died</label>
+                    <input
+                      type="number" step="1"
+                      className={`${getInputClass(errors.mortalityCount)} p-2 text-sm`}
+                      value={formData.mortalityCount}
+                      onChange={e => setFormData({...formData, mortalityCount: e.target.value})}
+                    />
+                    {errors.mortalityCount && <p className="text-xs text-red-500 mt-1">{errors.mortalityCount}</p>}
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Their weight (kg)</label>
+                    <input
+                      type="number" step="0.01"
+                      className={`${getInputClass(errors.mortalityWeight)} p-2 text-sm`}
+                      value={formData.mortalityWeight}
+                      onChange={e => setFormData({...formData, mortalityWeight: e.target.value})}
+                    />
+                    {errors.mortalityWeight && <p className="text-xs text-red-500 mt-1">{errors.mortalityWeight}</p>}
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Dressed weight (kg)</label>
+                    <input
+                      type="number" step="0.01"
+                      className={`${getInputClass(errors.dressedWeight)} p-2 text-sm`}
+                      value={formData.dressedWeight}
+                      onChange={e => setFormData({...formData, dressedWeight: e.target.value})}
+                    />
+                    {errors.dressedWeight && <p className="text-xs text-red-500 mt-1">{errors.dressedWeight}</p>}
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Leftover meat (kg)</label>
+                    <input
+                      type="number" step="0.01"
+                      className={`${getInputClass(errors.leftoverWeight)} p-2 text-sm`}
+                      value={formData.leftoverWeight}
+                      onChange={e => setFormData({...formData, leftoverWeight: e.target.value})}
+                    />
+                    {errors.leftoverWeight && <p className="text-xs text-red-500 mt-1">{errors.leftoverWeight}</p>}
+                  </div>
+                </div>
+                <p className="text-xs text-gray-400">All optional. Each one splits more of the wastage into its cause.</p>
+              </>
+            ) : (
+              <p className="text-xs text-gray-400">Weigh dead birds, dressed meat and leftovers to see where the wastage went.</p>
+            )}
+          </div>
+
+          <div className="border-t border-gray-100 my-4"></div>
+
+          {/* Live birds kept unsold (optional) */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Kept for Next Week</h3>
+            {base.openingWeight ? (
+              <p className="text-xs text-gray-500">
+                Opened with {base.openingHens || 0} hens • {formatNumber(base.openingWeight)} kg kept from an earlier week.
+              </p>
+            ) : null}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Live hens left</label>
+                <input
+                  type="number" step="1"
+                  className={`${getInputClass(errors.carryOverHens)} p-2 text-sm`}
+                  value={formData.carryOverHens}
+                  onChange={e => setFormData({...formData, carryOverHens: e.target.value})}
+                />
+                {errors.carryOverHens && <p className="text-xs text-red-500 mt-1">{errors.carryOverHens}</p>}
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Their live weight (kg)</label>
+                <input
+                  type="number" step="0.01"
+                  className={`${getInputClass(errors.carryOverWeight)} p-2 text-sm`}
+                  value={formData.carryOverWeight}
+                  onChange={e => setFormData({...formData, carryOverWeight: e.target.value})}
+                />
+                {errors.carryOverWeight && <p className="text-xs text-red-500 mt-1">{errors.carryOverWeight}</p>}
+              </div>
             </div>
+            <p className="text-xs text-gray-400">
+              {keptCost > 0
+                ? `They move to next week at ${formatCurrency(keptCost)}, out of this week's cost and wastage.`
+                : 'Birds not slaughtered by close. Next week opens with them instead of counting them as wastage.'}
+            </p>
           </div>
-        </div>
 
-        {/* Live Validations */}
-        <div className="bg-yellow-50 p-4 rounded-lg space-y-2 mt-4 text-sm">
-          <div className="flex justify-between">
-            <span className="text-gray-600">Total Revenue:</span>
-            <span className="font-semibold">{revenue.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span>
+          <div className="border-t border-gray-100 my-4"></div>
+
+          {/* Expenses Section */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-red-500 uppercase tracking-wider">Shop Expenses</h3>
+            
+            <ExpenseLinesEditor
+              rows={expenseRows}
+              categories={categories}
+              errors={expenseErrors}
+              onChange={setExpenseRows}
+              onAddCategory={onAddCategory}
+              inputClass={getInputClass}
+            />
           </div>
-          <div className="flex justify-between">
-            <span className="text-gray-600">Est. Meat Sold:</span>
-            <span className="font-semibold">{estMeatSold.toFixed(2)} kg</span>
+
+          <div className="border-t border-gray-100 my-4"></div>
+
+          {/* Cash Drawer Section */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-green-700 uppercase tracking-wider">Cash Drawer</h3>
+              {!countingCash && (
+                <button
+                  type="button"
+                  onClick={() => setCountingCash(true)}
+                  className="flex items-center gap-1 text-sm font-medium text-green-700 hover:text-green-800"
+                >
+                  <Banknote size={16} /> Count Cash
+                </button>
+              )}
+            </div>
+            {countingCash ? (
+              <CashCountEditor
+                rows={cashRows}
+                expected={drawerExpected}
+                errors={{ cashFloat: errors.cashFloat, cashDenominations: errors.cashDenominations }}
+                onChange={setCashRows}
+                inputClass={getInputClass}
+              />
+            ) : (
+              <p className="text-xs text-gray-400">Count the notes and coins at close to check the drawer against the day's cash.</p>
+            )}
           </div>
-          {estMeatSold > currentLiveWeight && (
-             <div className="text-red-600 text-xs font-bold pt-1 flex items-center gap-1">
-               <AlertCircle size={14}/> Warning: Meat sold exceeds live weight!
-             </div>
-          )}
-        </div>
 
-        <div className="flex gap-3 pt-2">
-          <button 
-            type="button" 
-            onClick={onCancel}
-            className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
-          >
-            Cancel
-          </button>
-          <button 
-            type="submit" 
-            className="flex-1 py-3 px-4 bg-yellow-500 text-white rounded-lg font-medium hover:bg-yellow-600 transition-colors shadow-md"
-          >
-            Submit Week
-          </button>
-        </div>
-      </form>
+          {/* Live Validations */}
+          <div className="bg-yellow-50 p-4 rounded-lg space-y-2 mt-4 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Total Revenue:</span>
+              <span className="font-semibold">{revenue.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span>
+            </div>
+            {credit > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Of which on Credit:</span>
+                <span className="font-semibold">{formatCurrency(credit)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-gray-600">{itemizedSales ? 'Meat Sold' : 'Est. Meat Sold'}:</span>
+              <span className="font-semibold">{estMeatSold.toFixed(2)} kg</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Purchase Cost{boughtInLots ? ` (${getPurchaseLots(base).length} lots)` : ''}:</span>
+              <span className="font-semibold">{formatCurrency(purchaseCost)}</span>
+            </div>
+            {(base.openingCost || keptCost > 0) ? (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Opening / Kept Stock:</span>
+                <span className="font-semibold">+{formatCurrency(base.openingCost || 0)} / −{formatCurrency(keptCost)}</span>
+              </div>
+            ) : null}
+            <div className="flex justify-between">
+              <span className="text-gray-600">Total Expenses:</span>
+              <span className="font-semibold">{formatCurrency(totalExpenses)}</span>
+            </div>
+            {yieldParts.dressingYield !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Dressing Yield:</span>
+                <span className="font-semibold">{formatNumber(yieldParts.dressingYield, 1)}%</span>
+              </div>
+            )}
+            {yieldParts.mortalityPercentage !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Mortality:</span>
+                <span className="font-semibold">{formatNumber(yieldParts.mortalityPercentage, 1)}% of live weight</span>
+              </div>
+            )}
+            {yieldParts.unexplainedShrinkage !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Unexplained Shrinkage:</span>
+                <span className={`font-semibold ${yieldParts.unexplainedShrinkage > 0 ? 'text-red-600' : ''}`}>{formatNumber(yieldParts.unexplainedShrinkage)} kg</span>
+              </div>
+            )}
+            {itemizedSales && Math.abs(collected - revenue) >= 1 && (
+               <div className="text-yellow-700 text-xs font-bold pt-1 flex items-center gap-1">
+                 <AlertCircle size={14}/> Cash + UPI + Credit is {formatCurrency(Math.abs(collected - revenue))} {collected < revenue ? 'less' : 'more'} than the products sold
+               </div>
+            )}
+            {estMeatSold > stockWeight(stockPreview) && (
+               <div className="text-red-600 text-xs font-bold pt-1 flex items-center gap-1">
+                 <AlertCircle size={14}/> Warning: Meat sold exceeds live weight!
+               </div>
+            )}
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button 
+              type="button" 
+              onClick={onCancel}
+              className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button 
+              type="submit" 
+              disabled={saving}
+              className="flex-1 py-3 px-4 bg-yellow-500 text-white rounded-lg font-medium hover:bg-yellow-600 transition-colors shadow-md disabled:opacity-60"
+            >
+              {saving ? 'Saving...' : 'Submit Week'}
+            </button>
+          </div>
+        </form>
+      )}
     </div>
   );
 };
@@ -0,0 +1,146 @@
+import React from 'react';
+import { WeeklyRecord, SalesLine, Product } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { hasSalesLines } from '../utils/sales';
+import { Plus, Trash2 } from 'lucide-react';
+
+// One editable product line; numbers stay strings while typing
+export interface SalesLineRow {
+  product: string;
+  quantity: string;
+  price: string;
+}
+
+const NEW_PRODUCT = '__new__';
+
+export const toSalesLineRows = (record: WeeklyRecord): SalesLineRow[] =>
+  hasSalesLines(record)
+    ? (record.salesLines as SalesLine[]).map(line => ({
+        product: line.product,
+        quantity: line.quantity.toString(),
+        price: line.price.toString(),
+      }))
+    : [];
+
+// Untouched blank rows are dropped rather than reported as errors
+export const toSalesLines = (rows: SalesLineRow[]): SalesLine[] =>
+  rows
+    .filter(row => row.product || row.quantity.trim() || row.price.trim())
+    .map(row => ({
+      product: row.product,
+      quantity: row.quantity.trim() === '' ? NaN : Number(row.quantity),
+      price: row.price.trim() === '' ? NaN : Number(row.price),
+    }));
+
+interface SalesLinesEditorProps {
+  rows: SalesLineRow[];
+  products: Product[];
+  errors: Record<string, string | undefined>; // Keyed `salesLines.<index>.<field>`
+  onChange: (rows: SalesLineRow[]) => void;
+  onAddProduct?: (name: string) => Promise<Product>; // Omitted when new products cannot be saved
+  inputClass: (error?: string) => string;
+}
+
+const SalesLinesEditor: React.FC<SalesLinesEditorProps> = ({ rows, products, errors, onChange, onAddProduct, inputClass }) => {
+  const updateRow = (index: number, change: Partial<SalesLineRow>) =>
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...change } : row)));
+
+  // Picking a product fills in its usual price unless one was typed already
+  const selectProduct = (index: number, product: Product | undefined, name: string) => {
+    const row = rows[index];
+    updateRow(index, {
+      product: name,
+      price: row.price.trim() || product?.price === undefined ? row.price : product.price.toString(),
+    });
+  };
+
+  const handleProduct = async (index: number, value: string) => {
+    if (value !== NEW_PRODUCT) {
+      selectProduct(index, products.find(p => p.name === value), value);
+      return;
+    }
+    const name = window.prompt('Name of the new product');
+    if (!name || !name.trim() || !onAddProduct) return;
+    try {
+      const product = await onAddProduct(name.trim());
+      selectProduct(index, product, product.name);
+    } catch (err) {
+      alert("Failed to add the product.");
+    }
+  };
+
+  // Keep a line's product selectable even if it was since renamed or removed
+  const optionsFor = (row: SalesLineRow) => {
+    const names = products.map(p => p.name);
+    return row.product && !names.includes(row.product) ? [row.product, ...names] : names;
+  };
+
+  return (
+    <div className="space-y-3">
+      {rows.map((row, index) => {
+        const productError = errors[`salesLines.${index}.product`];
+        const quantityError = errors[`salesLines.${index}.quantity`];
+        const priceError = errors[`salesLines.${index}.price`];
+        const amount = Number(row.quantity) * Number(row.price);
+        return (
+          <div key={index} className="bg-gray-50 p-3 rounded-lg border border-gray-100 space-y-2">
+            <div className="flex gap-2">
+              <select
+                className={`${inputClass(productError)} p-2 text-sm flex-1`}
+                value={row.product}
+                onChange={e => handleProduct(index, e.target.value)}
+              >
+                <option value="">Product…</option>
+                {optionsFor(row).map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+                {onAddProduct && <option value={NEW_PRODUCT}>+ New product…</option>}
+              </select>
+              <button
+                type="button"
+                onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2 items-center">
+              <input
+                type="number"
+                step="0.01"
+                placeholder="kg"
+                className={`${inputClass(quantityError)} p-2 text-sm`}
+                value={row.quantity}
+                onChange={e => updateRow(index, { quantity: e.target.value })}
+              />
+              <input
+                type="number"
+                step="0.01"
+                placeholder="₹/kg"
+                className={`${inputClass(priceError)} p-2 text-sm`}
+                value={row.price}
+                onChange={e => updateRow(index, { price: e.target.value })}
+              />
+              <span className="text-sm text-right font-medium text-gray-700">
+                {amount > 0 ? formatCurrency(amount) : '-'}
+              </span>
+            </div>
+            {(productError || quantityError || priceError) && (
+              <p className="text-xs text-red-500">{[productError, quantityError, priceError].filter(Boolean).join(' • ')}</p>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => onChange([...rows, { product: '', quantity: '', price: '' }])}
+        className="flex items-center gap-1 text-sm font-medium text-yellow-600 hover:text-yellow-700"
+      >
+        <Plus size={16} /> Add Product
+      </button>
+    </div>
+  );
+};
+
+export default SalesLinesEditor;
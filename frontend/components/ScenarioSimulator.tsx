@@ -0,0 +1,279 @@
+import React, { useMemo, useState } from 'react';
+import { WeeklyRecord, Scenario, ScenarioInputs } from '../types';
+import { formatCurrency, formatNumber, combineWeeks } from '../utils/calculations';
+import { scenarioFromWeek, scenarioFromAverages, projectScenario, sliderRange } from '../utils/scenarios';
+import * as ScenarioService from '../services/scenarioService';
+import { SlidersHorizontal, Trash2, Save } from 'lucide-react';
+
+interface ScenarioSimulatorProps {
+  records: WeeklyRecord[];
+  consolidated: boolean; // records span every branch
+}
+
+const AVERAGE = 'average';
+
+type SliderField = 'purchaseRate' | 'sellingPrice' | 'wastagePercentage' | 'expenses';
+
+const SLIDERS: { key: SliderField; label: string; format: (value: number) => string }[] = [
+  { key: 'purchaseRate', label: 'Purchase Rate (₹/kg)', format: value => formatCurrency(value) },
+  { key: 'sellingPrice', label: 'Selling Price (₹/kg)', format: value => formatCurrency(value) },
+  { key: 'wastagePercentage', label: 'Wastage (%)', format: value => `${formatNumber(value, 1)}%` },
+  { key: 'expenses', label: 'Expenses (₹)', format: value => formatCurrency(value) },
+];
+
+// Rows of the comparison table, inputs first
+const COMPARE_ROWS: { label: string; value: (inputs: ScenarioInputs, week: WeeklyRecord) => string; result?: boolean }[] = [
+  { label: 'Hens • Live kg', value: inputs => `${inputs.totalHens} • ${formatNumber(inputs.totalLiveWeight, 0)}` },
+  { label: 'Purchase Rate', value: inputs => formatCurrency(inputs.purchaseRate) },
+  { label: 'Selling Price', value: inputs => formatCurrency(inputs.sellingPrice) },
+  { label: 'Wastage', value: inputs => `${formatNumber(inputs.wastagePercentage, 1)}%` },
+  { label: 'Expenses', value: inputs => formatCurrency(inputs.expenses) },
+  { label: 'Revenue', value: (inputs, week) => formatCurrency(week.totalRevenue), result: true },
+  { label: 'Net Profit', value: (inputs, week) => formatCurrency(week.netProfit), result: true },
+  { label: 'Profit / Hen', value: (inputs, week) => formatCurrency(week.profitPerHen), result: true },
+  { label: 'Profit / Kg', value: (inputs, week) => formatCurrency(week.profitPerKg), result: true },
+];
+
+const formatWeek = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// Change from the starting figures, e.g. "+₹1,200.00"
+const Delta: React.FC<{ value: number; base: number }> = ({ value, base }) => {
+  const change = Math.round((value - base) * 100) / 100;
+  if (change === 0) return <span className="block text-xs text-gray-400">no change</span>;
+  return (
+    <span className={`block text-xs font-medium ${change > 0 ? 'text-green-600' : 'text-red-600'}`}>
+      {change > 0 ? '+' : '−'}{formatCurrency(Math.abs(change))}
+    </span>
+  );
+};
+
+// Start from a past week or recent averages, move the sliders and watch the
+// projected profit; save scenarios by name to compare them side by side
+const ScenarioSimulator: React.FC<ScenarioSimulatorProps> = ({ records, consolidated }) => {
+  // In the consolidated view each weekend is one combined week across branches
+  const completed = useMemo(
+    () => (consolidated ? combineWeeks(records) : records.filter(r => r.isSalesEntryComplete))
+      .sort((a, b) => b.weekDate.localeCompare(a.weekDate)),
+    [records, consolidated]
+  );
+  const averages = useMemo(() => scenarioFromAverages(completed), [completed]);
+
+  const startFrom = (source: string): { inputs: ScenarioInputs; basis: string } | undefined => {
+    if (source === AVERAGE) {
+      return averages && { inputs: averages.inputs, basis: `Average of ${averages.weeks} week${averages.weeks === 1 ? '' : 's'}` };
+    }
+    const week = completed.find(r => r.id === source);
+    return week && { inputs: scenarioFromWeek(week), basis: `Week of ${formatWeek(week.weekDate)}` };
+  };
+
+  const [source, setSource] = useState(AVERAGE);
+  const [start, setStart] = useState(() => startFrom(AVERAGE));
+  const [inputs, setInputs] = useState<ScenarioInputs | undefined>(() => start?.inputs);
+  const [name, setName] = useState('');
+  const [scenarios, setScenarios] = useState<Scenario[]>(() => ScenarioService.getScenarios());
+
+  const projected = useMemo(() => (inputs ? projectScenario(inputs) : undefined), [inputs]);
+  const baseline = useMemo(() => (start ? projectScenario(start.inputs) : undefined), [start]);
+
+  if (!start || !inputs || !projected || !baseline) {
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 text-center text-gray-500">
+        Complete a week first; scenarios start from past weeks.
+      </div>
+    );
+  }
+
+  const handleSource = (value: string) => {
+    const next = startFrom(value);
+    if (!next) return;
+    setSource(value);
+    setStart(next);
+    setInputs(next.inputs);
+  };
+
+  const update = (field: keyof ScenarioInputs, value: string) =>
+    setInputs({ ...inputs, [field]: Number(value) || 0 });
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    setScenarios(ScenarioService.saveScenario({ ...inputs, name: name.trim(), basis: start.basis }));
+    setName('');
+  };
+
+  const handleLoad = (scenario: Scenario) => {
+    const { id, name: scenarioName, basis, savedAt, ...saved } = scenario;
+    setInputs(saved);
+    setName(scenarioName);
+  };
+
+  const inputClass = "w-full bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-yellow-500 focus:outline-none p-2 text-sm";
+
+  const columns = [
+    { id: 'current', name: 'Current', basis: start.basis, inputs, week: projected },
+    ...scenarios.map(s => ({ id: s.id, name: s.name, basis: s.basis, inputs: s as ScenarioInputs, week: projectScenario(s) })),
+  ];
+
+  return (
+    <div className="space-y-6 max-w-5xl mx-auto">
+      <div className="flex items-center gap-2">
+        <SlidersHorizontal className="text-yellow-600" />
+        <h2 className="text-2xl font-bold text-gray-800">What If</h2>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Start from</label>
+            <select className={inputClass} value={source} onChange={e => handleSource(e.target.value)}>
+              {averages && <option value={AVERAGE}>Average of the last {averages.weeks} week{averages.weeks === 1 ? '' : 's'}</option>}
+              {completed.map(week => (
+                <option key={week.id} value={week.id}>Week of {formatWeek(week.weekDate)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Hens</label>
+              <input type="number" step="1" className={inputClass} value={inputs.totalHens} onChange={e => update('totalHens', e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Live weight (kg)</label>
+              <input type="number" step="0.01" className={inputClass} value={Number(inputs.totalLiveWeight.toFixed(2))} onChange={e => update('totalLiveWeight', e.target.value)} />
+            </div>
+          </div>
+
+          {SLIDERS.map(slider => {
+            const range = sliderRange(slider.key, start.inputs[slider.key]);
+            return (
+              <div key={slider.key}>
+                <div className="flex justify-between text-xs font-medium text-gray-600 mb-1">
+                  <span>{slider.label}</span>
+                  <span className="text-gray-800 font-semibold">
+                    {slider.format(inputs[slider.key])}
+                    <span className="text-gray-400 font-normal"> (was {slider.format(start.inputs[slider.key])})</span>
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  className="w-full"
+                  style={{ accentColor: '#eab308' }}
+                  min={Math.min(range.min, inputs[slider.key])}
+                  max={Math.max(range.max, inputs[slider.key])}
+                  step={range.step}
+                  value={inputs[slider.key]}
+                  onChange={e => update(slider.key, e.target.value)}
+                />
+              </div>
+            );
+          })}
+
+          <button
+            type="button"
+            onClick={() => setInputs(start.inputs)}
+            className="text-xs font-medium text-gray-500 hover:text-gray-700"
+          >
+            Reset to {start.basis.toLowerCase()}
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {[
+              { label: 'Revenue', value: projected.totalRevenue || 0, base: baseline.totalRevenue || 0 },
+              { label: 'Net Profit', value: projected.netProfit || 0, base: baseline.netProfit || 0 },
+              { label: 'Profit / Hen', value: projected.profitPerHen || 0, base: baseline.profitPerHen || 0 },
+              { label: 'Profit / Kg', value: projected.profitPerKg || 0, base: baseline.profitPerKg || 0 },
+            ].map(stat => (
+              <div key={stat.label} className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+                <span className="block text-xs text-gray-500 uppercase font-semibold tracking-wider">{stat.label}</span>
+                <span className={`text-2xl font-bold ${stat.label === 'Revenue' || stat.value >= 0 ? 'text-gray-800' : 'text-red-600'}`}>
+                  {formatCurrency(stat.value)}
+                </span>
+                <Delta value={stat.value} base={stat.base} />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400">
+            {formatNumber(projected.meatSold)} kg sold at one price after {formatNumber(inputs.wastagePercentage, 1)}% wastage,
+            against {start.basis.toLowerCase()}.
+          </p>
+
+          <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex gap-2">
+            <input
+              className={inputClass}
+              placeholder="Name this scenario, e.g. Farm B at ₹118"
+              value={name}
+              onChange={e => setName(e.target.value)}
+            />
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!name.trim()}
+              className="flex items-center gap-1 px-4 bg-gray-800 text-white rounded-lg text-sm font-medium hover:bg-gray-900 disabled:opacity-50"
+            >
+              <Save size={16} /> Save
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {scenarios.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-4 py-3 text-left font-semibold">Compare</th>
+                {columns.map(column => (
+                  <th key={column.id} className="px-4 py-3 text-right font-semibold align-top">
+                    <span className="block text-gray-800">{column.name}</span>
+                    <span className="block text-[10px] font-normal text-gray-400">{column.basis}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {COMPARE_ROWS.map(row => (
+                <tr key={row.label} className={row.result ? 'font-semibold text-gray-800' : 'text-gray-600'}>
+                  <td className="px-4 py-2">{row.label}</td>
+                  {columns.map(column => (
+                    <td key={column.id} className="px-4 py-2 text-right whitespace-nowrap">{row.value(column.inputs, column.week)}</td>
+                  ))}
+                </tr>
+              ))}
+              <tr>
+                <td className="px-4 py-2"></td>
+                {columns.map(column => (
+                  <td key={column.id} className="px-4 py-2 text-right whitespace-nowrap">
+                    {column.id !== 'current' && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => handleLoad(scenarios.find(s => s.id === column.id) as Scenario)}
+                          className="text-xs font-medium text-yellow-700 hover:text-yellow-800 mr-3"
+                        >
+                          Load
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setScenarios(ScenarioService.deleteScenario(column.id))}
+                          className="text-gray-400 hover:text-red-600 align-middle"
+                          title="Delete scenario"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioSimulator;
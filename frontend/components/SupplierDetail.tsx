@@ -0,0 +1,133 @@
+import React, { useMemo } from 'react';
+import { WeeklyRecord, Supplier } from '../types';
+import { formatCurrency, formatNumber } from '../utils/calculations';
+import { getSupplierPurchases, summarizeSupplierPurchases } from '../utils/suppliers';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { ArrowLeft, Phone, MapPin } from 'lucide-react';
+
+interface SupplierDetailProps {
+  supplier: Supplier;
+  records: WeeklyRecord[];
+  onBack: () => void;
+}
+
+const tooltipStyle = {
+  backgroundColor: '#fff',
+  borderRadius: '8px',
+  border: '1px solid #e5e7eb',
+  padding: '8px 12px',
+  fontSize: '12px',
+};
+
+// One farm's page: rate paid over time and the wastage on its birds
+const SupplierDetail: React.FC<SupplierDetailProps> = ({ supplier, records, onBack }) => {
+  const purchases = useMemo(() => getSupplierPurchases(records, supplier), [records, supplier]);
+  const summary = useMemo(() => summarizeSupplierPurchases(purchases), [purchases]);
+
+  const chartData = purchases.map(p => ({
+    date: new Date(p.weekDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' }),
+    Rate: p.rate,
+    Wastage: p.wastagePercentage,
+  }));
+
+  const stat = (label: string, value: string) => (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+      <p className="text-xs text-gray-500 uppercase font-semibold tracking-wider">{label}</p>
+      <p className="text-xl font-bold text-gray-800 mt-1">{value}</p>
+    </div>
+  );
+
+  return (
+    <div className="pb-24 space-y-6">
+      <div className="flex items-center gap-3">
+        <button onClick={onBack} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg">
+          <ArrowLeft size={20} />
+        </button>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">{supplier.name}</h2>
+          <p className="text-gray-500 text-sm flex flex-wrap gap-x-3">
+            {supplier.phone && <span className="flex items-center gap-1"><Phone size={12} /> {supplier.phone}</span>}
+            {supplier.location && <span className="flex items-center gap-1"><MapPin size={12} /> {supplier.location}</span>}
+          </p>
+        </div>
+      </div>
+
+      {supplier.notes && <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded-lg border border-gray-100">{supplier.notes}</p>}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stat('Purchases', `${summary.purchases} • ${formatNumber(summary.totalLiveWeight)} kg`)}
+        {stat('Average Rate', summary.purchases > 0 ? `${formatCurrency(summary.averageRate)} / kg` : '-')}
+        {stat('Average Wastage', summary.averageWastage !== undefined ? `${formatNumber(summary.averageWastage, 1)}%` : '-')}
+        {stat('Cost / kg Sold', summary.costPerKgSold !== undefined ? formatCurrency(summary.costPerKgSold) : '-')}
+      </div>
+
+      {purchases.length === 0 ? (
+        <div className="text-center py-12 text-gray-400 bg-white rounded-xl border border-dashed border-gray-300">
+          No purchases from this supplier in the selected branch yet.
+        </div>
+      ) : (
+        <>
+          <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 h-80">
+            <h3 className="text-sm font-semibold text-gray-700 mb-4">Purchase Rate and Wastage</h3>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+                <XAxis dataKey="date" tick={{fontSize: 10, fill: '#6b7280'}} axisLine={false} tickLine={false} dy={10} />
+                <YAxis yAxisId="rate" tick={{fontSize: 10, fill: '#6b7280'}} axisLine={false} tickLine={false} />
+                <YAxis yAxisId="wastage" orientation="right" unit="%" tick={{fontSize: 10, fill: '#6b7280'}} axisLine={false} tickLine={false} />
+                <Tooltip
+                  wrapperStyle={{ zIndex: 1000 }}
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number, name: string) => [
+                    name === 'Rate' ? `${formatCurrency(value)} / kg` : `${formatNumber(value, 1)}%`,
+                    name
+                  ]}
+                />
+                <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }} />
+                <Line yAxisId="rate" type="monotone" dataKey="Rate" stroke="#374151" strokeWidth={3} dot={{r: 4}} />
+                <Line yAxisId="wastage" type="monotone" dataKey="Wastage" stroke="#f59e0b" strokeWidth={2} dot={{r: 3}} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-x-auto">
+            <table className="w-full text-left text-sm whitespace-nowrap">
+              <thead className="bg-gray-100 text-gray-600 font-semibold uppercase text-xs tracking-wider">
+                <tr>
+                  <th className="px-4 py-3">Week</th>
+                  <th className="px-4 py-3 text-right">Hens</th>
+                  <th className="px-4 py-3 text-right">Weight</th>
+                  <th className="px-4 py-3 text-right">Rate</th>
+                  <th className="px-4 py-3 text-right">Cost</th>
+                  <th className="px-4 py-3 text-right">Wastage</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {[...purchases].reverse().map((p, index) => (
+                  <tr key={`${p.recordId}-${index}`}>
+                    <td className="px-4 py-3 text-gray-800">{new Date(p.weekDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}</td>
+                    <td className="px-4 py-3 text-right text-gray-600">{p.hens}</td>
+                    <td className="px-4 py-3 text-right text-gray-600">{formatNumber(p.liveWeight)} kg</td>
+                    <td className="px-4 py-3 text-right text-gray-600">{formatCurrency(p.rate)}</td>
+                    <td className="px-4 py-3 text-right font-medium text-gray-800">{formatCurrency(p.cost)}</td>
+                    <td className="px-4 py-3 text-right text-red-500">
+                      {p.wastagePercentage !== undefined ? `${formatNumber(p.wastagePercentage, 1)}%` : '-'}
+                      {p.mixedWeek && p.wastagePercentage !== undefined && <span className="text-gray-400" title="Week bought from several farms"> *</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {purchases.some(p => p.mixedWeek) && (
+              <p className="text-xs text-gray-400 px-4 py-2 border-t border-gray-100">
+                * Bought alongside other farms that week; wastage is for the whole week.
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SupplierDetail;
@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import { WeeklyRecord, Supplier } from '../types';
+import { SupplierInput } from '../services/supplierService';
+import { formatCurrency, formatNumber } from '../utils/calculations';
+import { getSupplierPurchases, summarizeSupplierPurchases } from '../utils/suppliers';
+import { getPayables, payablesBySupplier, totalOutstanding } from '../utils/payables';
+import { getSaveErrors } from '../utils/validation';
+import SupplierDetail from './SupplierDetail';
+import { Plus, Edit2, Trash2, ChevronRight, Phone, MapPin } from 'lucide-react';
+
+interface SupplierListProps {
+  suppliers: Supplier[];
+  records: WeeklyRecord[]; // Weeks of the selected branch, for the comparison
+  onCreate: (input: SupplierInput) => Promise<Supplier>; // Reject with the server's error
+  onUpdate: (id: string, input: SupplierInput) => Promise<Supplier>;
+  onDelete: (id: string) => Promise<void>;
+  onOpenPayables: () => void;
+}
+
+const EMPTY_FORM: SupplierInput = { name: '', phone: '', location: '', notes: '' };
+
+// Supplier directory. Lists each farm next to what buying from it has cost,
+// and opens a farm's page with its rate history.
+const SupplierList: React.FC<SupplierListProps> = ({ suppliers, records, onCreate, onUpdate, onDelete, onOpenPayables }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' while adding
+  const [form, setForm] = useState<SupplierInput>(EMPTY_FORM);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const owed = useMemo(() => payablesBySupplier(getPayables(records)), [records]);
+
+  const rows = useMemo(() =>
+    suppliers.map(supplier => ({
+      supplier,
+      summary: summarizeSupplierPurchases(getSupplierPurchases(records, supplier)),
+      outstanding: owed
+        .filter(group => group.supplierId
+          ? group.supplierId === supplier.id
+          : group.supplier.toLowerCase() === supplier.name.toLowerCase())
+        .reduce((sum, group) => sum + group.outstanding, 0),
+    })),
+  [suppliers, records, owed]);
+
+  const startEdit = (supplier?: Supplier) => {
+    setEditingId(supplier ? supplier.id : 'new');
+    setForm(supplier
+      ? { name: supplier.name, phone: supplier.phone || '', location: supplier.location || '', notes: supplier.notes || '' }
+      : EMPTY_FORM);
+    setError('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: SupplierInput = {
+      name: form.name.trim(),
+      phone: form.phone?.trim() || undefined,
+      location: form.location?.trim() || undefined,
+      notes: form.notes?.trim() || undefined,
+    };
+    if (!input.name) {
+      setError('Supplier name is required');
+      return;
+    }
+    setSaving(true);
+    try {
+      if (editingId === 'new') await onCreate(input);
+      else if (editingId) await onUpdate(editingId, input);
+      setEditingId(null);
+    } catch (err) {
+      setError(getSaveErrors(err, 'Failed to save the supplier. Please try again.').general || '');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!window.confirm(`Remove ${supplier.name} from the directory? Past weeks keep the name.`)) return;
+    try {
+      await onDelete(supplier.id);
+    } catch (err) {
+      alert("Failed to remove the supplier.");
+    }
+  };
+
+  const opened = suppliers.find(s => s.id === openId);
+  if (opened) {
+    return <SupplierDetail supplier={opened} records={records} onBack={() => setOpenId(null)} />;
+  }
+
+  const inputClass = "w-full p-2 border border-gray-300 bg-white rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-yellow-500 focus:border-yellow-500 outline-none";
+
+  return (
+    <div className="pb-24">
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">Suppliers</h2>
+          <p className="text-gray-500 text-sm">Compare farms by what a kg of sold meat really costs</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onOpenPayables}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border border-gray-200 bg-white text-gray-700 hover:bg-gray-50"
+          >
+            Payables
+            {owed.length > 0 && <span className="text-red-600 font-bold">{formatCurrency(totalOutstanding(owed.flatMap(g => g.payables)))}</span>}
+          </button>
+          {editingId === null && (
+            <button
+              onClick={() => startEdit()}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-gray-800 text-white hover:bg-gray-900"
+            >
+              <Plus size={16} /> Add Supplier
+            </button>
+          )}
+        </div>
+      </div>
+
+      {editingId !== null && (
+        <form onSubmit={handleSave} className="bg-white p-4 rounded-xl shadow-sm border border-gray-200 mb-6 space-y-3" noValidate>
+          <h3 className="text-sm font-semibold text-gray-700 uppercase tracking-wider">
+            {editingId === 'new' ? 'New Supplier' : 'Edit Supplier'}
+          </h3>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <input className={inputClass} placeholder="Farm name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+            <input className={inputClass} placeholder="Phone (optional)" value={form.phone} onChange={e => setForm({ ...form, phone: e.target.value })} />
+            <input className={inputClass} placeholder="Location (optional)" value={form.location} onChange={e => setForm({ ...form, location: e.target.value })} />
+          </div>
+          <textarea className={inputClass} rows={2} placeholder="Notes (optional)" value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+          {error && <p className="text-sm text-red-500 bg-red-50 p-2 rounded text-center border border-red-100">{error}</p>}
+          <div className="flex gap-2 justify-end">
+            <button type="button" onClick={() => setEditingId(null)} className="px-4 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">
+              Cancel
+            </button>
+            <button type="submit" disabled={saving} className="px-4 py-2 text-sm bg-yellow-500 text-white rounded-lg font-medium hover:bg-yellow-600 disabled:opacity-60">
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {suppliers.length === 0 ? (
+        <div className="text-center py-12 text-gray-400 bg-white rounded-xl border border-dashed border-gray-300">
+          No suppliers yet. Add the farms you buy from to pick them on the purchase entry.
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+          {rows.map(({ supplier, summary, outstanding }) => (
+            <div key={supplier.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+              <button onClick={() => setOpenId(supplier.id)} className="flex-1 text-left group">
+                <p className="font-bold text-gray-800 text-sm flex items-center gap-1 group-hover:text-yellow-700">
+                  {supplier.name} <ChevronRight size={14} className="text-gray-400" />
+                </p>
+                <p className="text-xs text-gray-400 mt-0.5 flex flex-wrap gap-x-3">
+                  {supplier.phone && <span className="flex items-center gap-1"><Phone size={10} /> {supplier.phone}</span>}
+                  {supplier.location && <span className="flex items-center gap-1"><MapPin size={10} /> {supplier.location}</span>}
+                  <span>{summary.purchases} purchase{summary.purchases === 1 ? '' : 's'}</span>
+                  {outstanding > 0 && <span className="text-red-600 font-semibold">Owed {formatCurrency(outstanding)}</span>}
+                </p>
+              </button>
+              <div className="grid grid-cols-3 gap-4 text-right text-sm sm:w-96">
+                <div>
+                  <span className="block text-[10px] text-gray-400 uppercase font-semibold">Avg Rate</span>
+                  <span className="font-medium text-gray-700">{summary.purchases > 0 ? formatCurrency(summary.averageRate) : '-'}</span>
+                </div>
+                <div>
+                  <span className="block text-[10px] text-gray-400 uppercase font-semibold">Avg Wastage</span>
+                  <span className="font-medium text-red-500">
+                    {summary.averageWastage !== undefined ? `${formatNumber(summary.averageWastage, 1)}%` : '-'}
+                  </span>
+                </div>
+                <div>
+                  <span className="block text-[10px] text-gray-400 uppercase font-semibold">Cost / kg Sold</span>
+                  <span className="font-bold text-gray-900">{summary.costPerKgSold !== undefined ? formatCurrency(summary.costPerKgSold) : '-'}</span>
+                </div>
+              </div>
+              <div className="flex gap-1 sm:ml-2">
+                <button onClick={() => startEdit(supplier)} className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded">
+                  <Edit2 size={16} />
+                </button>
+                <button onClick={() => handleDelete(supplier)} className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SupplierList;
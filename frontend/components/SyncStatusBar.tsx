@@ -0,0 +1,40 @@
+import React from 'react';
+import { CloudOff, RefreshCw } from 'lucide-react';
+
+interface SyncStatusBarProps {
+  online: boolean;
+  pendingCount: number; // Writes saved on this device but not yet on the server
+  syncing: boolean;
+  onSyncNow: () => void;
+}
+
+const SyncStatusBar: React.FC<SyncStatusBarProps> = ({ online, pendingCount, syncing, onSyncNow }) => {
+  if (online && pendingCount === 0) return null;
+
+  return (
+    <div className={`flex items-center justify-between gap-3 px-4 py-2 rounded-lg mb-4 text-sm border ${
+      online ? 'bg-blue-50 border-blue-200 text-blue-800' : 'bg-gray-100 border-gray-300 text-gray-700'
+    }`}>
+      <div className="flex items-center gap-2">
+        <CloudOff size={16} />
+        <span>
+          {!online && 'Offline. '}
+          {pendingCount > 0
+            ? `${pendingCount} change${pendingCount === 1 ? '' : 's'} saved on this device, waiting to sync.`
+            : 'New entries will be saved on this device.'}
+        </span>
+      </div>
+      {online && pendingCount > 0 && (
+        <button
+          onClick={onSyncNow}
+          disabled={syncing}
+          className="flex items-center gap-1 font-medium hover:underline disabled:opacity-60"
+        >
+          <RefreshCw size={14} className={syncing ? 'animate-spin' : ''} /> Sync now
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusBar;
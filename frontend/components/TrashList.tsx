@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { WeeklyRecord, Branch } from '../types';
+import { formatCurrency, formatNumber } from '../utils/calculations';
+import { getSaveErrors } from '../utils/validation';
+import { ArrowLeft, RotateCcw, Trash2, Loader2 } from 'lucide-react';
+
+interface TrashListProps {
+  branches: Branch[];
+  consolidated: boolean; // Show which branch each week belongs to
+  onLoad: () => Promise<WeeklyRecord[]>; // Trashed weeks of the selected branch (read on mount)
+  onRestore: (id: string) => Promise<void>;
+  onPurge: (id: string) => Promise<void>;
+  onBack: () => void;
+}
+
+// Deleted weeks. They stay out of the dashboard and history until restored;
+// purging removes them for good.
+const TrashList: React.FC<TrashListProps> = ({ branches, consolidated, onLoad, onRestore, onPurge, onBack }) => {
+  const [records, setRecords] = useState<WeeklyRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setRecords(await onLoad());
+      setError('');
+    } catch (err) {
+      setError(getSaveErrors(err, 'Could not load the trash. Check your connection.').general || '');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const run = async (id: string, action: (id: string) => Promise<void>, fallback: string) => {
+    setBusyId(id);
+    setError('');
+    try {
+      await action(id);
+      setRecords(current => current.filter(r => r.id !== id));
+    } catch (err) {
+      setError(getSaveErrors(err, fallback).general || '');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = (record: WeeklyRecord) => {
+    const week = new Date(record.weekDate).toLocaleDateString('en-GB');
+    if (!window.confirm(`Permanently delete the week of ${week}? This cannot be undone.`)) return;
+    run(record.id, onPurge, 'Failed to delete this week. Please try again.');
+  };
+
+  const branchName = (branchId?: string) =>
+    branches.find(b => b.id === branchId)?.name || 'Unassigned';
+
+  return (
+    <div className="pb-24">
+      <div className="flex items-center gap-3 mb-6">
+        <button onClick={onBack} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg">
+          <ArrowLeft size={20} />
+        </button>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">Trash</h2>
+          <p className="text-gray-500 text-sm">Deleted weeks are not counted in any totals</p>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-500 bg-red-50 p-2 rounded text-center border border-red-100 mb-4">{error}</p>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12 text-gray-400">
+          <Loader2 className="animate-spin" size={24} />
+        </div>
+      ) : records.length === 0 ? (
+        <div className="text-center py-12 text-gray-400 bg-white rounded-xl border border-dashed border-gray-300">
+          The trash is empty.
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+          {records.map(record => (
+            <div key={record.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+              <div className="flex-1">
+                <p className="font-bold text-gray-800 text-sm">
+                  {new Date(record.weekDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+                  {consolidated && <span className="text-xs text-gray-500 font-normal ml-2">{branchName(record.branchId)}</span>}
+                </p>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {formatNumber(record.totalLiveWeight)} kg · {record.totalHens} hens
+                  {record.isSalesEntryComplete && <> · Profit {formatCurrency(record.netProfit)}</>}
+                </p>
+                <p className="text-[10px] text-gray-400 mt-1">
+                  Deleted {record.deletedAt ? new Date(record.deletedAt).toLocaleString('en-IN') : ''}
+                  {record.deletedBy && ` by ${record.deletedBy}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => run(record.id, onRestore, 'Failed to restore this week. Please try again.')}
+                  disabled={busyId !== null}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+                >
+                  <RotateCcw size={14} /> Restore
+                </button>
+                <button
+                  onClick={() => handlePurge(record)}
+                  disabled={busyId !== null}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium border border-red-200 rounded-lg text-red-600 hover:bg-red-50 disabled:opacity-60"
+                >
+                  <Trash2 size={14} /> Delete Forever
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrashList;
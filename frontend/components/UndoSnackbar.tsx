@@ -0,0 +1,37 @@
+import React, { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoSnackbarProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+// Bar above the bottom navigation that offers to reverse the last action.
+// Hides itself after `durationMs`.
+const UndoSnackbar: React.FC<UndoSnackbarProps> = ({ message, onUndo, onDismiss, durationMs = 6000 }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, durationMs);
+    return () => clearTimeout(timer);
+  }, [message, durationMs]);
+
+  return (
+    <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-md animate-fade-in">
+      <div className="bg-gray-900 text-white rounded-lg shadow-xl px-4 py-3 flex items-center gap-3">
+        <span className="text-sm flex-1">{message}</span>
+        <button
+          onClick={onUndo}
+          className="flex items-center gap-1 text-sm font-bold text-yellow-400 hover:text-yellow-300"
+        >
+          <Undo2 size={16} /> Undo
+        </button>
+        <button onClick={onDismiss} className="text-gray-400 hover:text-white">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UndoSnackbar;
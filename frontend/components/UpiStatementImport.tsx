@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { WeeklyRecord } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import {
+  StatementColumns, UpiTransaction, parseCsv, guessColumns, defaultSellingWindow, reconcileStatement
+} from '../utils/upiStatement';
+import { Upload, X, AlertCircle, CheckCircle } from 'lucide-react';
+
+interface UpiStatementImportProps {
+  record: WeeklyRecord; // For the selling window
+  upiCollected?: number; // As currently typed, to check against the statement
+  onUseTotal: (total: number) => void;
+  onClose: () => void;
+}
+
+const COLUMN_FIELDS: { key: keyof StatementColumns; label: string; required: boolean }[] = [
+  { key: 'date', label: 'Date / time', required: true },
+  { key: 'amount', label: 'Amount', required: true },
+  { key: 'type', label: 'Credit / debit', required: false },
+  { key: 'reference', label: 'Reference', required: false },
+  { key: 'payer', label: 'Payer', required: false },
+];
+
+// Value for a datetime-local input, in local time
+const toLocalInput = (date: Date) => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const formatWhen = (date: Date) =>
+  date.toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const TransactionList: React.FC<{ title: string; note: string; transactions: UpiTransaction[] }> = ({ title, note, transactions }) => (
+  <div>
+    <p className="text-xs font-semibold text-gray-600">{title} ({transactions.length})</p>
+    <p className="text-[10px] text-gray-400 mb-1">{note}</p>
+    <div className="max-h-32 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded">
+      {transactions.map(t => (
+        <div key={t.row} className="px-2 py-1 flex items-center gap-2 text-xs">
+          <span className="text-gray-400 w-10">#{t.row}</span>
+          <span className="text-gray-500">{formatWhen(t.at)}</span>
+          <span className="flex-1 truncate text-gray-700">{[t.payer, t.reference].filter(Boolean).join(' • ')}</span>
+          <span className="font-medium">{formatCurrency(t.amount)}</span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+// Reads the bank's UPI statement export, keeps the credits inside the day's
+// selling window and offers their total as the week's UPI collection
+const UpiStatementImport: React.FC<UpiStatementImportProps> = ({ record, upiCollected, onUseTotal, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [columns, setColumns] = useState<StatementColumns | null>(null);
+  const [sellingWindow, setSellingWindow] = useState(() => {
+    const { start, end } = defaultSellingWindow(record);
+    return { start: toLocalInput(start), end: toLocalInput(end) };
+  });
+  const [error, setError] = useState('');
+
+  const header = rows[0] || [];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.length < 2) {
+        setError('The file has no transactions. Export the statement as CSV and try again.');
+        return;
+      }
+      setError('');
+      setFileName(file.name);
+      setRows(parsed);
+      setColumns(guessColumns(parsed[0]));
+    } catch (err) {
+      setError('Could not read the file.');
+    }
+  };
+
+  const mapped = columns !== null && columns.date >= 0 && columns.amount >= 0;
+  const result = useMemo(() => {
+    if (!mapped || !columns) return null;
+    const start = new Date(sellingWindow.start);
+    const end = new Date(sellingWindow.end);
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return null;
+    return reconcileStatement(rows.slice(1), columns, { start, end });
+  }, [rows, columns, mapped, sellingWindow]);
+
+  const difference = result && upiCollected !== undefined ? Math.round((upiCollected - result.total) * 100) / 100 : undefined;
+
+  const selectClass = "w-full p-1.5 border border-gray-300 bg-white rounded text-xs text-gray-900 focus:ring-2 focus:ring-yellow-500 outline-none";
+
+  return (
+    <div className="bg-blue-50 p-3 rounded-lg border border-blue-100 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <p className="font-semibold text-blue-800">UPI Statement</p>
+        <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+          <X size={16} />
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 cursor-pointer text-blue-700 font-medium text-xs">
+        <Upload size={14} /> {fileName || 'Choose the CSV exported from the bank app'}
+        <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+      </label>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {columns && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {COLUMN_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-[10px] font-semibold text-gray-500 uppercase mb-0.5">
+                  {field.label}{field.required ? '' : ' (optional)'}
+                </label>
+                <select
+                  className={selectClass}
+                  value={columns[field.key]}
+                  onChange={e => setColumns({ ...columns, [field.key]: Number(e.target.value) })}
+                >
+                  <option value={-1}>—</option>
+                  {header.map((name, index) => (
+                    <option key={index} value={index}>{name || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-[10px] font-semibold text-gray-500 uppercase mb-0.5">Selling from</label>
+              <input type="datetime-local" className={selectClass} value={sellingWindow.start} onChange={e => setSellingWindow({ ...sellingWindow, start: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-[10px] font-semibold text-gray-500 uppercase mb-0.5">Until</label>
+              <input type="datetime-local" className={selectClass} value={sellingWindow.end} onChange={e => setSellingWindow({ ...sellingWindow, end: e.target.value })} />
+            </div>
+          </div>
+        </>
+      )}
+
+      {columns && !mapped && <p className="text-xs text-gray-500">Pick the date and amount columns.</p>}
+
+      {result && (
+        <>
+          <div className="bg-white p-2 rounded border border-blue-100 space-y-1">
+            <div className="flex justify-between">
+              <span className="text-gray-600">{result.matched.length} payment{result.matched.length === 1 ? '' : 's'} while selling:</span>
+              <span className="font-bold">{formatCurrency(result.total)}</span>
+            </div>
+            {difference !== undefined && (
+              <div className={`flex items-center gap-1 text-xs font-bold ${difference === 0 ? 'text-green-700' : 'text-red-600'}`}>
+                {difference === 0
+                  ? <><CheckCircle size={12} /> Matches the UPI entered</>
+                  : <><AlertCircle size={12} /> UPI entered is {formatCurrency(Math.abs(difference))} {difference > 0 ? 'more' : 'less'} than the statement</>}
+              </div>
+            )}
+            {(result.unreadable.length > 0 || result.debits > 0) && (
+              <p className="text-[10px] text-gray-400">
+                {result.debits > 0 && `${result.debits} debit${result.debits === 1 ? '' : 's'} ignored. `}
+                {result.unreadable.length > 0 && `Could not read row${result.unreadable.length === 1 ? '' : 's'} ${result.unreadable.join(', ')}.`}
+              </p>
+            )}
+          </div>
+
+          {result.outside.length > 0 && (
+            <TransactionList title="Outside the selling window" note="Not counted. Widen the window if these were this week's sales." transactions={result.outside} />
+          )}
+          {result.duplicates.length > 0 && (
+            <TransactionList title="Duplicates" note="Same reference (or time, amount and payer) as an earlier row; counted once." transactions={result.duplicates} />
+          )}
+
+          <button
+            type="button"
+            onClick={() => onUseTotal(result.total)}
+            disabled={difference === 0}
+            className="w-full py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            Use {formatCurrency(result.total)} as UPI
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UpiStatementImport;
@@ -0,0 +1,47 @@
+import { getConfig } from './config';
+
+// Full backend URL for a path such as '/records'. Read on every call
+// because the runtime config file may change the root after startup.
+export const apiUrl = (path: string) => `${getConfig().apiRoot}${path}`;
+
+// Error carrying the HTTP status so callers can tell a rejected
+// session (401) apart from other failures. Validation failures (400)
+// also carry the backend's per-field messages, and conflicts (409) the
+// stored copy that the request lost against.
+export class ApiError extends Error {
+  status: number;
+  fieldErrors?: Record<string, string>;
+  current?: unknown;
+
+  constructor(message: string, status: number, fieldErrors?: Record<string, string>, current?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+    this.current = current;
+  }
+}
+
+export const authHeaders = (token: string | null) => {
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': token ? `Bearer ${token}` : ''
+  };
+};
+
+// Read the `{ error }` body the backend sends on failures
+export const toApiError = async (response: Response, fallback: string): Promise<ApiError> => {
+  const errorData = await response.json().catch(() => ({}));
+  return new ApiError(errorData.error || `${fallback}: ${response.status}`, response.status, errorData.fieldErrors, errorData.current);
+};
+
+export const isUnauthorized = (error: unknown): boolean =>
+  error instanceof ApiError && error.status === 401;
+
+// Someone else saved the record after this copy was loaded
+export const isConflict = (error: unknown): boolean =>
+  error instanceof ApiError && error.status === 409;
+
+// fetch() rejects with a TypeError when the request never reached the server
+export const isNetworkError = (error: unknown): boolean =>
+  !(error instanceof ApiError) && (error instanceof TypeError || !navigator.onLine);
@@ -1,42 +1,106 @@
-import { User } from '../types';
-
-const STATIC_EMAIL = 'admin@sundayschicken.com';
-const STATIC_PASS = 'Admin@123';
+import { User, UserRole } from '../types';
+import { apiUrl, authHeaders, toApiError, isUnauthorized, isNetworkError } from './apiClient';
+import { isRemoteStorage } from './config';
 
 const TOKEN_KEY = 'sunday_chicken_token';
 const USER_KEY = 'sunday_chicken_user';
 
-// Helper delay for UX
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const clearSession = () => {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+};
+
+// Browser-only builds (localStorage / memory adapters) have no login server.
+// Any credentials open a local owner session so demos are fully usable.
+const loginLocally = (email: string): User => {
+  const user: User = {
+    id: 'local_user',
+    name: 'Demo Owner',
+    email,
+    role: UserRole.OWNER,
+    token: 'local_session'
+  };
+  localStorage.setItem(TOKEN_KEY, user.token || '');
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+  return user;
+};
 
 export const login = async (email: string, password: string): Promise<User> => {
-  await delay(800);
-
-  if (email === STATIC_EMAIL && password === STATIC_PASS) {
-    const user: User = {
-      id: 'admin_user',
-      name: 'Administrator',
-      email: email,
-      token: 'static_admin_token_' + Date.now()
-    };
-    localStorage.setItem(TOKEN_KEY, user.token || '');
-    localStorage.setItem(USER_KEY, JSON.stringify(user));
-    return user;
+  if (!isRemoteStorage()) return loginLocally(email);
+
+  const response = await fetch(apiUrl('/auth/login'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password })
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Login failed');
   }
-  
-  throw new Error('Incorrect email or password');
+
+  const data: { token: string; user: User } = await response.json();
+  const user: User = { ...data.user, token: data.token };
+  localStorage.setItem(TOKEN_KEY, data.token);
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+  return user;
 };
 
-export const logout = () => {
-  localStorage.removeItem(TOKEN_KEY);
-  localStorage.removeItem(USER_KEY);
+export const logout = async (): Promise<void> => {
+  if (!isRemoteStorage()) {
+    clearSession();
+    return;
+  }
+
+  try {
+    // Revoke the token on the server so it cannot be reused
+    await fetch(apiUrl('/auth/logout'), {
+      method: 'POST',
+      headers: authHeaders(getAuthToken())
+    });
+  } catch (error) {
+    console.error("API Error (logout):", error);
+  } finally {
+    clearSession();
+  }
+};
+
+// Confirms the stored token with the server. Returns null (and forgets the
+// session) when the token is missing, expired or revoked. While offline the
+// last user the server confirmed is returned.
+export const getCurrentUser = async (): Promise<User | null> => {
+  const token = getAuthToken();
+  if (!token) return null;
+
+  if (!isRemoteStorage()) return getSessionUser();
+
+  try {
+    const response = await fetch(apiUrl('/auth/me'), { headers: authHeaders(token) });
+    if (!response.ok) {
+      throw await toApiError(response, 'Session check failed');
+    }
+
+    const user: User = { ...(await response.json()), token };
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+    return user;
+  } catch (error) {
+    if (isNetworkError(error)) {
+      // Offline: trust the last confirmed session so queued entry keeps working
+      return getSessionUser();
+    }
+    if (isUnauthorized(error)) {
+      clearSession();
+    }
+    console.error("API Error (getCurrentUser):", error);
+    return null;
+  }
 };
 
-export const getCurrentUser = (): User | null => {
-  const userStr = localStorage.getItem(USER_KEY);
-  return userStr ? JSON.parse(userStr) : null;
+// The user stored with the session, without asking the server
+export const getSessionUser = (): User | null => {
+  const cached = localStorage.getItem(USER_KEY);
+  return cached ? JSON.parse(cached) : null;
 };
 
 export const getAuthToken = (): string | null => {
   return localStorage.getItem(TOKEN_KEY);
-};
\ No newline at end of file
+};
@@ -0,0 +1,42 @@
+import { Branch } from '../types';
+import { createCollection, localId } from './collection';
+import { isRemoteStorage } from './config';
+
+const SELECTED_KEY = 'sunday_chicken_branch';
+
+const branches = createCollection<Branch>({
+  path: '/branches',
+  singular: 'branch',
+  plural: 'branches',
+  storageKey: 'poultry_profit_branches',
+  cacheKey: 'sunday_chicken_branch_cache'
+});
+
+export const getBranches = async (): Promise<Branch[]> => {
+  if (!isRemoteStorage()) {
+    const stored = branches.readLocal();
+    if (stored.length > 0) return stored;
+
+    // Browser-only builds start with one branch so entry works straight away
+    const main: Branch = { id: 'main', name: 'Main Branch', createdAt: new Date().toISOString() };
+    branches.writeLocal([main]);
+    return [main];
+  }
+
+  return branches.fetchAll();
+};
+
+export const createBranch = async (name: string): Promise<Branch> => {
+  if (!isRemoteStorage()) {
+    const branch: Branch = { id: localId(), name, createdAt: new Date().toISOString() };
+    branches.writeLocal([...(await getBranches()), branch]);
+    return branch;
+  }
+
+  return branches.create({ name });
+};
+
+// The switcher choice is remembered per device
+export const getSelectedBranchId = (): string | null => localStorage.getItem(SELECTED_KEY);
+
+export const setSelectedBranchId = (branchId: string) => localStorage.setItem(SELECTED_KEY, branchId);
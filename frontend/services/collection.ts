@@ -0,0 +1,104 @@
+import { getAuthToken } from './authService';
+import { apiUrl, authHeaders, toApiError, isNetworkError } from './apiClient';
+import { getBrowserBackend } from './stores/keyValue';
+
+// Plumbing for the small directories kept next to the records (branches,
+// expense categories, suppliers, customers, products): REST calls with an
+// offline copy of the last list, and the browser-only list for the
+// localStorage and memory adapters. Each service keeps its own rules.
+
+// A document as the backend sends it: MongoDB's _id instead of id
+export type ApiDocument<T extends { id: string }> = Omit<T, 'id'> & { _id?: string; id?: string };
+
+export const fromApi = <T extends { id: string }>(data: ApiDocument<T>): T => {
+  const { _id, ...rest } = data;
+  return { ...rest, id: _id || data.id } as T;
+};
+
+export const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name);
+
+// Id for an entry created in a browser-only build
+export const localId = () => Math.random().toString(36).substr(2, 9);
+
+export interface CollectionOptions<T> {
+  path: string; // e.g. '/suppliers'
+  singular: string; // Used in error messages, e.g. 'supplier'
+  plural: string;
+  storageKey: string; // Browser-only builds
+  cacheKey: string; // Last list from the server, for offline use
+  compare?: (a: T, b: T) => number; // Order the browser-only list is kept in
+}
+
+export interface Collection<T extends { id: string }> {
+  // Without a branch, every branch's entries are returned
+  fetchAll: (branchId?: string) => Promise<T[]>;
+  create: (body: unknown) => Promise<T>;
+  update: (id: string, body: unknown) => Promise<T>;
+  remove: (id: string) => Promise<void>;
+  // Any other call answered with the entry, e.g. POST /customers/:id/collections
+  send: (method: string, path: string, failure: string, body?: unknown) => Promise<T>;
+  readLocal: () => T[];
+  writeLocal: (items: T[]) => void;
+}
+
+export const createCollection = <T extends { id: string }>(options: CollectionOptions<T>): Collection<T> => {
+  const { path, singular, plural, storageKey, cacheKey, compare } = options;
+
+  const request = async (method: string, subPath: string, failure: string, body?: unknown): Promise<Response> => {
+    try {
+      const response = await fetch(apiUrl(`${path}${subPath}`), {
+        method,
+        headers: authHeaders(getAuthToken()),
+        ...(body === undefined ? {} : { body: JSON.stringify(body) })
+      });
+      if (!response.ok) {
+        throw await toApiError(response, failure);
+      }
+      return response;
+    } catch (error) {
+      console.error(`API Error (${method} ${path}${subPath}):`, error);
+      throw error;
+    }
+  };
+
+  const send = async (method: string, subPath: string, failure: string, body?: unknown): Promise<T> => {
+    const response = await request(method, subPath, failure, body);
+    return fromApi<T>(await response.json());
+  };
+
+  return {
+    fetchAll: async (branchId) => {
+      const key = branchId ? `${cacheKey}_${branchId}` : cacheKey;
+      try {
+        const query = branchId ? `?branchId=${encodeURIComponent(branchId)}` : '';
+        const response = await fetch(apiUrl(`${path}${query}`), { headers: authHeaders(getAuthToken()) });
+        if (!response.ok) {
+          throw await toApiError(response, `Error fetching ${plural}`);
+        }
+        const data: unknown = await response.json();
+        const items = Array.isArray(data) ? data.map(item => fromApi<T>(item)) : [];
+        localStorage.setItem(key, JSON.stringify(items));
+        return items;
+      } catch (error) {
+        const cached = localStorage.getItem(key);
+        if (isNetworkError(error) && cached) return JSON.parse(cached) as T[];
+        console.error(`API Error (GET ${path}):`, error);
+        throw error;
+      }
+    },
+
+    create: (body) => send('POST', '', `Error creating ${singular}`, body),
+
+    update: (id, body) => send('PUT', `/${id}`, `Error updating ${singular}`, body),
+
+    remove: async (id) => {
+      await request('DELETE', `/${id}`, `Error deleting ${singular}`);
+    },
+
+    send,
+
+    readLocal: () => getBrowserBackend().read<T[]>(storageKey) || [],
+
+    writeLocal: (items) => getBrowserBackend().write(storageKey, compare ? [...items].sort(compare) : items),
+  };
+};
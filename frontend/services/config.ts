@@ -0,0 +1,74 @@
+// ==========================================
+// APP CONFIGURATION
+// ==========================================
+// Resolved in this order (later wins):
+//   1. Defaults below
+//   2. Build-time Vite env: VITE_STORAGE_ADAPTER, VITE_API_ROOT, VITE_WEEK_START_DAY
+//   3. Runtime file /config.json served next to index.html, e.g.
+//      { "storageAdapter": "memory" } or { "apiRoot": "https://staging.example.com" }
+// so staging, local dev and demo builds need no code edits.
+
+// rest:         Node/Express/MongoDB backend (offline queue included)
+// localStorage: everything kept in this browser, no backend needed
+// memory:       nothing persisted, resets on reload (demos)
+export type StorageAdapter = 'rest' | 'localStorage' | 'memory';
+
+export interface AppConfig {
+  storageAdapter: StorageAdapter;
+  apiRoot: string;
+  weekStartDay: number; // Day weeks are filed under, 0 (Sunday) to 6 (Saturday); match the backend's WEEK_START_DAY
+}
+
+const ADAPTERS: StorageAdapter[] = ['rest', 'localStorage', 'memory'];
+
+const DEFAULT_CONFIG: AppConfig = {
+  storageAdapter: 'rest',
+  apiRoot: 'https://sunday-backend-5e30.onrender.com',
+  weekStartDay: 6,
+};
+
+// Ignores unknown keys and invalid values instead of failing the app
+const pickConfig = (source: Record<string, unknown>): Partial<AppConfig> => {
+  const picked: Partial<AppConfig> = {};
+  if (ADAPTERS.includes(source.storageAdapter as StorageAdapter)) {
+    picked.storageAdapter = source.storageAdapter as StorageAdapter;
+  } else if (source.storageAdapter) {
+    console.warn(`Unknown storage adapter "${source.storageAdapter}", keeping "${config.storageAdapter}"`);
+  }
+  if (typeof source.apiRoot === 'string' && source.apiRoot.trim() !== '') {
+    picked.apiRoot = source.apiRoot.trim().replace(/\/+$/, '');
+  }
+  if (source.weekStartDay !== undefined && source.weekStartDay !== '') {
+    const day = Number(source.weekStartDay);
+    if (Number.isInteger(day) && day >= 0 && day <= 6) picked.weekStartDay = day;
+    else console.warn(`Invalid week start day "${source.weekStartDay}", keeping ${config.weekStartDay}`);
+  }
+  return picked;
+};
+
+let config: AppConfig = { ...DEFAULT_CONFIG };
+config = {
+  ...config,
+  ...pickConfig({
+    storageAdapter: import.meta.env.VITE_STORAGE_ADAPTER,
+    apiRoot: import.meta.env.VITE_API_ROOT,
+    weekStartDay: import.meta.env.VITE_WEEK_START_DAY,
+  }),
+};
+
+// Called once before the app renders. A missing or broken file is not an error.
+export const loadRuntimeConfig = async (): Promise<void> => {
+  try {
+    const response = await fetch('/config.json', { cache: 'no-store' });
+    if (!response.ok) return;
+    const data = await response.json();
+    config = { ...config, ...pickConfig(data) };
+  } catch {
+    // No runtime overrides (the dev server answers with index.html)
+  }
+};
+
+export const getConfig = (): AppConfig => config;
+
+// False for the browser-only adapters, which need no backend or login server
+export const isRemoteStorage = (): boolean => config.storageAdapter === 'rest';
@@ -0,0 +1,95 @@
+import { Customer, CustomerCollection } from '../types';
+import { ApiError } from './apiClient';
+import { createCollection, byName, localId } from './collection';
+import { isRemoteStorage } from './config';
+import { getRecords } from './storageService';
+import { customerBalance } from '../utils/credit';
+
+export type CustomerInput = Pick<Customer, 'name' | 'phone' | 'notes'>;
+
+const customers = createCollection<Customer>({
+  path: '/customers',
+  singular: 'customer',
+  plural: 'customers',
+  storageKey: 'poultry_profit_customers',
+  cacheKey: 'sunday_chicken_customer_cache',
+  compare: byName
+});
+
+// Browser-only builds follow the backend's rule that names are unique per branch
+const assertUniqueName = (stored: Customer[], branchId: string, name: string, id?: string) => {
+  if (stored.some(c => c.id !== id && c.branchId === branchId && c.name.toLowerCase() === name.toLowerCase())) {
+    throw new ApiError('A customer with this name already exists', 409);
+  }
+};
+
+// Without a branch, every branch's customers are returned
+export const getCustomers = async (branchId?: string): Promise<Customer[]> => {
+  if (!isRemoteStorage()) {
+    const stored = customers.readLocal();
+    return branchId ? stored.filter(c => c.branchId === branchId) : stored;
+  }
+
+  return customers.fetchAll(branchId);
+};
+
+export const createCustomer = async (branchId: string, input: CustomerInput): Promise<Customer> => {
+  if (!isRemoteStorage()) {
+    const stored = customers.readLocal();
+    assertUniqueName(stored, branchId, input.name);
+    const customer: Customer = {
+      ...input,
+      branchId,
+      collections: [],
+      id: localId(),
+      createdAt: new Date().toISOString()
+    };
+    customers.writeLocal([...stored, customer]);
+    return customer;
+  }
+
+  return customers.create({ ...input, branchId });
+};
+
+export const updateCustomer = async (id: string, input: CustomerInput): Promise<Customer> => {
+  if (!isRemoteStorage()) {
+    const stored = customers.readLocal();
+    const existing = stored.find(c => c.id === id);
+    if (!existing) throw new ApiError('Not found', 404);
+    assertUniqueName(stored, existing.branchId, input.name, id);
+    const updated: Customer = { ...input, id, branchId: existing.branchId, collections: existing.collections, createdAt: existing.createdAt };
+    customers.writeLocal(stored.map(c => (c.id === id ? updated : c)));
+    return updated;
+  }
+
+  return customers.update(id, input);
+};
+
+// Money paid back is kept on the customer, not on any week
+export const recordCollection = async (id: string, collection: CustomerCollection): Promise<Customer> => {
+  if (!isRemoteStorage()) {
+    const stored = customers.readLocal();
+    const existing = stored.find(c => c.id === id);
+    if (!existing) throw new ApiError('Not found', 404);
+    const updated: Customer = { ...existing, collections: [...(existing.collections || []), collection] };
+    customers.writeLocal(stored.map(c => (c.id === id ? updated : c)));
+    return updated;
+  }
+
+  return customers.send('POST', `/${id}/collections`, 'Error recording collection', collection);
+};
+
+// Past credit sales keep the customer's name
+export const deleteCustomer = async (id: string): Promise<void> => {
+  if (!isRemoteStorage()) {
+    // As on the backend, a customer who still owes money stays
+    const customer = customers.readLocal().find(c => c.id === id);
+    if (!customer) throw new ApiError('Not found', 404);
+    const { outstanding } = customerBalance(customer, await getRecords(customer.branchId));
+    if (outstanding > 0) throw new ApiError(`${customer.name} still owes ₹${outstanding}. Collect it first.`, 400);
+    customers.writeLocal(customers.readLocal().filter(c => c.id !== id));
+    return;
+  }
+
+  await customers.remove(id);
+};
@@ -0,0 +1,41 @@
+import { ExpenseCategory } from '../types';
+import { createCollection, byName, localId } from './collection';
+import { isRemoteStorage } from './config';
+import { DEFAULT_EXPENSE_CATEGORIES } from '../utils/expenses';
+
+const categories = createCollection<ExpenseCategory>({
+  path: '/expense-categories',
+  singular: 'expense category',
+  plural: 'expense categories',
+  storageKey: 'poultry_profit_expense_categories',
+  cacheKey: 'sunday_chicken_expense_category_cache',
+  compare: byName
+});
+
+export const getExpenseCategories = async (): Promise<ExpenseCategory[]> => {
+  if (!isRemoteStorage()) {
+    const stored = categories.readLocal();
+    if (stored.length > 0) return stored;
+
+    // Same starting set the backend seeds
+    categories.writeLocal(DEFAULT_EXPENSE_CATEGORIES.map(name => ({ id: name, name })));
+    return categories.readLocal();
+  }
+
+  return categories.fetchAll();
+};
+
+// Adding a name that already exists returns the existing category
+export const createExpenseCategory = async (name: string): Promise<ExpenseCategory> => {
+  if (!isRemoteStorage()) {
+    const stored = await getExpenseCategories();
+    const existing = stored.find(c => c.name.toLowerCase() === name.toLowerCase());
+    if (existing) return existing;
+
+    const category: ExpenseCategory = { id: localId(), name, createdAt: new Date().toISOString() };
+    categories.writeLocal([...stored, category]);
+    return category;
+  }
+
+  return categories.create({ name });
+};
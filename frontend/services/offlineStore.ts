@@ -0,0 +1,91 @@
+import { WeeklyRecord } from '../types';
+
+// ==========================================
+// INDEXEDDB: OFFLINE QUEUE + RECORD CACHE
+// ==========================================
+const DB_NAME = 'sunday_chicken_offline';
+const DB_VERSION = 1;
+const QUEUE_STORE = 'pendingWrites';
+const CACHE_STORE = 'recordCache';
+
+// A write made while the backend was unreachable, waiting to be replayed.
+// There is at most one entry per record: a newer edit replaces the older one.
+export interface PendingWrite {
+  id: string; // Record id (a temporary `local-…` id for records never synced)
+  type: 'save' | 'delete';
+  record?: WeeklyRecord; // The record to send, for 'save'
+  baseRevision?: number; // Server revision the offline edit started from
+  queuedAt: string; // ISO String
+  conflict?: WeeklyRecord | 'deleted'; // Server copy changed (or removed) by another device meanwhile
+  error?: string; // Server rejected the write, e.g. a validation failure
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves with its result
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getPendingWrites = async (): Promise<PendingWrite[]> => {
+  const writes = await run<PendingWrite[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+  return writes.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+export const getPendingWrite = (id: string): Promise<PendingWrite | undefined> =>
+  run<PendingWrite | undefined>(QUEUE_STORE, 'readonly', store => store.get(id));
+
+export const putPendingWrite = async (write: PendingWrite): Promise<void> => {
+  await run(QUEUE_STORE, 'readwrite', store => store.put(write));
+};
+
+export const removePendingWrite = async (id: string): Promise<void> => {
+  await run(QUEUE_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Last records fetched from the server, per branch scope, for offline viewing
+export const getCachedRecords = (scope: string): Promise<WeeklyRecord[] | undefined> =>
+  run<WeeklyRecord[] | undefined>(CACHE_STORE, 'readonly', store => store.get(scope));
+
+export const setCachedRecords = async (scope: string, records: WeeklyRecord[]): Promise<void> => {
+  await run(CACHE_STORE, 'readwrite', store => store.put(records, scope));
+};
+
+// Looks a record up in every cached scope
+export const findCachedRecord = async (id: string): Promise<WeeklyRecord | undefined> => {
+  const scopes = await run<WeeklyRecord[][]>(CACHE_STORE, 'readonly', store => store.getAll());
+  for (const records of scopes) {
+    const match = records.find(r => r.id === id);
+    if (match) return match;
+  }
+  return undefined;
+};
@@ -0,0 +1,21 @@
+import { PosTransaction } from '../types';
+
+// The open day's counter sales, kept on this device until the day is closed
+// so a reload or a dropped connection loses nothing
+const DRAFT_KEY = 'sunday_chicken_pos';
+
+const keyFor = (recordId: string) => `${DRAFT_KEY}_${recordId}`;
+
+export const getDraftTransactions = (recordId: string): PosTransaction[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(keyFor(recordId)) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveDraftTransactions = (recordId: string, transactions: PosTransaction[]) =>
+  localStorage.setItem(keyFor(recordId), JSON.stringify(transactions));
+
+export const clearDraftTransactions = (recordId: string) => localStorage.removeItem(keyFor(recordId));
@@ -0,0 +1,70 @@
+import { Product } from '../types';
+import { ApiError } from './apiClient';
+import { createCollection, byName, localId } from './collection';
+import { isRemoteStorage } from './config';
+import { DEFAULT_PRODUCTS } from '../utils/sales';
+
+export type ProductInput = Pick<Product, 'name' | 'price'>;
+
+const products = createCollection<Product>({
+  path: '/products',
+  singular: 'product',
+  plural: 'products',
+  storageKey: 'poultry_profit_products',
+  cacheKey: 'sunday_chicken_product_cache',
+  compare: byName
+});
+
+export const getProducts = async (): Promise<Product[]> => {
+  if (!isRemoteStorage()) {
+    const stored = products.readLocal();
+    if (stored.length > 0) return stored;
+
+    // Same starting set the backend seeds
+    products.writeLocal(DEFAULT_PRODUCTS.map(name => ({ id: name, name })));
+    return products.readLocal();
+  }
+
+  return products.fetchAll();
+};
+
+// Adding a name that already exists returns the existing product
+export const createProduct = async (input: ProductInput): Promise<Product> => {
+  if (!isRemoteStorage()) {
+    const stored = await getProducts();
+    const existing = stored.find(p => p.name.toLowerCase() === input.name.toLowerCase());
+    if (existing) return existing;
+
+    const product: Product = { ...input, id: localId(), createdAt: new Date().toISOString() };
+    products.writeLocal([...stored, product]);
+    return product;
+  }
+
+  return products.create(input);
+};
+
+// Past sales lines keep the name and price they were sold at
+export const updateProduct = async (id: string, input: ProductInput): Promise<Product> => {
+  if (!isRemoteStorage()) {
+    const stored = await getProducts();
+    const existing = stored.find(p => p.id === id);
+    if (!existing) throw new ApiError('Not found', 404);
+    if (stored.some(p => p.id !== id && p.name.toLowerCase() === input.name.toLowerCase())) {
+      throw new ApiError('A product with this name already exists', 409);
+    }
+    const updated: Product = { ...input, id, createdAt: existing.createdAt };
+    products.writeLocal(stored.map(p => (p.id === id ? updated : p)));
+    return updated;
+  }
+
+  return products.update(id, input);
+};
+
+export const deleteProduct = async (id: string): Promise<void> => {
+  if (!isRemoteStorage()) {
+    products.writeLocal((await getProducts()).filter(p => p.id !== id));
+    return;
+  }
+
+  await products.remove(id);
+};
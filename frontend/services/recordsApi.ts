@@ -0,0 +1,156 @@
+import { WeeklyRecord, RecordRevision } from '../types';
+import { toRequestInputs } from '../utils/calculations';
+import { getAuthToken } from './authService';
+import { apiUrl, authHeaders, toApiError } from './apiClient';
+import { ApiDocument, fromApi } from './collection';
+
+// Raw REST calls for /records. They throw on any failure; storageService
+// decides whether a failure means "offline, queue it" or a real error.
+
+const recordsUrl = (path = '') => apiUrl(`/records${path}`);
+
+const getHeaders = () => authHeaders(getAuthToken());
+
+// Helper to handle MongoDB _id to frontend id mapping
+const mapToFrontend = (data: ApiDocument<WeeklyRecord>): WeeklyRecord => fromApi(data);
+
+// Raw inputs only: the backend computes every derived figure, and the
+// id and offline sync state are never part of the body. Cleared fields go
+// as null, or the backend would keep their stored values.
+const toPayload = (record: WeeklyRecord) => {
+  const { id, syncStatus, syncMessage, ...payload } = toRequestInputs(record);
+  return payload;
+};
+
+export const fetchRecords = async (branchId?: string): Promise<WeeklyRecord[]> => {
+  const url = recordsUrl(branchId ? `?branchId=${encodeURIComponent(branchId)}` : '');
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: getHeaders()
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Error fetching records');
+  }
+
+  const data = await response.json();
+  // Ensure we map _id to id for all records
+  return Array.isArray(data) ? data.map(mapToFrontend) : [];
+};
+
+// Resolves to undefined when the record no longer exists
+export const fetchRecord = async (id: string): Promise<WeeklyRecord | undefined> => {
+  const response = await fetch(recordsUrl(`/${id}`), {
+    headers: getHeaders()
+  });
+
+  if (response.status === 404) return undefined;
+  if (!response.ok) {
+    throw await toApiError(response, 'Error fetching record');
+  }
+
+  const data = await response.json();
+  return data ? mapToFrontend(data) : undefined;
+};
+
+export const createRecord = async (record: WeeklyRecord): Promise<WeeklyRecord> => {
+  const response = await fetch(recordsUrl(), {
+    method: 'POST',
+    headers: getHeaders(),
+    body: JSON.stringify(toPayload(record))
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Error saving record');
+  }
+  return mapToFrontend(await response.json());
+};
+
+export const updateRecord = async (record: WeeklyRecord): Promise<WeeklyRecord> => {
+  const response = await fetch(recordsUrl(`/${record.id}`), {
+    method: 'PUT',
+    headers: getHeaders(),
+    body: JSON.stringify(toPayload(record))
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Error saving record');
+  }
+  return mapToFrontend(await response.json());
+};
+
+// Trashed weeks, most recently deleted first
+export const fetchDeletedRecords = async (branchId?: string): Promise<WeeklyRecord[]> => {
+  const url = recordsUrl(`/trash${branchId ? `?branchId=${encodeURIComponent(branchId)}` : ''}`);
+  const response = await fetch(url, {
+    headers: getHeaders()
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Error fetching trash');
+  }
+  const data = await response.json();
+  return Array.isArray(data) ? data.map(mapToFrontend) : [];
+};
+
+export const undeleteRecord = async (id: string): Promise<WeeklyRecord> => {
+  const response = await fetch(recordsUrl(`/${id}/undelete`), {
+    method: 'POST',
+    headers: getHeaders()
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Error restoring record');
+  }
+  return mapToFrontend(await response.json());
+};
+
+export const purgeRecord = async (id: string): Promise<void> => {
+  const response = await fetch(recordsUrl(`/${id}/purge`), {
+    method: 'DELETE',
+    headers: getHeaders()
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Error deleting record');
+  }
+};
+
+// Moves the week to the trash (the server keeps it until purged)
+export const removeRecord = async (id: string): Promise<void> => {
+  const response = await fetch(recordsUrl(`/${id}`), {
+    method: 'DELETE',
+    headers: getHeaders()
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Error deleting record');
+  }
+};
+
+// Audit trail of one week, newest first
+export const fetchRecordHistory = async (id: string): Promise<RecordRevision[]> => {
+  const response = await fetch(recordsUrl(`/${id}/history`), {
+    headers: getHeaders()
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Error fetching history');
+  }
+  const data = await response.json();
+  return Array.isArray(data) ? data : [];
+};
+
+// `record` is the copy the owner was looking at; a newer save makes this a 409
+export const restoreRecordRevision = async (record: WeeklyRecord, revisionId: string): Promise<WeeklyRecord> => {
+  const response = await fetch(recordsUrl(`/${record.id}/restore/${revisionId}`), {
+    method: 'POST',
+    headers: getHeaders(),
+    body: JSON.stringify({ revision: record.revision || 0 })
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Error restoring revision');
+  }
+  return mapToFrontend(await response.json());
+};
@@ -0,0 +1,28 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Scenario } from '../types';
+
+// Named what-if scenarios, kept on this device
+const SCENARIOS_KEY = 'sunday_chicken_scenarios';
+
+export const getScenarios = (): Scenario[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SCENARIOS_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeScenarios = (scenarios: Scenario[]): Scenario[] => {
+  localStorage.setItem(SCENARIOS_KEY, JSON.stringify(scenarios));
+  return scenarios;
+};
+
+// Saving under a name already used replaces that scenario
+export const saveScenario = (scenario: Omit<Scenario, 'id' | 'savedAt'>): Scenario[] => {
+  const others = getScenarios().filter(s => s.name.toLowerCase() !== scenario.name.toLowerCase());
+  return writeScenarios([...others, { ...scenario, id: uuidv4(), savedAt: new Date().toISOString() }]);
+};
+
+export const deleteScenario = (id: string): Scenario[] =>
+  writeScenarios(getScenarios().filter(s => s.id !== id));
@@ -0,0 +1,25 @@
+// Preferences kept per device, like the selected branch
+const SETTINGS_KEY = 'sunday_chicken_settings';
+
+export interface Settings {
+  payableAlertDays: number; // Dashboard warns about supplier dues older than this
+}
+
+const DEFAULT_SETTINGS: Settings = {
+  payableAlertDays: 7,
+};
+
+export const getSettings = (): Settings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return { ...DEFAULT_SETTINGS, ...saved };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+export const saveSettings = (changes: Partial<Settings>): Settings => {
+  const settings = { ...getSettings(), ...changes };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  return settings;
+};
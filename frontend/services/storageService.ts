@@ -1,178 +1,81 @@
-import { WeeklyRecord } from '../types';
-import { calculateRecordMetrics } from '../utils/calculations';
-import { getAuthToken } from './authService';
+import { WeeklyRecord, RecordRevision } from '../types';
+import { getConfig, StorageAdapter } from './config';
+import { RecordStore, SyncResult } from './stores/RecordStore';
+import { createRestStore } from './stores/restStore';
+import { createLocalStorageStore, createMemoryStore } from './stores/localStores';
 
 // ==========================================
-// BACKEND CONFIGURATION
+// STORE SELECTION
 // ==========================================
-// Set to false to connect to your real Node/Express/MongoDB backend
-const USE_MOCK_BACKEND = false; 
-
-// Use environment variable or fallback to localhost
-const API_BASE_URL = 'https://sunday-backend-5e30.onrender.com/records';
-const STORAGE_KEY = 'poultry_profit_data';
-
-// Helper to simulate network delay for Mock mode
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Helper to handle MongoDB _id to frontend id mapping
-const mapToFrontend = (data: any): WeeklyRecord => {
-  if (!data) return data;
-  // If backend returns _id (MongoDB), map it to id
-  const { _id, ...rest } = data;
-  return {
-    id: _id || data.id,
-    ...rest
-  };
+// The adapter comes from the app config (see config.ts), never from code.
+const STORE_FACTORIES: Record<StorageAdapter, () => RecordStore> = {
+  rest: createRestStore,
+  localStorage: createLocalStorageStore,
+  memory: createMemoryStore,
 };
 
-const getHeaders = () => {
-  const token = getAuthToken();
-  return {
-    'Content-Type': 'application/json',
-    'Authorization': token ? `Bearer ${token}` : ''
-  };
+let store: RecordStore | null = null;
+
+// Created on first use, after the runtime config file has been read
+const getStore = (): RecordStore => {
+  if (!store) {
+    store = STORE_FACTORIES[getConfig().storageAdapter]();
+  }
+  return store;
 };
 
 // ==========================================
 // SERVICE METHODS
 // ==========================================
 
-export const getRecords = async (): Promise<WeeklyRecord[]> => {
-  if (USE_MOCK_BACKEND) {
-    await delay(300);
-    const data = localStorage.getItem(STORAGE_KEY);
-    return data ? JSON.parse(data) : [];
-  }
+// Pass a branchId to load one shop's weeks; omit it for every branch (consolidated)
+export const getRecords = (branchId?: string): Promise<WeeklyRecord[]> =>
+  getStore().getRecords(branchId);
 
-  try {
-    const response = await fetch(API_BASE_URL, {
-      method: 'GET',
-      headers: getHeaders()
-    });
-
-    if (!response.ok) {
-        if (response.status === 401) throw new Error("Unauthorized access");
-        throw new Error(`Error fetching records: ${response.status} ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    // Ensure we map _id to id for all records
-    return Array.isArray(data) ? data.map(mapToFrontend) : [];
-  } catch (error) {
-    console.error("API Error (getRecords):", error);
-    throw error;
-  }
-};
+export const saveRecord = (record: WeeklyRecord): Promise<WeeklyRecord> =>
+  getStore().saveRecord(record);
 
-export const saveRecord = async (record: WeeklyRecord): Promise<WeeklyRecord> => {
-  // Pre-calculate metrics on frontend (optional: backend can also do this)
-  const processedRecord = calculateRecordMetrics(record);
-
-  // MOCK IMPLEMENTATION
-  if (USE_MOCK_BACKEND) {
-    await delay(400);
-
-    // Generate ID for new records
-    if (!processedRecord.id) {
-      processedRecord.id = Math.random().toString(36).substr(2, 9);
-    }
-
-    const currentRecords = await getRecords();
-    const index = currentRecords.findIndex(r => r.id === processedRecord.id);
-    
-    let updatedRecords;
-    if (index >= 0) {
-      updatedRecords = [...currentRecords];
-      updatedRecords[index] = processedRecord;
-    } else {
-      updatedRecords = [processedRecord, ...currentRecords];
-    }
-
-    updatedRecords.sort((a, b) => new Date(b.weekDate).getTime() - new Date(a.weekDate).getTime());
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedRecords));
-    return processedRecord;
-  }
+export const deleteRecord = (id: string): Promise<void> =>
+  getStore().deleteRecord(id);
 
-  // REAL API IMPLEMENTATION
-  try {
-    // Determine if Create (POST) or Update (PUT)
-    // If id is empty string or undefined, it's a new record
-    const isNewRecord = !record.id || record.id.trim() === '';
-    
-    const url = isNewRecord 
-      ? API_BASE_URL 
-      : `${API_BASE_URL}/${record.id}`;
-
-    const method = isNewRecord ? 'POST' : 'PUT';
-
-    // Prepare payload: remove empty ID so MongoDB generates a new ObjectId
-    const payload: any = { ...processedRecord };
-    if (isNewRecord) {
-      delete payload.id;
-      delete payload._id;
-    }
-
-    const response = await fetch(url, {
-      method: method,
-      headers: getHeaders(),
-      body: JSON.stringify(payload)
-    });
-
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || `Error saving record: ${response.status}`);
-    }
-    
-    const savedData = await response.json();
-    return mapToFrontend(savedData);
-  } catch (error) {
-    console.error("API Error (saveRecord):", error);
-    throw error;
-  }
-};
+export const getRecordById = (id: string): Promise<WeeklyRecord | undefined> =>
+  getStore().getRecordById(id);
 
-export const deleteRecord = async (id: string): Promise<void> => {
-  if (USE_MOCK_BACKEND) {
-    await delay(300);
-    const currentRecords = await getRecords();
-    const filtered = currentRecords.filter(r => r.id !== id);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
-    return;
-  }
+// ==========================================
+// TRASH
+// ==========================================
 
-  try {
-    const response = await fetch(`${API_BASE_URL}/${id}`, {
-      method: 'DELETE',
-      headers: getHeaders()
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Error deleting record: ${response.status}`);
-    }
-  } catch (error) {
-    console.error("API Error (deleteRecord):", error);
-    throw error;
-  }
-};
+export const getDeletedRecords = (branchId?: string): Promise<WeeklyRecord[]> =>
+  getStore().getDeletedRecords(branchId);
 
-export const getRecordById = async (id: string): Promise<WeeklyRecord | undefined> => {
-  if (USE_MOCK_BACKEND) {
-    const records = await getRecords();
-    return records.find(r => r.id === id);
-  }
+export const undeleteRecord = (id: string): Promise<void> =>
+  getStore().undeleteRecord(id);
 
-  try {
-    const response = await fetch(`${API_BASE_URL}/${id}`, {
-      headers: getHeaders()
-    });
-    
-    if (!response.ok) return undefined;
-    
-    const data = await response.json();
-    return mapToFrontend(data);
-  } catch (error) {
-    console.error("API Error (getRecordById):", error);
-    return undefined;
-  }
-};
\ No newline at end of file
+// Permanent: the week cannot be brought back afterwards
+export const purgeRecord = (id: string): Promise<void> =>
+  getStore().purgeRecord(id);
+
+// ==========================================
+// AUDIT TRAIL
+// ==========================================
+
+export const getRecordHistory = (id: string): Promise<RecordRevision[]> =>
+  getStore().getRecordHistory(id);
+
+// Saves an earlier revision's inputs as the newest revision (owners only)
+export const restoreRevision = (record: WeeklyRecord, revisionId: string): Promise<WeeklyRecord> =>
+  getStore().restoreRevision(record, revisionId);
+
+// ==========================================
+// OFFLINE SYNC
+// ==========================================
+
+// Replays writes queued while offline. Resolves with what is still waiting.
+export const syncPendingWrites = (): Promise<SyncResult> =>
+  getStore().syncPendingWrites();
+
+export const countPendingWrites = (): Promise<number> =>
+  getStore().countPendingWrites();
+
+export const resolveConflict = (id: string, keep: 'mine' | 'theirs'): Promise<void> =>
+  getStore().resolveConflict(id, keep);
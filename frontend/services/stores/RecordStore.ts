@@ -0,0 +1,35 @@
+import { WeeklyRecord, RecordRevision } from '../../types';
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  remaining: number;
+}
+
+// Where weekly records live. storageService picks one implementation
+// from the app config; the rest of the app only sees storageService.
+export interface RecordStore {
+  // Pass a branchId to load one shop's weeks; omit it for every branch
+  getRecords(branchId?: string): Promise<WeeklyRecord[]>;
+  getRecordById(id: string): Promise<WeeklyRecord | undefined>;
+  // Creates the record when its id is empty; returns it with derived metrics
+  saveRecord(record: WeeklyRecord): Promise<WeeklyRecord>;
+  // Moves the week to the trash; it disappears from getRecords
+  deleteRecord(id: string): Promise<void>;
+
+  // Trash (owners only). Undelete also cancels a delete still queued offline.
+  getDeletedRecords(branchId?: string): Promise<WeeklyRecord[]>;
+  undeleteRecord(id: string): Promise<void>;
+  purgeRecord(id: string): Promise<void>;
+
+  // Audit trail, newest first. Restoring saves the old inputs as a new revision
+  // and fails with a 409 if `record` is no longer the latest copy.
+  getRecordHistory(id: string): Promise<RecordRevision[]>;
+  restoreRevision(record: WeeklyRecord, revisionId: string): Promise<WeeklyRecord>;
+
+  // Offline queue. Stores that are never offline report nothing pending.
+  syncPendingWrites(): Promise<SyncResult>;
+  countPendingWrites(): Promise<number>;
+  resolveConflict(id: string, keep: 'mine' | 'theirs'): Promise<void>;
+}
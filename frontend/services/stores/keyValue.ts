@@ -0,0 +1,35 @@
+import { getConfig } from '../config';
+
+// Minimal JSON persistence shared by the browser-only stores
+export interface KeyValueBackend {
+  read<T>(key: string): T | undefined;
+  write<T>(key: string, value: T): void;
+}
+
+export const localStorageBackend: KeyValueBackend = {
+  read: <T>(key: string) => {
+    const data = localStorage.getItem(key);
+    return data ? JSON.parse(data) as T : undefined;
+  },
+  write: (key, value) => localStorage.setItem(key, JSON.stringify(value)),
+};
+
+// Lives for the page session only. Values are copied so callers
+// cannot mutate stored data by accident.
+export const createMemoryBackend = (): KeyValueBackend => {
+  const data = new Map<string, string>();
+  return {
+    read: <T>(key: string) => {
+      const value = data.get(key);
+      return value === undefined ? undefined : JSON.parse(value) as T;
+    },
+    write: (key, value) => { data.set(key, JSON.stringify(value)); },
+  };
+};
+
+// One session-wide instance so records and branches share it
+export const memoryBackend = createMemoryBackend();
+
+// Backend for the configured browser-only adapter
+export const getBrowserBackend = (): KeyValueBackend =>
+  getConfig().storageAdapter === 'memory' ? memoryBackend : localStorageBackend;
@@ -0,0 +1,225 @@
+import { v4 as uuidv4 } from 'uuid';
+import { WeeklyRecord, RecordRevision, RevisionAction } from '../../types';
+import { calculateRecordMetrics, stripDerivedFields } from '../../utils/calculations';
+import { diffRecords } from '../../utils/audit';
+import { migrateLegacyExpenses } from '../../utils/expenses';
+import { withLotDates } from '../../utils/purchases';
+import { validateRecord } from '../../utils/validation';
+import { openingStockFrom, openingStockProblem, withoutOpeningStock } from '../../utils/stock';
+import { weekStartOf, findSameWeek } from '../../utils/weeks';
+import { ApiError } from '../apiClient';
+import { getSessionUser } from '../authService';
+import { RecordStore } from './RecordStore';
+import { KeyValueBackend, localStorageBackend, memoryBackend } from './keyValue';
+
+const STORAGE_KEY = 'poultry_profit_data';
+const HISTORY_KEY = 'poultry_profit_history';
+
+const CONFLICT_MESSAGE = 'This week was changed by someone else while you were editing';
+
+// Helper to simulate network delay so loading states still show
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const sortByWeek = (records: WeeklyRecord[]) =>
+  records.sort((a, b) => new Date(b.weekDate).getTime() - new Date(a.weekDate).getTime());
+
+// Browser-only store. It stands in for the backend, so it computes the metrics
+// and keeps the audit trail itself, following the same rules.
+const createKeyValueRecordStore = (backend: KeyValueBackend, latencyMs: number): RecordStore => {
+  const readAll = (): WeeklyRecord[] => backend.read<WeeklyRecord[]>(STORAGE_KEY) || [];
+  const readHistory = (): RecordRevision[] => backend.read<RecordRevision[]>(HISTORY_KEY) || [];
+
+  const logRevision = (action: RevisionAction, before: WeeklyRecord | null, after: WeeklyRecord | null, restoredFrom?: number) => {
+    const snapshot = (after || before) as WeeklyRecord;
+    const entry: RecordRevision = {
+      id: uuidv4(),
+      recordId: snapshot.id,
+      revision: snapshot.revision || 0,
+      action,
+      restoredFrom,
+      userName: getSessionUser()?.name,
+      at: new Date().toISOString(),
+      changes: after ? diffRecords(before, after) : [],
+      snapshot,
+    };
+    backend.write(HISTORY_KEY, [...readHistory(), entry]);
+  };
+
+  // Copies the leftover of the week named by `openingFromId`, as the backend does
+  const linkOpeningStock = (record: WeeklyRecord, records: WeeklyRecord[]): WeeklyRecord => {
+    if (!record.openingFromId) return withoutOpeningStock(record);
+    const source = records.find(r => r.id === record.openingFromId);
+    const problem = openingStockProblem(record, source, records);
+    if (problem || !source) throw new ApiError(problem || 'Not found', 400, { openingFromId: problem || 'Not found' });
+    return { ...record, ...openingStockFrom(source) };
+  };
+
+  // A week another week opened with keeps its carry-over as is
+  const rejectClaimedCarryOver = (stored: WeeklyRecord, record: WeeklyRecord, records: WeeklyRecord[]) => {
+    const changed = (['carryOverHens', 'carryOverWeight'] as const)
+      .some(field => (Number(stored[field]) || 0) !== (Number(record[field]) || 0));
+    const claim = changed && records.find(r => !r.deletedAt && r.openingFromId === stored.id);
+    if (!claim) return;
+    const message = `These birds were carried into the week of ${claim.weekDate}. Remove them there first.`;
+    throw new ApiError(message, 400, { carryOverWeight: message });
+  };
+
+  // One live record per branch and week, as on the backend
+  const rejectDuplicateWeek = (record: WeeklyRecord, records: WeeklyRecord[]) => {
+    if (!findSameWeek(record, records)) return;
+    const message = `The week of ${record.weekDate} already has a record. Add to it instead.`;
+    throw new ApiError(message, 400, { weekDate: message });
+  };
+
+  // Writes `record` over the stored copy it was based on, as the backend's PUT does
+  const writeRecord = (submitted: WeeklyRecord): { before: WeeklyRecord | null; after: WeeklyRecord } => {
+    const currentRecords = readAll();
+    // Any date in a week files under its first day; the lots keep the day itself
+    const record = { ...withLotDates(submitted), weekDate: weekStartOf(submitted.weekDate) };
+    const index = record.id ? currentRecords.findIndex(r => r.id === record.id) : -1;
+
+    // Same rules as the backend: trashed weeks cannot be edited, and an
+    // edit must start from the stored revision
+    const stored = index >= 0 ? currentRecords[index] : null;
+    if (stored?.deletedAt) throw new ApiError('Not found', 404);
+    if (stored && (stored.revision || 0) !== (record.revision || 0)) {
+      throw new ApiError(CONFLICT_MESSAGE, 409, undefined, stored);
+    }
+
+    // Derived fields are recomputed from the inputs alone, as on the backend, so
+    // ones whose inputs were cleared do not linger. Any save also converts old
+    // tea/fuel figures into expense lines.
+    const inputs = stripDerivedFields(migrateLegacyExpenses(record)) as WeeklyRecord;
+    const processedRecord = {
+      ...calculateRecordMetrics(linkOpeningStock(inputs, currentRecords)),
+      updatedAt: new Date().toISOString(),
+      revision: stored ? (stored.revision || 0) + 1 : 0,
+    };
+    const fieldErrors = validateRecord(processedRecord);
+    if (Object.keys(fieldErrors).length > 0) {
+      throw new ApiError('Please correct the highlighted fields', 400, fieldErrors);
+    }
+    rejectDuplicateWeek(record, currentRecords);
+    if (stored) rejectClaimedCarryOver(stored, processedRecord, currentRecords);
+
+    // Generate ID for new records
+    if (!processedRecord.id) {
+      processedRecord.id = Math.random().toString(36).substr(2, 9);
+    }
+
+    let updatedRecords;
+    if (index >= 0) {
+      updatedRecords = [...currentRecords];
+      updatedRecords[index] = processedRecord;
+    } else {
+      updatedRecords = [processedRecord, ...currentRecords];
+    }
+
+    backend.write(STORAGE_KEY, sortByWeek(updatedRecords));
+    return { before: stored, after: processedRecord };
+  };
+
+  // Updates one stored week in place and returns the new copy
+  const updateStored = (id: string, change: (record: WeeklyRecord) => WeeklyRecord): { before: WeeklyRecord; after: WeeklyRecord } | null => {
+    const records = readAll();
+    const index = records.findIndex(r => r.id === id);
+    if (index < 0) return null;
+
+    const before = records[index];
+    const after = { ...change(before), updatedAt: new Date().toISOString(), revision: (before.revision || 0) + 1 };
+    records[index] = after;
+    backend.write(STORAGE_KEY, records);
+    return { before, after };
+  };
+
+  const inBranch = (records: WeeklyRecord[], branchId?: string) =>
+    branchId ? records.filter(r => r.branchId === branchId) : records;
+
+  return {
+    // Trashed weeks are left out, so every total built from this list excludes them
+    getRecords: async (branchId) => {
+      await delay(latencyMs);
+      return inBranch(readAll().filter(r => !r.deletedAt), branchId);
+    },
+
+    getRecordById: async (id) => readAll().find(r => r.id === id),
+
+    saveRecord: async (record) => {
+      await delay(latencyMs);
+      const { before, after } = writeRecord(record);
+      logRevision(before ? 'update' : 'create', before, after);
+      return after;
+    },
+
+    deleteRecord: async (id) => {
+      await delay(latencyMs);
+      const records = readAll();
+      if (records.find(r => r.id === id)?.deletedAt) return;
+      // The week that opened with this week's leftover would lose its source
+      const claim = records.find(r => !r.deletedAt && r.openingFromId === id);
+      if (claim) {
+        throw new ApiError(`The birds kept this week were carried into the week of ${claim.weekDate}. Remove them there first.`, 400);
+      }
+      const result = updateStored(id, record => ({
+        ...record,
+        deletedAt: new Date().toISOString(),
+        deletedBy: getSessionUser()?.name,
+      }));
+      if (result) logRevision('delete', result.before, result.after);
+    },
+
+    getDeletedRecords: async (branchId) => {
+      await delay(latencyMs);
+      return inBranch(readAll().filter(r => r.deletedAt), branchId)
+        .sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || ''));
+    },
+
+    undeleteRecord: async (id) => {
+      await delay(latencyMs);
+      const records = readAll();
+      const trashed = records.find(r => r.id === id);
+      if (!trashed?.deletedAt) throw new ApiError('Not in the trash', 404);
+      rejectDuplicateWeek(trashed, records);
+      const result = updateStored(id, ({ deletedAt, deletedBy, ...record }) => record);
+      if (result) logRevision('undelete', result.before, result.after);
+    },
+
+    purgeRecord: async (id) => {
+      await delay(latencyMs);
+      const records = readAll();
+      const purged = records.find(r => r.id === id);
+      if (!purged?.deletedAt) throw new ApiError('Not in the trash', 404);
+      backend.write(STORAGE_KEY, records.filter(r => r.id !== id));
+      logRevision('purge', purged, null);
+    },
+
+    getRecordHistory: async (id) => {
+      await delay(latencyMs);
+      return readHistory()
+        .filter(entry => entry.recordId === id)
+        .sort((a, b) => b.at.localeCompare(a.at));
+    },
+
+    restoreRevision: async (record, revisionId) => {
+      await delay(latencyMs);
+      const entry = readHistory().find(e => e.id === revisionId && e.recordId === record.id);
+      if (!entry) throw new ApiError('Revision not found', 404);
+
+      // Built from the snapshot alone so fields added after it are cleared again
+      const { before, after } = writeRecord({ ...entry.snapshot, id: record.id, revision: record.revision } as WeeklyRecord);
+      logRevision('restore', before, after, entry.revision);
+      return after;
+    },
+
+    // Never offline: nothing to sync
+    syncPendingWrites: async () => ({ synced: 0, conflicts: 0, failed: 0, remaining: 0 }),
+    countPendingWrites: async () => 0,
+    resolveConflict: async () => {},
+  };
+};
+
+export const createLocalStorageStore = (): RecordStore =>
+  createKeyValueRecordStore(localStorageBackend, 300);
+
+export const createMemoryStore = (): RecordStore =>
+  createKeyValueRecordStore(memoryBackend, 0);
@@ -0,0 +1,96 @@
+import { WeeklyRecord, CONSOLIDATED_BRANCH } from '../../types';
+import { isNetworkError } from '../apiClient';
+import * as RecordsApi from '../recordsApi';
+import * as Sync from '../syncService';
+import { getCachedRecords, setCachedRecords } from '../offlineStore';
+import { RecordStore } from './RecordStore';
+
+// Node/Express/MongoDB backend. When the backend is unreachable, reads fall
+// back to the last fetched copy and writes are queued in IndexedDB.
+export const createRestStore = (): RecordStore => ({
+  getRecords: async (branchId) => {
+    const scope = branchId || CONSOLIDATED_BRANCH;
+    let records: WeeklyRecord[];
+    try {
+      records = await RecordsApi.fetchRecords(branchId);
+      await setCachedRecords(scope, records);
+    } catch (error) {
+      const cached = isNetworkError(error) ? await getCachedRecords(scope) : undefined;
+      if (!cached) {
+        console.error("API Error (getRecords):", error);
+        throw error;
+      }
+      records = cached;
+    }
+    // Writes still waiting to sync are shown on top
+    return Sync.applyPendingWrites(records, branchId);
+  },
+
+  getRecordById: async (id) => {
+    try {
+      return await RecordsApi.fetchRecord(id);
+    } catch (error) {
+      console.error("API Error (getRecordById):", error);
+      return undefined;
+    }
+  },
+
+  saveRecord: async (record) => {
+    // Records with queued offline changes stay in the queue so writes replay in order
+    const isNewRecord = !record.id || record.id.trim() === '';
+    if (!isNewRecord && (Sync.isLocalId(record.id) || await Sync.hasPendingWrite(record.id))) {
+      return Sync.queueSave(record);
+    }
+
+    try {
+      // Determine if Create (POST) or Update (PUT)
+      // If id is empty string or undefined, it's a new record
+      return isNewRecord
+        ? await RecordsApi.createRecord(record)
+        : await RecordsApi.updateRecord(record);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        // Offline: keep the numbers on this device and sync them later
+        return Sync.queueSave(record);
+      }
+      console.error("API Error (saveRecord):", error);
+      throw error;
+    }
+  },
+
+  deleteRecord: async (id) => {
+    if (Sync.isLocalId(id) || await Sync.hasPendingWrite(id)) {
+      await Sync.queueDelete(id);
+      return;
+    }
+
+    try {
+      await RecordsApi.removeRecord(id);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        await Sync.queueDelete(id);
+        return;
+      }
+      console.error("API Error (deleteRecord):", error);
+      throw error;
+    }
+  },
+
+  // The trash lives only on the server, so these need a connection
+  getDeletedRecords: (branchId) => RecordsApi.fetchDeletedRecords(branchId),
+
+  undeleteRecord: async (id) => {
+    if (await Sync.cancelQueuedDelete(id)) return;
+    await RecordsApi.undeleteRecord(id);
+  },
+
+  purgeRecord: (id) => RecordsApi.purgeRecord(id),
+
+  // History lives only on the server, so these need a connection
+  getRecordHistory: (id) => RecordsApi.fetchRecordHistory(id),
+  restoreRevision: (record, revisionId) => RecordsApi.restoreRecordRevision(record, revisionId),
+
+  syncPendingWrites: () => Sync.syncPendingWrites(),
+  countPendingWrites: () => Sync.countPendingWrites(),
+  resolveConflict: (id, keep) => Sync.resolveConflict(id, keep),
+});
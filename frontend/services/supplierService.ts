@@ -0,0 +1,61 @@
+import { Supplier } from '../types';
+import { ApiError } from './apiClient';
+import { createCollection, byName, localId } from './collection';
+import { isRemoteStorage } from './config';
+
+export type SupplierInput = Omit<Supplier, 'id' | 'createdAt'>;
+
+const suppliers = createCollection<Supplier>({
+  path: '/suppliers',
+  singular: 'supplier',
+  plural: 'suppliers',
+  storageKey: 'poultry_profit_suppliers',
+  cacheKey: 'sunday_chicken_supplier_cache',
+  compare: byName
+});
+
+// Browser-only builds follow the backend's rule that names are unique
+const assertUniqueName = (stored: Supplier[], name: string, id?: string) => {
+  if (stored.some(s => s.id !== id && s.name.toLowerCase() === name.toLowerCase())) {
+    throw new ApiError('A supplier with this name already exists', 409);
+  }
+};
+
+export const getSuppliers = async (): Promise<Supplier[]> =>
+  isRemoteStorage() ? suppliers.fetchAll() : suppliers.readLocal();
+
+export const createSupplier = async (input: SupplierInput): Promise<Supplier> => {
+  if (!isRemoteStorage()) {
+    const stored = suppliers.readLocal();
+    assertUniqueName(stored, input.name);
+    const supplier: Supplier = { ...input, id: localId(), createdAt: new Date().toISOString() };
+    suppliers.writeLocal([...stored, supplier]);
+    return supplier;
+  }
+
+  return suppliers.create(input);
+};
+
+export const updateSupplier = async (id: string, input: SupplierInput): Promise<Supplier> => {
+  if (!isRemoteStorage()) {
+    const stored = suppliers.readLocal();
+    const existing = stored.find(s => s.id === id);
+    if (!existing) throw new ApiError('Not found', 404);
+    assertUniqueName(stored, input.name, id);
+    const updated: Supplier = { ...input, id, createdAt: existing.createdAt };
+    suppliers.writeLocal(stored.map(s => (s.id === id ? updated : s)));
+    return updated;
+  }
+
+  return suppliers.update(id, input);
+};
+
+// Past purchase lots keep the supplier's name, so no history is lost
+export const deleteSupplier = async (id: string): Promise<void> => {
+  if (!isRemoteStorage()) {
+    suppliers.writeLocal(suppliers.readLocal().filter(s => s.id !== id));
+    return;
+  }
+
+  await suppliers.remove(id);
+};
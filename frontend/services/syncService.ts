@@ -0,0 +1,197 @@
+import { v4 as uuidv4 } from 'uuid';
+import { WeeklyRecord } from '../types';
+import { calculateRecordMetrics } from '../utils/calculations';
+import { getConflictingRecord } from '../utils/validation';
+import { ApiError, isNetworkError, isUnauthorized, isConflict } from './apiClient';
+import * as RecordsApi from './recordsApi';
+import { SyncResult } from './stores/RecordStore';
+import {
+  PendingWrite,
+  getPendingWrites,
+  getPendingWrite,
+  putPendingWrite,
+  removePendingWrite,
+  findCachedRecord
+} from './offlineStore';
+
+// Records created offline get a temporary id until the server assigns one
+const LOCAL_ID_PREFIX = 'local-';
+
+export const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+
+export const hasPendingWrite = async (id: string): Promise<boolean> =>
+  !!id && !!(await getPendingWrite(id));
+
+export const countPendingWrites = async (): Promise<number> =>
+  (await getPendingWrites()).length;
+
+// Stores a save locally and returns the record as it will look once synced
+export const queueSave = async (record: WeeklyRecord): Promise<WeeklyRecord> => {
+  const id = record.id && record.id.trim() !== '' ? record.id : `${LOCAL_ID_PREFIX}${uuidv4()}`;
+  const existing = await getPendingWrite(id);
+  const localRecord: WeeklyRecord = { ...calculateRecordMetrics({ ...record, id }), syncStatus: 'pending' };
+
+  await putPendingWrite({
+    id,
+    type: 'save',
+    record: localRecord,
+    // Keep the version the first offline edit started from
+    baseRevision: existing ? existing.baseRevision : record.revision,
+    queuedAt: existing?.queuedAt || new Date().toISOString(),
+    conflict: existing?.conflict,
+  });
+  return localRecord;
+};
+
+export const queueDelete = async (id: string): Promise<void> => {
+  // A record that never reached the server just disappears from the queue
+  if (isLocalId(id)) {
+    await removePendingWrite(id);
+    return;
+  }
+
+  const existing = await getPendingWrite(id);
+  const baseRevision = existing ? existing.baseRevision : (await findCachedRecord(id))?.revision;
+  await putPendingWrite({ id, type: 'delete', baseRevision, queuedAt: new Date().toISOString() });
+};
+
+// Undo for a delete made offline: drops it before it reaches the server.
+// Resolves to false when no delete was queued for this record.
+export const cancelQueuedDelete = async (id: string): Promise<boolean> => {
+  const write = await getPendingWrite(id);
+  if (write?.type !== 'delete') return false;
+  await removePendingWrite(id);
+  return true;
+};
+
+// Overlays queued writes on records from the server (or the offline cache)
+export const applyPendingWrites = async (records: WeeklyRecord[], branchId?: string): Promise<WeeklyRecord[]> => {
+  const writes = await getPendingWrites();
+  let result = [...records];
+
+  writes.forEach(write => {
+    const index = result.findIndex(r => r.id === write.id);
+
+    if (write.type === 'delete') {
+      if (index < 0) return;
+      if (write.conflict) {
+        // Keep showing the record so the user can decide
+        result[index] = { ...result[index], syncStatus: 'conflict', syncMessage: 'Edited on another device after you deleted it' };
+      } else if (write.error) {
+        // Refused by the server, e.g. a later week opened with its leftover
+        result[index] = { ...result[index], syncStatus: 'error', syncMessage: write.error };
+      } else {
+        result.splice(index, 1);
+      }
+      return;
+    }
+
+    if (!write.record || (branchId && write.record.branchId !== branchId)) return;
+    const local: WeeklyRecord = {
+      ...write.record,
+      syncStatus: write.conflict ? 'conflict' : write.error ? 'error' : 'pending',
+      syncMessage: write.conflict === 'deleted'
+        ? 'Deleted on another device'
+        : write.conflict ? 'Changed on another device' : write.error,
+    };
+    if (index >= 0) {
+      result[index] = local;
+    } else {
+      result.unshift(local);
+    }
+  });
+
+  return result.sort((a, b) => new Date(b.weekDate).getTime() - new Date(a.weekDate).getTime());
+};
+
+const replayWrite = async (write: PendingWrite): Promise<'synced' | 'conflict'> => {
+  if (write.type === 'save' && isLocalId(write.id)) {
+    await RecordsApi.createRecord(write.record as WeeklyRecord);
+    await removePendingWrite(write.id);
+    return 'synced';
+  }
+
+  // Only delete if nobody else changed the record since this edit began
+  if (write.type === 'delete') {
+    const server = await RecordsApi.fetchRecord(write.id);
+    if (server && !server.deletedAt && (server.revision || 0) !== (write.baseRevision || 0)) {
+      await putPendingWrite({ ...write, conflict: server });
+      return 'conflict';
+    }
+    // Already in the trash (or gone) means the delete has nothing left to do
+    if (server && !server.deletedAt) await RecordsApi.removeRecord(write.id);
+    await removePendingWrite(write.id);
+    return 'synced';
+  }
+
+  // The server rejects the update (409) if the record moved past baseRevision
+  try {
+    await RecordsApi.updateRecord({ ...(write.record as WeeklyRecord), revision: write.baseRevision || 0 });
+  } catch (error) {
+    const deleted = error instanceof ApiError && error.status === 404;
+    if (!isConflict(error) && !deleted) throw error;
+    await putPendingWrite({ ...write, conflict: getConflictingRecord(error) || 'deleted' });
+    return 'conflict';
+  }
+  await removePendingWrite(write.id);
+  return 'synced';
+};
+
+let syncInProgress: Promise<SyncResult> | null = null;
+
+const runSync = async (): Promise<SyncResult> => {
+  const result: SyncResult = { synced: 0, conflicts: 0, failed: 0, remaining: 0 };
+
+  for (const write of await getPendingWrites()) {
+    // Conflicts wait for the user; rejected writes wait for a new edit
+    if (write.conflict || write.error) continue;
+
+    try {
+      const outcome = await replayWrite(write);
+      result[outcome === 'synced' ? 'synced' : 'conflicts']++;
+    } catch (error) {
+      if (isNetworkError(error)) break; // Still offline: try again later
+      if (isUnauthorized(error)) throw error;
+      await putPendingWrite({ ...write, error: error instanceof Error ? error.message : 'Sync failed' });
+      result.failed++;
+    }
+  }
+
+  result.remaining = await countPendingWrites();
+  return result;
+};
+
+// Replays queued writes in the order they were made. Safe to call often:
+// concurrent calls share one run.
+export const syncPendingWrites = (): Promise<SyncResult> => {
+  if (!syncInProgress) {
+    syncInProgress = runSync().finally(() => { syncInProgress = null; });
+  }
+  return syncInProgress;
+};
+
+// mine:   replay this device's edit over the other device's change
+// theirs: discard this device's edit and keep what is on the server
+export const resolveConflict = async (id: string, keep: 'mine' | 'theirs'): Promise<void> => {
+  const write = await getPendingWrite(id);
+  if (!write) return;
+
+  if (keep === 'theirs') {
+    await removePendingWrite(id);
+    return;
+  }
+
+  if (write.conflict === 'deleted') {
+    // Recreate the record under a fresh local id
+    await removePendingWrite(id);
+    await queueSave({ ...(write.record as WeeklyRecord), id: '' });
+  } else {
+    await putPendingWrite({
+      ...write,
+      baseRevision: write.conflict?.revision,
+      conflict: undefined,
+      error: undefined
+    });
+  }
+  await syncPendingWrites();
+};
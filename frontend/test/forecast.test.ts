@@ -0,0 +1,75 @@
+import { test, expect } from 'vitest';
+import { WeeklyRecord } from '../types';
+import { forecastDemand, backtestForecast, nextPurchaseWeek } from '../utils/forecast';
+
+// A completed week selling `meatSold` kg from 4 kg of live weight per 3 kg of meat, 2 kg a hen
+const sold = (weekDate: string, meatSold: number) =>
+  ({
+    id: weekDate,
+    weekDate,
+    totalHens: (meatSold * 4) / 3 / 2,
+    totalLiveWeight: (meatSold * 4) / 3,
+    purchaseRate: 100,
+    totalPurchaseCost: 0,
+    isSalesEntryComplete: true,
+    meatSold,
+  }) as WeeklyRecord;
+
+const saturdays = (from: string, count: number) =>
+  Array.from({ length: count }, (_, i) => new Date(Date.parse(`${from}T00:00:00Z`) + i * 7 * 86400000).toISOString().slice(0, 10));
+
+test('nothing is forecast from fewer than three weeks', () => {
+  expect(forecastDemand([sold('2026-10-03', 150), sold('2026-10-10', 150)], '2026-10-17')).toBeUndefined();
+});
+
+test('steady demand is forecast as is, turned into live weight and hens', () => {
+  const records = saturdays('2026-08-15', 10).map(date => sold(date, 150));
+  const forecast = forecastDemand(records, '2026-10-24')!;
+  expect(forecast.meatSold).toBeCloseTo(150);
+  expect(forecast.liveWeight).toBeCloseTo(200);
+  expect(forecast.hens).toBe(100);
+  // The backtest never missed, so the range is the narrowest allowed
+  expect(forecast.basis.spread).toBe(0.1);
+  expect(forecast.meatLow).toBeCloseTo(135);
+  expect(forecast.hensHigh).toBe(110);
+});
+
+test('the recent average is moved along the trend', () => {
+  const records = saturdays('2026-09-19', 4).map((date, i) => sold(date, 100 + 10 * i));
+  const forecast = forecastDemand(records, '2026-10-17')!;
+  expect(forecast.basis.trendPerWeek).toBeCloseTo(10);
+  expect(forecast.basis.recentAverage).toBeCloseTo(115);
+  // 2.5 weeks past the middle of the recent weeks
+  expect(forecast.meatSold).toBeCloseTo(140);
+});
+
+test('the same week last year scales the forecast against the weeks before it', () => {
+  const records = [
+    ...saturdays('2025-09-27', 3).map(date => sold(date, 100)),
+    sold('2025-10-18', 150),
+    ...saturdays('2026-09-19', 4).map(date => sold(date, 100)),
+  ];
+  const { basis } = forecastDemand(records, '2026-10-17')!;
+  expect(basis.seasonalWeek).toBe('2025-10-18');
+  expect(basis.seasonalFactor).toBeCloseTo(1.5);
+});
+
+test('only weeks before the one forecast are used', () => {
+  const records = [...saturdays('2026-09-19', 4).map(date => sold(date, 150)), sold('2026-10-24', 900)];
+  expect(forecastDemand(records, '2026-10-17')!.meatSold).toBeCloseTo(150);
+});
+
+test('the backtest forecasts each week from the earlier ones only', () => {
+  const records = saturdays('2026-08-15', 6).map(date => sold(date, 150));
+  const backtest = backtestForecast(records)!;
+  expect(backtest.rows.map(row => row.weekDate)).toEqual(saturdays('2026-09-05', 3));
+  expect(backtest.meanAbsPercentError).toBeCloseTo(0);
+  expect(backtest.bias).toBeCloseTo(0);
+  expect(backtest.coverage).toBe(100);
+});
+
+test('the next purchase is for this week until it has a record', () => {
+  // 2026-10-14 is a Wednesday in the week of Saturday 2026-10-10
+  expect(nextPurchaseWeek([], '2026-10-14')).toBe('2026-10-10');
+  expect(nextPurchaseWeek([sold('2026-10-10', 150)], '2026-10-14')).toBe('2026-10-17');
+});
@@ -0,0 +1,58 @@
+import { test, expect } from 'vitest';
+import { WeeklyRecord } from '../types';
+import { pricingBasis, adviseSellingPrice, TARGET_MARGINS } from '../utils/pricing';
+
+const week = (fields: Partial<WeeklyRecord>) =>
+  ({ id: 'w', branchId: 'b1', weekDate: '2026-10-17', totalHens: 100, totalLiveWeight: 200, purchaseRate: 100, totalPurchaseCost: 20000, ...fields }) as WeeklyRecord;
+
+const sold = (id: string, weekDate: string, wastage: number, totalExpenses: number) =>
+  week({ id, weekDate, isSalesEntryComplete: true, wastage, totalExpenses });
+
+test('pricingBasis averages the branch\'s completed weeks before the one being sold', () => {
+  const history = [
+    sold('a', '2026-09-26', 30, 800),
+    sold('b', '2026-10-03', 10, 1200),
+    sold('c', '2026-10-10', 20, 1000),
+    { ...sold('other', '2026-10-10', 90, 9000), branchId: 'b2' },
+    week({ id: 'open', weekDate: '2026-10-10' }),
+    sold('later', '2026-10-24', 90, 9000),
+  ];
+
+  expect(pricingBasis(week({}), history)).toEqual({
+    weeks: 3,
+    from: '2026-09-26',
+    to: '2026-10-10',
+    wastagePercentage: 10, // 60 kg of 600
+    averageExpenses: 1000,
+  });
+  expect(pricingBasis(week({ weekDate: '2026-09-19' }), history)).toBeUndefined();
+});
+
+test('pricingBasis uses the latest eight weeks only', () => {
+  const history = Array.from({ length: 10 }, (_, i) => sold(`w${i}`, `2026-08-${String(i + 1).padStart(2, '0')}`, 20, 1000));
+  expect(pricingBasis(week({}), history)?.from).toBe('2026-08-03');
+});
+
+const basis = { weeks: 4, from: '2026-09-19', to: '2026-10-10', wastagePercentage: 25, averageExpenses: 1000 };
+
+test('the break-even price covers stock and expenses over the sellable weight', () => {
+  const advice = adviseSellingPrice(week({ openingWeight: 20, openingCost: 2000 }), basis)!;
+  expect(advice.stockCost).toBe(22000);
+  expect(advice.sellableWeight).toBe(165);
+  expect(advice.expensesEntered).toBe(false);
+  expect(advice.breakEven).toBeCloseTo(23000 / 165);
+  expect(advice.targets.map(t => t.margin)).toEqual(TARGET_MARGINS);
+  // A 20% margin leaves a fifth of the revenue as profit
+  const { price } = advice.targets.find(t => t.margin === 20)!;
+  expect((price - advice.breakEven) / price).toBeCloseTo(0.2);
+});
+
+test('expenses entered for the week replace the usual ones', () => {
+  expect(adviseSellingPrice(week({}), basis, 2500)?.expenses).toBe(2500);
+  expect(adviseSellingPrice(week({}), basis, 0)?.expenses).toBe(1000);
+});
+
+test('no advice when nothing would be left to sell', () => {
+  expect(adviseSellingPrice(week({}), { ...basis, wastagePercentage: 100 })).toBeUndefined();
+  expect(adviseSellingPrice(week({ totalLiveWeight: 0, purchaseRate: 0 }), basis)).toBeUndefined();
+});
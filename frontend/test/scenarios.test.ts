@@ -0,0 +1,73 @@
+import { test, expect } from 'vitest';
+import { WeeklyRecord, ScenarioInputs } from '../types';
+import { calculateRecordMetrics } from '../utils/calculations';
+import { scenarioFromWeek, scenarioFromAverages, projectScenario, sliderRange } from '../utils/scenarios';
+
+const sold = (fields: Partial<WeeklyRecord>) =>
+  calculateRecordMetrics({
+    id: 'w1',
+    weekDate: '2026-10-10',
+    totalHens: 100,
+    totalLiveWeight: 200,
+    purchaseRate: 100,
+    totalPurchaseCost: 0,
+    isSalesEntryComplete: true,
+    sellingPrice: 200,
+    cashCollected: 30000,
+    ...fields,
+  });
+
+const inputs: ScenarioInputs = {
+  totalHens: 100,
+  totalLiveWeight: 200,
+  purchaseRate: 100,
+  sellingPrice: 200,
+  wastagePercentage: 25,
+  expenses: 1000,
+};
+
+test('a week\'s own figures project back to its profit', () => {
+  const week = sold({ expenses: [{ category: 'Ice', amount: 1000 }] });
+  expect(scenarioFromWeek(week)).toEqual(inputs);
+  expect(projectScenario(scenarioFromWeek(week)).netProfit).toBeCloseTo(week.netProfit!);
+});
+
+test('opening stock is part of what the week sells from', () => {
+  const week = sold({ openingFromId: 'w0', openingHens: 10, openingWeight: 20, openingCost: 2000 });
+  expect(scenarioFromWeek(week).totalHens).toBe(110);
+  expect(scenarioFromWeek(week).totalLiveWeight).toBe(220);
+});
+
+test('projectScenario sells what is left after wastage at the one price', () => {
+  const week = projectScenario({ ...inputs, sellingPrice: 220, wastagePercentage: 20 });
+  expect(week.meatSold).toBeCloseTo(160);
+  expect(week.totalRevenue).toBeCloseTo(35200);
+  expect(week.netProfit).toBeCloseTo(35200 - 20000 - 1000);
+  expect(week.profitPerHen).toBeCloseTo(142);
+});
+
+test('scenarioFromAverages averages the latest completed weeks', () => {
+  const records = [
+    sold({ id: 'a', weekDate: '2026-09-26', totalLiveWeight: 100, purchaseRate: 90, cashCollected: 16000, expenses: [{ category: 'Ice', amount: 600 }] }),
+    sold({ id: 'b', weekDate: '2026-10-03', cashCollected: 32000, expenses: [{ category: 'Ice', amount: 1400 }] }),
+    { ...sold({ id: 'open', weekDate: '2026-10-10' }), isSalesEntryComplete: false },
+  ];
+  expect(scenarioFromAverages(records)).toEqual({
+    weeks: 2,
+    inputs: {
+      totalHens: 100,
+      totalLiveWeight: 150,
+      purchaseRate: 29000 / 300,
+      sellingPrice: 200,
+      wastagePercentage: (60 / 300) * 100, // 20 kg and 40 kg of 300
+      expenses: 1000,
+    },
+  });
+  expect(scenarioFromAverages([])).toBeUndefined();
+});
+
+test('sliders reach well either side of the starting figure', () => {
+  expect(sliderRange('sellingPrice', 200)).toEqual({ min: 100, max: 300, step: 1 });
+  expect(sliderRange('wastagePercentage', 30)).toEqual({ min: 0, max: 60, step: 0.5 });
+  expect(sliderRange('expenses', 0)).toEqual({ min: 0, max: 1000, step: 50 });
+});
@@ -0,0 +1,80 @@
+import { test, expect } from 'vitest';
+import { WeeklyRecord } from '../types';
+import {
+  parseCsv,
+  guessColumns,
+  parseStatementDate,
+  parseStatementAmount,
+  defaultSellingWindow,
+  reconcileStatement,
+} from '../utils/upiStatement';
+
+const week = (fields: Partial<WeeklyRecord>) =>
+  ({ id: 'w1', weekDate: '2026-10-10', totalHens: 100, totalLiveWeight: 200, purchaseRate: 100, totalPurchaseCost: 20000, ...fields }) as WeeklyRecord;
+
+test('parseCsv handles quoted commas, doubled quotes, CRLF and blank lines', () => {
+  const text = 'Date,Amount,Remarks\r\n11/10/2026,"1,250.00","Paid ""advance"", thanks"\r\n\r\n11/10/2026,300,\n';
+  expect(parseCsv(text)).toEqual([
+    ['Date', 'Amount', 'Remarks'],
+    ['11/10/2026', '1,250.00', 'Paid "advance", thanks'],
+    ['11/10/2026', '300', ''],
+  ]);
+});
+
+test('guessColumns maps the usual bank headers', () => {
+  expect(guessColumns(['Txn Date', 'UTR No', 'Payer VPA', 'Cr/Dr', 'Amount'])).toEqual({
+    date: 0, amount: 4, reference: 1, payer: 2, type: 3,
+  });
+});
+
+test('statement dates are read in the shapes banks export', () => {
+  expect(parseStatementDate('2026-10-11')).toEqual(new Date(2026, 9, 11));
+  expect(parseStatementDate('11/10/2026 07:45 PM')).toEqual(new Date(2026, 9, 11, 19, 45));
+  expect(parseStatementDate('11-Oct-26 12:05 am')).toEqual(new Date(2026, 9, 11, 0, 5));
+  expect(parseStatementDate('31/02/2026')).toBeUndefined();
+  expect(parseStatementDate('yesterday')).toBeUndefined();
+});
+
+test('statement amounts drop the currency and read debits as negative', () => {
+  expect(parseStatementAmount('₹1,250.00')).toBe(1250);
+  expect(parseStatementAmount('Rs 300 CR')).toBe(300);
+  expect(parseStatementAmount('500 DR')).toBe(-500);
+  expect(parseStatementAmount('(75)')).toBe(-75);
+  expect(parseStatementAmount('')).toBeUndefined();
+});
+
+test('the selling window is the week\'s Sunday, or the counter sales with a margin', () => {
+  expect(defaultSellingWindow(week({}))).toEqual({
+    start: new Date(2026, 9, 11, 0, 0, 0),
+    end: new Date(2026, 9, 11, 23, 59, 59),
+  });
+
+  const first = new Date(2026, 9, 11, 8, 0);
+  const last = new Date(2026, 9, 11, 13, 0);
+  const window = defaultSellingWindow(week({
+    posTransactions: [
+      { at: last.toISOString(), weight: 1, price: 240, mode: 'upi' },
+      { at: first.toISOString(), weight: 1, price: 240, mode: 'cash' },
+    ],
+  }));
+  expect(window.start).toEqual(new Date(first.getTime() - 30 * 60 * 1000));
+  expect(window.end).toEqual(new Date(last.getTime() + 30 * 60 * 1000));
+});
+
+test('reconcileStatement sorts credits into matched, outside and duplicates', () => {
+  const rows = [
+    ['11/10/2026 09:00', '500', 'R1', 'CR'],
+    ['11/10/2026 09:05', '500', 'R1', 'CR'], // Same reference
+    ['10/10/2026 18:00', '700', 'R2', 'CR'], // Saturday
+    ['11/10/2026 10:00', '250.50', 'R3', 'CR'],
+    ['11/10/2026 11:00', '200', 'R4', 'DR'],
+    ['not a date', '100', 'R5', 'CR'],
+  ];
+  const result = reconcileStatement(rows, { date: 0, amount: 1, reference: 2, payer: -1, type: 3 }, defaultSellingWindow(week({})));
+  expect(result.matched.map(t => t.reference)).toEqual(['R1', 'R3']);
+  expect(result.duplicates.map(t => t.row)).toEqual([3]);
+  expect(result.outside.map(t => t.reference)).toEqual(['R2']);
+  expect(result.unreadable).toEqual([7]);
+  expect(result.debits).toBe(1);
+  expect(result.total).toBe(750.5);
+});
@@ -1,50 +1,261 @@
+export interface Branch {
+  id: string;
+  name: string;
+  createdAt?: string; // ISO String
+}
+
+// A user-defined kind of Sunday cost
+export interface ExpenseCategory {
+  id: string;
+  name: string;
+  createdAt?: string; // ISO String
+}
+
+export interface ExpenseLine {
+  category: string; // ExpenseCategory name
+  amount: number;
+  note?: string;
+  mode?: PaymentMode; // Missing means paid from the cash drawer
+}
+
+// One row of the end-of-day cash count
+export interface Denomination {
+  value: number; // ₹ per note or coin
+  count: number;
+}
+
+// Something sold over the counter, e.g. curry cut or boneless
+export interface Product {
+  id: string;
+  name: string;
+  price?: number; // Usual price per kg, offered when entering a sale
+  createdAt?: string; // ISO String
+}
+
+// One product sold in a week
+export interface SalesLine {
+  product: string; // Product name at the time of sale
+  quantity: number; // kg
+  price: number; // per kg
+  amount?: number; // Calculated: quantity * price
+}
+
+export type PaymentMode = 'cash' | 'upi';
+
+// One sale logged at the counter (POS screen)
+export interface PosTransaction {
+  at: string; // ISO String
+  weight: number; // kg
+  price: number; // per kg
+  mode: PaymentMode;
+  product?: string;
+}
+
+// A farm the shop buys live birds from
+export interface Supplier {
+  id: string;
+  name: string;
+  phone?: string;
+  location?: string;
+  notes?: string;
+  createdAt?: string; // ISO String
+}
+
+// Money handed to a farm for one purchase lot
+export interface SupplierPayment {
+  amount: number;
+  date: string; // YYYY-MM-DD
+  note?: string;
+}
+
+// One farm's share of a Saturday purchase
+export interface PurchaseLot {
+  supplierId?: string; // Missing for names typed before the supplier directory
+  supplier: string; // Name at the time of purchase
+  hens: number;
+  liveWeight: number; // kg
+  rate: number; // per kg
+  cost?: number; // Calculated: liveWeight * rate
+  payments?: SupplierPayment[]; // Missing when paid in full at purchase
+  date?: string; // YYYY-MM-DD bought; weekDate is only the week's first day
+}
+
+// Money a customer paid back against their credit
+export interface CustomerCollection {
+  amount: number;
+  date: string; // YYYY-MM-DD
+  note?: string;
+}
+
+// A regular who buys on credit (udhaar), e.g. a hotel or mess
+export interface Customer {
+  id: string;
+  branchId: string; // Served by one shop; its balance comes from that shop's weeks
+  name: string;
+  phone?: string;
+  notes?: string;
+  collections?: CustomerCollection[];
+  createdAt?: string; // ISO String
+}
+
+// Meat a customer took on credit in a week
+export interface CreditSale {
+  customerId?: string;
+  customer: string; // Name at the time of sale
+  amount: number;
+  note?: string;
+}
+
+// Branch selector value that combines every branch
+export const CONSOLIDATED_BRANCH = 'all';
+
 export interface WeeklyRecord {
   id: string;
+  branchId?: string; // Shop the week belongs to (missing only on pre-branch records)
   weekDate: string; // The Saturday date identifying the week
   
   // Timestamps
   createdAt?: string; // ISO String
+  updatedAt?: string; // ISO String, set by the server on every save
+  revision?: number; // Server version this copy is based on; sent back on update to catch conflicting edits
   salesCompletedAt?: string; // ISO String
+  deletedAt?: string; // ISO String, set while the week is in the trash
+  deletedBy?: string; // Who moved it there
 
   // Saturday: Purchase Data
+  purchaseLots?: PurchaseLot[]; // When bought from several farms; the figures below are then calculated from them
   totalHens: number;
   totalLiveWeight: number; // kg
-  purchaseRate: number; // per kg
+  purchaseRate: number; // per kg (weighted average across lots)
   totalPurchaseCost: number; // Calculated
+  // Opening stock: birds kept unsold from an earlier week (see utils/stock), copied on save
+  openingFromId?: string; // The week they were kept from
+  openingHens?: number;
+  openingWeight?: number; // Live kg
+  openingCost?: number; // What they cost that week
 
   // Sunday: Sales Data (Optional until filled)
   isSalesEntryComplete: boolean;
-  sellingPrice?: number; // per kg
+  salesLines?: SalesLine[]; // When itemized; meat sold, revenue and the price below then come from them
+  sellingPrice?: number; // per kg (weighted average across sales lines)
   cashCollected?: number;
   upiCollected?: number;
+  creditSales?: CreditSale[]; // Counted in revenue; collected later on the customer
+  posTransactions?: PosTransaction[]; // Counter sales the figures above were rolled up from
+  carryOverHens?: number; // Live birds kept unsold for next week
+  carryOverWeight?: number; // Their live kg
+  carryOverCost?: number; // Calculated: their live kg at the week's average cost
   
   // Expenses
-  expenseTea?: number;
-  expenseFuel?: number;
-  totalExpenses?: number;
+  expenses?: ExpenseLine[];
+  expenseTea?: number; // Legacy: records saved before line items (see getExpenseLines)
+  expenseFuel?: number; // Legacy
+  totalExpenses?: number; // Calculated: sum of the lines
 
   // Computed Metrics
-  totalRevenue?: number;
+  totalCredit?: number; // Sum of the credit sales
+  totalRevenue?: number; // Cash + UPI + credit
   meatSold?: number;
   wastage?: number;
   wastagePercentage?: number;
   netProfit?: number;
   profitPerHen?: number;
   profitPerKg?: number;
+
+  // Yield breakdown (optional weights in kg; see utils/yield)
+  mortalityCount?: number;
+  mortalityWeight?: number; // Live weight of birds that died before slaughter
+  dressedWeight?: number;
+  leftoverWeight?: number; // Dressed meat not sold
+  mortalityPercentage?: number; // Calculated: % of live weight
+  dressingYield?: number; // Calculated: dressed weight as % of the birds slaughtered
+  unexplainedShrinkage?: number; // Calculated: kg dressed but neither sold nor left over
+
+  // Cash drawer, once counted
+  cashDenominations?: Denomination[]; // Notes and coins counted at close
+  cashFloat?: number; // Opening float put in the drawer before selling
+  cashCountedAt?: string; // ISO String
+  cashCounted?: number; // Calculated: sum of the denominations
+  cashExpected?: number; // Calculated: float + cash sales - cash-paid expenses
+  cashVariance?: number; // Calculated: counted - expected (positive is over)
+
+  // Offline sync state (client-only, never sent to the server)
+  syncStatus?: SyncStatus;
+  syncMessage?: string; // Why a write is stuck (conflict or server rejection)
 }
 
-export type WeeklyRecordInput = Omit<WeeklyRecord, 'id' | 'totalPurchaseCost' | 'totalExpenses' | 'totalRevenue' | 'meatSold' | 'wastage' | 'wastagePercentage' | 'netProfit' | 'profitPerHen' | 'profitPerKg'>;
+// pending:  saved on this device, waiting to reach the server
+// conflict: changed on another device while this edit was offline
+// error:    the server rejected the queued write
+export type SyncStatus = 'pending' | 'conflict' | 'error';
+
+// One entry in a week's audit trail (immutable, written by the server)
+export type RevisionAction = 'create' | 'update' | 'delete' | 'undelete' | 'purge' | 'restore';
+
+export type FieldValue = string | number | boolean | null | object[];
+
+export interface FieldChange {
+  field: string;
+  from: FieldValue;
+  to: FieldValue;
+}
+
+export interface RecordRevision {
+  id: string;
+  recordId: string;
+  revision: number; // The record's revision after this action
+  action: RevisionAction;
+  restoredFrom?: number; // For restores: the revision brought back
+  userName?: string;
+  at: string; // ISO String
+  changes: FieldChange[];
+  snapshot: Partial<WeeklyRecord>; // The whole week as it stood after this action
+}
+
+export type WeeklyRecordInput = Omit<WeeklyRecord, 'id' | 'totalPurchaseCost' | 'totalExpenses' | 'totalCredit' | 'totalRevenue' | 'meatSold' | 'wastage' | 'wastagePercentage' | 'netProfit' | 'profitPerHen' | 'profitPerKg' | 'carryOverCost' | 'mortalityPercentage' | 'dressingYield' | 'unexplainedShrinkage' | 'cashCounted' | 'cashExpected' | 'cashVariance'>;
+
+// The week a what-if scenario projects (see utils/scenarios)
+export interface ScenarioInputs {
+  totalHens: number;
+  totalLiveWeight: number; // kg
+  purchaseRate: number; // per kg
+  sellingPrice: number; // per kg
+  wastagePercentage: number; // Of the live weight
+  expenses: number;
+}
+
+// A scenario saved by name on this device, to compare with others
+export interface Scenario extends ScenarioInputs {
+  id: string;
+  name: string;
+  basis: string; // What it started from, e.g. "Week of 17 Oct 2026"
+  savedAt: string; // ISO String
+}
 
 export enum AppView {
   DASHBOARD = 'DASHBOARD',
   ENTRY_PURCHASE = 'ENTRY_PURCHASE',
   ENTRY_SALES = 'ENTRY_SALES',
-  HISTORY = 'HISTORY'
+  HISTORY = 'HISTORY',
+  TRASH = 'TRASH',
+  SUPPLIERS = 'SUPPLIERS',
+  PAYABLES = 'PAYABLES',
+  CUSTOMERS = 'CUSTOMERS',
+  PRODUCTS = 'PRODUCTS',
+  POS = 'POS',
+  SCENARIOS = 'SCENARIOS'
+}
+
+export enum UserRole {
+  OWNER = 'owner',     // Full access
+  CASHIER = 'cashier', // Sunday sales entry for the open week only
+  VIEWER = 'viewer'    // Dashboard only
 }
 
 export interface User {
   id: string;
   name: string;
   email: string;
+  role: UserRole;
   token?: string;
 }
\ No newline at end of file
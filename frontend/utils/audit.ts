@@ -0,0 +1,82 @@
+import { WeeklyRecord, FieldChange, ExpenseLine, PurchaseLot, CreditSale, SalesLine, Denomination } from '../types';
+import { diffRecords as sharedDiffRecords } from '../../shared/audit.js';
+import { formatCurrency, formatNumber } from './calculations';
+
+// Same diff the backend stores in its audit trail
+export const diffRecords = (before: WeeklyRecord | null, after: WeeklyRecord | null): FieldChange[] =>
+  sharedDiffRecords(before, after);
+
+// Labels for the fields users actually type in
+const FIELD_LABELS: Record<string, string> = {
+  branchId: 'Branch',
+  weekDate: 'Week',
+  createdAt: 'Entered at',
+  salesCompletedAt: 'Sales completed at',
+  purchaseLots: 'Purchase lots',
+  totalHens: 'Hens',
+  totalLiveWeight: 'Live weight (kg)',
+  purchaseRate: 'Purchase rate (₹/kg)',
+  isSalesEntryComplete: 'Sales complete',
+  salesLines: 'Products sold',
+  sellingPrice: 'Selling price (₹/kg)',
+  cashCollected: 'Cash',
+  upiCollected: 'UPI',
+  creditSales: 'Credit sales',
+  posTransactions: 'Counter sales',
+  expenses: 'Expenses',
+  expenseTea: 'Tea/Snacks',
+  expenseFuel: 'Fuel',
+  mortalityCount: 'Birds died',
+  mortalityWeight: 'Dead birds weight (kg)',
+  dressedWeight: 'Dressed weight (kg)',
+  leftoverWeight: 'Leftover meat (kg)',
+  carryOverHens: 'Hens kept for next week',
+  carryOverWeight: 'Kept weight (kg)',
+  openingFromId: 'Opening stock from',
+  openingHens: 'Opening hens',
+  openingWeight: 'Opening weight (kg)',
+  openingCost: 'Opening stock cost',
+  cashDenominations: 'Cash count',
+  cashFloat: 'Opening float',
+  cashCountedAt: 'Cash counted at',
+};
+
+// One-line summary of a list field, e.g. "Ice ₹200, Fuel ₹150"
+const formatList = (field: string, items: object[]): string => {
+  if (items.length === 0) return 'None';
+  if (field === 'expenses') {
+    return (items as ExpenseLine[])
+      .map(line => `${line.category} ${formatCurrency(line.amount)}${line.mode === 'upi' ? ' (UPI)' : ''}`)
+      .join(', ');
+  }
+  if (field === 'cashDenominations') {
+    const counted = (items as Denomination[]).filter(row => row.count > 0);
+    return counted.length > 0 ? counted.map(row => `₹${row.value} × ${row.count}`).join(', ') : 'Nothing counted';
+  }
+  if (field === 'salesLines') {
+    return (items as SalesLine[])
+      .map(line => `${line.product} ${formatNumber(line.quantity)} kg @ ${formatCurrency(line.price)}`)
+      .join(', ');
+  }
+  if (field === 'creditSales') {
+    return (items as CreditSale[]).map(sale => `${sale.customer} ${formatCurrency(sale.amount)}`).join(', ');
+  }
+  if (field === 'purchaseLots') {
+    return (items as PurchaseLot[])
+      .map(lot => `${lot.supplier || 'Unnamed'} ${formatNumber(lot.liveWeight)} kg @ ${formatCurrency(lot.rate)}`)
+      .join(', ');
+  }
+  return `${items.length} item${items.length === 1 ? '' : 's'}`;
+};
+
+export const fieldLabel = (field: string) => FIELD_LABELS[field] || field;
+
+export const formatChangeValue = (field: string, value: FieldChange['from']): string => {
+  if (value === null) return '-';
+  if (Array.isArray(value)) return formatList(field, value);
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return formatNumber(value, Number.isInteger(value) ? 0 : 2);
+  if (field === 'weekDate') return new Date(value).toLocaleDateString('en-GB');
+  if (field.endsWith('At')) return new Date(value).toLocaleString('en-IN');
+  return value;
+};
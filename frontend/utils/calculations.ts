@@ -1,63 +1,28 @@
 import { WeeklyRecord } from '../types';
+import { getExpenseLines } from './expenses';
+import { getPurchaseLots } from './purchases';
+import { getCreditSales } from './credit';
+import { hasSalesLines } from './sales';
+import { yieldBreakdown } from './yield';
+import { stockWeight, stockHens } from './stock';
+import {
+  calculateRecordMetrics as sharedCalculateRecordMetrics,
+  stripDerivedFields as sharedStripDerivedFields,
+  toRequestInputs as sharedToRequestInputs
+} from '../../shared/metrics.js';
 
-export const calculateRecordMetrics = (record: WeeklyRecord): WeeklyRecord => {
-  // 1. Saturday Calculation: Purchase Cost
-  const totalPurchaseCost = record.totalLiveWeight * record.purchaseRate;
+// The formula itself lives in /shared so the backend computes identical figures
+export const calculateRecordMetrics = (record: WeeklyRecord): WeeklyRecord =>
+  sharedCalculateRecordMetrics(record);
 
-  // If sales data isn't present, return minimal update
-  if (!record.isSalesEntryComplete) {
-    return {
-      ...record,
-      totalPurchaseCost,
-    };
-  }
-
-  // Ensure values exist (default to 0 to be safe)
-  const sellingPrice = record.sellingPrice || 0;
-  const cash = record.cashCollected || 0;
-  const upi = record.upiCollected || 0;
-  
-  const expenseTea = record.expenseTea || 0;
-  const expenseFuel = record.expenseFuel || 0;
-
-  // 2. Sunday Calculations
-  const totalRevenue = cash + upi;
-  
-  // Strict Formula: meatSold = totalRevenue / sellingPrice
-  // Avoid division by zero
-  const meatSold = sellingPrice > 0 ? totalRevenue / sellingPrice : 0;
-
-  const wastage = record.totalLiveWeight - meatSold;
-  
-  const wastagePercentage = record.totalLiveWeight > 0 
-    ? (wastage / record.totalLiveWeight) * 100 
-    : 0;
-
-  const totalExpenses = expenseTea + expenseFuel;
-
-  const netProfit = totalRevenue - (totalPurchaseCost + totalExpenses);
-
-  const profitPerHen = record.totalHens > 0 
-    ? netProfit / record.totalHens 
-    : 0;
-
-  const profitPerKg = meatSold > 0 
-    ? netProfit / meatSold 
-    : 0;
+// Drops computed fields so only raw inputs are sent to the backend
+export const stripDerivedFields = (record: WeeklyRecord): Partial<WeeklyRecord> =>
+  sharedStripDerivedFields(record);
 
-  return {
-    ...record,
-    totalPurchaseCost,
-    totalRevenue,
-    meatSold,
-    wastage,
-    wastagePercentage,
-    totalExpenses,
-    netProfit,
-    profitPerHen,
-    profitPerKg
-  };
-};
+// Inputs for a request body, with cleared fields sent as null so the backend
+// clears them too
+export const toRequestInputs = (record: WeeklyRecord): Record<string, unknown> =>
+  sharedToRequestInputs(record);
 
 export const formatCurrency = (amount: number | undefined) => {
   if (amount === undefined) return '-';
@@ -71,4 +36,75 @@ export const formatCurrency = (amount: number | undefined) => {
 export const formatNumber = (num: number | undefined, decimals = 2) => {
   if (num === undefined) return '-';
   return num.toLocaleString('en-IN', { maximumFractionDigits: decimals, minimumFractionDigits: decimals });
-};
\ No newline at end of file
+};
+
+const YIELD_WEIGHTS = ['mortalityCount', 'mortalityWeight', 'dressedWeight', 'leftoverWeight'] as const;
+const STOCK_FIELDS = ['openingHens', 'openingWeight', 'openingCost', 'carryOverHens', 'carryOverWeight', 'carryOverCost'] as const;
+
+// Merges completed records that share a weekDate (one per branch) into a single
+// combined week, so consolidated charts show one point per weekend.
+export const combineWeeks = (records: WeeklyRecord[]): WeeklyRecord[] => {
+  const byWeek = new Map<string, WeeklyRecord>();
+
+  records.filter(r => r.isSalesEntryComplete).forEach(r => {
+    const week = byWeek.get(r.weekDate);
+    if (!week) {
+      byWeek.set(r.weekDate, {
+        ...r,
+        id: `week-${r.weekDate}`,
+        branchId: undefined,
+        purchaseLots: getPurchaseLots(r),
+        expenses: getExpenseLines(r),
+        creditSales: getCreditSales(r),
+        salesLines: r.salesLines,
+      });
+      return;
+    }
+    week.purchaseLots = [...(week.purchaseLots || []), ...getPurchaseLots(r)];
+    week.expenses = [...(week.expenses || []), ...getExpenseLines(r)];
+    week.creditSales = [...(week.creditSales || []), ...getCreditSales(r)];
+    // Lines only describe the whole weekend if every branch itemized
+    week.salesLines = hasSalesLines(week) && hasSalesLines(r) ? [...(week.salesLines || []), ...(r.salesLines || [])] : undefined;
+    week.totalHens += r.totalHens;
+    week.totalLiveWeight += r.totalLiveWeight;
+    week.totalPurchaseCost += r.totalPurchaseCost;
+    week.cashCollected = (week.cashCollected || 0) + (r.cashCollected || 0);
+    week.upiCollected = (week.upiCollected || 0) + (r.upiCollected || 0);
+    week.totalCredit = (week.totalCredit || 0) + (r.totalCredit || 0);
+    week.totalExpenses = (week.totalExpenses || 0) + (r.totalExpenses || 0);
+    week.totalRevenue = (week.totalRevenue || 0) + (r.totalRevenue || 0);
+    week.meatSold = (week.meatSold || 0) + (r.meatSold || 0);
+    week.wastage = (week.wastage || 0) + (r.wastage || 0);
+    week.netProfit = (week.netProfit || 0) + (r.netProfit || 0);
+    STOCK_FIELDS.forEach(field => {
+      if (week[field] !== undefined || r[field] !== undefined) week[field] = (week[field] || 0) + (r[field] || 0);
+    });
+    if (r.cashVariance !== undefined) week.cashVariance = (week.cashVariance || 0) + r.cashVariance;
+    // A yield weight only describes the weekend if every branch weighed it
+    YIELD_WEIGHTS.forEach(field => {
+      const mine = week[field];
+      const theirs = r[field];
+      week[field] = mine !== undefined && theirs !== undefined ? mine + theirs : undefined;
+    });
+  });
+
+  // Ratios must be recomputed from the summed totals, not added up
+  return Array.from(byWeek.values()).map(week => {
+    const meatSold = week.meatSold || 0;
+    const netProfit = week.netProfit || 0;
+    const soldFrom = stockWeight(week);
+    const hens = stockHens(week);
+    const { mortalityPercentage, dressingYield, unexplainedShrinkage } = yieldBreakdown(week);
+    return {
+      ...week,
+      mortalityPercentage,
+      dressingYield,
+      unexplainedShrinkage,
+      purchaseRate: week.totalLiveWeight > 0 ? week.totalPurchaseCost / week.totalLiveWeight : 0,
+      sellingPrice: meatSold > 0 ? (week.totalRevenue || 0) / meatSold : 0,
+      wastagePercentage: soldFrom > 0 ? ((week.wastage || 0) / soldFrom) * 100 : 0,
+      profitPerHen: hens > 0 ? netProfit / hens : 0,
+      profitPerKg: meatSold > 0 ? netProfit / meatSold : 0,
+    };
+  });
+};
@@ -0,0 +1,26 @@
+import { WeeklyRecord, Denomination } from '../types';
+import {
+  DENOMINATIONS as SHARED_DENOMINATIONS,
+  countedCash as sharedCountedCash,
+  cashSales as sharedCashSales,
+  cashExpenses as sharedCashExpenses,
+  expectedCash as sharedExpectedCash
+} from '../../shared/cash.js';
+
+// Notes and coins in the drawer, largest first
+export const DENOMINATIONS: number[] = SHARED_DENOMINATIONS;
+
+export const countedCash = (denominations: Denomination[] | undefined): number =>
+  sharedCountedCash(denominations);
+
+export const cashSales = (record: WeeklyRecord): number => sharedCashSales(record);
+
+export const cashExpenses = (record: WeeklyRecord): number => sharedCashExpenses(record);
+
+// Same figure the server saves as cashExpected
+export const expectedCash = (record: WeeklyRecord, float?: number): number =>
+  sharedExpectedCash(record, float);
+
+// Counted and the drawer did not match
+export const hasCashVariance = (record: WeeklyRecord): boolean =>
+  record.cashVariance !== undefined && record.cashVariance !== 0;
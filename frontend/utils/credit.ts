@@ -0,0 +1,42 @@
+import { WeeklyRecord, Customer, CreditSale } from '../types';
+import {
+  getCreditSales as sharedGetCreditSales,
+  sumCreditSales as sharedSumCreditSales,
+  customerBalance as sharedCustomerBalance,
+  customerLedger as sharedCustomerLedger,
+  collectionsBetween as sharedCollectionsBetween
+} from '../../shared/credit.js';
+
+export interface CustomerBalance {
+  credited: number;
+  collected: number;
+  outstanding: number; // Negative when paid in advance
+}
+
+// One line of a customer's account
+export interface LedgerEntry {
+  type: 'sale' | 'collection';
+  date: string; // YYYY-MM-DD; a sale's week
+  amount: number;
+  note?: string;
+  recordId?: string; // Week of a sale
+  balance: number; // Owed after this entry
+}
+
+export const getCreditSales = (record: WeeklyRecord): CreditSale[] =>
+  sharedGetCreditSales(record);
+
+export const sumCreditSales = (sales: CreditSale[]): number =>
+  sharedSumCreditSales(sales);
+
+// `records` must cover the customer's branch
+export const customerBalance = (customer: Customer, records: WeeklyRecord[]): CustomerBalance =>
+  sharedCustomerBalance(customer, records);
+
+// Oldest first
+export const customerLedger = (customer: Customer, records: WeeklyRecord[]): LedgerEntry[] =>
+  sharedCustomerLedger(customer, records);
+
+// Dates are YYYY-MM-DD, inclusive
+export const collectionsBetween = (customers: Customer[], from: string, to: string): number =>
+  sharedCollectionsBetween(customers, from, to);
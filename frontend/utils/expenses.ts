@@ -0,0 +1,26 @@
+import { WeeklyRecord, ExpenseLine } from '../types';
+import {
+  DEFAULT_EXPENSE_CATEGORIES as SHARED_DEFAULT_CATEGORIES,
+  getExpenseLines as sharedGetExpenseLines,
+  migrateLegacyExpenses as sharedMigrateLegacyExpenses,
+  sumExpenses as sharedSumExpenses,
+  expensesByCategory as sharedExpensesByCategory
+} from '../../shared/expenses.js';
+
+// The rules live in /shared so the backend totals expenses the same way
+
+export const DEFAULT_EXPENSE_CATEGORIES: string[] = SHARED_DEFAULT_CATEGORIES;
+
+// Old records keep tea/fuel in fixed fields; this always returns lines
+export const getExpenseLines = (record: WeeklyRecord): ExpenseLine[] =>
+  sharedGetExpenseLines(record);
+
+export const migrateLegacyExpenses = (record: WeeklyRecord): WeeklyRecord =>
+  sharedMigrateLegacyExpenses(record);
+
+export const sumExpenses = (lines: ExpenseLine[]): number =>
+  sharedSumExpenses(lines);
+
+// Totals per category across records, largest first
+export const expensesByCategory = (records: WeeklyRecord[]): { category: string; amount: number }[] =>
+  sharedExpensesByCategory(records);
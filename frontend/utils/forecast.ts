@@ -0,0 +1,214 @@
+import { WeeklyRecord } from '../types';
+import { stockWeight, stockHens } from './stock';
+import { weekStartOf } from './weeks';
+
+// How much to buy for a coming week, from the demand of completed weeks.
+// Demand is the meat sold: the average of the last few weeks, moved along the
+// recent trend, and scaled by how the same week went last year relative to
+// the weeks before it (festivals, exams, wedding season). Meat is turned into
+// live weight and hens with the recent weeks' own ratios. The range comes from
+// how far off this same forecast was on past weeks (see backtestForecast).
+// Weeks that sold out early understate demand, so read the low end with care.
+
+const RECENT_WEEKS = 4; // Averaged for the level
+const TREND_WEEKS = 8; // Fitted for the trend and the conversion ratios
+const MIN_WEEKS = 3; // Needed before anything is forecast
+const ERROR_WEEKS = 12; // Past misses the range is taken from
+const Z_80 = 1.28; // Range covers about 80% of weeks if misses are normal
+const MIN_SPREAD = 0.1; // Never claim better than ±10%
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ForecastBasis {
+  weeks: number; // Completed weeks available
+  recentAverage: number; // Meat sold, kg, over the last few weeks
+  trendPerWeek: number; // kg more (or less) each week
+  seasonalFactor?: number; // Set when last year's same week is known
+  seasonalWeek?: string; // Its weekDate
+  meatPerLiveKg: number;
+  kgPerHen: number;
+  spread: number; // Half the range, as a share of the forecast
+}
+
+export interface DemandForecast {
+  weekDate: string;
+  meatSold: number; // kg of meat expected to sell
+  meatLow: number;
+  meatHigh: number;
+  liveWeight: number; // Live kg to buy for it
+  liveLow: number;
+  liveHigh: number;
+  hens: number;
+  hensLow: number;
+  hensHigh: number;
+  basis: ForecastBasis;
+}
+
+export interface BacktestRow {
+  weekDate: string;
+  forecast: number; // kg of meat
+  low: number;
+  high: number;
+  actual: number;
+}
+
+export interface Backtest {
+  rows: BacktestRow[]; // Oldest first
+  meanAbsPercentError: number; // Average miss, % of the actual
+  bias: number; // Average (forecast - actual), % of the actual; positive means over-buying
+  coverage: number; // % of weeks whose actual fell inside the range
+}
+
+const dayNumber = (date: string) => Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+
+const addDays = (date: string, days: number) =>
+  new Date((dayNumber(date) + days) * DAY_MS).toISOString().slice(0, 10);
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Completed weeks with stock to sell from, oldest first
+const usableWeeks = (records: WeeklyRecord[]) =>
+  records
+    .filter(r => r.isSalesEntryComplete && stockWeight(r) > 0)
+    .sort((a, b) => a.weekDate.localeCompare(b.weekDate));
+
+// Least-squares slope of meat sold per week, over actual dates so gaps count
+const trendOf = (weeks: WeeklyRecord[]) => {
+  if (weeks.length < 2) return 0;
+  const xs = weeks.map(w => dayNumber(w.weekDate) / 7);
+  const ys = weeks.map(w => w.meatSold || 0);
+  const mx = mean(xs);
+  const my = mean(ys);
+  const sxx = xs.reduce((sum, x) => sum + (x - mx) ** 2, 0);
+  return sxx > 0 ? xs.reduce((sum, x, i) => sum + (x - mx) * (ys[i] - my), 0) / sxx : 0;
+};
+
+// Last year's week nearest `weekDate`, against the weeks just before it
+const seasonalityOf = (weeks: WeeklyRecord[], weekDate: string) => {
+  const target = dayNumber(weekDate) - 364;
+  const index = weeks.findIndex(w => Math.abs(dayNumber(w.weekDate) - target) <= 3);
+  if (index < 0) return undefined;
+  const before = weeks
+    .slice(0, index)
+    .filter(w => dayNumber(weeks[index].weekDate) - dayNumber(w.weekDate) <= 8 * 7)
+    .slice(-RECENT_WEEKS);
+  const baseline = before.length > 0 ? mean(before.map(w => w.meatSold || 0)) : 0;
+  if (baseline <= 0) return undefined;
+  const factor = Math.min(2, Math.max(0.5, (weeks[index].meatSold || 0) / baseline));
+  return { factor, weekDate: weeks[index].weekDate };
+};
+
+// Meat expected to sell in `weekDate`, from `weeks` (completed, oldest first,
+// all before it); undefined with too little history
+const pointForecast = (weeks: WeeklyRecord[], weekDate: string) => {
+  if (weeks.length < MIN_WEEKS) return undefined;
+  const recent = weeks.slice(-RECENT_WEEKS);
+  const trendWeeks = weeks.slice(-TREND_WEEKS);
+  const recentAverage = mean(recent.map(w => w.meatSold || 0));
+  const trendPerWeek = trendOf(trendWeeks);
+  // The average sits at the middle of the recent weeks; project from there
+  const weeksAhead = (dayNumber(weekDate) - mean(recent.map(w => dayNumber(w.weekDate)))) / 7;
+  const seasonal = seasonalityOf(weeks, weekDate);
+  const meatSold = Math.max(0, (recentAverage + trendPerWeek * weeksAhead) * (seasonal?.factor ?? 1));
+
+  const live = trendWeeks.reduce((sum, w) => sum + stockWeight(w), 0);
+  const hens = trendWeeks.reduce((sum, w) => sum + stockHens(w), 0);
+  const meat = trendWeeks.reduce((sum, w) => sum + (w.meatSold || 0), 0);
+  return {
+    meatSold,
+    recentAverage,
+    trendPerWeek,
+    seasonal,
+    meatPerLiveKg: live > 0 ? meat / live : 0,
+    kgPerHen: hens > 0 ? live / hens : 0,
+  };
+};
+
+// Half the range, from past relative misses; with too few of them, from how
+// much demand itself moves
+const spreadOf = (misses: number[], weeks: WeeklyRecord[]) => {
+  const recent = misses.slice(-ERROR_WEEKS);
+  if (recent.length >= MIN_WEEKS) {
+    return Math.max(MIN_SPREAD, Z_80 * Math.sqrt(mean(recent.map(m => m * m))));
+  }
+  const demand = weeks.slice(-TREND_WEEKS).map(w => w.meatSold || 0);
+  const average = mean(demand);
+  const deviation = Math.sqrt(mean(demand.map(d => (d - average) ** 2)));
+  return Math.max(MIN_SPREAD, average > 0 ? (Z_80 * deviation) / average : MIN_SPREAD);
+};
+
+// Forecasts each completed week from the weeks before it only, as if made the
+// Saturday before, and compares with what was sold
+export const backtestForecast = (records: WeeklyRecord[]): Backtest | undefined => {
+  const weeks = usableWeeks(records);
+  const rows: BacktestRow[] = [];
+  const misses: number[] = [];
+
+  weeks.forEach((week, index) => {
+    const earlier = weeks.slice(0, index);
+    const point = pointForecast(earlier, week.weekDate);
+    if (!point || point.meatSold <= 0) return;
+    const spread = spreadOf(misses, earlier);
+    const actual = week.meatSold || 0;
+    rows.push({
+      weekDate: week.weekDate,
+      forecast: point.meatSold,
+      low: point.meatSold * (1 - spread),
+      high: point.meatSold * (1 + spread),
+      actual,
+    });
+    misses.push(actual / point.meatSold - 1);
+  });
+
+  const scored = rows.filter(row => row.actual > 0);
+  if (scored.length === 0) return undefined;
+  return {
+    rows,
+    meanAbsPercentError: mean(scored.map(row => Math.abs(row.forecast - row.actual) / row.actual)) * 100,
+    bias: mean(scored.map(row => (row.forecast - row.actual) / row.actual)) * 100,
+    coverage: (rows.filter(row => row.actual >= row.low && row.actual <= row.high).length / rows.length) * 100,
+  };
+};
+
+// What to buy for `weekDate`, from the completed weeks before it
+export const forecastDemand = (records: WeeklyRecord[], weekDate: string): DemandForecast | undefined => {
+  const weeks = usableWeeks(records).filter(w => w.weekDate < weekDate);
+  const point = pointForecast(weeks, weekDate);
+  if (!point || point.meatPerLiveKg <= 0 || point.kgPerHen <= 0) return undefined;
+
+  const backtest = backtestForecast(weeks);
+  const misses = (backtest?.rows || []).filter(row => row.forecast > 0).map(row => row.actual / row.forecast - 1);
+  const spread = spreadOf(misses, weeks);
+  const toLive = (meat: number) => meat / point.meatPerLiveKg;
+  const toHens = (meat: number) => Math.round(toLive(meat) / point.kgPerHen);
+  const low = point.meatSold * (1 - spread);
+  const high = point.meatSold * (1 + spread);
+
+  return {
+    weekDate,
+    meatSold: point.meatSold,
+    meatLow: low,
+    meatHigh: high,
+    liveWeight: toLive(point.meatSold),
+    liveLow: toLive(low),
+    liveHigh: toLive(high),
+    hens: toHens(point.meatSold),
+    hensLow: toHens(low),
+    hensHigh: toHens(high),
+    basis: {
+      weeks: weeks.length,
+      recentAverage: point.recentAverage,
+      trendPerWeek: point.trendPerWeek,
+      seasonalFactor: point.seasonal?.factor,
+      seasonalWeek: point.seasonal?.weekDate,
+      meatPerLiveKg: point.meatPerLiveKg,
+      kgPerHen: point.kgPerHen,
+      spread,
+    },
+  };
+};
+
+// The week the next purchase is for: this week, unless it already has a record
+export const nextPurchaseWeek = (records: WeeklyRecord[], today: string): string => {
+  const thisWeek = weekStartOf(today);
+  return records.some(r => r.weekDate === thisWeek) ? addDays(thisWeek, 7) : thisWeek;
+};
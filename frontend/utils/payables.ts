@@ -0,0 +1,47 @@
+import { WeeklyRecord, PurchaseLot } from '../types';
+import {
+  lotPaid as sharedLotPaid,
+  lotOutstanding as sharedLotOutstanding,
+  getPayables as sharedGetPayables,
+  payablesBySupplier as sharedPayablesBySupplier,
+  totalOutstanding as sharedTotalOutstanding
+} from '../../shared/payables.js';
+
+// A purchase lot with money still owed to its supplier
+export interface Payable {
+  recordId: string;
+  branchId?: string;
+  weekDate: string;
+  lotIndex: number; // Position in the week's purchase lots
+  supplierId?: string;
+  supplier: string;
+  cost: number;
+  paid: number;
+  outstanding: number;
+  purchaseDate: string; // YYYY-MM-DD the lot was bought
+  ageDays: number; // Days since it was bought
+}
+
+export interface SupplierPayables {
+  supplierId?: string;
+  supplier: string;
+  outstanding: number;
+  oldestAgeDays: number;
+  payables: Payable[];
+}
+
+// Lots without payments were paid in full at purchase
+export const lotPaid = (lot: PurchaseLot): number => sharedLotPaid(lot);
+
+export const lotOutstanding = (lot: PurchaseLot): number => sharedLotOutstanding(lot);
+
+// Oldest first
+export const getPayables = (records: WeeklyRecord[], today?: Date): Payable[] =>
+  sharedGetPayables(records, today);
+
+// Largest first
+export const payablesBySupplier = (payables: Payable[]): SupplierPayables[] =>
+  sharedPayablesBySupplier(payables);
+
+export const totalOutstanding = (payables: Payable[]): number =>
+  sharedTotalOutstanding(payables);
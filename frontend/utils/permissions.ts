@@ -0,0 +1,35 @@
+import { User, UserRole, WeeklyRecord } from '../types';
+
+// What each role may do in the UI. The backend enforces the same rules;
+// this only decides which screens and buttons to show.
+export type Action =
+  | 'viewHistory'
+  | 'enterPurchase'
+  | 'editPurchase'
+  | 'enterSales'
+  | 'deleteRecord'
+  | 'exportReport'
+  | 'manageBranches'
+  | 'manageSuppliers'
+  | 'recordCredit'
+  | 'manageCustomers'
+  | 'manageProducts'
+  | 'restoreRevision'
+  | 'planScenarios';
+
+const ROLE_ACTIONS: Record<UserRole, Action[]> = {
+  [UserRole.OWNER]: ['viewHistory', 'enterPurchase', 'editPurchase', 'enterSales', 'deleteRecord', 'exportReport', 'manageBranches', 'manageSuppliers', 'recordCredit', 'manageCustomers', 'manageProducts', 'restoreRevision', 'planScenarios'],
+  [UserRole.CASHIER]: ['viewHistory', 'enterSales', 'recordCredit'],
+  [UserRole.VIEWER]: [],
+};
+
+export const can = (user: User | null, action: Action): boolean => {
+  if (!user) return false;
+  return (ROLE_ACTIONS[user.role] || []).includes(action);
+};
+
+// Owners can reopen any week; cashiers only the one still awaiting sales
+export const canEditSales = (user: User | null, record: WeeklyRecord): boolean => {
+  if (!can(user, 'enterSales')) return false;
+  return can(user, 'editPurchase') || !record.isSalesEntryComplete;
+};
@@ -0,0 +1,25 @@
+import { WeeklyRecord, PosTransaction } from '../types';
+import {
+  transactionAmount as sharedTransactionAmount,
+  summarizeTransactions as sharedSummarizeTransactions,
+  rollUpTransactions as sharedRollUpTransactions
+} from '../../shared/pos.js';
+
+export interface PosSummary {
+  count: number;
+  weight: number; // kg sold
+  cash: number;
+  upi: number;
+  total: number;
+  sellingPrice: number; // Weighted by weight
+}
+
+export const transactionAmount = (transaction: PosTransaction): number =>
+  sharedTransactionAmount(transaction);
+
+export const summarizeTransactions = (transactions: PosTransaction[]): PosSummary =>
+  sharedSummarizeTransactions(transactions);
+
+// The same roll-up the closing of the day saves
+export const rollUpTransactions = (record: WeeklyRecord, transactions: PosTransaction[]): WeeklyRecord =>
+  sharedRollUpTransactions(record, transactions);
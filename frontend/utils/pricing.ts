@@ -0,0 +1,83 @@
+import { WeeklyRecord } from '../types';
+import { getPurchaseLots, summarizeLots } from './purchases';
+import { stockWeight } from './stock';
+
+// Selling price advice for a week about to be sold: the per-kg price that
+// covers the stock and expenses after the usual wastage, and the prices that
+// leave the target margins on top. The usual wastage and expenses come from
+// the branch's recent completed weeks, which are shown with the advice.
+
+// Profit as a % of revenue
+export const TARGET_MARGINS = [10, 20, 30];
+
+// Recent weeks the history is taken from
+const BASIS_WEEKS = 8;
+
+export interface PricingBasis {
+  weeks: number;
+  from: string; // weekDate of the oldest week used
+  to: string; // and of the latest
+  wastagePercentage: number; // Of the live weight sold from, over all the weeks
+  averageExpenses: number; // Per week
+}
+
+export interface PriceAdvice {
+  stockCost: number; // Purchases plus any opening stock
+  sellableWeight: number; // Live kg on hand less the usual wastage
+  expenses: number;
+  expensesEntered: boolean; // False when the average from history was used
+  breakEven: number; // Per kg
+  targets: { margin: number; price: number }[];
+  basis: PricingBasis;
+}
+
+// The branch's latest completed weeks before `record`
+export const pricingBasis = (record: WeeklyRecord, records: WeeklyRecord[]): PricingBasis | undefined => {
+  const weeks = records
+    .filter(r =>
+      r.isSalesEntryComplete &&
+      r.id !== record.id &&
+      r.branchId === record.branchId &&
+      r.weekDate < record.weekDate &&
+      stockWeight(r) > 0)
+    .sort((a, b) => b.weekDate.localeCompare(a.weekDate))
+    .slice(0, BASIS_WEEKS);
+  if (weeks.length === 0) return undefined;
+
+  const weight = weeks.reduce((sum, r) => sum + stockWeight(r), 0);
+  const wastage = weeks.reduce((sum, r) => sum + (r.wastage || 0), 0);
+  return {
+    weeks: weeks.length,
+    from: weeks[weeks.length - 1].weekDate,
+    to: weeks[0].weekDate,
+    wastagePercentage: (wastage / weight) * 100,
+    averageExpenses: weeks.reduce((sum, r) => sum + (r.totalExpenses || 0), 0) / weeks.length,
+  };
+};
+
+// Advice for `record` as bought (its lots or purchase figures, plus opening
+// stock). Pass the expenses entered so far, if any; otherwise the usual ones
+// are assumed. Undefined when nothing would be left to sell.
+export const adviseSellingPrice = (
+  record: WeeklyRecord,
+  basis: PricingBasis,
+  enteredExpenses?: number
+): PriceAdvice | undefined => {
+  const stockCost = summarizeLots(getPurchaseLots(record)).totalPurchaseCost + (record.openingCost || 0);
+  const onHand = record.totalLiveWeight + (record.openingWeight || 0);
+  const sellableWeight = onHand * (1 - basis.wastagePercentage / 100);
+  if (sellableWeight <= 0 || stockCost <= 0) return undefined;
+
+  const expensesEntered = enteredExpenses !== undefined && enteredExpenses > 0;
+  const expenses = expensesEntered ? enteredExpenses : basis.averageExpenses;
+  const breakEven = (stockCost + expenses) / sellableWeight;
+  return {
+    stockCost,
+    sellableWeight,
+    expenses,
+    expensesEntered,
+    breakEven,
+    targets: TARGET_MARGINS.map(margin => ({ margin, price: breakEven / (1 - margin / 100) })),
+    basis,
+  };
+};
@@ -0,0 +1,37 @@
+import { WeeklyRecord, PurchaseLot } from '../types';
+import {
+  hasPurchaseLots as sharedHasPurchaseLots,
+  getPurchaseLots as sharedGetPurchaseLots,
+  lotCost as sharedLotCost,
+  summarizeLots as sharedSummarizeLots,
+  withLotDates as sharedWithLotDates,
+  purchaseDateOf as sharedPurchaseDateOf
+} from '../../shared/purchases.js';
+
+// The rules live in /shared so the backend totals lots the same way
+
+export const hasPurchaseLots = (record: WeeklyRecord): boolean =>
+  sharedHasPurchaseLots(record);
+
+// Single-purchase records come back as one lot with no supplier
+export const getPurchaseLots = (record: WeeklyRecord): PurchaseLot[] =>
+  sharedGetPurchaseLots(record);
+
+// Undated lots get the record's weekDate; call before it is normalised
+export const withLotDates = (record: WeeklyRecord): WeeklyRecord =>
+  sharedWithLotDates(record);
+
+// The earliest lot's date, or weekDate for undated records
+export const purchaseDateOf = (record: WeeklyRecord): string =>
+  sharedPurchaseDateOf(record);
+
+export const lotCost = (lot: PurchaseLot): number =>
+  sharedLotCost(lot);
+
+// Week totals; purchaseRate is weighted by live weight
+export const summarizeLots = (lots: PurchaseLot[]): {
+  totalHens: number;
+  totalLiveWeight: number;
+  totalPurchaseCost: number;
+  purchaseRate: number;
+} => sharedSummarizeLots(lots);
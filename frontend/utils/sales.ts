@@ -0,0 +1,27 @@
+import { WeeklyRecord, SalesLine } from '../types';
+import {
+  DEFAULT_PRODUCTS as SHARED_DEFAULT_PRODUCTS,
+  NOT_ITEMIZED as SHARED_NOT_ITEMIZED,
+  hasSalesLines as sharedHasSalesLines,
+  lineAmount as sharedLineAmount,
+  summarizeSalesLines as sharedSummarizeSalesLines,
+  salesByProduct as sharedSalesByProduct
+} from '../../shared/sales.js';
+
+// The rules live in /shared so the backend prices sales the same way
+
+export const DEFAULT_PRODUCTS: string[] = SHARED_DEFAULT_PRODUCTS;
+
+export const NOT_ITEMIZED: string = SHARED_NOT_ITEMIZED;
+
+export const hasSalesLines = (record: WeeklyRecord): boolean => sharedHasSalesLines(record);
+
+export const lineAmount = (line: SalesLine): number => sharedLineAmount(line);
+
+// sellingPrice is weighted by quantity
+export const summarizeSalesLines = (lines: SalesLine[]): { meatSold: number; revenue: number; sellingPrice: number } =>
+  sharedSummarizeSalesLines(lines);
+
+// Largest revenue first; weeks without lines are grouped under NOT_ITEMIZED
+export const salesByProduct = (records: WeeklyRecord[]): { product: string; quantity: number; revenue: number }[] =>
+  sharedSalesByProduct(records);
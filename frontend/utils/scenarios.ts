@@ -0,0 +1,77 @@
+import { WeeklyRecord, ScenarioInputs } from '../types';
+import { calculateRecordMetrics } from './calculations';
+import { stockWeight, stockHens } from './stock';
+
+// What-if projections: a week's figures with the purchase rate, selling
+// price, wastage and expenses changed. The week is run through the same
+// calculateRecordMetrics as real weeks, with the meat sold taken from the
+// wastage and all of it sold at the one price.
+
+// Recent completed weeks the averages are taken from
+const AVERAGE_WEEKS = 8;
+
+const SCENARIO_CATEGORY = 'Expenses';
+
+export const scenarioFromWeek = (record: WeeklyRecord): ScenarioInputs => ({
+  totalHens: stockHens(record),
+  totalLiveWeight: stockWeight(record),
+  purchaseRate: record.purchaseRate,
+  sellingPrice: record.sellingPrice || 0,
+  wastagePercentage: record.wastagePercentage || 0,
+  expenses: record.totalExpenses || 0,
+});
+
+// The last few completed weeks: totals averaged, rates weighted by weight
+export const scenarioFromAverages = (records: WeeklyRecord[]): { inputs: ScenarioInputs; weeks: number } | undefined => {
+  const weeks = records
+    .filter(r => r.isSalesEntryComplete && stockWeight(r) > 0)
+    .sort((a, b) => b.weekDate.localeCompare(a.weekDate))
+    .slice(0, AVERAGE_WEEKS);
+  if (weeks.length === 0) return undefined;
+
+  const sum = (value: (r: WeeklyRecord) => number) => weeks.reduce((total, r) => total + value(r), 0);
+  const liveWeight = sum(r => r.totalLiveWeight);
+  const soldFrom = sum(stockWeight);
+  const meatSold = sum(r => r.meatSold || 0);
+  return {
+    weeks: weeks.length,
+    inputs: {
+      totalHens: Math.round(sum(stockHens) / weeks.length),
+      totalLiveWeight: soldFrom / weeks.length,
+      purchaseRate: liveWeight > 0 ? sum(r => r.totalPurchaseCost) / liveWeight : 0,
+      sellingPrice: meatSold > 0 ? sum(r => r.totalRevenue || 0) / meatSold : 0,
+      wastagePercentage: (sum(r => r.wastage || 0) / soldFrom) * 100,
+      expenses: sum(r => r.totalExpenses || 0) / weeks.length,
+    },
+  };
+};
+
+// The projected week, with revenue, profit and the per-hen and per-kg figures set
+export const projectScenario = (inputs: ScenarioInputs): WeeklyRecord => {
+  const meatSold = inputs.totalLiveWeight * (1 - inputs.wastagePercentage / 100);
+  return calculateRecordMetrics({
+    id: '',
+    weekDate: '',
+    totalHens: inputs.totalHens,
+    totalLiveWeight: inputs.totalLiveWeight,
+    purchaseRate: inputs.purchaseRate,
+    totalPurchaseCost: 0,
+    isSalesEntryComplete: true,
+    sellingPrice: inputs.sellingPrice,
+    cashCollected: Math.max(0, meatSold) * inputs.sellingPrice,
+    upiCollected: 0,
+    expenses: inputs.expenses > 0 ? [{ category: SCENARIO_CATEGORY, amount: inputs.expenses }] : [],
+  });
+};
+
+// Slider limits around the starting figures
+export const sliderRange = (field: 'purchaseRate' | 'sellingPrice' | 'wastagePercentage' | 'expenses', base: number) => {
+  switch (field) {
+    case 'wastagePercentage':
+      return { min: 0, max: Math.max(50, Math.ceil(base * 2)), step: 0.5 };
+    case 'expenses':
+      return { min: 0, max: Math.max(1000, Math.ceil((base * 2) / 100) * 100), step: 50 };
+    default:
+      return { min: Math.floor(base * 0.5), max: Math.max(10, Math.ceil(base * 1.5)), step: 1 };
+  }
+};
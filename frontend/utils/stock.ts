@@ -0,0 +1,39 @@
+import { WeeklyRecord } from '../types';
+import {
+  stockWeight as sharedStockWeight,
+  stockHens as sharedStockHens,
+  averageStockCost as sharedAverageStockCost,
+  hasCarryOver as sharedHasCarryOver,
+  openingStockFrom as sharedOpeningStockFrom,
+  withoutOpeningStock as sharedWithoutOpeningStock,
+  openingStockProblem as sharedOpeningStockProblem,
+  findCarryOverSource as sharedFindCarryOverSource
+} from '../../shared/stock.js';
+
+type OpeningStock = Pick<WeeklyRecord, 'openingFromId' | 'openingHens' | 'openingWeight' | 'openingCost'>;
+
+// Live kg and birds the week sold from: purchases plus opening stock, less what was kept
+export const stockWeight = (record: WeeklyRecord): number => sharedStockWeight(record);
+
+export const stockHens = (record: WeeklyRecord): number => sharedStockHens(record);
+
+// Purchases plus opening stock, per live kg; what kept birds are costed at
+export const averageStockCost = (record: WeeklyRecord, totalPurchaseCost?: number): number =>
+  sharedAverageStockCost(record, totalPurchaseCost);
+
+export const hasCarryOver = (record: WeeklyRecord): boolean => sharedHasCarryOver(record);
+
+export const openingStockFrom = (source: WeeklyRecord): OpeningStock => sharedOpeningStockFrom(source);
+
+export const withoutOpeningStock = (record: WeeklyRecord): WeeklyRecord => sharedWithoutOpeningStock(record);
+
+// Why `record` cannot open with `source`'s leftover; undefined if it can
+export const openingStockProblem = (
+  record: WeeklyRecord,
+  source: WeeklyRecord | undefined,
+  records: WeeklyRecord[]
+): string | undefined => sharedOpeningStockProblem(record, source, records);
+
+// Latest earlier week of the branch with birds not yet carried into another week
+export const findCarryOverSource = (record: WeeklyRecord, records: WeeklyRecord[]): WeeklyRecord | undefined =>
+  sharedFindCarryOverSource(record, records);
@@ -0,0 +1,74 @@
+import { WeeklyRecord, Supplier, PurchaseLot } from '../types';
+import { getPurchaseLots, lotCost } from './purchases';
+
+// One purchase lot bought from a supplier, with the week it belongs to
+export interface SupplierPurchase {
+  recordId: string;
+  weekDate: string;
+  hens: number;
+  liveWeight: number;
+  rate: number;
+  cost: number;
+  // The week's wastage. Sales are not tracked per lot, so a week bought from
+  // several farms gives every lot the same figure (see `mixedWeek`).
+  wastagePercentage?: number;
+  mixedWeek: boolean;
+}
+
+export interface SupplierSummary {
+  purchases: number;
+  totalLiveWeight: number;
+  totalCost: number;
+  averageRate: number; // Weighted by live weight
+  latestRate?: number;
+  averageWastage?: number; // Weighted by live weight, completed weeks only
+  costPerKgSold?: number; // What a kg of meat actually sold cost from this farm
+}
+
+// Lots typed before the directory existed are matched by name
+const isFromSupplier = (lot: PurchaseLot, supplier: Supplier) =>
+  lot.supplierId
+    ? lot.supplierId === supplier.id
+    : !!lot.supplier && lot.supplier.toLowerCase() === supplier.name.toLowerCase();
+
+// Every lot bought from `supplier`, oldest first
+export const getSupplierPurchases = (records: WeeklyRecord[], supplier: Supplier): SupplierPurchase[] =>
+  records
+    .flatMap(record => {
+      const lots = getPurchaseLots(record);
+      return lots
+        .filter(lot => isFromSupplier(lot, supplier))
+        .map(lot => ({
+          recordId: record.id,
+          weekDate: record.weekDate,
+          hens: lot.hens,
+          liveWeight: lot.liveWeight,
+          rate: lot.rate,
+          cost: lotCost(lot),
+          wastagePercentage: record.isSalesEntryComplete ? record.wastagePercentage : undefined,
+          mixedWeek: lots.length > 1,
+        }));
+    })
+    .sort((a, b) => a.weekDate.localeCompare(b.weekDate));
+
+export const summarizeSupplierPurchases = (purchases: SupplierPurchase[]): SupplierSummary => {
+  const totalLiveWeight = purchases.reduce((sum, p) => sum + p.liveWeight, 0);
+  const totalCost = purchases.reduce((sum, p) => sum + p.cost, 0);
+
+  const sold = purchases.filter(p => p.wastagePercentage !== undefined);
+  const soldWeight = sold.reduce((sum, p) => sum + p.liveWeight, 0);
+  const soldCost = sold.reduce((sum, p) => sum + p.cost, 0);
+  const meatSold = sold.reduce((sum, p) => sum + p.liveWeight * (1 - (p.wastagePercentage || 0) / 100), 0);
+
+  return {
+    purchases: purchases.length,
+    totalLiveWeight,
+    totalCost,
+    averageRate: totalLiveWeight > 0 ? totalCost / totalLiveWeight : 0,
+    latestRate: purchases[purchases.length - 1]?.rate,
+    averageWastage: soldWeight > 0
+      ? sold.reduce((sum, p) => sum + (p.wastagePercentage || 0) * p.liveWeight, 0) / soldWeight
+      : undefined,
+    costPerKgSold: meatSold > 0 ? soldCost / meatSold : undefined,
+  };
+};
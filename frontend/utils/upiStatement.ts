@@ -0,0 +1,195 @@
+import { WeeklyRecord } from '../types';
+import { sellingDateOf } from './weeks';
+
+// Reading a bank's UPI statement export (CSV) and matching its credits to a
+// week's selling window. Statements differ between banks, so the columns are
+// mapped by the user; `guessColumns` only offers a starting point.
+
+export interface StatementColumns {
+  date: number; // Column index; -1 when not mapped
+  amount: number;
+  reference: number; // UPI reference / transaction id
+  payer: number;
+  type: number; // CR/DR, when the amount column is always positive
+}
+
+export interface UpiTransaction {
+  row: number; // Row in the file counting the header as 1, for the review lists
+  at: Date;
+  amount: number;
+  reference?: string;
+  payer?: string;
+}
+
+export interface UpiReconciliation {
+  matched: UpiTransaction[];
+  outside: UpiTransaction[]; // Credits before or after the selling window
+  duplicates: UpiTransaction[]; // Repeats of an earlier line, not counted
+  unreadable: number[]; // Lines whose date or amount could not be read
+  debits: number; // Money going out, ignored
+  total: number; // Sum of the matched credits
+}
+
+export interface SellingWindow {
+  start: Date;
+  end: Date;
+}
+
+// Splits CSV text into rows of cells; handles quoted cells with commas,
+// doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  if (row.some(value => value !== '')) rows.push(row);
+  return rows;
+};
+
+const findColumn = (header: string[], patterns: RegExp[]) =>
+  header.findIndex(name => patterns.some(pattern => pattern.test(name)));
+
+export const guessColumns = (header: string[]): StatementColumns => ({
+  date: findColumn(header, [/date/i, /time/i]),
+  amount: findColumn(header, [/amount/i, /credit/i, /amt/i]),
+  reference: findColumn(header, [/ref/i, /utr/i, /transaction id/i, /txn id/i]),
+  payer: findColumn(header, [/payer/i, /from/i, /name/i, /vpa/i]),
+  type: findColumn(header, [/^type$/i, /cr\s*\/\s*dr/i, /dr\s*\/\s*cr/i]),
+});
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Statement dates in the shapes banks export: ISO, or day first as
+// 19/10/2026, 19-10-2026 or 19-Oct-2026, each with an optional time and AM/PM.
+// Times without a zone are local, as the bank app shows them.
+export const parseStatementDate = (value: string): Date | undefined => {
+  const text = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    const date = new Date(text.length === 10 ? `${text}T00:00` : text.replace(' ', 'T'));
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+
+  const match = text.match(/^(\d{1,2})[/\-. ]([A-Za-z]{3,}|\d{1,2})[/\-. ,]+(\d{2,4})(?:[ ,T]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?)?$/);
+  if (!match) return undefined;
+
+  const [, day, monthText, yearText, hourText, minute, second, meridiem] = match;
+  const month = /^\d+$/.test(monthText) ? Number(monthText) - 1 : MONTHS.indexOf(monthText.slice(0, 3).toLowerCase());
+  const year = yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText);
+  let hour = Number(hourText || 0);
+  if (meridiem && /pm/i.test(meridiem) && hour < 12) hour += 12;
+  if (meridiem && /am/i.test(meridiem) && hour === 12) hour = 0;
+  if (month < 0 || month > 11) return undefined;
+
+  const date = new Date(year, month, Number(day), hour, Number(minute || 0), Number(second || 0));
+  return date.getDate() === Number(day) ? date : undefined;
+};
+
+// "₹1,250.00", "Rs 1250 CR" or "-300" as a number; undefined if unreadable
+export const parseStatementAmount = (value: string): number | undefined => {
+  const text = value.replace(/₹|rs\.?|inr|,|\s/gi, '');
+  const negative = /^-|\(.*\)|dr$/i.test(text);
+  const amount = Number(text.replace(/[()-]|cr$|dr$/gi, ''));
+  if (text === '' || !Number.isFinite(amount)) return undefined;
+  return negative ? -amount : amount;
+};
+
+// The week's Sunday, or the first to last counter sale
+// (with half an hour either side) when the day was sold through the counter
+export const defaultSellingWindow = (record: WeeklyRecord): SellingWindow => {
+  const times = (record.posTransactions || [])
+    .map(t => new Date(t.at).getTime())
+    .filter(time => !Number.isNaN(time));
+  if (times.length > 0) {
+    const margin = 30 * 60 * 1000;
+    return { start: new Date(Math.min(...times) - margin), end: new Date(Math.max(...times) + margin) };
+  }
+  const [year, month, day] = sellingDateOf(record.weekDate).split('-').map(Number);
+  return {
+    start: new Date(year, month - 1, day, 0, 0, 0),
+    end: new Date(year, month - 1, day, 23, 59, 59),
+  };
+};
+
+// Same reference, or with none the same time, amount and payer
+const sameTransaction = (a: UpiTransaction, b: UpiTransaction) =>
+  a.reference && b.reference
+    ? a.reference === b.reference
+    : a.at.getTime() === b.at.getTime() && a.amount === b.amount && a.payer === b.payer;
+
+// Reads the statement rows (header excluded) with the given columns and
+// sorts the credits into matched, outside the window and duplicates
+export const reconcileStatement = (
+  rows: string[][],
+  columns: StatementColumns,
+  window: SellingWindow
+): UpiReconciliation => {
+  const result: UpiReconciliation = { matched: [], outside: [], duplicates: [], unreadable: [], debits: 0, total: 0 };
+  const seen: UpiTransaction[] = [];
+
+  rows.forEach((cells, index) => {
+    const row = index + 2; // After the header line
+    const at = parseStatementDate(cells[columns.date] || '');
+    let amount = parseStatementAmount(cells[columns.amount] || '');
+    if (!at || amount === undefined) {
+      result.unreadable.push(row);
+      return;
+    }
+    if (columns.type >= 0 && /^(dr|debit)/i.test(cells[columns.type] || '')) amount = -Math.abs(amount);
+    if (amount <= 0) {
+      result.debits++;
+      return;
+    }
+
+    const transaction: UpiTransaction = {
+      row,
+      at,
+      amount,
+      ...(columns.reference >= 0 && cells[columns.reference] ? { reference: cells[columns.reference] } : {}),
+      ...(columns.payer >= 0 && cells[columns.payer] ? { payer: cells[columns.payer] } : {}),
+    };
+
+    if (seen.some(other => sameTransaction(other, transaction))) {
+      result.duplicates.push(transaction);
+      return;
+    }
+    seen.push(transaction);
+
+    if (at < window.start || at > window.end) {
+      result.outside.push(transaction);
+    } else {
+      result.matched.push(transaction);
+      result.total += amount;
+    }
+  });
+
+  result.total = Math.round(result.total * 100) / 100;
+  return result;
+};
@@ -0,0 +1,28 @@
+import { WeeklyRecord } from '../types';
+import { ApiError, isConflict } from '../services/apiClient';
+import {
+  validatePurchase as sharedValidatePurchase,
+  validateRecord as sharedValidateRecord
+} from '../../shared/validation.js';
+
+// Field name -> message. `general` covers rules spanning several fields.
+export type FieldErrors = Partial<Record<keyof WeeklyRecord | 'general', string>>;
+
+// The rules live in /shared so the backend rejects exactly what the forms reject
+export const validatePurchase = (record: WeeklyRecord): FieldErrors => sharedValidatePurchase(record);
+
+export const validateRecord = (record: WeeklyRecord): FieldErrors => sharedValidateRecord(record);
+
+// Turns a failed save into messages a form can place next to its inputs
+export const getSaveErrors = (error: unknown, fallback: string): FieldErrors => {
+  if (error instanceof ApiError) {
+    return error.fieldErrors
+      ? { ...error.fieldErrors }
+      : { general: error.message };
+  }
+  return { general: fallback };
+};
+
+// The newer stored copy a rejected save (409) lost against
+export const getConflictingRecord = (error: unknown): WeeklyRecord | undefined =>
+  isConflict(error) ? (error as ApiError).current as WeeklyRecord | undefined : undefined;
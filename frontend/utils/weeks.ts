@@ -0,0 +1,17 @@
+import { WeeklyRecord } from '../types';
+import { getConfig } from '../services/config';
+import {
+  weekStartOf as sharedWeekStartOf,
+  sellingDateOf as sharedSellingDateOf,
+  findSameWeek as sharedFindSameWeek
+} from '../../shared/weeks.js';
+
+// YYYY-MM-DD of the first day of `date`'s week, on the configured week-start day
+export const weekStartOf = (date: string): string => sharedWeekStartOf(date, getConfig().weekStartDay);
+
+// YYYY-MM-DD of the week's Sunday, whatever day the week starts on
+export const sellingDateOf = (weekDate: string): string => sharedSellingDateOf(weekDate);
+
+// The other live record of the same branch and week, if any
+export const findSameWeek = (record: WeeklyRecord, records: WeeklyRecord[]): WeeklyRecord | undefined =>
+  sharedFindSameWeek(record, records);
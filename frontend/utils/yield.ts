@@ -0,0 +1,20 @@
+import { WeeklyRecord } from '../types';
+import {
+  hasYieldInputs as sharedHasYieldInputs,
+  yieldBreakdown as sharedYieldBreakdown
+} from '../../shared/yield.js';
+
+// Shares of the live weight, in %; parts the inputs cannot tell apart are unset
+export interface YieldBreakdown {
+  mortalityPercentage?: number;
+  dressingYield?: number; // % of the birds slaughtered, not of the live weight
+  dressingLossPercentage?: number;
+  leftoverPercentage?: number;
+  unexplainedShrinkage?: number; // kg
+  unexplainedPercentage?: number;
+}
+
+export const hasYieldInputs = (record: WeeklyRecord): boolean => sharedHasYieldInputs(record);
+
+// Same split the server saves; pass a record with meatSold calculated
+export const yieldBreakdown = (record: WeeklyRecord): YieldBreakdown => sharedYieldBreakdown(record);
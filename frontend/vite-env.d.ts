@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_STORAGE_ADAPTER?: string;
+  readonly VITE_API_ROOT?: string;
+  readonly VITE_WEEK_START_DAY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        fs: {
+          // Business rules in ../shared are imported by the app
+          allow: ['..'],
+        },
       },
       plugins: [react()],
       define: {
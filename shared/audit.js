@@ -0,0 +1,33 @@
+// What changed between two versions of a week, for the audit trail.
+// Used by the backend and by the browser-only stores so both record the same thing.
+import { stripDerivedFields } from './metrics.js';
+
+// Bookkeeping that moves on every save and says nothing about the week itself.
+// Derived figures are left out too: they follow from the inputs that changed.
+// Trash state is shown by the entry's action instead.
+const IGNORED_FIELDS = [
+  '_id', 'id', '__v', 'updatedAt', 'revision', 'syncStatus', 'syncMessage', 'deletedAt', 'deletedBy'
+];
+
+// Missing, null and empty all mean "not entered"; ids are compared as strings.
+// Lists (such as expense lines) are kept as plain arrays.
+const normalise = (value) => {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value)) return JSON.parse(JSON.stringify(value));
+  return typeof value === 'object' ? String(value) : value;
+};
+
+const sameValue = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+// Returns [{ field, from, to }] for every input that differs.
+// Pass null as `before` for a new record.
+export const diffRecords = (before, after) => {
+  const from = before ? stripDerivedFields(before) : {};
+  const to = after ? stripDerivedFields(after) : {};
+  const fields = [...new Set([...Object.keys(from), ...Object.keys(to)])]
+    .filter(field => !IGNORED_FIELDS.includes(field));
+
+  return fields
+    .filter(field => !sameValue(normalise(from[field]), normalise(to[field])))
+    .map(field => ({ field, from: normalise(from[field]), to: normalise(to[field]) }));
+};
@@ -0,0 +1,38 @@
+// End-of-day cash count: a record's `cashDenominations: [{ value, count }]`
+// and opening `cashFloat`. metrics.js compares it with the cash the drawer
+// should hold and saves the over/short variance.
+import { getExpenseLines } from './expenses.js';
+import { summarizeTransactions } from './pos.js';
+
+// Notes and coins in the drawer, largest first
+export const DENOMINATIONS = [500, 200, 100, 50, 20, 10, 5, 2, 1];
+
+export const countedCash = (denominations) =>
+  (Array.isArray(denominations) ? denominations : [])
+    .reduce((sum, row) => sum + (Number(row.value) || 0) * (Number(row.count) || 0), 0);
+
+// Cash taken at the counter: the logged sales when the day was closed from
+// the POS, otherwise the figure typed in
+export const cashSales = (record) =>
+  Array.isArray(record.posTransactions)
+    ? summarizeTransactions(record.posTransactions).cash
+    : Number(record.cashCollected) || 0;
+
+// Expense lines without a mode were paid from the drawer
+export const cashExpenses = (record) =>
+  getExpenseLines(record)
+    .filter(line => line.mode !== 'upi')
+    .reduce((sum, line) => sum + (Number(line.amount) || 0), 0);
+
+// What the drawer should hold: opening float plus cash sales minus cash spent
+export const expectedCash = (record, float = 0) =>
+  (Number(float) || 0) + cashSales(record) - cashExpenses(record);
+
+// { counted, expected, variance } for a record with a cash count; variance is
+// positive when the drawer is over, rounded to the paisa
+export const reconcileCash = (record) => {
+  if (!Array.isArray(record.cashDenominations)) return undefined;
+  const counted = countedCash(record.cashDenominations);
+  const expected = expectedCash(record, record.cashFloat);
+  return { counted, expected, variance: Math.round((counted - expected) * 100) / 100 };
+};
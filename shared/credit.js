@@ -0,0 +1,53 @@
+// Customer credit (udhaar). Meat sold on credit counts towards the week's
+// revenue like cash; the money arrives later as collections recorded on the
+// customer, { amount, date, note? }, which belong to no week.
+
+const sumAmounts = (items) => items.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
+
+// A week's credit sales, [{ customerId, customer, amount, note? }]
+export const getCreditSales = (record) =>
+  Array.isArray(record?.creditSales) ? record.creditSales : [];
+
+export const sumCreditSales = (sales) => sumAmounts(sales);
+
+// Sales saved before a customer was renamed still match by id
+const isForCustomer = (sale, customer) =>
+  sale.customerId
+    ? String(sale.customerId) === String(customer.id)
+    : !!sale.customer && sale.customer.toLowerCase() === customer.name.toLowerCase();
+
+// What the customer took on credit, paid back and still owes, in rupees.
+// `outstanding` goes negative when they paid in advance.
+export const customerBalance = (customer, records) => {
+  const credited = sumAmounts(records.flatMap(getCreditSales).filter(sale => isForCustomer(sale, customer)));
+  const collected = sumAmounts(customer.collections || []);
+  return { credited, collected, outstanding: Math.round(credited - collected) };
+};
+
+// Credit sales and collections in date order, each with the balance after it.
+// A sale is dated by its week.
+export const customerLedger = (customer, records) => {
+  const sales = records.flatMap(record =>
+    getCreditSales(record)
+      .filter(sale => isForCustomer(sale, customer))
+      .map(sale => ({ type: 'sale', date: record.weekDate, amount: sale.amount, note: sale.note, recordId: record.id }))
+  );
+  const collections = (customer.collections || []).map(collection => ({
+    type: 'collection', date: collection.date, amount: collection.amount, note: collection.note
+  }));
+
+  let balance = 0;
+  return [...sales, ...collections]
+    // Same day: the sale comes before the money for it
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.type === 'sale' ? -1 : 1))
+    .map(entry => {
+      balance += entry.type === 'sale' ? entry.amount : -entry.amount;
+      return { ...entry, balance: Math.round(balance) };
+    });
+};
+
+// Money collected from any customer between two YYYY-MM-DD dates, inclusive
+export const collectionsBetween = (customers, from, to) =>
+  sumAmounts(customers.flatMap(customer =>
+    (customer.collections || []).filter(collection => collection.date >= from && collection.date <= to)
+  ));
@@ -0,0 +1,52 @@
+// Sunday expense line items: { category, amount, note? }.
+// Used by metrics.js, the entry forms, the reports and the backend migration.
+
+// Offered until the shop adds its own
+export const DEFAULT_EXPENSE_CATEGORIES = [
+  'Tea/Snacks',
+  'Fuel',
+  'Ice',
+  'Plastic bags',
+  'Helper wages',
+  'Knife sharpening',
+  'Transport hire'
+];
+
+// Fixed fields from before line items existed, and the category each becomes
+export const LEGACY_EXPENSE_FIELDS = {
+  expenseTea: 'Tea/Snacks',
+  expenseFuel: 'Fuel'
+};
+
+// A record's expense lines. Records saved before line items get theirs
+// from the old fixed fields.
+export const getExpenseLines = (record) => {
+  if (Array.isArray(record.expenses)) return record.expenses;
+
+  return Object.entries(LEGACY_EXPENSE_FIELDS)
+    .filter(([field]) => Number(record[field]) > 0)
+    .map(([field, category]) => ({ category, amount: Number(record[field]) }));
+};
+
+// Returns a copy with the old fixed fields moved into `expenses`
+export const migrateLegacyExpenses = (record) => {
+  const migrated = { ...record, expenses: getExpenseLines(record) };
+  Object.keys(LEGACY_EXPENSE_FIELDS).forEach(field => delete migrated[field]);
+  return migrated;
+};
+
+export const sumExpenses = (lines) =>
+  lines.reduce((sum, line) => sum + (Number(line.amount) || 0), 0);
+
+// Totals per category across records, largest first
+export const expensesByCategory = (records) => {
+  const totals = {};
+  records.forEach(record => {
+    getExpenseLines(record).forEach(line => {
+      totals[line.category] = (totals[line.category] || 0) + (Number(line.amount) || 0);
+    });
+  });
+  return Object.entries(totals)
+    .map(([category, amount]) => ({ category, amount }))
+    .sort((a, b) => b.amount - a.amount);
+};
@@ -0,0 +1,158 @@
+// Single source of truth for a week's derived figures.
+// Imported by the frontend (utils/calculations.ts) and by the backend,
+// which recomputes every record before saving it.
+import { getExpenseLines, sumExpenses } from './expenses.js';
+import { hasPurchaseLots, lotCost, summarizeLots } from './purchases.js';
+import { getCreditSales, sumCreditSales } from './credit.js';
+import { hasSalesLines, lineAmount, summarizeSalesLines } from './sales.js';
+import { reconcileCash } from './cash.js';
+import { yieldBreakdown } from './yield.js';
+import { stockWeight, stockHens, stockCost, carryOverCost as costOfCarryOver } from './stock.js';
+
+// Fields computed here. Anything a client sends for these is discarded.
+export const DERIVED_FIELDS = [
+  'totalPurchaseCost',
+  'carryOverCost',
+  'totalExpenses',
+  'totalCredit',
+  'totalRevenue',
+  'meatSold',
+  'wastage',
+  'wastagePercentage',
+  'netProfit',
+  'profitPerHen',
+  'profitPerKg',
+  'mortalityPercentage',
+  'dressingYield',
+  'unexplainedShrinkage',
+  'cashCounted',
+  'cashExpected',
+  'cashVariance'
+];
+
+// Returns a copy of `record` without any derived fields
+export const stripDerivedFields = (record) => {
+  const inputs = { ...record };
+  DERIVED_FIELDS.forEach(field => delete inputs[field]);
+  return inputs;
+};
+
+// Raw inputs for a request body. JSON drops undefined, so a field the user
+// cleared is sent as null instead; mergeInputs then removes it.
+export const toRequestInputs = (record) =>
+  Object.fromEntries(Object.entries(stripDerivedFields(record)).map(([field, value]) => [field, value === undefined ? null : value]));
+
+// The submitted inputs over the stored record's. Fields sent as null are
+// cleared; fields left out keep their stored value. Derived fields of either
+// are dropped, so one whose inputs were cleared does not linger.
+export const mergeInputs = (stored, submitted) => {
+  const inputs = { ...stripDerivedFields(stored || {}), ...stripDerivedFields(submitted || {}) };
+  Object.keys(inputs).forEach(field => {
+    if (inputs[field] === null) delete inputs[field];
+  });
+  return inputs;
+};
+
+// Weeks bought in lots take their purchase figures from the lots, with each
+// lot's cost filled in; other weeks are returned unchanged
+const applyPurchaseLots = (record) => {
+  if (!hasPurchaseLots(record)) return record;
+
+  const purchaseLots = record.purchaseLots.map(lot => ({ ...lot, cost: lotCost(lot) }));
+  const { totalHens, totalLiveWeight, purchaseRate } = summarizeLots(purchaseLots);
+  return { ...record, purchaseLots, totalHens, totalLiveWeight, purchaseRate };
+};
+
+// Itemized weeks take their average selling price from the lines, with each
+// line's amount filled in; other weeks are returned unchanged
+const applySalesLines = (record) => {
+  if (!hasSalesLines(record)) return record;
+
+  const salesLines = record.salesLines.map(line => ({ ...line, amount: lineAmount(line) }));
+  return { ...record, salesLines, sellingPrice: summarizeSalesLines(salesLines).sellingPrice };
+};
+
+export const calculateRecordMetrics = (input) => {
+  const record = applySalesLines(applyPurchaseLots(input));
+
+  // 1. Saturday Calculation: Purchase Cost
+  const totalPurchaseCost = hasPurchaseLots(record)
+    ? summarizeLots(record.purchaseLots).totalPurchaseCost
+    : record.totalLiveWeight * record.purchaseRate;
+
+  // If sales data isn't present, return minimal update
+  if (!record.isSalesEntryComplete) {
+    return {
+      ...stripDerivedFields(record),
+      totalPurchaseCost,
+    };
+  }
+
+  // Ensure values exist (default to 0 to be safe)
+  const sellingPrice = record.sellingPrice || 0;
+  const cash = record.cashCollected || 0;
+  const upi = record.upiCollected || 0;
+  const totalCredit = sumCreditSales(getCreditSales(record));
+
+  // 2. Sunday Calculations
+  let totalRevenue;
+  let meatSold;
+  if (hasSalesLines(record)) {
+    // Weighed and priced per product, whatever was collected
+    ({ revenue: totalRevenue, meatSold } = summarizeSalesLines(record.salesLines));
+  } else {
+    // Credit sales are meat sold this week, even though the money comes later
+    totalRevenue = cash + upi + totalCredit;
+
+    // Strict Formula: meatSold = totalRevenue / sellingPrice
+    // Avoid division by zero
+    meatSold = sellingPrice > 0 ? totalRevenue / sellingPrice : 0;
+  }
+
+  // Opening stock joins the week's purchase; birds kept for next week leave it
+  const soldFromWeight = stockWeight(record);
+  const soldFromHens = stockHens(record);
+  const carryOverCost = costOfCarryOver(record, totalPurchaseCost);
+
+  const wastage = soldFromWeight - meatSold;
+  
+  const wastagePercentage = soldFromWeight > 0 
+    ? (wastage / soldFromWeight) * 100 
+    : 0;
+
+  const totalExpenses = sumExpenses(getExpenseLines(record));
+
+  const netProfit = totalRevenue - (stockCost(record, totalPurchaseCost) + totalExpenses);
+
+  const profitPerHen = soldFromHens > 0 
+    ? netProfit / soldFromHens 
+    : 0;
+
+  const profitPerKg = meatSold > 0 
+    ? netProfit / meatSold 
+    : 0;
+
+  // 3. Yield: set only for the parts the optional weights were entered for
+  const { mortalityPercentage, dressingYield, unexplainedShrinkage } = yieldBreakdown({ ...record, meatSold });
+
+  // 4. Cash drawer: set only once the cash has been counted
+  const drawer = reconcileCash(record);
+
+  return {
+    ...record,
+    totalPurchaseCost,
+    ...(carryOverCost > 0 ? { carryOverCost } : {}),
+    totalCredit,
+    totalRevenue,
+    meatSold,
+    wastage,
+    wastagePercentage,
+    totalExpenses,
+    netProfit,
+    profitPerHen,
+    profitPerKg,
+    ...(mortalityPercentage !== undefined ? { mortalityPercentage } : {}),
+    ...(dressingYield !== undefined ? { dressingYield, unexplainedShrinkage } : {}),
+    ...(drawer ? { cashCounted: drawer.counted, cashExpected: drawer.expected, cashVariance: drawer.variance } : {})
+  };
+};
@@ -0,0 +1,58 @@
+// What the shop still owes its suppliers. A purchase lot without `payments`
+// was paid in full on the day; otherwise its payments are listed as
+// { amount, date, note? } and the rest of its cost is outstanding.
+import { getPurchaseLots, lotCost } from './purchases.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const lotPaid = (lot) =>
+  Array.isArray(lot.payments)
+    ? lot.payments.reduce((sum, payment) => sum + (Number(payment.amount) || 0), 0)
+    : lotCost(lot);
+
+// Rounded to the rupee so float dust never shows up as a due
+export const lotOutstanding = (lot) => Math.max(0, Math.round(lotCost(lot) - lotPaid(lot)));
+
+// Every lot with money still owed, oldest first. `ageDays` counts from the
+// day the lot was bought (the week's date for undated lots) to `today`.
+export const getPayables = (records, today = new Date()) =>
+  records
+    .flatMap(record => getPurchaseLots(record).map((lot, lotIndex) => ({
+      recordId: record.id,
+      branchId: record.branchId,
+      weekDate: record.weekDate,
+      lotIndex,
+      supplierId: lot.supplierId,
+      supplier: lot.supplier || '',
+      cost: lotCost(lot),
+      paid: lotPaid(lot),
+      outstanding: lotOutstanding(lot),
+      purchaseDate: lot.date || record.weekDate,
+      ageDays: Math.max(0, Math.floor((today.getTime() - new Date(lot.date || record.weekDate).getTime()) / DAY_MS))
+    })))
+    .filter(payable => payable.outstanding > 0)
+    .sort((a, b) => a.weekDate.localeCompare(b.weekDate));
+
+// Outstanding per supplier, largest first. Lots typed before the supplier
+// directory are grouped by name.
+export const payablesBySupplier = (payables) => {
+  const groups = new Map();
+  payables.forEach(payable => {
+    const key = payable.supplierId || `name:${payable.supplier.toLowerCase()}`;
+    const group = groups.get(key) || {
+      supplierId: payable.supplierId,
+      supplier: payable.supplier,
+      outstanding: 0,
+      oldestAgeDays: 0,
+      payables: []
+    };
+    group.outstanding += payable.outstanding;
+    group.oldestAgeDays = Math.max(group.oldestAgeDays, payable.ageDays);
+    group.payables.push(payable);
+    groups.set(key, group);
+  });
+  return Array.from(groups.values()).sort((a, b) => b.outstanding - a.outstanding);
+};
+
+export const totalOutstanding = (payables) =>
+  payables.reduce((sum, payable) => sum + payable.outstanding, 0);
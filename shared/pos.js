@@ -0,0 +1,54 @@
+// Counter (POS) sales logged one by one on Sunday:
+// { at, weight, price, mode: 'cash' | 'upi', product? }, weight in kg and
+// price per kg. Closing the day rolls them up into the week's sales fields.
+
+export const PAYMENT_MODES = ['cash', 'upi'];
+
+export const transactionAmount = (transaction) =>
+  (Number(transaction.weight) || 0) * (Number(transaction.price) || 0);
+
+// Running totals; sellingPrice is the average weighted by weight
+export const summarizeTransactions = (transactions) => {
+  const weight = transactions.reduce((sum, t) => sum + (Number(t.weight) || 0), 0);
+  const byMode = (mode) => transactions
+    .filter(t => t.mode === mode)
+    .reduce((sum, t) => sum + transactionAmount(t), 0);
+  const cash = byMode('cash');
+  const upi = byMode('upi');
+  return {
+    count: transactions.length,
+    weight,
+    cash,
+    upi,
+    total: cash + upi,
+    sellingPrice: weight > 0 ? (cash + upi) / weight : 0
+  };
+};
+
+// One sales line per product and price, when every sale named a product
+const toSalesLines = (transactions) => {
+  if (transactions.length === 0 || transactions.some(t => !t.product)) return undefined;
+  const lines = {};
+  transactions.forEach(t => {
+    const key = `${t.product}@${t.price}`;
+    const line = lines[key] || (lines[key] = { product: t.product, quantity: 0, price: t.price });
+    line.quantity += Number(t.weight) || 0;
+  });
+  return Object.values(lines);
+};
+
+// Returns a copy of `record` with the day's sales in cashCollected,
+// upiCollected and sellingPrice, and the transactions kept for reconciling.
+// Sales lines are set only when every sale named a product.
+export const rollUpTransactions = (record, transactions) => {
+  const summary = summarizeTransactions(transactions);
+  const salesLines = toSalesLines(transactions);
+  return {
+    ...record,
+    cashCollected: summary.cash,
+    upiCollected: summary.upi,
+    sellingPrice: summary.sellingPrice,
+    salesLines,
+    posTransactions: transactions
+  };
+};
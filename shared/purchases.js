@@ -0,0 +1,47 @@
+// Saturday purchase lots: { supplier, hens, liveWeight, rate, cost, date }.
+// A week bought from several farms holds one lot per farm; the week's
+// totalHens, totalLiveWeight and purchaseRate are then totals of its lots.
+
+// Whether the week records its purchase as lots rather than one figure each
+export const hasPurchaseLots = (record) =>
+  Array.isArray(record.purchaseLots) && record.purchaseLots.length > 0;
+
+// A record's lots. Single-purchase records count as one lot with no supplier.
+export const getPurchaseLots = (record) => {
+  if (hasPurchaseLots(record)) return record.purchaseLots;
+
+  return [{
+    supplier: '',
+    hens: record.totalHens,
+    liveWeight: record.totalLiveWeight,
+    rate: record.purchaseRate
+  }];
+};
+
+// Lots keep the day they were bought (YYYY-MM-DD), since weekDate is the
+// first day of the week. Lots saved without one get the record's weekDate;
+// call this before weekDate is normalised, while it still is the purchase date.
+export const withLotDates = (record) =>
+  hasPurchaseLots(record)
+    ? { ...record, purchaseLots: record.purchaseLots.map(lot => (lot.date ? lot : { ...lot, date: record.weekDate })) }
+    : record;
+
+// The day the week's purchase was made: its earliest lot's date, or weekDate
+// for records saved before lots were dated
+export const purchaseDateOf = (record) =>
+  getPurchaseLots(record).map(lot => lot.date).filter(Boolean).sort()[0] || record.weekDate;
+
+export const lotCost = (lot) => (Number(lot.liveWeight) || 0) * (Number(lot.rate) || 0);
+
+// Week totals; purchaseRate is the average weighted by live weight
+export const summarizeLots = (lots) => {
+  const totalHens = lots.reduce((sum, lot) => sum + (Number(lot.hens) || 0), 0);
+  const totalLiveWeight = lots.reduce((sum, lot) => sum + (Number(lot.liveWeight) || 0), 0);
+  const totalPurchaseCost = lots.reduce((sum, lot) => sum + lotCost(lot), 0);
+  return {
+    totalHens,
+    totalLiveWeight,
+    totalPurchaseCost,
+    purchaseRate: totalLiveWeight > 0 ? totalPurchaseCost / totalLiveWeight : 0
+  };
+};
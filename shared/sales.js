@@ -0,0 +1,48 @@
+// Itemized Sunday sales: { product, quantity, price, amount }, one line per
+// product sold (quantity in kg, price per kg). A week with lines takes its
+// meat sold, revenue and average selling price from them; older weeks have a
+// single sellingPrice and derive meat sold from the money collected.
+
+// Offered until the shop sets up its own catalogue
+export const DEFAULT_PRODUCTS = [
+  'Curry Cut',
+  'Boneless',
+  'Liver',
+  'Skin-off'
+];
+
+// Label for weeks saved with one price for everything
+export const NOT_ITEMIZED = 'Not itemized';
+
+export const hasSalesLines = (record) =>
+  Array.isArray(record.salesLines) && record.salesLines.length > 0;
+
+export const lineAmount = (line) => (Number(line.quantity) || 0) * (Number(line.price) || 0);
+
+// Week totals; sellingPrice is the average weighted by quantity
+export const summarizeSalesLines = (lines) => {
+  const meatSold = lines.reduce((sum, line) => sum + (Number(line.quantity) || 0), 0);
+  const revenue = lines.reduce((sum, line) => sum + lineAmount(line), 0);
+  return { meatSold, revenue, sellingPrice: meatSold > 0 ? revenue / meatSold : 0 };
+};
+
+// Kg and revenue per product across completed records, largest revenue first.
+// Weeks without lines are grouped under NOT_ITEMIZED so the totals still add up.
+export const salesByProduct = (records) => {
+  const totals = {};
+  const add = (product, quantity, revenue) => {
+    const entry = totals[product] || (totals[product] = { product, quantity: 0, revenue: 0 });
+    entry.quantity += quantity;
+    entry.revenue += revenue;
+  };
+
+  records.filter(record => record.isSalesEntryComplete).forEach(record => {
+    if (!hasSalesLines(record)) {
+      add(NOT_ITEMIZED, Number(record.meatSold) || 0, Number(record.totalRevenue) || 0);
+      return;
+    }
+    record.salesLines.forEach(line => add(line.product, Number(line.quantity) || 0, lineAmount(line)));
+  });
+
+  return Object.values(totals).sort((a, b) => b.revenue - a.revenue);
+};
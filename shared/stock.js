@@ -0,0 +1,70 @@
+// Live birds kept unsold for the next weekend. A week closes with
+// `carryOverHens` and `carryOverWeight` (live kg); the next week of the same
+// branch opens with them as `openingHens`, `openingWeight` and `openingCost`,
+// linked by `openingFromId`. Each week's wastage and profit then count only
+// the stock it actually sold from.
+
+const num = (value) => Number(value) || 0;
+
+const idOf = (record) => String(record.id || record._id || '');
+
+// Live kg the week sold from: purchases plus opening stock, less what was kept
+export const stockWeight = (record) =>
+  num(record.totalLiveWeight) + num(record.openingWeight) - num(record.carryOverWeight);
+
+export const stockHens = (record) =>
+  num(record.totalHens) + num(record.openingHens) - num(record.carryOverHens);
+
+// Cost of everything the week had to sell, per live kg
+export const averageStockCost = (record, totalPurchaseCost) => {
+  const weight = num(record.totalLiveWeight) + num(record.openingWeight);
+  return weight > 0 ? (num(totalPurchaseCost) + num(record.openingCost)) / weight : 0;
+};
+
+// What the birds kept for next week cost, at the week's average
+export const carryOverCost = (record, totalPurchaseCost) =>
+  num(record.carryOverWeight) * averageStockCost(record, totalPurchaseCost);
+
+// Cost of the stock actually sold from: purchases plus opening stock, less
+// what was kept
+export const stockCost = (record, totalPurchaseCost) =>
+  num(totalPurchaseCost) + num(record.openingCost) - carryOverCost(record, totalPurchaseCost);
+
+export const hasCarryOver = (record) => num(record.carryOverWeight) > 0;
+
+// The opening stock fields of a week that opens with `source`'s leftover
+export const openingStockFrom = (source) => ({
+  openingFromId: idOf(source),
+  openingHens: num(source.carryOverHens),
+  openingWeight: num(source.carryOverWeight),
+  openingCost: num(source.carryOverCost)
+});
+
+// Clears the opening stock fields, for weeks not linked to a leftover
+export const withoutOpeningStock = (record) => ({
+  ...record,
+  openingFromId: undefined,
+  openingHens: undefined,
+  openingWeight: undefined,
+  openingCost: undefined
+});
+
+// Why `record` cannot open with `source`'s leftover; undefined if it can.
+// `records` are the live weeks, to check no other week opened with it already.
+export const openingStockProblem = (record, source, records) => {
+  if (!source || source.deletedAt) return 'The week the birds were kept from was not found';
+  if (idOf(source) === idOf(record)) return 'A week cannot open with its own leftover';
+  if (String(source.branchId || '') !== String(record.branchId || '')) return 'The leftover belongs to another branch';
+  if (!(source.weekDate < record.weekDate)) return 'The leftover must come from an earlier week';
+  if (!source.isSalesEntryComplete || !hasCarryOver(source)) return 'That week kept no birds for the next one';
+  const claimed = records.some(r =>
+    !r.deletedAt && idOf(r) !== idOf(record) && String(r.openingFromId || '') === idOf(source));
+  return claimed ? 'Those birds were already carried into another week' : undefined;
+};
+
+// The most recent earlier week of the branch whose leftover no week has
+// opened with yet
+export const findCarryOverSource = (record, records) =>
+  records
+    .filter(source => !openingStockProblem(record, source, records))
+    .sort((a, b) => (a.weekDate < b.weekDate ? 1 : -1))[0];
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffRecords } from '../audit.js';
+
+const week = {
+  id: 'w1',
+  revision: 3,
+  weekDate: '2026-10-10',
+  totalHens: 100,
+  totalLiveWeight: 200,
+  purchaseRate: 100,
+  totalPurchaseCost: 20000
+};
+
+test('diffRecords lists every changed input with its old and new value', () => {
+  assert.deepEqual(diffRecords(week, { ...week, purchaseRate: 110, note: 'late truck' }), [
+    { field: 'purchaseRate', from: 100, to: 110 },
+    { field: 'note', from: null, to: 'late truck' }
+  ]);
+});
+
+test('a new record shows every input as entered', () => {
+  const fields = diffRecords(null, week).map(change => change.field);
+  assert.deepEqual(fields, ['weekDate', 'totalHens', 'totalLiveWeight', 'purchaseRate']);
+});
+
+test('bookkeeping, derived figures and blank-for-blank are not changes', () => {
+  const saved = { ...week, revision: 4, updatedAt: '2026-10-11', totalPurchaseCost: 1, note: '' };
+  assert.deepEqual(diffRecords({ ...week, note: null }, saved), []);
+});
+
+test('lists are compared by content and ids as strings', () => {
+  const lines = [{ category: 'Ice', amount: 300 }];
+  const id = { toString: () => 'b1' };
+  assert.deepEqual(diffRecords({ ...week, expenses: lines, branchId: id }, { ...week, expenses: [...lines], branchId: 'b1' }), []);
+  assert.equal(diffRecords({ ...week, expenses: lines }, { ...week, expenses: [] })[0].field, 'expenses');
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { countedCash, cashSales, expectedCash, reconcileCash } from '../cash.js';
+import { calculateRecordMetrics } from '../metrics.js';
+
+const day = {
+  cashCollected: 10000,
+  cashFloat: 1000,
+  expenses: [
+    { category: 'Ice', amount: 300 },
+    { category: 'Fuel', amount: 500, mode: 'upi' }
+  ]
+};
+
+test('countedCash adds up the notes and coins', () => {
+  assert.equal(countedCash([{ value: 500, count: 18 }, { value: 100, count: 7 }, { value: 2, count: 3 }]), 9706);
+  assert.equal(countedCash(undefined), 0);
+});
+
+test('the drawer should hold the float and cash sales less expenses paid from it', () => {
+  assert.equal(expectedCash(day, day.cashFloat), 10700);
+  // Logged counter sales win over the typed figure
+  assert.equal(cashSales({ ...day, posTransactions: [{ weight: 2, price: 250, mode: 'cash' }, { weight: 1, price: 300, mode: 'upi' }] }), 500);
+});
+
+test('reconcileCash reports the drawer over or short to the paisa', () => {
+  assert.equal(reconcileCash(day), undefined);
+  assert.deepEqual(reconcileCash({ ...day, cashDenominations: [{ value: 500, count: 21 }, { value: 100, count: 1 }] }), {
+    counted: 10600,
+    expected: 10700,
+    variance: -100
+  });
+  assert.equal(reconcileCash({ ...day, cashFloat: 0.1, cashDenominations: [{ value: 500, count: 20 }] }).variance, 299.9);
+});
+
+test('a counted week saves its variance with the metrics', () => {
+  const week = calculateRecordMetrics({
+    weekDate: '2026-10-10',
+    totalHens: 100,
+    totalLiveWeight: 200,
+    purchaseRate: 100,
+    isSalesEntryComplete: true,
+    sellingPrice: 200,
+    ...day,
+    cashDenominations: [{ value: 500, count: 22 }]
+  });
+  assert.equal(week.cashCounted, 11000);
+  assert.equal(week.cashExpected, 10700);
+  assert.equal(week.cashVariance, 300);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { customerBalance, customerLedger, collectionsBetween } from '../credit.js';
+import { calculateRecordMetrics } from '../metrics.js';
+
+const customer = {
+  id: 'c1',
+  name: 'Hotel Ravi',
+  collections: [{ amount: 1500, date: '2026-10-11' }, { amount: 500, date: '2026-10-20' }]
+};
+
+const records = [
+  { id: 'w1', weekDate: '2026-10-11', creditSales: [{ customerId: 'c1', customer: 'Hotel Ravi', amount: 2000 }, { customerId: 'c2', customer: 'Mess', amount: 900 }] },
+  // Saved before the customer directory, matched by name
+  { id: 'w2', weekDate: '2026-10-18', creditSales: [{ customer: 'hotel ravi', amount: 1000 }] }
+];
+
+test('customerBalance nets credit sales against collections', () => {
+  assert.deepEqual(customerBalance(customer, records), { credited: 3000, collected: 2000, outstanding: 1000 });
+  // Paid in advance
+  assert.equal(customerBalance({ ...customer, collections: [{ amount: 4000, date: '2026-10-12' }] }, records).outstanding, -1000);
+});
+
+test('customerLedger runs the balance in date order, sales before same-day money', () => {
+  assert.deepEqual(customerLedger(customer, records).map(entry => [entry.type, entry.date, entry.balance]), [
+    ['sale', '2026-10-11', 2000],
+    ['collection', '2026-10-11', 500],
+    ['sale', '2026-10-18', 1500],
+    ['collection', '2026-10-20', 1000]
+  ]);
+});
+
+test('collectionsBetween counts both ends of the range', () => {
+  const other = { id: 'c2', name: 'Mess', collections: [{ amount: 900, date: '2026-10-18' }] };
+  assert.equal(collectionsBetween([customer, other], '2026-10-11', '2026-10-18'), 2400);
+});
+
+test('credit sales count as the week\'s revenue', () => {
+  const week = calculateRecordMetrics({
+    weekDate: '2026-10-10',
+    totalHens: 100,
+    totalLiveWeight: 200,
+    purchaseRate: 100,
+    isSalesEntryComplete: true,
+    sellingPrice: 200,
+    cashCollected: 27000,
+    creditSales: [{ customer: 'Hotel Ravi', amount: 3000 }]
+  });
+  assert.equal(week.totalCredit, 3000);
+  assert.equal(week.totalRevenue, 30000);
+  assert.equal(week.meatSold, 150);
+});
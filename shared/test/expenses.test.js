@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getExpenseLines, migrateLegacyExpenses, sumExpenses, expensesByCategory } from '../expenses.js';
+import { calculateRecordMetrics } from '../metrics.js';
+
+test('records from before line items read their old tea and fuel fields', () => {
+  assert.deepEqual(getExpenseLines({ expenseTea: 150, expenseFuel: 0 }), [{ category: 'Tea/Snacks', amount: 150 }]);
+  // Once there are lines, the old fields are ignored
+  assert.deepEqual(getExpenseLines({ expenses: [], expenseTea: 150 }), []);
+});
+
+test('migrateLegacyExpenses moves the old fields into lines', () => {
+  const migrated = migrateLegacyExpenses({ weekDate: '2026-10-10', expenseTea: 150, expenseFuel: 400 });
+  assert.deepEqual(migrated, {
+    weekDate: '2026-10-10',
+    expenses: [{ category: 'Tea/Snacks', amount: 150 }, { category: 'Fuel', amount: 400 }]
+  });
+});
+
+test('expenses are totalled per line and per category', () => {
+  const weeks = [
+    { expenses: [{ category: 'Ice', amount: 300 }, { category: 'Fuel', amount: 500 }] },
+    { expenses: [{ category: 'Ice', amount: 400 }] },
+    { expenseTea: 100 }
+  ];
+  assert.equal(sumExpenses(weeks[0].expenses), 800);
+  assert.deepEqual(expensesByCategory(weeks), [
+    { category: 'Ice', amount: 700 },
+    { category: 'Fuel', amount: 500 },
+    { category: 'Tea/Snacks', amount: 100 }
+  ]);
+});
+
+test('expense lines come off the week\'s profit', () => {
+  const week = calculateRecordMetrics({
+    weekDate: '2026-10-10',
+    totalHens: 100,
+    totalLiveWeight: 200,
+    purchaseRate: 100,
+    isSalesEntryComplete: true,
+    sellingPrice: 200,
+    cashCollected: 30000,
+    expenses: [{ category: 'Ice', amount: 300 }, { category: 'Helper wages', amount: 700 }]
+  });
+  assert.equal(week.totalExpenses, 1000);
+  assert.equal(week.netProfit, 9000);
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateRecordMetrics, stripDerivedFields, DERIVED_FIELDS } from '../metrics.js';
+
+const close = (actual, expected) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+
+const soldWeek = (fields) => ({
+  id: 'w1',
+  weekDate: '2026-10-10',
+  totalHens: 100,
+  totalLiveWeight: 200,
+  purchaseRate: 100,
+  isSalesEntryComplete: true,
+  sellingPrice: 200,
+  cashCollected: 30000,
+  ...fields
+});
+
+test('calculateRecordMetrics works out revenue, wastage and profit', () => {
+  const week = calculateRecordMetrics(soldWeek({ expenses: [{ category: 'Ice', amount: 1000 }] }));
+  assert.equal(week.totalPurchaseCost, 20000);
+  assert.equal(week.totalRevenue, 30000);
+  assert.equal(week.meatSold, 150);
+  assert.equal(week.wastage, 50);
+  assert.equal(week.wastagePercentage, 25);
+  assert.equal(week.netProfit, 9000);
+  assert.equal(week.profitPerHen, 90);
+  assert.equal(week.profitPerKg, 60);
+});
+
+test('stripDerivedFields keeps the inputs only', () => {
+  const inputs = stripDerivedFields(calculateRecordMetrics(soldWeek({ cashDenominations: [{ value: 500, count: 10 }] })));
+  DERIVED_FIELDS.forEach(field => assert.equal(inputs[field], undefined, field));
+  assert.equal(inputs.cashCollected, 30000);
+  assert.deepEqual(inputs.cashDenominations, [{ value: 500, count: 10 }]);
+});
+
+test('an open week gets its purchase cost and nothing else', () => {
+  const week = calculateRecordMetrics(stripDerivedFields({ ...soldWeek({ netProfit: 5 }), isSalesEntryComplete: false }));
+  assert.equal(week.totalPurchaseCost, 20000);
+  assert.equal(week.netProfit, undefined);
+});
+
+test('meat sold follows cash and UPI at the selling price', () => {
+  const week = calculateRecordMetrics(soldWeek({ sellingPrice: 240, cashCollected: 20000, upiCollected: 15000 }));
+  assert.equal(week.totalRevenue, 35000);
+  close(week.meatSold, 35000 / 240);
+  close(week.wastagePercentage, ((200 - 35000 / 240) / 200) * 100);
+  close(week.profitPerKg, 15000 / (35000 / 240));
+});
+
+test('a week without a selling price or hens does not divide by zero', () => {
+  const week = calculateRecordMetrics(soldWeek({ totalHens: 0, sellingPrice: 0 }));
+  assert.equal(week.meatSold, 0);
+  assert.equal(week.profitPerHen, 0);
+  assert.equal(week.profitPerKg, 0);
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPayables, lotPaid, lotOutstanding, payablesBySupplier, totalOutstanding } from '../payables.js';
+import { withLotDates, purchaseDateOf } from '../purchases.js';
+import { weekStartOf } from '../weeks.js';
+
+const today = new Date('2026-10-20T00:00:00Z');
+
+// Bought on Thursday 2026-10-15, filed under the week of Saturday 2026-10-10
+const week = (lotFields) => ({
+  id: 'w1',
+  weekDate: '2026-10-10',
+  purchaseLots: [{ supplier: 'Farm A', hens: 50, liveWeight: 100, rate: 100, payments: [], ...lotFields }]
+});
+
+test('payables age from the day the lot was bought, not the week start', () => {
+  const [payable] = getPayables([week({ date: '2026-10-15' })], today);
+  assert.equal(payable.purchaseDate, '2026-10-15');
+  assert.equal(payable.ageDays, 5);
+});
+
+test('lots saved before they were dated age from the week', () => {
+  const [payable] = getPayables([week({})], today);
+  assert.equal(payable.purchaseDate, '2026-10-10');
+  assert.equal(payable.ageDays, 10);
+});
+
+test('normalising the week keeps the typed date on the lots', () => {
+  const typed = { ...week({}), weekDate: '2026-10-15' };
+  const saved = { ...withLotDates(typed), weekDate: weekStartOf(typed.weekDate) };
+  assert.equal(saved.weekDate, '2026-10-10');
+  assert.equal(saved.purchaseLots[0].date, '2026-10-15');
+  assert.equal(purchaseDateOf(saved), '2026-10-15');
+  assert.equal(getPayables([saved], today)[0].ageDays, 5);
+});
+
+test('dated lots keep their own day when the record is saved again', () => {
+  const saved = withLotDates({ ...week({ date: '2026-10-12' }), weekDate: '2026-10-10' });
+  assert.equal(saved.purchaseLots[0].date, '2026-10-12');
+});
+
+test('a lot without payments was paid in full on the day', () => {
+  const lot = { hens: 50, liveWeight: 100, rate: 100 };
+  assert.equal(lotPaid(lot), 10000);
+  assert.equal(lotOutstanding(lot), 0);
+  assert.deepEqual(getPayables([{ id: 'w1', weekDate: '2026-10-10', purchaseLots: [lot] }], today), []);
+});
+
+test('part payments leave the rest of the lot outstanding, to the rupee', () => {
+  const lot = { hens: 50, liveWeight: 100.3, rate: 99.7, payments: [{ amount: 4000, date: '2026-10-10' }, { amount: 2000, date: '2026-10-17' }] };
+  assert.equal(lotPaid(lot), 6000);
+  assert.equal(lotOutstanding(lot), Math.round(100.3 * 99.7 - 6000));
+  assert.equal(lotOutstanding({ ...lot, payments: [{ amount: 20000, date: '2026-10-10' }] }), 0);
+});
+
+test('payables are grouped per supplier, largest first, with their oldest age', () => {
+  const records = [
+    { id: 'w1', weekDate: '2026-10-03', purchaseLots: [{ supplierId: 's1', supplier: 'Farm A', liveWeight: 100, rate: 100, payments: [] }] },
+    {
+      id: 'w2',
+      weekDate: '2026-10-10',
+      purchaseLots: [
+        { supplierId: 's1', supplier: 'Farm A', liveWeight: 50, rate: 100, payments: [] },
+        { supplier: 'farm b', liveWeight: 100, rate: 50, payments: [{ amount: 1000, date: '2026-10-10' }] },
+        { supplier: 'Farm B', liveWeight: 100, rate: 100, payments: [] }
+      ]
+    }
+  ];
+  const payables = getPayables(records, today);
+  assert.deepEqual(payables.map(payable => payable.weekDate), ['2026-10-03', '2026-10-10', '2026-10-10', '2026-10-10']);
+
+  const groups = payablesBySupplier(payables);
+  assert.deepEqual(groups.map(group => [group.supplier, group.outstanding, group.oldestAgeDays]), [
+    ['Farm A', 15000, 17],
+    ['farm b', 14000, 10]
+  ]);
+  assert.equal(totalOutstanding(payables), 29000);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { summarizeTransactions, rollUpTransactions } from '../pos.js';
+import { validateRecord } from '../validation.js';
+
+const sales = [
+  { at: '2026-10-11T08:00:00+05:30', weight: 2, price: 240, mode: 'cash', product: 'Curry Cut' },
+  { at: '2026-10-11T08:05:00+05:30', weight: 1, price: 400, mode: 'upi', product: 'Boneless' },
+  { at: '2026-10-11T09:00:00+05:30', weight: 3, price: 240, mode: 'upi', product: 'Curry Cut' }
+];
+
+test('summarizeTransactions splits the takings by payment mode', () => {
+  assert.deepEqual(summarizeTransactions(sales), {
+    count: 3,
+    weight: 6,
+    cash: 480,
+    upi: 1120,
+    total: 1600,
+    sellingPrice: 1600 / 6
+  });
+});
+
+test('closing the day fills the sales fields and one line per product and price', () => {
+  const week = rollUpTransactions({ weekDate: '2026-10-10', cashCollected: 99 }, sales);
+  assert.equal(week.cashCollected, 480);
+  assert.equal(week.upiCollected, 1120);
+  assert.deepEqual(week.salesLines, [
+    { product: 'Curry Cut', quantity: 5, price: 240 },
+    { product: 'Boneless', quantity: 1, price: 400 }
+  ]);
+  assert.equal(week.posTransactions, sales);
+});
+
+test('a sale without a product leaves the week un-itemized', () => {
+  const week = rollUpTransactions({}, [...sales, { at: '2026-10-11T10:00:00+05:30', weight: 1, price: 250, mode: 'cash' }]);
+  assert.equal(week.salesLines, undefined);
+  assert.equal(week.sellingPrice, 1850 / 7);
+});
+
+test('logged sales are checked even before the week is complete', () => {
+  const week = { weekDate: '2026-10-10', totalHens: 100, totalLiveWeight: 200, purchaseRate: 100 };
+  assert.deepEqual(validateRecord({ ...week, posTransactions: sales }), {});
+  assert.equal(
+    validateRecord({ ...week, posTransactions: [{ ...sales[0], mode: 'card' }] }).posTransactions,
+    'Each counter sale needs a weight, a price, cash or UPI and a time'
+  );
+});
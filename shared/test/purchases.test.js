@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPurchaseLots, summarizeLots, lotCost } from '../purchases.js';
+import { calculateRecordMetrics } from '../metrics.js';
+import { validatePurchase } from '../validation.js';
+
+const lots = [
+  { supplier: 'Farm A', hens: 60, liveWeight: 120, rate: 100 },
+  { supplier: 'Farm B', hens: 40, liveWeight: 80, rate: 110 }
+];
+
+test('a single-figure week counts as one lot with no supplier', () => {
+  assert.deepEqual(getPurchaseLots({ totalHens: 100, totalLiveWeight: 200, purchaseRate: 100 }), [
+    { supplier: '', hens: 100, liveWeight: 200, rate: 100 }
+  ]);
+});
+
+test('summarizeLots adds up the lots and weights the rate by live weight', () => {
+  assert.equal(lotCost(lots[1]), 8800);
+  assert.deepEqual(summarizeLots(lots), {
+    totalHens: 100,
+    totalLiveWeight: 200,
+    totalPurchaseCost: 20800,
+    purchaseRate: 104
+  });
+});
+
+test('a week bought in lots takes its totals from them', () => {
+  // Stale totals typed before the lots are replaced
+  const week = calculateRecordMetrics({ weekDate: '2026-10-10', totalHens: 1, totalLiveWeight: 1, purchaseRate: 1, purchaseLots: lots });
+  assert.equal(week.totalHens, 100);
+  assert.equal(week.totalLiveWeight, 200);
+  assert.equal(week.purchaseRate, 104);
+  assert.equal(week.totalPurchaseCost, 20800);
+  assert.deepEqual(week.purchaseLots.map(lot => lot.cost), [12000, 8800]);
+});
+
+test('lot errors are reported under the lot\'s index', () => {
+  const errors = validatePurchase({ weekDate: '2026-10-10', purchaseLots: [lots[0], { ...lots[1], liveWeight: 0 }] });
+  assert.deepEqual(errors, { 'purchaseLots.1.liveWeight': 'Weight must be greater than 0' });
+});
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { summarizeSalesLines, salesByProduct, NOT_ITEMIZED } from '../sales.js';
+import { calculateRecordMetrics } from '../metrics.js';
+import { validateSales } from '../validation.js';
+
+const lines = [
+  { product: 'Curry Cut', quantity: 100, price: 240 },
+  { product: 'Boneless', quantity: 20, price: 400 }
+];
+
+test('summarizeSalesLines weights the selling price by quantity', () => {
+  assert.deepEqual(summarizeSalesLines(lines), { meatSold: 120, revenue: 32000, sellingPrice: 32000 / 120 });
+  assert.deepEqual(summarizeSalesLines([]), { meatSold: 0, revenue: 0, sellingPrice: 0 });
+});
+
+test('an itemized week takes meat sold and revenue from its lines, not the money collected', () => {
+  const week = calculateRecordMetrics({
+    weekDate: '2026-10-10',
+    totalHens: 100,
+    totalLiveWeight: 200,
+    purchaseRate: 100,
+    isSalesEntryComplete: true,
+    sellingPrice: 1,
+    cashCollected: 5000,
+    salesLines: lines
+  });
+  assert.equal(week.meatSold, 120);
+  assert.equal(week.totalRevenue, 32000);
+  assert.equal(week.sellingPrice, 32000 / 120);
+  assert.deepEqual(week.salesLines.map(line => line.amount), [24000, 8000]);
+  assert.equal(week.netProfit, 12000);
+});
+
+test('salesByProduct groups older weeks as not itemized', () => {
+  const records = [
+    { isSalesEntryComplete: true, salesLines: lines },
+    { isSalesEntryComplete: true, salesLines: [{ product: 'Boneless', quantity: 10, price: 420 }] },
+    { isSalesEntryComplete: true, meatSold: 50, totalRevenue: 11000 },
+    { isSalesEntryComplete: false, salesLines: lines }
+  ];
+  assert.deepEqual(salesByProduct(records), [
+    { product: 'Curry Cut', quantity: 100, revenue: 24000 },
+    { product: 'Boneless', quantity: 30, revenue: 12200 },
+    { product: NOT_ITEMIZED, quantity: 50, revenue: 11000 }
+  ]);
+});
+
+test('each sales line needs a product, a quantity and a price', () => {
+  const errors = validateSales({ salesLines: [{ product: ' ', quantity: 0, price: 240 }] });
+  assert.deepEqual(errors, {
+    'salesLines.0.product': 'Pick a product',
+    'salesLines.0.quantity': 'Quantity must be greater than 0'
+  });
+});
@@ -0,0 +1,120 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { openingStockProblem, findCarryOverSource, openingStockFrom, withoutOpeningStock } from '../stock.js';
+import { calculateRecordMetrics, stripDerivedFields, toRequestInputs, mergeInputs } from '../metrics.js';
+
+const close = (actual, expected) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+
+const soldWeek = (fields) => ({
+  id: 'w1',
+  weekDate: '2026-10-10',
+  totalHens: 100,
+  totalLiveWeight: 200,
+  purchaseRate: 100,
+  isSalesEntryComplete: true,
+  sellingPrice: 200,
+  cashCollected: 30000,
+  ...fields
+});
+
+test('birds kept for next week leave the week at its average cost', () => {
+  const week = calculateRecordMetrics(soldWeek({ carryOverHens: 10, carryOverWeight: 20 }));
+  assert.equal(week.carryOverCost, 2000);
+  // 180 kg sold from, 150 kg of meat
+  assert.equal(week.wastage, 30);
+  close(week.wastagePercentage, (30 / 180) * 100);
+  assert.equal(week.netProfit, 30000 - 18000);
+  close(week.profitPerHen, 12000 / 90);
+});
+
+test('opening stock joins the next week with its cost', () => {
+  const source = calculateRecordMetrics(soldWeek({ carryOverHens: 10, carryOverWeight: 20 }));
+  const next = calculateRecordMetrics({
+    id: 'w2',
+    weekDate: '2026-10-17',
+    totalHens: 50,
+    totalLiveWeight: 100,
+    purchaseRate: 110,
+    isSalesEntryComplete: true,
+    sellingPrice: 200,
+    cashCollected: 24000,
+    ...openingStockFrom(source)
+  });
+  assert.equal(next.openingFromId, 'w1');
+  assert.equal(next.openingCost, 2000);
+  assert.equal(next.meatSold, 120);
+  assert.equal(next.wastage, 0);
+  assert.equal(next.netProfit, 24000 - 11000 - 2000);
+  close(next.profitPerHen, 11000 / 60);
+});
+
+test('a cleared carry-over drops its cost on recalculation', () => {
+  const kept = calculateRecordMetrics(soldWeek({ carryOverHens: 10, carryOverWeight: 20 }));
+  const cleared = calculateRecordMetrics(stripDerivedFields({ ...kept, carryOverHens: undefined, carryOverWeight: undefined }));
+  assert.equal(cleared.carryOverCost, undefined);
+  assert.equal(cleared.netProfit, 10000);
+});
+
+// What a saved form goes through on its way to the backend and back
+const throughRequest = (stored, edited) =>
+  mergeInputs(stored, JSON.parse(JSON.stringify(toRequestInputs(edited))));
+
+test('unticking the opening stock clears the link on the stored week', () => {
+  const source = calculateRecordMetrics(soldWeek({ carryOverHens: 10, carryOverWeight: 20 }));
+  const stored = calculateRecordMetrics({ ...soldWeek({ id: 'w2', weekDate: '2026-10-17' }), ...openingStockFrom(source) });
+  const saved = throughRequest(stored, { ...stored, openingFromId: undefined });
+  assert.equal('openingFromId' in saved, false);
+
+  // With no link the opening stock goes too, as the backend does
+  const week = calculateRecordMetrics(stripDerivedFields(withoutOpeningStock(saved)));
+  assert.equal(week.openingWeight, undefined);
+  assert.equal(week.openingCost, undefined);
+  assert.equal(week.netProfit, 30000 - 20000);
+});
+
+test('fields left out of a request keep their stored value', () => {
+  const stored = soldWeek({ openingFromId: 'w0', carryOverWeight: 20 });
+  const { carryOverWeight, ...edited } = stored;
+  assert.equal(throughRequest(stored, edited).carryOverWeight, 20);
+  assert.equal(throughRequest(stored, edited).openingFromId, 'w0');
+});
+
+const source = {
+  id: 'w1',
+  branchId: 'b1',
+  weekDate: '2026-10-10',
+  isSalesEntryComplete: true,
+  carryOverHens: 10,
+  carryOverWeight: 20,
+  carryOverCost: 2000
+};
+const next = { id: 'w2', branchId: 'b1', weekDate: '2026-10-17', openingFromId: 'w1' };
+
+test('a later week of the same branch can open with an unclaimed leftover', () => {
+  assert.equal(openingStockProblem(next, source, [source, next]), undefined);
+});
+
+test('openingStockProblem refuses sources that cannot be opened from', () => {
+  assert.match(openingStockProblem(next, undefined, []), /not found/);
+  assert.match(openingStockProblem(next, { ...source, deletedAt: '2026-10-18' }, []), /not found/);
+  assert.match(openingStockProblem({ ...next, id: 'w1' }, source, []), /own leftover/);
+  assert.match(openingStockProblem({ ...next, branchId: 'b2' }, source, []), /another branch/);
+  assert.match(openingStockProblem({ ...next, weekDate: '2026-10-10' }, source, []), /earlier week/);
+  assert.match(openingStockProblem(next, { ...source, isSalesEntryComplete: false }, []), /kept no birds/);
+  assert.match(openingStockProblem(next, { ...source, carryOverWeight: 0 }, []), /kept no birds/);
+});
+
+test('a leftover can be claimed by one week only', () => {
+  const other = { id: 'w3', branchId: 'b1', weekDate: '2026-10-24', openingFromId: 'w1' };
+  assert.match(openingStockProblem(next, source, [source, next, other]), /already carried/);
+  // A trashed claim no longer holds the birds
+  assert.equal(openingStockProblem(next, source, [source, next, { ...other, deletedAt: '2026-10-25' }]), undefined);
+});
+
+test('findCarryOverSource offers the latest unclaimed leftover of the branch', () => {
+  const older = { ...source, id: 'w0', weekDate: '2026-10-03' };
+  const record = { id: 'new', branchId: 'b1', weekDate: '2026-10-17' };
+  assert.equal(findCarryOverSource(record, [older, source]).id, 'w1');
+  assert.equal(findCarryOverSource(record, [older, source, { ...next, id: 'w9' }]).id, 'w0');
+  assert.equal(findCarryOverSource({ ...record, branchId: 'b2' }, [older, source]), undefined);
+});
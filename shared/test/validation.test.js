@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validatePurchase, validateSales, validateRecord } from '../validation.js';
+
+const purchase = (fields) => ({
+  weekDate: '2026-10-10',
+  totalHens: 100,
+  totalLiveWeight: 200,
+  purchaseRate: 100,
+  ...fields
+});
+
+const soldWeek = (fields) => purchase({
+  isSalesEntryComplete: true,
+  sellingPrice: 200,
+  cashCollected: 30000,
+  ...fields
+});
+
+test('a complete week with sensible figures is valid', () => {
+  assert.deepEqual(validateRecord(soldWeek({})), {});
+});
+
+test('validatePurchase reports each purchase figure under its own field', () => {
+  assert.deepEqual(validatePurchase(purchase({ weekDate: '', totalHens: 10.5, totalLiveWeight: 0, purchaseRate: -1 })), {
+    weekDate: 'Date is required',
+    totalHens: 'Must be a positive whole number',
+    totalLiveWeight: 'Weight must be greater than 0',
+    purchaseRate: 'Rate must be greater than 0'
+  });
+  assert.equal(validatePurchase(purchase({ totalHens: '100' })).totalHens, 'Must be a positive whole number');
+});
+
+test('sales rules apply only once the week is marked complete', () => {
+  assert.deepEqual(validateRecord(purchase({ sellingPrice: -5 })), {});
+  assert.equal(validateRecord(soldWeek({ sellingPrice: -5 })).sellingPrice, 'Price must be greater than 0');
+});
+
+test('collections are optional but never negative', () => {
+  assert.deepEqual(validateSales(soldWeek({ upiCollected: null })), {});
+  assert.equal(validateSales(soldWeek({ upiCollected: -1 })).upiCollected, 'Cannot be negative');
+  assert.equal(validateSales(soldWeek({ cashCollected: 'lots' })).cashCollected, 'Must be a number');
+});
+
+test('a priced week with no money taken is refused as a whole', () => {
+  assert.equal(validateSales(soldWeek({ cashCollected: 0 })).general, 'Total revenue (Cash + UPI + Credit) must be greater than 0');
+});
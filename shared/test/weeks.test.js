@@ -0,0 +1,133 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { weekStartOf, sellingDateOf, findSameWeek, mergeWeeks, mergeProblem } from '../weeks.js';
+import { calculateRecordMetrics } from '../metrics.js';
+
+// 2026-10-10 is a Saturday, 2026-10-11 a Sunday, 2026-10-14 a Wednesday
+
+test('weekStartOf files any day of a week under its Saturday by default', () => {
+  assert.equal(weekStartOf('2026-10-10'), '2026-10-10');
+  assert.equal(weekStartOf('2026-10-11'), '2026-10-10');
+  assert.equal(weekStartOf('2026-10-16'), '2026-10-10');
+  assert.equal(weekStartOf('2026-10-17'), '2026-10-17');
+});
+
+test('weekStartOf follows the configured start day', () => {
+  assert.equal(weekStartOf('2026-10-14', 0), '2026-10-11');
+  assert.equal(weekStartOf('2026-10-14', 1), '2026-10-12');
+  assert.equal(weekStartOf('2026-10-14', 3), '2026-10-14');
+  assert.equal(weekStartOf('2026-10-10', 0), '2026-10-04');
+});
+
+test('weekStartOf reads the calendar day whatever the time zone', () => {
+  // Late Saturday evening in India is already past midnight elsewhere, and
+  // early Sunday morning is still Saturday in UTC
+  assert.equal(weekStartOf('2026-10-10T23:30:00+05:30'), '2026-10-10');
+  assert.equal(weekStartOf('2026-10-11T01:00:00+05:30', 0), '2026-10-11');
+  assert.equal(weekStartOf('2026-10-11T00:00:00.000Z', 0), '2026-10-11');
+});
+
+test('weekStartOf crosses month and year ends', () => {
+  assert.equal(weekStartOf('2026-11-01'), '2026-10-31');
+  assert.equal(weekStartOf('2027-01-01'), '2026-12-26');
+});
+
+test('weekStartOf returns unreadable dates unchanged for validation to report', () => {
+  assert.equal(weekStartOf(''), '');
+  assert.equal(weekStartOf('next week'), 'next week');
+  assert.equal(weekStartOf(undefined), undefined);
+});
+
+test('sellingDateOf is the Sunday inside the week, whatever day it starts on', () => {
+  [0, 1, 3, 6].forEach(startDay => {
+    const weekDate = weekStartOf('2026-10-14', startDay);
+    const sunday = sellingDateOf(weekDate);
+    assert.equal(new Date(`${sunday}T00:00:00Z`).getUTCDay(), 0);
+    assert.ok(sunday >= weekDate);
+    assert.equal(weekStartOf(sunday, startDay), weekDate);
+  });
+});
+
+test('findSameWeek ignores the record itself, trashed weeks and other branches', () => {
+  const record = { id: 'a', branchId: 'b1', weekDate: '2026-10-10' };
+  assert.equal(findSameWeek(record, [record]), undefined);
+  assert.equal(findSameWeek(record, [{ id: 'b', branchId: 'b1', weekDate: '2026-10-10', deletedAt: '2026-10-12' }]), undefined);
+  assert.equal(findSameWeek(record, [{ id: 'c', branchId: 'b2', weekDate: '2026-10-10' }]), undefined);
+  assert.equal(findSameWeek(record, [{ id: 'd', branchId: 'b1', weekDate: '2026-10-10' }]).id, 'd');
+});
+
+const week = (fields) => calculateRecordMetrics({
+  weekDate: '2026-10-10',
+  totalHens: 0,
+  totalLiveWeight: 0,
+  purchaseRate: 0,
+  ...fields
+});
+
+test('mergeWeeks adds up lots, money and cash counts and re-averages the selling price', () => {
+  const keep = week({
+    purchaseLots: [{ supplier: 'Farm A', hens: 50, liveWeight: 100, rate: 100 }],
+    isSalesEntryComplete: true,
+    sellingPrice: 200,
+    cashCollected: 16000,
+    carryOverHens: 2,
+    carryOverWeight: 4,
+    cashDenominations: [{ value: 500, count: 20 }, { value: 100, count: 10 }]
+  });
+  const other = week({
+    weekDate: '2026-10-11',
+    purchaseLots: [{ supplier: 'Farm B', hens: 25, liveWeight: 50, rate: 120 }],
+    isSalesEntryComplete: true,
+    sellingPrice: 250,
+    cashCollected: 5000,
+    upiCollected: 5000,
+    expenses: [{ category: 'Ice', amount: 300 }],
+    cashDenominations: [{ value: 100, count: 5 }, { value: 50, count: 2 }]
+  });
+
+  const merged = calculateRecordMetrics(mergeWeeks(keep, other));
+  assert.equal(merged.purchaseLots.length, 2);
+  assert.equal(merged.totalHens, 75);
+  assert.equal(merged.totalLiveWeight, 150);
+  assert.equal(merged.totalPurchaseCost, 16000);
+  assert.equal(merged.cashCollected, 21000);
+  assert.equal(merged.upiCollected, 5000);
+  assert.equal(merged.carryOverWeight, 4);
+  assert.deepEqual(merged.expenses, [{ category: 'Ice', amount: 300 }]);
+  // 80 kg at 200 and 40 kg at 250 sold 120 kg for 26000
+  assert.equal(merged.totalRevenue, 26000);
+  assert.ok(Math.abs(merged.sellingPrice - 26000 / 120) < 1e-9);
+  assert.ok(Math.abs(merged.meatSold - 120) < 1e-9);
+  assert.deepEqual(
+    [...merged.cashDenominations].sort((a, b) => b.value - a.value),
+    [{ value: 500, count: 20 }, { value: 100, count: 15 }, { value: 50, count: 2 }]
+  );
+});
+
+test('mergeWeeks keeps sales lines when the other record has no sales yet', () => {
+  const keep = week({ isSalesEntryComplete: true, totalLiveWeight: 20, purchaseRate: 100, salesLines: [{ product: 'Curry cut', quantity: 10, price: 250 }] });
+  const other = week({ totalHens: 5, totalLiveWeight: 10, purchaseRate: 100 });
+  assert.equal(mergeProblem(keep, other), undefined);
+  const merged = calculateRecordMetrics(mergeWeeks(keep, other));
+  assert.equal(merged.salesLines.length, 1);
+  assert.equal(merged.totalRevenue, 2500);
+});
+
+test('mergeProblem refuses merges that would lose data', () => {
+  const itemized = week({ isSalesEntryComplete: true, totalLiveWeight: 20, purchaseRate: 100, salesLines: [{ product: 'Curry cut', quantity: 10, price: 250 }] });
+  const typed = week({ isSalesEntryComplete: true, totalLiveWeight: 10, purchaseRate: 100, sellingPrice: 240, cashCollected: 2400 });
+  assert.match(mergeProblem(itemized, typed), /itemized/);
+  assert.match(mergeProblem(typed, itemized), /itemized/);
+  assert.match(mergeProblem({ openingFromId: 'x' }, { openingFromId: 'y' }), /leftover/);
+  assert.equal(mergeProblem({ openingFromId: 'x' }, { openingFromId: 'x' }), undefined);
+  assert.equal(mergeProblem({ openingFromId: 'x' }, {}), undefined);
+});
+
+test('mergeWeeks takes the opening stock from whichever record opened with it', () => {
+  const opening = { openingFromId: 'w1', openingHens: 3, openingWeight: 6, openingCost: 600 };
+  const merged = mergeWeeks(week({}), week(opening));
+  assert.deepEqual(
+    { openingFromId: merged.openingFromId, openingHens: merged.openingHens, openingWeight: merged.openingWeight, openingCost: merged.openingCost },
+    opening
+  );
+});
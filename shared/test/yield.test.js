@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { yieldBreakdown, hasYieldInputs } from '../yield.js';
+import { calculateRecordMetrics, stripDerivedFields, toRequestInputs, mergeInputs } from '../metrics.js';
+
+const close = (actual, expected) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+
+// 200 kg live, 150 kg of meat sold
+const soldWeek = (fields) => ({
+  id: 'w1',
+  weekDate: '2026-10-10',
+  totalHens: 100,
+  totalLiveWeight: 200,
+  purchaseRate: 100,
+  isSalesEntryComplete: true,
+  sellingPrice: 200,
+  cashCollected: 30000,
+  ...fields
+});
+
+test('yieldBreakdown splits the live weight into its parts', () => {
+  const parts = yieldBreakdown({ ...soldWeek({ mortalityWeight: 10, dressedWeight: 160, leftoverWeight: 6 }), meatSold: 150 });
+  assert.equal(parts.mortalityPercentage, 5);
+  assert.equal(parts.leftoverPercentage, 3);
+  close(parts.dressingYield, (160 / 190) * 100);
+  assert.equal(parts.dressingLossPercentage, 15);
+  assert.equal(parts.unexplainedShrinkage, 4);
+  assert.equal(parts.unexplainedPercentage, 2);
+  // Together they make up the wastage
+  close(parts.mortalityPercentage + parts.dressingLossPercentage + parts.leftoverPercentage + parts.unexplainedPercentage, 25);
+});
+
+test('yieldBreakdown leaves unset the parts not entered', () => {
+  assert.deepEqual(yieldBreakdown(soldWeek({})), {});
+  assert.equal(hasYieldInputs(soldWeek({ mortalityCount: 2 })), false);
+  assert.deepEqual(Object.keys(yieldBreakdown({ ...soldWeek({ mortalityWeight: 0 }), meatSold: 150 })), ['mortalityPercentage']);
+});
+
+test('stale derived fields do not survive a recalculation from the inputs', () => {
+  const stale = soldWeek({ dressingYield: 70, unexplainedShrinkage: 3, mortalityPercentage: 2, carryOverCost: 300, cashVariance: -50 });
+  const week = calculateRecordMetrics(stripDerivedFields(stale));
+  ['dressingYield', 'unexplainedShrinkage', 'mortalityPercentage', 'carryOverCost', 'cashVariance']
+    .forEach(field => assert.equal(week[field], undefined, field));
+});
+
+test('yield weights blanked in the form are cleared on the stored week', () => {
+  const stored = calculateRecordMetrics(soldWeek({ mortalityWeight: 5, dressedWeight: 150 }));
+  assert.ok(stored.dressingYield > 0);
+
+  const edited = { ...stored, mortalityWeight: undefined, dressedWeight: undefined };
+  const saved = mergeInputs(stored, JSON.parse(JSON.stringify(toRequestInputs(edited))));
+  assert.equal('mortalityWeight' in saved, false);
+  assert.equal('dressedWeight' in saved, false);
+
+  const week = calculateRecordMetrics(saved);
+  assert.equal(week.dressingYield, undefined);
+  assert.equal(week.mortalityPercentage, undefined);
+});
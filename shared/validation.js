@@ -0,0 +1,227 @@
+// Input rules for a weekly record, shared by the entry forms and the backend.
+// Each validator returns { [field]: message }; an empty object means valid.
+// `general` holds errors that span several fields.
+
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+const isMissing = (value) => value === undefined || value === null || value === '';
+
+// Hens, weight and rate of one purchase, keyed as on a purchase lot
+const validatePurchaseFigures = (hens, liveWeight, rate) => {
+  const errors = {};
+
+  if (!isNumber(hens) || hens <= 0 || !Number.isInteger(hens)) {
+    errors.hens = 'Must be a positive whole number';
+  }
+
+  if (!isNumber(liveWeight) || liveWeight <= 0) {
+    errors.liveWeight = 'Weight must be greater than 0';
+  }
+
+  if (!isNumber(rate) || rate <= 0) {
+    errors.rate = 'Rate must be greater than 0';
+  }
+
+  return errors;
+};
+
+// Supplier payments made against one lot (missing means paid in full)
+const validatePayments = (lot) => {
+  if (!lot || lot.payments === undefined || lot.payments === null) return {};
+  if (!Array.isArray(lot.payments)) return { payments: 'Payments must be a list' };
+
+  const invalid = lot.payments.some(payment =>
+    !payment || !isNumber(payment.amount) || payment.amount <= 0 ||
+    !payment.date || Number.isNaN(new Date(payment.date).getTime())
+  );
+  if (invalid) return { payments: 'Each payment needs an amount above 0 and a date' };
+
+  // Checked only once the lot's figures are valid, to the nearest rupee
+  const cost = lot.liveWeight * lot.rate;
+  const paid = lot.payments.reduce((sum, payment) => sum + payment.amount, 0);
+  if (isNumber(cost) && Math.round(paid) > Math.round(cost)) {
+    return { payments: 'Payments add up to more than the lot cost' };
+  }
+  return {};
+};
+
+// Counter sales logged on the POS screen. Checked whether or not the week is
+// complete, since the day can be closed before sales entry is finished.
+const validateTransactions = (record) => {
+  if (record.posTransactions === undefined || record.posTransactions === null) return {};
+  if (!Array.isArray(record.posTransactions)) return { posTransactions: 'Transactions must be a list' };
+
+  const invalid = record.posTransactions.some(t =>
+    !t || !isNumber(t.weight) || t.weight <= 0 || !isNumber(t.price) || t.price <= 0 ||
+    !['cash', 'upi'].includes(t.mode) || !t.at || Number.isNaN(new Date(t.at).getTime())
+  );
+  return invalid ? { posTransactions: 'Each counter sale needs a weight, a price, cash or UPI and a time' } : {};
+};
+
+// Saturday purchase inputs
+export const validatePurchase = (record) => {
+  const errors = {};
+
+  if (!record.weekDate || Number.isNaN(new Date(record.weekDate).getTime())) {
+    errors.weekDate = 'Date is required';
+  }
+
+  // Weeks bought in lots are checked lot by lot, under `purchaseLots.<index>.<field>`;
+  // their totals are computed from the lots
+  if (Array.isArray(record.purchaseLots) && record.purchaseLots.length > 0) {
+    record.purchaseLots.forEach((lot, index) => {
+      const lotErrors = {
+        ...validatePurchaseFigures(lot?.hens, lot?.liveWeight, lot?.rate),
+        ...validatePayments(lot)
+      };
+      Object.entries(lotErrors).forEach(([field, message]) => {
+        errors[`purchaseLots.${index}.${field}`] = message;
+      });
+    });
+    return errors;
+  }
+
+  const figureErrors = validatePurchaseFigures(record.totalHens, record.totalLiveWeight, record.purchaseRate);
+  if (figureErrors.hens) errors.totalHens = figureErrors.hens;
+  if (figureErrors.liveWeight) errors.totalLiveWeight = figureErrors.liveWeight;
+  if (figureErrors.rate) errors.purchaseRate = figureErrors.rate;
+
+  return errors;
+};
+
+// Sunday sales inputs. Collections, credit sales and expenses are optional but never negative.
+export const validateSales = (record) => {
+  const errors = {};
+
+  // Itemized weeks are priced per line, under `salesLines.<index>.<field>`;
+  // their average selling price is computed from the lines
+  const salesLines = Array.isArray(record.salesLines) ? record.salesLines : [];
+  if (salesLines.length > 0) {
+    salesLines.forEach((line, index) => {
+      if (!line || typeof line.product !== 'string' || line.product.trim() === '') {
+        errors[`salesLines.${index}.product`] = 'Pick a product';
+      }
+      if (!isNumber(line?.quantity) || line.quantity <= 0) {
+        errors[`salesLines.${index}.quantity`] = 'Quantity must be greater than 0';
+      }
+      if (!isNumber(line?.price) || line.price <= 0) {
+        errors[`salesLines.${index}.price`] = 'Price must be greater than 0';
+      }
+    });
+  } else if (!isNumber(record.sellingPrice) || record.sellingPrice <= 0) {
+    errors.sellingPrice = 'Price must be greater than 0';
+  }
+
+  ['cashCollected', 'upiCollected'].forEach(field => {
+    const value = record[field];
+    if (isMissing(value)) return;
+    if (!isNumber(value)) {
+      errors[field] = 'Must be a number';
+    } else if (value < 0) {
+      errors[field] = 'Cannot be negative';
+    }
+  });
+
+  // Expense lines report under `expenses.<index>.<field>`
+  (Array.isArray(record.expenses) ? record.expenses : []).forEach((line, index) => {
+    if (!line || typeof line.category !== 'string' || line.category.trim() === '') {
+      errors[`expenses.${index}.category`] = 'Pick a category';
+    }
+    if (!isNumber(line?.amount)) {
+      errors[`expenses.${index}.amount`] = 'Must be a number';
+    } else if (line.amount <= 0) {
+      errors[`expenses.${index}.amount`] = 'Must be greater than 0';
+    }
+    if (!isMissing(line?.mode) && line.mode !== 'cash' && line.mode !== 'upi') {
+      errors[`expenses.${index}.mode`] = 'Paid by cash or UPI';
+    }
+  });
+
+  // Birds kept for next week, and the yield weights, are optional and never
+  // negative. They must fit inside what the week had: its purchase plus any
+  // opening stock.
+  const available = {
+    hens: (Number(record.totalHens) || 0) + (Number(record.openingHens) || 0),
+    weight: (Number(record.totalLiveWeight) || 0) + (Number(record.openingWeight) || 0)
+  };
+  ['carryOverHens', 'carryOverWeight', 'mortalityCount', 'mortalityWeight', 'dressedWeight', 'leftoverWeight'].forEach(field => {
+    const value = record[field];
+    if (isMissing(value)) return;
+    if (!isNumber(value)) {
+      errors[field] = 'Must be a number';
+    } else if (value < 0) {
+      errors[field] = 'Cannot be negative';
+    }
+  });
+  ['carryOverHens', 'mortalityCount'].forEach(field => {
+    if (errors[field] || !isNumber(record[field])) return;
+    if (!Number.isInteger(record[field])) {
+      errors[field] = 'Must be a whole number';
+    }
+  });
+  const kept = isNumber(record.carryOverWeight) ? record.carryOverWeight : 0;
+  const keptHens = isNumber(record.carryOverHens) ? record.carryOverHens : 0;
+  if (!errors.carryOverHens && !errors.carryOverWeight && (keptHens > 0) !== (kept > 0)) {
+    errors[keptHens > 0 ? 'carryOverWeight' : 'carryOverHens'] = 'Enter both the birds kept and their weight';
+  }
+  const mortality = isNumber(record.mortalityWeight) ? record.mortalityWeight : 0;
+  const died = isNumber(record.mortalityCount) ? record.mortalityCount : 0;
+  // Reported on the birds kept when there are any, else on the dead birds
+  const hensField = keptHens > 0 ? 'carryOverHens' : 'mortalityCount';
+  if (!errors[hensField] && died + keptHens > available.hens) {
+    errors[hensField] = 'More birds than the week had';
+  }
+  const weightField = kept > 0 ? 'carryOverWeight' : 'mortalityWeight';
+  if (!errors[weightField] && mortality + kept > available.weight) {
+    errors[weightField] = 'More than the live weight the week had';
+  }
+  if (!errors.dressedWeight && isNumber(record.dressedWeight) && record.dressedWeight > available.weight - kept - mortality) {
+    errors.dressedWeight = 'Cannot be more than the live weight of the birds slaughtered';
+  }
+  if (!errors.leftoverWeight && isNumber(record.leftoverWeight) && isNumber(record.dressedWeight) && record.leftoverWeight > record.dressedWeight) {
+    errors.leftoverWeight = 'Cannot be more than the dressed weight';
+  }
+
+  // Cash drawer count: opening float plus notes and coins, each never negative
+  if (!isMissing(record.cashFloat) && (!isNumber(record.cashFloat) || record.cashFloat < 0)) {
+    errors.cashFloat = 'Opening float cannot be negative';
+  }
+  if (record.cashDenominations !== undefined && record.cashDenominations !== null) {
+    const rowsValid = Array.isArray(record.cashDenominations) && record.cashDenominations.every(row =>
+      isNumber(row?.value) && row.value > 0 && isNumber(row?.count) && row.count >= 0 && Number.isInteger(row.count));
+    if (!rowsValid) {
+      errors.cashDenominations = 'Counts must be whole numbers, 0 or more';
+    }
+  }
+
+  // Credit sales report under `creditSales.<index>.<field>`
+  const creditSales = Array.isArray(record.creditSales) ? record.creditSales : [];
+  creditSales.forEach((sale, index) => {
+    if (!sale || typeof sale.customer !== 'string' || sale.customer.trim() === '') {
+      errors[`creditSales.${index}.customer`] = 'Pick a customer';
+    }
+    if (!isNumber(sale?.amount)) {
+      errors[`creditSales.${index}.amount`] = 'Must be a number';
+    } else if (sale.amount <= 0) {
+      errors[`creditSales.${index}.amount`] = 'Must be greater than 0';
+    }
+  });
+
+  // Itemized revenue is checked line by line above
+  if (salesLines.length > 0) return errors;
+
+  // Ensure at least some revenue is entered if price is set
+  const credit = creditSales.reduce((sum, sale) => sum + (Number(sale?.amount) || 0), 0);
+  const revenue = (Number(record.cashCollected) || 0) + (Number(record.upiCollected) || 0) + credit;
+  if (!errors.sellingPrice && revenue <= 0) {
+    errors.general = 'Total revenue (Cash + UPI + Credit) must be greater than 0';
+  }
+
+  return errors;
+};
+
+// Full record: sales rules apply once the week is marked complete
+export const validateRecord = (record) => ({
+  ...validatePurchase(record),
+  ...validateTransactions(record),
+  ...(record.isSalesEntryComplete ? validateSales(record) : {})
+});
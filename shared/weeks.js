@@ -0,0 +1,119 @@
+// One record per branch per week. `weekDate` is the first day of the week the
+// purchase belongs to (Saturday unless the shop configures another day), so
+// any date typed in that week files under the same record.
+import { getPurchaseLots, summarizeLots } from './purchases.js';
+import { getExpenseLines } from './expenses.js';
+import { getCreditSales } from './credit.js';
+import { hasSalesLines } from './sales.js';
+
+// 0 = Sunday ... 6 = Saturday, as Date.getDay()
+export const DEFAULT_WEEK_START_DAY = 6;
+
+const idOf = (record) => String(record.id || record._id || '');
+
+// YYYY-MM-DD of the week-start day on or before `date`. Dates are read as
+// calendar days, so the time zone cannot move them; unreadable ones are
+// returned unchanged for validation to report.
+export const weekStartOf = (date, weekStartDay = DEFAULT_WEEK_START_DAY) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date || '');
+  if (!match) return date;
+  const day = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  if (Number.isNaN(day.getTime())) return date;
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() - weekStartDay + 7) % 7));
+  return day.toISOString().slice(0, 10);
+};
+
+// YYYY-MM-DD of the week's Sunday, the day the shop sells. Every week holds
+// exactly one, whichever day it starts on.
+export const sellingDateOf = (weekDate) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(weekDate || '');
+  if (!match) return weekDate;
+  const day = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  if (Number.isNaN(day.getTime())) return weekDate;
+  day.setUTCDate(day.getUTCDate() + ((7 - day.getUTCDay()) % 7));
+  return day.toISOString().slice(0, 10);
+};
+
+// The other live record of the same branch and week, if any
+export const findSameWeek = (record, records) =>
+  records.find(other =>
+    !other.deletedAt &&
+    idOf(other) !== idOf(record) &&
+    String(other.branchId || '') === String(record.branchId || '') &&
+    other.weekDate === record.weekDate);
+
+const sumOptional = (a, b) =>
+  a === undefined && b === undefined ? undefined : (Number(a) || 0) + (Number(b) || 0);
+
+const later = (a, b) => (!a ? b : !b ? a : a > b ? a : b);
+
+const concatOptional = (a, b) =>
+  Array.isArray(a) || Array.isArray(b) ? [...(a || []), ...(b || [])] : undefined;
+
+// Cash counts of both drawers, note by note
+const mergeDenominations = (a, b) => {
+  if (!Array.isArray(a) && !Array.isArray(b)) return undefined;
+  const counts = new Map();
+  [...(a || []), ...(b || [])].forEach(row => counts.set(row.value, (counts.get(row.value) || 0) + (Number(row.count) || 0)));
+  return Array.from(counts, ([value, count]) => ({ value, count }));
+};
+
+const MERGED_TOTALS = [
+  'cashCollected', 'upiCollected', 'mortalityCount', 'mortalityWeight', 'dressedWeight', 'leftoverWeight',
+  'carryOverHens', 'carryOverWeight', 'cashFloat'
+];
+
+// Why `keep` and `other` (two records of the same week) cannot be merged
+// without losing data; undefined if they can
+export const mergeProblem = (keep, other) => {
+  if (keep.openingFromId && other.openingFromId && String(keep.openingFromId) !== String(other.openingFromId)) {
+    return 'Both records opened with leftover birds, from different weeks';
+  }
+  const sold = (record) => Boolean(record.isSalesEntryComplete) || (Number(record.totalRevenue) || 0) > 0;
+  if (hasSalesLines(keep) !== hasSalesLines(other) && sold(hasSalesLines(keep) ? other : keep)) {
+    return 'Only one record itemized its sales, so the product mix would be lost';
+  }
+  return undefined;
+};
+
+// The inputs of `keep` with `other` (a second record of the same week) folded
+// in: lots, lines and money added up. Pass calculated records, and check
+// mergeProblem first. Weeks without sales lines get the average selling price
+// over both weeks' meat sold. Derived fields are left for
+// calculateRecordMetrics.
+export const mergeWeeks = (keep, other) => {
+  const purchaseLots = [...getPurchaseLots(keep), ...getPurchaseLots(other)];
+  const { totalHens, totalLiveWeight, purchaseRate } = summarizeLots(purchaseLots);
+  const itemized = hasSalesLines(keep) || hasSalesLines(other);
+  const meatSold = (Number(keep.meatSold) || 0) + (Number(other.meatSold) || 0);
+  const revenue = (Number(keep.totalRevenue) || 0) + (Number(other.totalRevenue) || 0);
+  const opening = keep.openingFromId ? keep : other;
+
+  const merged = {
+    ...keep,
+    createdAt: [keep.createdAt, other.createdAt].filter(Boolean).sort()[0],
+    purchaseLots,
+    totalHens,
+    totalLiveWeight,
+    purchaseRate,
+    openingFromId: opening.openingFromId,
+    openingHens: opening.openingHens,
+    openingWeight: opening.openingWeight,
+    openingCost: opening.openingCost,
+    isSalesEntryComplete: Boolean(keep.isSalesEntryComplete || other.isSalesEntryComplete),
+    salesCompletedAt: later(keep.salesCompletedAt, other.salesCompletedAt),
+    salesLines: itemized ? [...(keep.salesLines || []), ...(other.salesLines || [])] : undefined,
+    sellingPrice: itemized ? keep.sellingPrice : meatSold > 0 ? revenue / meatSold : keep.sellingPrice ?? other.sellingPrice,
+    creditSales: [...getCreditSales(keep), ...getCreditSales(other)],
+    posTransactions: concatOptional(keep.posTransactions, other.posTransactions),
+    expenses: [...getExpenseLines(keep), ...getExpenseLines(other)],
+    expenseTea: undefined,
+    expenseFuel: undefined,
+    cashDenominations: mergeDenominations(keep.cashDenominations, other.cashDenominations),
+    cashCountedAt: later(keep.cashCountedAt, other.cashCountedAt)
+  };
+  MERGED_TOTALS.forEach(field => {
+    merged[field] = sumOptional(keep[field], other[field]);
+  });
+  return merged;
+};
@@ -0,0 +1,43 @@
+// Where the live weight went, for weeks with the optional yield inputs:
+// `mortalityCount` and `mortalityWeight` (birds dead before slaughter, live kg),
+// `dressedWeight` (meat weighed after dressing) and `leftoverWeight` (meat
+// dressed but not sold). Each part is a share of the live weight the week
+// sold from (see stock.js); together they add up to the wastage percentage.
+import { stockWeight } from './stock.js';
+
+const isEntered = (value) => value !== undefined && value !== null && value !== '';
+
+export const hasYieldInputs = (record) =>
+  ['mortalityWeight', 'dressedWeight', 'leftoverWeight'].some(field => isEntered(record[field]));
+
+// Parts left unset are those the inputs cannot tell apart:
+// - mortalityPercentage: dead birds' weight
+// - dressingYield: dressed meat as a share of the birds that were slaughtered
+// - dressingLossPercentage: feathers, blood and offal
+// - leftoverPercentage: dressed meat not sold
+// - unexplainedShrinkage (kg) and unexplainedPercentage: dressed meat neither
+//   sold nor left over, such as giveaways, weighing errors or theft
+export const yieldBreakdown = (record) => {
+  const live = stockWeight(record);
+  if (live <= 0 || !hasYieldInputs(record)) return {};
+
+  const share = (kg) => (kg / live) * 100;
+  const mortality = Number(record.mortalityWeight) || 0;
+  const leftover = Number(record.leftoverWeight) || 0;
+  const breakdown = {};
+
+  if (isEntered(record.mortalityWeight)) breakdown.mortalityPercentage = share(mortality);
+  if (isEntered(record.leftoverWeight)) breakdown.leftoverPercentage = share(leftover);
+
+  if (isEntered(record.dressedWeight)) {
+    const dressed = Number(record.dressedWeight) || 0;
+    const slaughtered = live - mortality;
+    const unexplained = dressed - leftover - (Number(record.meatSold) || 0);
+    breakdown.dressingYield = slaughtered > 0 ? (dressed / slaughtered) * 100 : 0;
+    breakdown.dressingLossPercentage = share(slaughtered - dressed);
+    breakdown.unexplainedShrinkage = unexplained;
+    breakdown.unexplainedPercentage = share(unexplained);
+  }
+
+  return breakdown;
+};